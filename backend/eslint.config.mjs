@@ -19,6 +19,8 @@ export default [
         __dirname: 'readonly',
         __filename: 'readonly',
         global: 'readonly',
+        setTimeout: 'readonly',
+        clearTimeout: 'readonly',
         module: 'readonly',
         require: 'readonly',
         exports: 'readonly',
@@ -28,7 +30,8 @@ export default [
       '@typescript-eslint': tseslint,
     },
     rules: {
-      // TypeScript específicas
+      // TypeScript específicas (a regra do core acusa parâmetros de assinaturas)
+      'no-unused-vars': 'off',
       '@typescript-eslint/no-unused-vars': ['error', { argsIgnorePattern: '^_' }],
       '@typescript-eslint/explicit-function-return-type': 'off',
       '@typescript-eslint/explicit-module-boundary-types': 'off',
@@ -6,6 +6,10 @@ module.exports = {
     '**/__tests__/**/*.ts',
     '**/?(*.)+(spec|test).ts'
   ],
+  testPathIgnorePatterns: [
+    '/node_modules/',
+    '/__tests__/helpers/'
+  ],
   transform: {
     '^.+\.ts$': 'ts-jest'
   },
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "flight_segments" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "flightId" TEXT NOT NULL,
+    "sliceIndex" INTEGER NOT NULL DEFAULT 0,
+    "segmentIndex" INTEGER NOT NULL,
+    "airlineCode" TEXT NOT NULL,
+    "operatingAirlineCode" TEXT,
+    "flightNumber" TEXT NOT NULL,
+    "departureCode" TEXT NOT NULL,
+    "arrivalCode" TEXT NOT NULL,
+    "departureTime" DATETIME NOT NULL,
+    "arrivalTime" DATETIME NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "aircraft" TEXT,
+    "layoverDuration" INTEGER,
+    CONSTRAINT "flight_segments_flightId_fkey" FOREIGN KEY ("flightId") REFERENCES "flights" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "flight_segments_flightId_sliceIndex_segmentIndex_key" ON "flight_segments"("flightId", "sliceIndex", "segmentIndex");
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "provider_quotas" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "provider" TEXT NOT NULL,
+    "dailyLimit" INTEGER,
+    "monthlyLimit" INTEGER,
+    "dailyCalls" INTEGER NOT NULL DEFAULT 0,
+    "monthlyCalls" INTEGER NOT NULL DEFAULT 0,
+    "dayKey" TEXT NOT NULL,
+    "monthKey" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "provider_quotas_provider_key" ON "provider_quotas"("provider");
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "search_sessions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "params" TEXT NOT NULL,
+    "offers" TEXT NOT NULL,
+    "resultsCount" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "search_sessions_expiresAt_idx" ON "search_sessions"("expiresAt");
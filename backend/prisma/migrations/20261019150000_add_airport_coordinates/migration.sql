@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "airports" ADD COLUMN "latitude" REAL;
+ALTER TABLE "airports" ADD COLUMN "longitude" REAL;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "airlines" ADD COLUMN "icaoCode" TEXT;
+ALTER TABLE "airlines" ADD COLUMN "alliance" TEXT;
+
+-- AlterTable
+ALTER TABLE "airports" ADD COLUMN "icaoCode" TEXT;
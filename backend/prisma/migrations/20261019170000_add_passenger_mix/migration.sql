@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "alerts" ADD COLUMN "adults" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "alerts" ADD COLUMN "children" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "alerts" ADD COLUMN "infants" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "searches" ADD COLUMN "adults" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "searches" ADD COLUMN "children" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "searches" ADD COLUMN "infants" INTEGER NOT NULL DEFAULT 0;
+
+-- Buscas antigas informavam só o total: todos adultos
+UPDATE "searches" SET "adults" = "passengers" WHERE "passengers" > 1;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "searches" ADD COLUMN "searchType" TEXT NOT NULL DEFAULT 'search';
+ALTER TABLE "searches" ADD COLUMN "flexibleDays" INTEGER;
+ALTER TABLE "searches" ADD COLUMN "filters" TEXT;
+
+-- CreateIndex
+CREATE INDEX "searches_userId_createdAt_idx" ON "searches"("userId", "createdAt");
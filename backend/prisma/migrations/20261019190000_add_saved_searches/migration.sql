@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "saved_searches" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "departureCode" TEXT NOT NULL,
+    "arrivalCode" TEXT NOT NULL,
+    "departureDate" DATETIME NOT NULL,
+    "returnDate" DATETIME,
+    "adults" INTEGER NOT NULL DEFAULT 1,
+    "children" INTEGER NOT NULL DEFAULT 0,
+    "infants" INTEGER NOT NULL DEFAULT 0,
+    "classType" TEXT NOT NULL DEFAULT 'business',
+    "filters" TEXT,
+    "intervalHours" INTEGER NOT NULL DEFAULT 6,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "lastRunAt" DATETIME,
+    "lastViewedSnapshotId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "saved_searches_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "saved_search_snapshots" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "savedSearchId" TEXT NOT NULL,
+    "flights" TEXT NOT NULL,
+    "resultsCount" INTEGER NOT NULL DEFAULT 0,
+    "minPrice" REAL,
+    "currency" TEXT NOT NULL DEFAULT 'BRL',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "saved_search_snapshots_savedSearchId_fkey" FOREIGN KEY ("savedSearchId") REFERENCES "saved_searches" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "saved_searches_userId_idx" ON "saved_searches"("userId");
+
+-- CreateIndex
+CREATE INDEX "saved_search_snapshots_savedSearchId_createdAt_idx" ON "saved_search_snapshots"("savedSearchId", "createdAt");
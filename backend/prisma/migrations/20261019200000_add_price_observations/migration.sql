@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "price_observations" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "origin" TEXT NOT NULL,
+    "destination" TEXT NOT NULL,
+    "departureDate" DATETIME NOT NULL,
+    "isRoundTrip" BOOLEAN NOT NULL DEFAULT false,
+    "airlineCode" TEXT NOT NULL,
+    "airlineName" TEXT NOT NULL,
+    "flightNumber" TEXT NOT NULL,
+    "classType" TEXT NOT NULL,
+    "stops" INTEGER NOT NULL DEFAULT 0,
+    "daysBeforeDeparture" INTEGER NOT NULL,
+    "source" TEXT NOT NULL,
+    "price" REAL NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'BRL',
+    "observedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "price_observations_origin_destination_observedAt_idx" ON "price_observations"("origin", "destination", "observedAt");
+
+-- CreateIndex
+CREATE INDEX "price_observations_origin_destination_departureDate_idx" ON "price_observations"("origin", "destination", "departureDate");
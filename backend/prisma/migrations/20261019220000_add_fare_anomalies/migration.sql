@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "price_observations" ADD COLUMN "returnDate" DATETIME;
+ALTER TABLE "price_observations" ADD COLUMN "fareBasis" TEXT;
+
+-- CreateTable
+CREATE TABLE "fare_anomalies" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "origin" TEXT NOT NULL,
+    "destination" TEXT NOT NULL,
+    "departureDate" DATETIME NOT NULL,
+    "returnDate" DATETIME,
+    "isRoundTrip" BOOLEAN NOT NULL DEFAULT false,
+    "classType" TEXT NOT NULL,
+    "airlineCode" TEXT NOT NULL,
+    "airlineName" TEXT NOT NULL,
+    "flightNumber" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "fareBasis" TEXT,
+    "reason" TEXT NOT NULL,
+    "price" REAL NOT NULL,
+    "verifiedPrice" REAL,
+    "currency" TEXT NOT NULL DEFAULT 'BRL',
+    "baselineMedian" REAL NOT NULL,
+    "baselineSpread" REAL NOT NULL,
+    "deviations" REAL NOT NULL,
+    "dropPercent" REAL NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "observedAt" DATETIME NOT NULL,
+    "verifiedAt" DATETIME,
+    "notifiedUsers" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "price_observations_observedAt_idx" ON "price_observations"("observedAt");
+
+-- CreateIndex
+CREATE INDEX "fare_anomalies_status_createdAt_idx" ON "fare_anomalies"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "fare_anomalies_origin_destination_classType_idx" ON "fare_anomalies"("origin", "destination", "classType");
@@ -40,7 +40,9 @@ async function main() {
         name: 'Aeroporto Internacional de São Paulo/Guarulhos',
         city: 'São Paulo',
         country: 'Brasil',
-        timezone: 'America/Sao_Paulo'
+        timezone: 'America/Sao_Paulo',
+        latitude: -23.4356,
+        longitude: -46.4731
       }
     }),
     prisma.airport.create({
@@ -49,7 +51,9 @@ async function main() {
         name: 'Aeroporto de São Paulo/Congonhas',
         city: 'São Paulo',
         country: 'Brasil',
-        timezone: 'America/Sao_Paulo'
+        timezone: 'America/Sao_Paulo',
+        latitude: -23.6261,
+        longitude: -46.6564
       }
     }),
     prisma.airport.create({
@@ -58,7 +62,9 @@ async function main() {
         name: 'Aeroporto Internacional do Rio de Janeiro/Galeão',
         city: 'Rio de Janeiro',
         country: 'Brasil',
-        timezone: 'America/Sao_Paulo'
+        timezone: 'America/Sao_Paulo',
+        latitude: -22.8100,
+        longitude: -43.2506
       }
     }),
     prisma.airport.create({
@@ -67,7 +73,31 @@ async function main() {
         name: 'Aeroporto Internacional de Brasília',
         city: 'Brasília',
         country: 'Brasil',
-        timezone: 'America/Sao_Paulo'
+        timezone: 'America/Sao_Paulo',
+        latitude: -15.8711,
+        longitude: -47.9186
+      }
+    }),
+    prisma.airport.create({
+      data: {
+        code: 'VCP',
+        name: 'Aeroporto Internacional de Viracopos/Campinas',
+        city: 'Campinas',
+        country: 'Brasil',
+        timezone: 'America/Sao_Paulo',
+        latitude: -23.0074,
+        longitude: -47.1345
+      }
+    }),
+    prisma.airport.create({
+      data: {
+        code: 'SDU',
+        name: 'Aeroporto Santos Dumont',
+        city: 'Rio de Janeiro',
+        country: 'Brasil',
+        timezone: 'America/Sao_Paulo',
+        latitude: -22.9105,
+        longitude: -43.1631
       }
     })
   ]);
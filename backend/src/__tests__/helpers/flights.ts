@@ -0,0 +1,55 @@
+import {
+  singleSegmentSlice,
+  CarrierInfo,
+  FlightSlice,
+} from '../../services/itinerary';
+import type { FlightResult } from '../../services/flightModel';
+
+const LATAM: CarrierInfo = { code: 'LA', name: 'LATAM' };
+
+// Trecho direto de 10 horas operado pela LATAM
+export const slice = (
+  flightNumber: string,
+  from: string,
+  to: string,
+  departureTime: string,
+  arrivalTime: string
+): FlightSlice =>
+  singleSegmentSlice({
+    airline: LATAM,
+    flightNumber,
+    origin: { code: from, name: from, city: from },
+    destination: { code: to, name: to, city: to },
+    departureTime,
+    arrivalTime,
+    duration: 600,
+  });
+
+// Oferta executiva com os trechos informados; os dados do voo vêm do primeiro
+export const offer = (
+  id: string,
+  price: number,
+  slices: FlightSlice[],
+  airline: CarrierInfo = LATAM
+): FlightResult => ({
+  id,
+  airline,
+  flightNumber: slices[0].segments[0].flightNumber,
+  origin: slices[0].origin,
+  destination: slices[0].destination,
+  departureTime: slices[0].departureTime,
+  arrivalTime: slices[0].arrivalTime,
+  duration: slices[0].duration,
+  stops: 0,
+  price,
+  currency: 'BRL',
+  classType: 'business',
+  availableSeats: 4,
+  baggageIncluded: true,
+  source: 'latam',
+  bookingUrl: `https://latam.com/${id}`,
+  isOffer: false,
+  slices,
+  fares: [],
+  priceBreakdown: [],
+});
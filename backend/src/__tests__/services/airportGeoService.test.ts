@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  findWithinRadius,
+  GeoAirport,
+  haversineKm,
+} from '../../services/airportGeoService';
+
+const airports: GeoAirport[] = [
+  {
+    code: 'GRU',
+    name: 'Guarulhos',
+    city: 'São Paulo',
+    timezone: 'America/Sao_Paulo',
+    latitude: -23.4356,
+    longitude: -46.4731,
+  },
+  {
+    code: 'CGH',
+    name: 'Congonhas',
+    city: 'São Paulo',
+    timezone: 'America/Sao_Paulo',
+    latitude: -23.6261,
+    longitude: -46.6564,
+  },
+  {
+    code: 'VCP',
+    name: 'Viracopos',
+    city: 'Campinas',
+    timezone: 'America/Sao_Paulo',
+    latitude: -23.0074,
+    longitude: -47.1345,
+  },
+  {
+    code: 'GIG',
+    name: 'Galeão',
+    city: 'Rio de Janeiro',
+    timezone: 'America/Sao_Paulo',
+    latitude: -22.81,
+    longitude: -43.2506,
+  },
+  {
+    code: 'SDU',
+    name: 'Santos Dumont',
+    city: 'Rio de Janeiro',
+    timezone: 'America/Sao_Paulo',
+    latitude: -22.9105,
+    longitude: -43.1631,
+  },
+];
+
+const [gru, , , gig] = airports;
+
+describe('airportGeoService', () => {
+  it('deve calcular a distância em linha reta entre aeroportos', () => {
+    expect(haversineKm(gru, gru)).toBe(0);
+    expect(Math.round(haversineKm(gru, gig))).toBeGreaterThan(330);
+    expect(Math.round(haversineKm(gru, gig))).toBeLessThan(350);
+  });
+
+  it('deve encontrar CGH e VCP como alternativas a GRU, do mais próximo ao mais distante', () => {
+    const nearby = findWithinRadius(gru, airports, 100);
+
+    expect(nearby.map(airport => airport.code)).toEqual(['CGH', 'VCP']);
+    expect(nearby[0].distanceKm).toBeLessThan(nearby[1].distanceKm);
+  });
+
+  it('deve encontrar SDU como alternativa a GIG', () => {
+    const nearby = findWithinRadius(gig, airports, 100);
+
+    expect(nearby.map(airport => airport.code)).toEqual(['SDU']);
+    expect(nearby[0].distanceKm).toBeLessThan(20);
+  });
+});
@@ -0,0 +1,211 @@
+import {
+  describe,
+  it,
+  expect,
+  jest,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { URL } from 'url';
+import { AmadeusClient } from '../../services/amadeusClient';
+import { AmadeusApi } from '../../services/airlineApiService';
+
+// O setup global simula o axios; aqui as chamadas vão ao servidor local
+jest.unmock('axios');
+
+jest.mock('../../services/quotaService', () => ({
+  __esModule: true,
+  default: {
+    canCall: async () => true,
+    recordCall: async () => undefined,
+  },
+}));
+
+jest.mock('../../services/priceObservationService', () => ({
+  __esModule: true,
+  default: {
+    record: () => undefined,
+  },
+}));
+
+jest.mock('../../services/airportGeoService', () => ({
+  __esModule: true,
+  default: {
+    getTimeZones: async () => ({
+      GRU: 'America/Sao_Paulo',
+      LHR: 'Europe/London',
+    }),
+  },
+}));
+
+const offer = {
+  id: '1',
+  numberOfBookableSeats: 4,
+  price: { total: '2450.90', currency: 'BRL' },
+  itineraries: [
+    {
+      duration: 'PT13H5M',
+      segments: [
+        {
+          id: '1',
+          carrierCode: 'LA',
+          number: '8084',
+          operating: { carrierCode: 'LA' },
+          aircraft: { code: '789' },
+          departure: { iataCode: 'GRU', at: '2026-12-10T23:55:00' },
+          arrival: { iataCode: 'LHR', at: '2026-12-11T15:00:00' },
+          duration: 'PT12H5M',
+        },
+      ],
+    },
+  ],
+  travelerPricings: [
+    {
+      fareDetailsBySegment: [
+        {
+          segmentId: '1',
+          cabin: 'ECONOMY',
+          fareBasis: 'SLXZ0B1',
+          brandedFare: 'LIGHT',
+          class: 'S',
+          includedCheckedBags: { quantity: 0 },
+        },
+      ],
+    },
+  ],
+};
+
+// Servidor stub da Amadeus: token OAuth + Flight Offers Search paginado
+let server: http.Server;
+let baseUrl: string;
+let tokenRequests = 0;
+let rejectNextSearch = false;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', baseUrl);
+    res.setHeader('Content-Type', 'application/json');
+
+    if (url.pathname === '/v1/security/oauth2/token') {
+      tokenRequests++;
+      res.end(
+        JSON.stringify({
+          access_token: `token-${tokenRequests}`,
+          expires_in: 1799,
+        })
+      );
+      return;
+    }
+
+    if (rejectNextSearch || !req.headers.authorization?.startsWith('Bearer ')) {
+      rejectNextSearch = false;
+      res.statusCode = 401;
+      res.end(JSON.stringify({ errors: [{ title: 'Invalid access token' }] }));
+      return;
+    }
+
+    const page = url.searchParams.get('page');
+    res.end(
+      JSON.stringify({
+        data: [{ ...offer, id: page ? `${page}` : '1' }],
+        dictionaries: { carriers: { LA: 'LATAM AIRLINES GROUP' } },
+        meta: {
+          count: 1,
+          links: page
+            ? {}
+            : { next: `${baseUrl}/v2/shopping/flight-offers?page=2` },
+        },
+      })
+    );
+  });
+
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  tokenRequests = 0;
+  rejectNextSearch = false;
+});
+
+const query = {
+  originLocationCode: 'GRU',
+  destinationLocationCode: 'LHR',
+  departureDate: '2026-12-10',
+  adults: 1,
+};
+
+const createClient = (maxPages = 1) =>
+  new AmadeusClient({
+    clientId: 'id',
+    clientSecret: 'secret',
+    baseUrl,
+    maxPages,
+  });
+
+describe('AmadeusClient', () => {
+  it('deve reutilizar o token em cache entre buscas', async () => {
+    const client = createClient();
+
+    await client.searchFlightOffers(query);
+    await client.searchFlightOffers(query);
+
+    expect(tokenRequests).toBe(1);
+  });
+
+  it('deve renovar o token quando a API responde 401', async () => {
+    const client = createClient();
+    await client.getAccessToken();
+
+    rejectNextSearch = true;
+    const response = await client.searchFlightOffers(query);
+
+    expect(response.data).toHaveLength(1);
+    expect(tokenRequests).toBe(2);
+  });
+
+  it('deve seguir a paginação até o limite de páginas', async () => {
+    const single = await createClient(1).searchFlightOffers(query);
+    const paged = await createClient(3).searchFlightOffers(query);
+
+    expect(single.data.map(item => item.id)).toEqual(['1']);
+    expect(paged.data.map(item => item.id)).toEqual(['1', '2']);
+    expect(paged.dictionaries?.carriers?.LA).toBe('LATAM AIRLINES GROUP');
+  });
+});
+
+describe('AmadeusApi', () => {
+  it('deve mapear tarifa, bagagem e assentos da oferta', async () => {
+    const api = new AmadeusApi(createClient());
+
+    const result = await api.searchFlights({
+      origin: 'GRU',
+      destination: 'LHR',
+      departureDate: '2026-12-10',
+      passengers: 1,
+      classType: 'economy',
+    });
+
+    expect(result.success).toBe(true);
+    const [flight] = result.flights;
+    expect(flight.availableSeats).toBe(4);
+    expect(flight.baggageIncluded).toBe(false);
+    expect(flight.fareDetails).toMatchObject({
+      fareBasis: 'SLXZ0B1',
+      brandedFare: 'LIGHT',
+      bookingClass: 'S',
+    });
+    expect(flight.slices[0].duration).toBe(785);
+    expect(flight.slices[0].segments[0].aircraft).toBe('789');
+    // Horários locais do Amadeus ganham o offset do aeroporto
+    expect(flight.departureTime).toBe('2026-12-10T23:55:00-03:00');
+    expect(flight.arrivalTime).toBe('2026-12-11T15:00:00+00:00');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+} from '../../services/circuitBreaker';
+
+const failing = () => Promise.reject(new Error('timeout'));
+const succeeding = () => Promise.resolve('ok');
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('deve abrir o circuito após falhas consecutivas e rejeitar chamadas', async () => {
+    const breaker = new CircuitBreaker('latam', {
+      failureThreshold: 2,
+      resetTimeout: 1000,
+    });
+    const fn = jest.fn(failing);
+
+    await expect(breaker.execute(fn)).rejects.toThrow('timeout');
+    expect(breaker.getState()).toBe('closed');
+    await expect(breaker.execute(fn)).rejects.toThrow('timeout');
+    expect(breaker.getState()).toBe('open');
+
+    await expect(breaker.execute(fn)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(breaker.getStatus().rejectedRequests).toBe(1);
+  });
+
+  it('deve testar em half-open e fechar após sucesso', async () => {
+    jest.useFakeTimers();
+    const breaker = new CircuitBreaker('gol', {
+      failureThreshold: 1,
+      resetTimeout: 1000,
+    });
+
+    await expect(breaker.execute(failing)).rejects.toThrow('timeout');
+    jest.advanceTimersByTime(1000);
+    expect(breaker.getState()).toBe('half-open');
+
+    await expect(breaker.execute(succeeding)).resolves.toBe('ok');
+    expect(breaker.getStatus()).toMatchObject({
+      state: 'closed',
+      consecutiveFailures: 0,
+    });
+  });
+
+  it('deve reabrir o circuito quando o teste em half-open falha', async () => {
+    jest.useFakeTimers();
+    const breaker = new CircuitBreaker('azul', {
+      failureThreshold: 3,
+      resetTimeout: 1000,
+    });
+
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(failing)).rejects.toThrow('timeout');
+    }
+    jest.advanceTimersByTime(1000);
+
+    await expect(breaker.execute(failing)).rejects.toThrow('timeout');
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getStatus().nextAttemptAt).toBeDefined();
+  });
+});
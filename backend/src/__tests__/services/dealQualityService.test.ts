@@ -0,0 +1,45 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  BOOKING_WINDOWS,
+  buildPriceDistribution,
+  scoreFare,
+} from '../../services/dealQualityService';
+
+// 25 tarifas executivas compradas com 30 a 59 dias: 5000, 5100, ..., 7400
+const observations = Array.from({ length: 25 }, (_, index) => ({
+  classType: 'business',
+  daysBeforeDeparture: 30 + index,
+  price: 5000 + index * 100,
+}));
+
+describe('dealQualityService', () => {
+  it('deve separar as tarifas por cabine e janela de compra', () => {
+    const distribution = buildPriceDistribution([
+      ...observations,
+      { classType: 'business', daysBeforeDeparture: 3, price: 9000 },
+      { classType: 'economy', daysBeforeDeparture: 40, price: 1500 },
+    ]);
+
+    expect(distribution.business[3]).toHaveLength(25);
+    expect(distribution.business[3][0]).toBe(5000);
+    expect(distribution.business[0]).toEqual([9000]);
+    expect(distribution.economy[3]).toEqual([1500]);
+  });
+
+  it('deve pontuar a tarifa pelo percentual de tarifas mais caras', () => {
+    const prices = buildPriceDistribution(observations).business[3];
+
+    expect(scoreFare(5150, prices, BOOKING_WINDOWS[3])).toMatchObject({
+      percentile: 92,
+      label: 'excellent',
+      description: 'Mais barata que 92% das tarifas vistas nos últimos 90 dias',
+      medianPrice: 6200,
+      sampleSize: 25,
+      bookingWindow: { minDays: 30, maxDays: 59 },
+    });
+    expect(scoreFare(7400, prices, BOOKING_WINDOWS[3])?.label).toBe('high');
+
+    // Poucas observações não geram nota
+    expect(scoreFare(5150, prices.slice(0, 10), BOOKING_WINDOWS[3])).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  FareBaseline,
+  computeBaseline,
+  detectAnomaly,
+} from '../../services/fareAnomalyService';
+
+// 40 tarifas executivas entre 9000 e 10950, nas classes J e C
+const history = Array.from({ length: 40 }, (_, index) => ({
+  price: 9000 + index * 50,
+  fareBasis: index % 2 ? 'JOWBR' : 'COWBR',
+}));
+
+describe('fareAnomalyService', () => {
+  it('deve marcar tarifas muito abaixo da mediana', () => {
+    const baseline = computeBaseline(history) as FareBaseline;
+
+    expect(baseline).toMatchObject({
+      median: 9975,
+      sampleSize: 40,
+      bookingClasses: ['C', 'J'],
+    });
+
+    expect(
+      detectAnomaly({ price: 3200, fareBasis: 'JOWBR' }, baseline)
+    ).toMatchObject({ reason: 'price_outlier', dropPercent: 67.92 });
+
+    // Variação normal da rota
+    expect(
+      detectAnomaly({ price: 8900, fareBasis: 'JOWBR' }, baseline)
+    ).toBeNull();
+  });
+
+  it('deve marcar a queda para uma base tarifária nunca vista na cabine', () => {
+    // Rota com preços muito variáveis: o desvio não chega a 3σ
+    const volatile = history.map((row, index) => ({
+      ...row,
+      price: 5000 + index * 250,
+    }));
+    const baseline = computeBaseline(volatile) as FareBaseline;
+
+    expect(
+      detectAnomaly({ price: 5200, fareBasis: 'YOWBR' }, baseline)
+    ).toMatchObject({ reason: 'fare_basis_drop' });
+    expect(
+      detectAnomaly({ price: 5200, fareBasis: 'JOWBR' }, baseline)
+    ).toBeNull();
+
+    // Histórico curto não serve de referência
+    expect(computeBaseline(history.slice(0, 10))).toBeNull();
+  });
+});
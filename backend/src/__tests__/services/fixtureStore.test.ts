@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FixtureStore } from '../../services/fixtureStore';
+import { FlightSearchParams } from '../../services/flightModel';
+
+const params: FlightSearchParams = {
+  origin: 'gru',
+  destination: 'jfk',
+  departureDate: '2025-12-10T00:00:00.000Z',
+  passengers: 1,
+  classType: 'business',
+};
+
+describe('FixtureStore', () => {
+  const originalEnv = { ...process.env };
+  let baseDir: string;
+  let store: FixtureStore;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fixtures-'));
+    store = new FixtureStore(baseDir);
+  });
+
+  afterEach(async () => {
+    process.env = { ...originalEnv };
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('deve montar o caminho por provedor, rota, data e cabine', () => {
+    expect(store.getFixturePath('latam', params)).toBe(
+      path.join(baseDir, 'latam', 'GRU-JFK_2025-12-10_business.json')
+    );
+    expect(
+      store.getFixturePath('gol', { ...params, returnDate: '2025-12-20' })
+    ).toBe(
+      path.join(baseDir, 'gol', 'GRU-JFK_2025-12-10_2025-12-20_business.json')
+    );
+  });
+
+  it('deve reproduzir a resposta gravada e retornar null sem fixture', async () => {
+    const response = { data: [{ id: 'LA8084', price: 4200 }] };
+
+    expect(await store.read('latam', params)).toBeNull();
+
+    await store.write('latam', params, response);
+
+    expect(await store.read('latam', params)).toEqual(response);
+    expect(
+      await store.read('latam', { ...params, classType: 'economy' })
+    ).toBeNull();
+  });
+
+  it('deve usar o modo off quando FLIGHT_FIXTURES_MODE é inválido', () => {
+    process.env.FLIGHT_FIXTURES_MODE = 'REPLAY';
+    expect(store.mode).toBe('replay');
+
+    process.env.FLIGHT_FIXTURES_MODE = 'qualquer';
+    expect(store.mode).toBe('off');
+  });
+});
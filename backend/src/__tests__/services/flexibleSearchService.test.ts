@@ -0,0 +1,78 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildDateMatrix,
+  getStayNights,
+} from '../../services/flexibleSearchService';
+import type { FlightResult } from '../../services/flightModel';
+
+const flight = (price: number) => ({ price, currency: 'BRL' }) as FlightResult;
+
+const departureDates = ['2026-12-09', '2026-12-10'];
+const returnDates = ['2026-12-10', '2026-12-17'];
+
+describe('buildDateMatrix', () => {
+  it('deve calcular a estadia em noites', () => {
+    expect(getStayNights('2026-12-10', '2026-12-17')).toBe(7);
+    expect(getStayNights('2026-12-10', '2026-12-10')).toBe(0);
+  });
+
+  it('deve montar a matriz ida × volta com o menor preço de cada combinação', () => {
+    const { cells, cheapest, priceRange } = buildDateMatrix(
+      departureDates,
+      returnDates,
+      [
+        {
+          departureDate: '2026-12-09',
+          returnDate: '2026-12-10',
+          flights: [flight(5200)],
+        },
+        {
+          departureDate: '2026-12-09',
+          returnDate: '2026-12-17',
+          flights: [flight(4800), flight(4100)],
+        },
+        {
+          departureDate: '2026-12-10',
+          returnDate: '2026-12-17',
+          flights: [flight(6300)],
+        },
+      ]
+    );
+
+    expect(cells).toHaveLength(2);
+    expect(cells[0].map(cell => cell.price)).toEqual([5200, 4100]);
+    expect(cells[0][1].flightCount).toBe(2);
+    expect(cheapest?.departureDate).toBe('2026-12-09');
+    expect(cheapest?.returnDate).toBe('2026-12-17');
+    expect(priceRange).toEqual({ min: 4100, max: 6300 });
+  });
+
+  it('deve destacar as células mais baratas e classificar as faixas de preço', () => {
+    const { cells } = buildDateMatrix(departureDates, returnDates, [
+      {
+        departureDate: '2026-12-09',
+        returnDate: '2026-12-17',
+        flights: [flight(4100)],
+      },
+      {
+        departureDate: '2026-12-10',
+        returnDate: '2026-12-17',
+        flights: [flight(6300)],
+      },
+    ]);
+
+    expect(cells[0][1].isCheapest).toBe(true);
+    expect(cells[0][1].priceLevel).toBe('low');
+    expect(cells[1][1].isCheapest).toBe(false);
+    expect(cells[1][1].priceLevel).toBe('high');
+  });
+
+  it('deve marcar as combinações fora da estadia mínima e máxima', () => {
+    const { cells } = buildDateMatrix(departureDates, returnDates, [], 1, 7);
+
+    expect(cells[1][0].withinStay).toBe(false); // mesma data, 0 noites
+    expect(cells[0][1].withinStay).toBe(false); // 8 noites
+    expect(cells[1][1].withinStay).toBe(true);
+    expect(cells[1][1].price).toBeNull();
+  });
+});
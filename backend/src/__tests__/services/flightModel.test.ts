@@ -0,0 +1,96 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  InvalidSearchError,
+  getSearchErrors,
+  parseFlightSearchParams,
+  parseSearchPreferences,
+} from '../../services/flightModel';
+
+describe('flightModel', () => {
+  it('deve normalizar os parâmetros e aceitar os nomes antigos', () => {
+    expect(
+      parseFlightSearchParams({
+        departureCode: 'gru',
+        arrivalCode: 'lhr',
+        departureDate: '2026-12-10T10:00:00.000Z',
+        passengers: '2',
+        flightClass: 'economy',
+      })
+    ).toEqual({
+      origin: 'GRU',
+      destination: 'LHR',
+      departureDate: '2026-12-10',
+      returnDate: undefined,
+      passengers: 2,
+      passengerMix: { adults: 2, children: 0, infants: 0 },
+      classType: 'economy',
+      flexibleDays: undefined,
+    });
+  });
+
+  it('deve usar a classe executiva quando a classe não é informada', () => {
+    const params = parseFlightSearchParams({
+      origin: 'GRU',
+      destination: 'JFK',
+      departureDate: '2026-12-10',
+      adults: 2,
+      infants: 1,
+    });
+
+    expect(params.classType).toBe('business');
+    expect(params.passengers).toBe(3);
+  });
+
+  it('deve reunir todos os erros de validação', () => {
+    const errors = getSearchErrors({
+      origin: 'GR',
+      departureDate: '10/12/2026',
+      classType: 'premium',
+    });
+
+    expect(errors).toEqual([
+      'Código do aeroporto de origem deve ter 3 letras (ex: GRU)',
+      'Código do aeroporto de destino é obrigatório',
+      'Data de partida deve estar no formato ISO 8601',
+      'Classe deve ser: economy, business, first, both',
+    ]);
+    expect(
+      getSearchErrors({
+        origin: 'GRU',
+        destination: 'gru',
+        departureDate: '2026-12-10',
+      })
+    ).toEqual(['Aeroporto de origem e destino devem ser diferentes']);
+    expect(
+      getSearchErrors({
+        origin: 'GRU',
+        destination: 'LHR',
+        departureDate: '2026-12-10',
+        returnDate: '2026-12-01',
+      })
+    ).toEqual(['Data de retorno deve ser posterior à data de partida']);
+    expect(() =>
+      parseFlightSearchParams({
+        origin: 'GRU',
+        destination: 'LHR',
+        departureDate: '2026-12-10',
+        adults: 1,
+        infants: 2,
+      })
+    ).toThrow(InvalidSearchError);
+  });
+
+  it('deve ler as preferências da query ou do corpo', () => {
+    expect(
+      parseSearchPreferences({
+        maxPrice: '8000',
+        preferredAirlines: 'la, g3',
+        directFlightsOnly: 'true',
+      })
+    ).toEqual({
+      maxPrice: 8000,
+      preferredAirlines: ['LA', 'G3'],
+      directFlightsOnly: true,
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  FlightSegment,
+  buildSlice,
+  localizeSlice,
+  singleSegmentSlice,
+} from '../../services/itinerary';
+
+const segment = (
+  origin: string,
+  destination: string,
+  departureTime: string,
+  arrivalTime: string,
+  duration: number
+): FlightSegment => ({
+  airline: { code: 'LA', name: 'LATAM' },
+  flightNumber: `LA${origin}${destination}`,
+  origin: { code: origin, name: origin, city: origin },
+  destination: { code: destination, name: destination, city: destination },
+  departureTime,
+  arrivalTime,
+  duration,
+});
+
+describe('itinerary', () => {
+  it('deve calcular paradas e tempos de conexão do trecho', () => {
+    const slice = buildSlice([
+      segment(
+        'GRU',
+        'PTY',
+        '2025-12-10T08:00:00Z',
+        '2025-12-10T15:00:00Z',
+        420
+      ),
+      segment(
+        'PTY',
+        'JFK',
+        '2025-12-10T16:30:00Z',
+        '2025-12-10T21:30:00Z',
+        300
+      ),
+    ]);
+
+    expect(slice.origin.code).toBe('GRU');
+    expect(slice.destination.code).toBe('JFK');
+    expect(slice.stops).toBe(1);
+    expect(slice.duration).toBe(810);
+    expect(slice.segments[0].layoverDuration).toBe(90);
+    expect(slice.segments[1].layoverDuration).toBeUndefined();
+  });
+
+  it('deve preservar a duração informada e as paradas do provedor', () => {
+    const slice = singleSegmentSlice(
+      segment(
+        'GRU',
+        'JFK',
+        '2025-12-10T08:00:00Z',
+        '2025-12-10T21:30:00Z',
+        810
+      ),
+      1
+    );
+
+    expect(slice.stops).toBe(1);
+    expect(slice.duration).toBe(810);
+    expect(slice.segments).toHaveLength(1);
+  });
+
+  it('deve rejeitar trechos sem segmentos', () => {
+    expect(() => buildSlice([])).toThrow('Trecho sem segmentos');
+  });
+
+  it('deve converter os horários para o fuso local de cada aeroporto', () => {
+    const slice = localizeSlice(
+      buildSlice(
+        [
+          // Horários locais sem offset, como os do Amadeus
+          segment(
+            'GRU',
+            'JFK',
+            '2026-12-10T22:30:00',
+            '2026-12-11T07:00:00',
+            630
+          ),
+          segment(
+            'JFK',
+            'BOS',
+            '2026-12-11T09:00:00Z',
+            '2026-12-11T10:15:00Z',
+            75
+          ),
+        ],
+        765
+      ),
+      { GRU: 'America/Sao_Paulo', JFK: 'America/New_York' }
+    );
+
+    expect(slice.departureTime).toBe('2026-12-10T22:30:00-03:00');
+    expect(slice.segments[0].arrivalTime).toBe('2026-12-11T07:00:00-05:00');
+    expect(slice.segments[1].departureTime).toBe('2026-12-11T04:00:00-05:00');
+    // Aeroporto sem fuso cadastrado fica em UTC
+    expect(slice.arrivalTime).toBe('2026-12-11T10:15:00+00:00');
+  });
+});
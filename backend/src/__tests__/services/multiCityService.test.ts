@@ -0,0 +1,81 @@
+import { describe, it, expect } from '@jest/globals';
+import { combineLegs } from '../../services/multiCityService';
+import { slice, offer } from '../helpers/flights';
+
+const gruJfk = slice(
+  'LA8180',
+  'GRU',
+  'JFK',
+  '2026-11-10T22:00:00Z',
+  '2026-11-11T07:00:00Z'
+);
+const jfkOrd = slice(
+  'AA100',
+  'JFK',
+  'ORD',
+  '2026-11-13T09:00:00Z',
+  '2026-11-13T11:30:00Z'
+);
+const jfkOrdCedo = slice(
+  'AA090',
+  'JFK',
+  'ORD',
+  '2026-11-11T06:00:00Z',
+  '2026-11-11T08:30:00Z'
+);
+const ordGru = slice(
+  'AA995',
+  'ORD',
+  'GRU',
+  '2026-11-15T20:00:00Z',
+  '2026-11-16T08:00:00Z'
+);
+
+const legOffers = [
+  [offer('l1', 6000, [gruJfk])],
+  [
+    offer('l2', 1200, [jfkOrd], { code: 'AA', name: 'American' }),
+    offer('l2-cedo', 900, [jfkOrdCedo], { code: 'AA', name: 'American' }),
+  ],
+  [offer('l3', 5500, [ordGru], { code: 'AA', name: 'American' })],
+];
+
+describe('combineLegs', () => {
+  it('deve combinar os trechos só ida respeitando a sequência de horários', () => {
+    const itineraries = combineLegs([], legOffers);
+
+    expect(itineraries).toHaveLength(1);
+    expect(itineraries[0].price).toBe(12700);
+    expect(itineraries[0].fareType).toBe('separate-tickets');
+    expect(itineraries[0].offerIds).toEqual(['l1', 'l2', 'l3']);
+    expect(itineraries[0].airline).toBe('LATAM / American');
+  });
+
+  it('deve preferir a tarifa multi-destino mais barata e calcular a economia', () => {
+    const itineraries = combineLegs(
+      [offer('mc', 11000, [gruJfk, jfkOrd, ordGru])],
+      legOffers
+    );
+
+    expect(itineraries).toHaveLength(1);
+    expect(itineraries[0].fareType).toBe('multi-city');
+    expect(itineraries[0].separatePrice).toBe(12700);
+    expect(itineraries[0].savings).toBe(1700);
+  });
+
+  it('deve ignorar tarifas com número de trechos diferente da busca', () => {
+    const itineraries = combineLegs(
+      [offer('rt', 8000, [gruJfk, ordGru])],
+      legOffers
+    );
+
+    expect(itineraries.map(itinerary => itinerary.fareType)).toEqual([
+      'separate-tickets',
+    ]);
+  });
+
+  it('deve combinar apenas os trechos mais baratos de cada perna', () => {
+    // O trecho JFK-ORD mais barato parte antes da chegada a JFK
+    expect(combineLegs([], legOffers, { maxPerLeg: 1 })).toHaveLength(0);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from '@jest/globals';
+import { FlightResult } from '../../services/flightModel';
+import { buildSlice } from '../../services/itinerary';
+import { getOfferFingerprint, mergeOffers } from '../../services/offerMerger';
+
+const createFlight = (
+  id: string,
+  price: number,
+  overrides: Partial<FlightResult> = {}
+): FlightResult => {
+  const airport = (code: string) => ({ code, name: code, city: code });
+  const flight = {
+    id,
+    airline: { code: 'LA', name: 'LATAM' },
+    flightNumber: 'LA8084',
+    origin: airport('GRU'),
+    destination: airport('JFK'),
+    departureTime: '2025-12-10T22:15:00.000Z',
+    arrivalTime: '2025-12-11T06:45:00.000Z',
+    duration: 630,
+    price,
+    currency: 'BRL',
+    classType: 'business',
+    availableSeats: 4,
+    stops: 0,
+    bookingUrl: `https://example.com/${id}`,
+    isOffer: false,
+    ...overrides,
+  };
+
+  return {
+    ...flight,
+    slices: [
+      buildSlice([
+        {
+          airline: flight.airline,
+          flightNumber: flight.flightNumber,
+          origin: flight.origin,
+          destination: flight.destination,
+          departureTime: flight.departureTime,
+          arrivalTime: flight.arrivalTime,
+          duration: flight.duration,
+        },
+      ]),
+    ],
+  };
+};
+
+describe('offerMerger', () => {
+  it('deve gerar o mesmo fingerprint para números de voo equivalentes', () => {
+    const direct = createFlight('latam_1', 9000);
+    const google = createFlight('google_1', 8500, {
+      flightNumber: 'LA 08084',
+      departureTime: '2025-12-10T19:15:00-03:00',
+    });
+
+    expect(getOfferFingerprint(google)).toBe(getOfferFingerprint(direct));
+    expect(
+      getOfferFingerprint(createFlight('x', 1, { classType: 'economy' }))
+    ).not.toBe(getOfferFingerprint(direct));
+  });
+
+  it('deve unificar duplicatas e destacar o vendedor mais barato', () => {
+    const merged = mergeOffers([
+      {
+        source: 'latam',
+        sourceName: 'LATAM',
+        flights: [createFlight('latam_1', 9000)],
+      },
+      {
+        source: 'google',
+        sourceName: 'Google Flights',
+        flights: [
+          createFlight('google_1', 8500),
+          createFlight('google_2', 3000, { flightNumber: 'LA8180' }),
+        ],
+      },
+    ]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[1].id).toBe('google_1');
+    expect(merged[1].price).toBe(8500);
+    expect(
+      merged[1].fares?.map(fare => [fare.source, fare.isCheapest])
+    ).toEqual([
+      ['google', true],
+      ['latam', false],
+    ]);
+  });
+
+  it('deve manter apenas o menor preço quando a mesma fonte repete a oferta', () => {
+    const merged = mergeOffers([
+      {
+        source: 'amadeus',
+        sourceName: 'Amadeus',
+        flights: [
+          createFlight('amadeus_1', 9900),
+          createFlight('amadeus_2', 9400),
+        ],
+      },
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].fares).toHaveLength(1);
+    expect(merged[0].price).toBe(9400);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildPriceBreakdown,
+  combineBreakdowns,
+  hasSeatsFor,
+  parsePassengerMix,
+  sumBreakdown,
+  validatePassengerMix,
+} from '../../services/passengers';
+
+describe('passengers', () => {
+  it('deve tratar o total de passageiros do formato antigo como adultos', () => {
+    expect(parsePassengerMix({ passengers: '3' })).toEqual({
+      adults: 3,
+      children: 0,
+      infants: 0,
+    });
+    expect(parsePassengerMix({ adults: '2', childAges: '7,1' })).toEqual({
+      adults: 2,
+      children: 1,
+      infants: 1,
+    });
+  });
+
+  it('deve rejeitar bebês de colo sem adulto e grupos acima do limite', () => {
+    expect(
+      validatePassengerMix({ adults: 1, children: 0, infants: 2 })
+    ).toMatch(/bebê de colo/);
+    expect(
+      validatePassengerMix({ adults: 5, children: 4, infants: 1 })
+    ).toMatch(/Máximo de 9/);
+    expect(
+      validatePassengerMix({ adults: 2, children: 3, infants: 2 })
+    ).toBeNull();
+  });
+
+  it('deve detalhar o preço por tipo e somar o total do grupo', () => {
+    const breakdown = buildPriceBreakdown(1000, {
+      adults: 2,
+      children: 1,
+      infants: 1,
+    });
+
+    expect(breakdown).toEqual([
+      { type: 'ADT', count: 2, unitPrice: 1000, subtotal: 2000 },
+      { type: 'CHD', count: 1, unitPrice: 750, subtotal: 750 },
+      { type: 'INF', count: 1, unitPrice: 100, subtotal: 100 },
+    ]);
+    expect(sumBreakdown(breakdown)).toBe(2850);
+
+    const roundTrip = combineBreakdowns([
+      breakdown,
+      buildPriceBreakdown(500, { adults: 2, children: 1, infants: 1 }),
+    ]);
+    expect(roundTrip[0]).toEqual({
+      type: 'ADT',
+      count: 2,
+      unitPrice: 1500,
+      subtotal: 3000,
+    });
+    expect(sumBreakdown(roundTrip)).toBe(4275);
+  });
+
+  it('deve exigir assentos só para quem não viaja no colo', () => {
+    const mix = { adults: 2, children: 1, infants: 1 };
+
+    expect(hasSeatsFor(3, mix)).toBe(true);
+    expect(hasSeatsFor(2, mix)).toBe(false);
+    expect(hasSeatsFor(0, mix)).toBe(true); // disponibilidade não informada
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from '@jest/globals';
+import { FlightResult } from '../../services/flightModel';
+import {
+  buildDailyStats,
+  toPriceObservation,
+} from '../../services/priceObservationService';
+
+const airport = (code: string) => ({ code, name: code, city: code });
+
+const flight: FlightResult = {
+  id: 'latam_1',
+  airline: { code: 'LA', name: 'LATAM' },
+  flightNumber: 'LA8084',
+  origin: airport('GRU'),
+  destination: airport('JFK'),
+  departureTime: '2026-12-10T22:15:00-03:00',
+  arrivalTime: '2026-12-11T06:45:00-05:00',
+  duration: 630,
+  price: 19000,
+  priceBreakdown: [
+    { type: 'ADT', count: 2, unitPrice: 9000, subtotal: 18000 },
+    { type: 'INF', count: 1, unitPrice: 1000, subtotal: 1000 },
+  ],
+  currency: 'BRL',
+  classType: 'business',
+  availableSeats: 4,
+  stops: 0,
+  bookingUrl: '',
+  isOffer: false,
+  slices: [],
+};
+
+const params = {
+  origin: 'GRU',
+  destination: 'JFK',
+  departureDate: '2026-12-10',
+  passengers: 3,
+  passengerMix: { adults: 2, children: 0, infants: 1 },
+  classType: 'business' as const,
+};
+
+describe('priceObservationService', () => {
+  it('deve registrar a tarifa de um adulto e a antecedência da compra', () => {
+    const observation = toPriceObservation(
+      params,
+      'latam',
+      flight,
+      new Date('2026-11-10T12:00:00Z')
+    );
+
+    expect(observation).toMatchObject({
+      origin: 'GRU',
+      destination: 'JFK',
+      departureDate: new Date('2026-12-10T00:00:00Z'),
+      isRoundTrip: false,
+      airlineCode: 'LA',
+      flightNumber: 'LA8084',
+      classType: 'business',
+      daysBeforeDeparture: 30,
+      source: 'latam',
+      price: 9000,
+    });
+
+    // Sem preço por tipo, divide o total do grupo
+    expect(
+      toPriceObservation(params, 'latam', {
+        ...flight,
+        priceBreakdown: undefined,
+      }).price
+    ).toBe(6333.33);
+  });
+
+  it('deve agrupar as observações por dia', () => {
+    expect(
+      buildDailyStats([
+        { price: 9000, observedAt: new Date('2026-11-10T12:00:00Z') },
+        { price: 8000, observedAt: new Date('2026-11-10T18:00:00Z') },
+        { price: 8500, observedAt: new Date('2026-11-09T09:00:00Z') },
+      ])
+    ).toEqual([
+      {
+        date: '2026-11-09',
+        minPrice: 8500,
+        maxPrice: 8500,
+        avgPrice: 8500,
+        recordCount: 1,
+      },
+      {
+        date: '2026-11-10',
+        minPrice: 8000,
+        maxPrice: 9000,
+        avgPrice: 8500,
+        recordCount: 2,
+      },
+    ]);
+  });
+});
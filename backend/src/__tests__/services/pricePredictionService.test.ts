@@ -0,0 +1,66 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  BacktestResult,
+  PriceModel,
+  backtestPriceModel,
+  forecastPrices,
+  trainPriceModel,
+} from '../../services/pricePredictionService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Preço cai até 21 dias antes da partida e sobe depois; sextas custam 20% a mais
+const syntheticHistory = () => {
+  const rows = [];
+  for (let week = 0; week < 8; week++) {
+    const departure = new Date(Date.UTC(2026, 9, 1) + week * 7 * DAY_MS);
+    for (let offset = 0; offset < 7; offset++) {
+      const departureDate = new Date(departure.getTime() + offset * DAY_MS);
+      for (const days of [1, 7, 14, 21, 35, 50]) {
+        const curve = 1 + Math.abs(days - 21) / 40;
+        const weekday = departureDate.getUTCDay() === 5 ? 1.2 : 1;
+        rows.push({
+          departureDate,
+          daysBeforeDeparture: days,
+          price: Math.round(1000 * curve * weekday),
+          observedAt: new Date(departureDate.getTime() - days * DAY_MS),
+        });
+      }
+    }
+  }
+  return rows;
+};
+
+describe('pricePredictionService', () => {
+  it('deve recomendar esperar longe da partida e comprar perto dela', () => {
+    const model = trainPriceModel(syntheticHistory()) as PriceModel;
+    expect(model).not.toBeNull();
+
+    const today = new Date('2026-11-01T12:00:00Z');
+    const early = forecastPrices(model, '2026-12-20', today);
+    expect(early.action).toBe('wait');
+    expect(early.bestPrice).toBeLessThan(early.currentPrice);
+    expect(early.interval.lower).toBeLessThan(early.currentPrice);
+    expect(early.interval.upper).toBeGreaterThan(early.currentPrice);
+    expect(early.projections[0].daysBeforeDeparture).toBe(49);
+
+    const late = forecastPrices(model, '2026-11-20', today);
+    expect(late.action).toBe('buy');
+    expect(late.confidence).toBeGreaterThan(0.5);
+    expect(late.cheapestDayOfWeek).not.toBe(5);
+  });
+
+  it('deve medir o erro fora da amostra contra a média do treino', () => {
+    const history = syntheticHistory();
+    const result = backtestPriceModel(
+      history,
+      new Date('2026-11-10T00:00:00Z')
+    ) as BacktestResult;
+
+    expect(result).not.toBeNull();
+    expect(result.trainSize + result.testSize).toBe(history.length);
+    expect(result.mape).toBeLessThan(result.baselineMape);
+
+    expect(trainPriceModel(history.slice(0, 10))).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  FlightProvider,
+  ProviderRegistry,
+} from '../../services/providerRegistry';
+import { FlightSearchParams } from '../../services/flightModel';
+
+const createProvider = (
+  id: string,
+  capabilities: Partial<FlightProvider['capabilities']> = {}
+): FlightProvider => ({
+  id,
+  name: id.toUpperCase(),
+  capabilities: {
+    cabins: ['economy', 'business'],
+    tripTypes: ['oneway', 'roundtrip'],
+    maxPassengers: 9,
+    ...capabilities,
+  },
+  searchFlights: async () => ({ success: true, flights: [], source: id }),
+  getFlightDetails: async () => null,
+});
+
+const baseParams: FlightSearchParams = {
+  origin: 'GRU',
+  destination: 'JFK',
+  departureDate: '2025-12-10',
+  passengers: 1,
+  classType: 'business',
+};
+
+describe('ProviderRegistry', () => {
+  const originalEnv = { ...process.env };
+  let registry: ProviderRegistry;
+
+  beforeEach(() => {
+    delete process.env.FLIGHT_PROVIDERS_ENABLED;
+    delete process.env.FLIGHT_PROVIDERS_DISABLED;
+
+    registry = new ProviderRegistry([
+      createProvider('latam'),
+      createProvider('gol', { tripTypes: ['oneway'], maxPassengers: 4 }),
+      createProvider('amadeus', {
+        cabins: ['economy', 'business', 'first'],
+      }),
+    ]);
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('deve retornar todos os provedores quando nenhum filtro está configurado', () => {
+    const ids = registry.getProviders().map(provider => provider.id);
+
+    expect(ids).toEqual(['latam', 'gol', 'amadeus']);
+  });
+
+  it('deve respeitar FLIGHT_PROVIDERS_ENABLED e FLIGHT_PROVIDERS_DISABLED', () => {
+    process.env.FLIGHT_PROVIDERS_ENABLED = 'latam, Amadeus';
+    process.env.FLIGHT_PROVIDERS_DISABLED = 'amadeus';
+
+    const ids = registry.getProviders().map(provider => provider.id);
+
+    expect(ids).toEqual(['latam']);
+    expect(registry.listProviders().find(p => p.id === 'gol')?.enabled).toBe(
+      false
+    );
+  });
+
+  it('deve filtrar provedores pelas capacidades da busca', () => {
+    const firstClass = registry
+      .getProviders({ ...baseParams, classType: 'first' })
+      .map(provider => provider.id);
+    const roundTrip = registry
+      .getProviders({ ...baseParams, returnDate: '2025-12-20' })
+      .map(provider => provider.id);
+    const largeGroup = registry
+      .getProviders({ ...baseParams, passengers: 6 })
+      .map(provider => provider.id);
+
+    expect(firstClass).toEqual(['amadeus']);
+    expect(roundTrip).toEqual(['latam', 'amadeus']);
+    expect(largeGroup).toEqual(['latam', 'amadeus']);
+  });
+
+  it('deve localizar provedores pelo id sem diferenciar maiúsculas', () => {
+    expect(registry.get('LATAM')?.id).toBe('latam');
+    expect(registry.get('azul')).toBeUndefined();
+
+    registry.register(createProvider('Azul'));
+    process.env.FLIGHT_PROVIDERS_ENABLED = 'azul';
+
+    expect(registry.get('azul')?.id).toBe('Azul');
+    expect(registry.getProviders().map(provider => provider.id)).toEqual([
+      'Azul',
+    ]);
+
+    registry.unregister('AZUL');
+    expect(registry.get('azul')).toBeUndefined();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import {
+  QuotaService,
+  QuotaUsage,
+  getQuotaMode,
+  measureUsage,
+  parseQuotaLimits,
+  rollOverPeriods,
+} from '../../services/quotaService';
+
+const counters = {
+  dayKey: '2026-10-19',
+  monthKey: '2026-10',
+  dailyCalls: 40,
+  monthlyCalls: 900,
+};
+
+describe('quotaService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('deve mudar de modo nos limiares de 80% e 95% da cota', () => {
+    expect(getQuotaMode(0.79)).toBe('normal');
+    expect(getQuotaMode(0.8)).toBe('interactive-only');
+    expect(getQuotaMode(0.94)).toBe('interactive-only');
+    expect(getQuotaMode(0.95)).toBe('cache-only');
+
+    // Vale a maior fração entre cota diária e mensal; null = sem limite
+    expect(
+      measureUsage({ ...counters, dailyLimit: 50, monthlyLimit: 10000 })
+    ).toBe(0.8);
+    expect(
+      measureUsage({ ...counters, dailyLimit: null, monthlyLimit: 1000 })
+    ).toBe(0.9);
+    expect(
+      measureUsage({ ...counters, dailyLimit: null, monthlyLimit: null })
+    ).toBe(0);
+  });
+
+  it('deve liberar buscas em segundo plano só no modo normal', async () => {
+    const service = new QuotaService();
+    const usage = jest.spyOn(service, 'getUsage');
+
+    usage.mockResolvedValue({ mode: 'normal' } as QuotaUsage);
+    expect(await service.canCall('amadeus', 'background')).toBe(true);
+
+    usage.mockResolvedValue({ mode: 'interactive-only' } as QuotaUsage);
+    expect(await service.canCall('amadeus', 'background')).toBe(false);
+    expect(await service.canCall('amadeus', 'interactive')).toBe(true);
+
+    usage.mockResolvedValue({ mode: 'cache-only' } as QuotaUsage);
+    expect(await service.canCall('amadeus', 'interactive')).toBe(false);
+
+    // Falha no controle de cota não bloqueia a busca
+    usage.mockRejectedValue(new Error('banco indisponível'));
+    expect(await service.canCall('amadeus', 'background')).toBe(true);
+  });
+
+  it('deve zerar os contadores de dia e mês vencidos', () => {
+    expect(
+      rollOverPeriods(counters, new Date('2026-10-19T23:59:00Z'))
+    ).toBeNull();
+
+    expect(rollOverPeriods(counters, new Date('2026-10-20T00:01:00Z'))).toEqual(
+      {
+        dayKey: '2026-10-20',
+        monthKey: '2026-10',
+        dailyCalls: 0,
+        monthlyCalls: 900,
+      }
+    );
+
+    expect(
+      rollOverPeriods(
+        { ...counters, dayKey: '2026-10-31' },
+        new Date('2026-11-01T00:01:00Z')
+      )
+    ).toEqual({
+      dayKey: '2026-11-01',
+      monthKey: '2026-11',
+      dailyCalls: 0,
+      monthlyCalls: 0,
+    });
+  });
+
+  it('deve ignorar entradas malformadas em PROVIDER_QUOTAS', () => {
+    const quotas = ' Amadeus : 2000 : 60000 ,latam:5000:,gol:abc:12x,azul';
+
+    expect(parseQuotaLimits(quotas, 'amadeus')).toEqual({
+      dailyLimit: 2000,
+      monthlyLimit: 60000,
+    });
+    expect(parseQuotaLimits(quotas, 'latam')).toEqual({
+      dailyLimit: 5000,
+      monthlyLimit: null,
+    });
+    expect(parseQuotaLimits(quotas, 'gol')).toEqual({
+      dailyLimit: null,
+      monthlyLimit: null,
+    });
+    expect(parseQuotaLimits(quotas, 'azul')).toEqual({
+      dailyLimit: null,
+      monthlyLimit: null,
+    });
+    expect(parseQuotaLimits('amadeus:-5:0', 'amadeus')).toEqual({
+      dailyLimit: null,
+      monthlyLimit: null,
+    });
+    expect(parseQuotaLimits('', 'amadeus')).toEqual({
+      dailyLimit: null,
+      monthlyLimit: null,
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyAlliances,
+  diffRecords,
+  parseAirlines,
+  parseAirports,
+  parseCsv,
+} from '../../services/referenceDataImporter';
+
+// Trechos do airports.dat e airlines.dat do OpenFlights (sem cabeçalho)
+const OPENFLIGHTS_AIRPORTS = [
+  '2564,"Guarulhos - Governador André Franco Montoro International Airport","Sao Paulo","Brazil","GRU","SBGR",-23.435556411743164,-46.47305679321289,2459,-3,"S","America/Sao_Paulo","airport","OurAirports"',
+  '2578,"Congonhas Airport","Sao Paulo","Brazil","CGH","SBSP",-23.626110076904297,-46.65638732910156,2631,-3,"S","America/Sao_Paulo","airport","OurAirports"',
+  '7000,"Heliporto","Sao Paulo","Brazil","\\N","SDHP",-23.5,-46.6,0,-3,"S","America/Sao_Paulo","airport","OurAirports"',
+].join('\n');
+
+const OPENFLIGHTS_AIRLINES = [
+  '3052,"Transportes Aéreos Meridionais",\\N,"LA","TAM","TAM","Brazil","N"',
+  '3054,"LATAM Chile",\\N,"LA","LAN","LAN","Chile","Y"',
+  '1335,"GOL Linhas Aéreas",\\N,"G3","GLO","GOL TRANSPORTE","Brazil","Y"',
+].join('\n');
+
+describe('referenceDataImporter', () => {
+  it('deve interpretar campos entre aspas com vírgulas e aspas duplicadas', () => {
+    expect(parseCsv('a,"b, c","d ""e"""\r\n1,2,3\n')).toEqual([
+      ['a', 'b, c', 'd "e"'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('deve importar aeroportos do OpenFlights apenas com código IATA', () => {
+    const { records } = parseAirports(parseCsv(OPENFLIGHTS_AIRPORTS));
+
+    expect(records.map(airport => airport.code)).toEqual(['GRU', 'CGH']);
+    expect(records[0]).toMatchObject({
+      icaoCode: 'SBGR',
+      city: 'Sao Paulo',
+      country: 'Brazil',
+      timezone: 'America/Sao_Paulo',
+      latitude: -23.435556411743164,
+    });
+  });
+
+  it('deve importar aeroportos do OurAirports pelo cabeçalho, sem fuso horário', () => {
+    const { records, skipped } = parseAirports(
+      parseCsv(
+        [
+          'id,ident,type,name,latitude_deg,longitude_deg,iso_country,municipality,iata_code',
+          '5906,SBKP,large_airport,Viracopos International Airport,-23.0074,-47.1345,BR,Campinas,VCP',
+          '9999,SBXX,closed,Aeroporto Desativado,-23,-47,BR,Campinas,XXX',
+        ].join('\n')
+      )
+    );
+
+    expect(records).toEqual([
+      {
+        code: 'VCP',
+        icaoCode: 'SBKP',
+        name: 'Viracopos International Airport',
+        city: 'Campinas',
+        country: 'BR',
+        timezone: null,
+        latitude: -23.0074,
+        longitude: -47.1345,
+      },
+    ]);
+    expect(skipped).toEqual([
+      { code: 'XXX', action: 'skipped', reason: 'tipo closed' },
+    ]);
+  });
+
+  it('deve preferir a companhia ativa quando o código IATA se repete e aplicar alianças', () => {
+    const { records } = parseAirlines(parseCsv(OPENFLIGHTS_AIRLINES));
+    const withAlliances = applyAlliances(
+      records,
+      parseCsv('code,alliance\nLA,oneworld')
+    );
+
+    expect(withAlliances).toEqual([
+      {
+        code: 'LA',
+        icaoCode: 'LAN',
+        name: 'LATAM Chile',
+        country: 'Chile',
+        alliance: 'oneworld',
+        isActive: true,
+      },
+      {
+        code: 'G3',
+        icaoCode: 'GLO',
+        name: 'GOL Linhas Aéreas',
+        country: 'Brazil',
+        alliance: null,
+        isActive: true,
+      },
+    ]);
+  });
+
+  it('deve ser idempotente e não apagar campos ausentes no arquivo', () => {
+    const { records } = parseAirports(parseCsv(OPENFLIGHTS_AIRPORTS));
+    const fields = ['icaoCode', 'name', 'timezone', 'latitude'] as const;
+
+    const first = diffRecords(records, [], [...fields]);
+    expect(first.created).toHaveLength(2);
+
+    const second = diffRecords(records, records, [...fields]);
+    expect(second.created).toHaveLength(0);
+    expect(second.updated).toHaveLength(0);
+    expect(second.unchanged).toEqual(['GRU', 'CGH']);
+
+    const withoutTimezone = records.map(record => ({
+      ...record,
+      name: record.code === 'CGH' ? 'Congonhas' : record.name,
+      timezone: null,
+    }));
+    const third = diffRecords(withoutTimezone, records, [...fields]);
+    expect(third.updated).toEqual([
+      { record: { code: 'CGH', name: 'Congonhas' }, fields: ['name'] },
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  groupByOutbound,
+  pairRoundTrips,
+} from '../../services/roundTripService';
+import { slice, offer } from '../helpers/flights';
+
+const ida1 = slice(
+  'LA8084',
+  'GRU',
+  'LHR',
+  '2026-12-10T23:55:00Z',
+  '2026-12-11T14:00:00Z'
+);
+const ida2 = slice(
+  'LA8070',
+  'GRU',
+  'LHR',
+  '2026-12-10T10:00:00Z',
+  '2026-12-11T01:00:00Z'
+);
+const volta1 = slice(
+  'LA8085',
+  'LHR',
+  'GRU',
+  '2026-12-20T21:00:00Z',
+  '2026-12-21T08:00:00Z'
+);
+const volta2 = slice(
+  'LA8071',
+  'LHR',
+  'GRU',
+  '2026-12-20T10:00:00Z',
+  '2026-12-20T22:00:00Z'
+);
+
+const outboundOffers = [offer('o1', 5000, [ida1]), offer('o2', 4000, [ida2])];
+const returnOffers = [offer('r1', 4500, [volta1]), offer('r2', 5500, [volta2])];
+
+describe('pairRoundTrips', () => {
+  it('deve combinar todos os trechos só ida com preço somado', () => {
+    const pairs = pairRoundTrips([], outboundOffers, returnOffers);
+
+    expect(pairs).toHaveLength(4);
+    expect(pairs[0].price).toBe(8500);
+    expect(pairs[0].fareType).toBe('one-way-combination');
+    expect(pairs[0].offerIds).toEqual(['o2', 'r1']);
+  });
+
+  it('deve preferir a tarifa ida e volta mais barata e calcular a economia', () => {
+    const pairs = pairRoundTrips(
+      [offer('rt', 8000, [ida1, volta1])],
+      outboundOffers,
+      returnOffers
+    );
+    const roundTrip = pairs.find(pair => pair.fareType === 'round-trip');
+
+    expect(pairs).toHaveLength(4);
+    expect(roundTrip?.price).toBe(8000);
+    expect(roundTrip?.oneWayPrice).toBe(9500);
+    expect(roundTrip?.savings).toBe(1500);
+    expect(pairs[0]).toBe(roundTrip);
+  });
+
+  it('deve descartar voltas que partem antes da chegada da ida', () => {
+    const earlyReturn = slice(
+      'LA8001',
+      'LHR',
+      'GRU',
+      '2026-12-11T10:00:00Z',
+      '2026-12-11T22:00:00Z'
+    );
+    const pairs = pairRoundTrips(
+      [],
+      [offer('o1', 5000, [ida1])],
+      [offer('r3', 3000, [earlyReturn])]
+    );
+
+    expect(pairs).toHaveLength(0);
+  });
+
+  it('deve agrupar as combinações pelo trecho de ida', () => {
+    const outbounds = groupByOutbound(
+      pairRoundTrips([], outboundOffers, returnOffers)
+    );
+
+    expect(outbounds).toHaveLength(2);
+    expect(outbounds[0].fromPrice).toBe(8500);
+    expect(outbounds[0].returnOptions).toBe(2);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildBookingWindowStats,
+  buildCarrierShare,
+  buildWeekdayStats,
+  findCheapest,
+  measureVolatility,
+} from '../../services/routeAnalyticsService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 14 dias de observação, duas ofertas por dia: LA sempre 100 mais barata
+const observations = Array.from({ length: 14 }, (_, day) => {
+  const observedAt = new Date(Date.UTC(2026, 8, 1) + day * DAY_MS);
+  const departureDate = new Date(observedAt.getTime() + 20 * DAY_MS);
+  // Partidas de terça (2) custam menos
+  const base = departureDate.getUTCDay() === 2 ? 800 : 1000;
+  return [
+    {
+      airlineCode: 'LA',
+      airlineName: 'LATAM',
+      departureDate,
+      daysBeforeDeparture: 20,
+      price: base,
+      observedAt,
+    },
+    {
+      airlineCode: 'G3',
+      airlineName: 'GOL',
+      departureDate,
+      daysBeforeDeparture: 20,
+      price: base + 100,
+      observedAt,
+    },
+  ];
+}).flat();
+
+describe('routeAnalyticsService', () => {
+  it('deve agrupar as tarifas por dia da semana e janela de compra', () => {
+    const weekdays = buildWeekdayStats(observations);
+    expect(weekdays[2]).toMatchObject({
+      avgPrice: 850,
+      minPrice: 800,
+      sampleSize: 4,
+    });
+
+    // Menos de cinco observações não disputam o dia mais barato
+    expect(findCheapest(weekdays)).toBeNull();
+    expect(
+      findCheapest(buildWeekdayStats([...observations, ...observations]))
+    ).toBe(2);
+
+    const windows = buildBookingWindowStats(observations);
+    expect(windows[2]).toMatchObject({
+      bookingWindow: { minDays: 14, maxDays: 29 },
+      sampleSize: 28,
+    });
+    expect(findCheapest(windows)).toBe(2);
+  });
+
+  it('deve medir a participação das companhias e a volatilidade', () => {
+    const carriers = buildCarrierShare(observations);
+    expect(carriers).toHaveLength(2);
+    expect(
+      carriers.find(carrier => carrier.airlineCode === 'LA')
+    ).toMatchObject({ offers: 14, sharePercent: 50, cheapestPercent: 100 });
+
+    const stable = Array.from({ length: 10 }, () => ({ avgPrice: 1000 }));
+    expect(measureVolatility(stable)).toMatchObject({
+      coefficientOfVariation: 0,
+      avgDailyChange: 0,
+      level: 'low',
+    });
+
+    const swinging = Array.from({ length: 10 }, (_, index) => ({
+      avgPrice: index % 2 ? 600 : 1400,
+    }));
+    expect(measureVolatility(swinging)?.level).toBe('high');
+
+    // Menos de uma semana de histórico
+    expect(measureVolatility(stable.slice(0, 3))).toBeNull();
+  });
+});
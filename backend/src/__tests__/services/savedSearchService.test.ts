@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  SnapshotFlight,
+  diffSnapshots,
+} from '../../services/savedSearchService';
+
+const flight = (key: string, price: number): SnapshotFlight => ({
+  key,
+  airline: { code: 'LA', name: 'LATAM Airlines' },
+  flightNumber: key,
+  departureTime: '2026-12-10T22:30:00-03:00',
+  arrivalTime: '2026-12-11T14:10:00+00:00',
+  duration: 700,
+  stops: 0,
+  price,
+  currency: 'BRL',
+});
+
+describe('savedSearchService', () => {
+  it('deve apontar voos novos, removidos e variações de preço', () => {
+    const diff = diffSnapshots(
+      [flight('LA8084', 5000), flight('LA8070', 6000), flight('TP88', 4800)],
+      [flight('LA8084', 4500), flight('LA8070', 6000), flight('BA248', 5200)]
+    );
+
+    expect(diff.newFlights.map(item => item.key)).toEqual(['BA248']);
+    expect(diff.removedFlights.map(item => item.key)).toEqual(['TP88']);
+    expect(diff.priceChanges).toEqual([
+      {
+        flight: flight('LA8084', 4500),
+        previousPrice: 5000,
+        change: -500,
+        changePercent: -10,
+      },
+    ]);
+    expect(diff.unchanged).toBe(1);
+    expect(diff.minPriceChange).toBe(-300);
+  });
+
+  it('deve tratar todos os voos como novos na primeira execução', () => {
+    const diff = diffSnapshots(null, [flight('LA8084', 5000)]);
+
+    expect(diff.newFlights).toHaveLength(1);
+    expect(diff.removedFlights).toEqual([]);
+    expect(diff.minPriceChange).toBeNull();
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyFilters,
+  computeFacets,
+  parseResultFilters,
+  sortFlights,
+} from '../../services/searchFilters';
+import { buildSlice, FlightSegment } from '../../services/itinerary';
+import type { FlightResult } from '../../services/flightModel';
+
+const segment = (
+  carrier: string,
+  from: string,
+  to: string,
+  departureTime: string,
+  arrivalTime: string,
+  aircraft: string
+): FlightSegment => ({
+  airline: { code: carrier, name: carrier },
+  flightNumber: `${carrier}100`,
+  origin: { code: from, name: from, city: from },
+  destination: { code: to, name: to, city: to },
+  departureTime,
+  arrivalTime,
+  duration: 0,
+  aircraft,
+});
+
+const createFlight = (
+  id: string,
+  price: number,
+  segments: FlightSegment[]
+): FlightResult => {
+  const slice = buildSlice(segments);
+  return {
+    id,
+    airline: segments[0].airline,
+    flightNumber: segments[0].flightNumber,
+    origin: slice.origin,
+    destination: slice.destination,
+    departureTime: slice.departureTime,
+    arrivalTime: slice.arrivalTime,
+    duration: slice.duration,
+    stops: slice.stops,
+    price,
+    currency: 'BRL',
+    classType: 'business',
+    availableSeats: 4,
+    baggageIncluded: true,
+    source: 'latam',
+    bookingUrl: '',
+    isOffer: false,
+    slices: [slice],
+    fares: [],
+    priceBreakdown: [],
+  };
+};
+
+const flights = [
+  createFlight('direto', 9000, [
+    segment(
+      'LA',
+      'GRU',
+      'LHR',
+      '2026-12-10T23:55:00',
+      '2026-12-11T15:00:00',
+      '789'
+    ),
+  ]),
+  createFlight('via-lis', 6500, [
+    segment(
+      'TP',
+      'GRU',
+      'LIS',
+      '2026-12-10T16:10:00',
+      '2026-12-11T06:00:00',
+      '339'
+    ),
+    segment(
+      'TP',
+      'LIS',
+      'LHR',
+      '2026-12-11T08:00:00',
+      '2026-12-11T10:45:00',
+      '320'
+    ),
+  ]),
+  createFlight('via-mad', 5800, [
+    segment(
+      'IB',
+      'GRU',
+      'MAD',
+      '2026-12-10T07:30:00',
+      '2026-12-10T23:00:00',
+      '359'
+    ),
+    segment(
+      'IB',
+      'MAD',
+      'LHR',
+      '2026-12-11T07:00:00',
+      '2026-12-11T08:30:00',
+      '320'
+    ),
+  ]),
+];
+
+const ids = (results: FlightResult[]) => results.map(flight => flight.id);
+
+describe('searchFilters', () => {
+  it('deve filtrar por janela de horário de partida', () => {
+    const result = applyFilters(flights, {
+      departureWindow: { from: '12:00', to: '23:59' },
+    });
+
+    expect(ids(result)).toEqual(['direto', 'via-lis']);
+  });
+
+  it('deve filtrar por paradas, duração e companhias', () => {
+    expect(ids(applyFilters(flights, { maxStops: 0 }))).toEqual(['direto']);
+    expect(ids(applyFilters(flights, { maxDuration: 1000 }))).toEqual([
+      'direto',
+    ]);
+    expect(ids(applyFilters(flights, { airlines: ['TP', 'IB'] }))).toEqual([
+      'via-lis',
+      'via-mad',
+    ]);
+    expect(ids(applyFilters(flights, { excludeAirlines: ['IB'] }))).toEqual([
+      'direto',
+      'via-lis',
+    ]);
+  });
+
+  it('deve aceitar apenas as conexões permitidas e as aeronaves informadas', () => {
+    expect(ids(applyFilters(flights, { connectionAirports: ['LIS'] }))).toEqual(
+      ['direto', 'via-lis']
+    );
+    expect(ids(applyFilters(flights, { aircraft: ['359'] }))).toEqual([
+      'via-mad',
+    ]);
+  });
+
+  it('deve ordenar pelo horário de chegada', () => {
+    expect(ids(sortFlights(flights, 'arrivalTime'))).toEqual([
+      'via-mad',
+      'via-lis',
+      'direto',
+    ]);
+  });
+
+  it('deve calcular os facets com contagem e menor preço', () => {
+    const facets = computeFacets(flights);
+
+    expect(facets.stops).toEqual([
+      { value: '0', label: 'Direto', count: 1, minPrice: 9000 },
+      { value: '1', label: '1 parada(s)', count: 2, minPrice: 5800 },
+    ]);
+    expect(facets.connectionAirports.map(facet => facet.value)).toEqual([
+      'LIS',
+      'MAD',
+    ]);
+    expect(facets.aircraft.find(facet => facet.value === '320')?.count).toBe(2);
+    expect(facets.departurePeriods.map(facet => facet.value)).toEqual([
+      'manha',
+      'tarde',
+      'noite',
+    ]);
+    expect(facets.price).toEqual({ min: 5800, max: 9000 });
+  });
+
+  it('deve converter a query string em filtros', () => {
+    const filters = parseResultFilters({
+      airlines: 'la, tp',
+      departureTimeFrom: '06:00',
+      maxStops: '1',
+    });
+
+    expect(filters.airlines).toEqual(['LA', 'TP']);
+    expect(filters.departureWindow).toEqual({ from: '06:00', to: undefined });
+    expect(filters.maxStops).toBe(1);
+    expect(filters.maxPrice).toBeUndefined();
+  });
+});
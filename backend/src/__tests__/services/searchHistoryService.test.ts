@@ -0,0 +1,61 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  toResultFilters,
+  toSearchHistoryEntry,
+} from '../../services/searchHistoryService';
+
+describe('searchHistoryService', () => {
+  it('deve reconstruir os parâmetros e filtros da busca gravada', () => {
+    const createdAt = new Date('2026-10-01T12:00:00Z');
+
+    expect(
+      toSearchHistoryEntry({
+        id: 'search-1',
+        userId: 'user-1',
+        departureCode: 'GRU',
+        arrivalCode: 'LIS',
+        departureDate: new Date('2026-12-10'),
+        returnDate: new Date('2026-12-20'),
+        passengers: 3,
+        adults: 2,
+        children: 0,
+        infants: 1,
+        classType: 'economy',
+        searchType: 'flexible',
+        flexibleDays: 5,
+        filters: '{"maxPrice":4000,"preferredAirlines":["TP"]}',
+        resultsCount: 12,
+        createdAt,
+      })
+    ).toEqual({
+      id: 'search-1',
+      searchType: 'flexible',
+      params: {
+        origin: 'GRU',
+        destination: 'LIS',
+        departureDate: '2026-12-10',
+        returnDate: '2026-12-20',
+        passengers: 3,
+        passengerMix: { adults: 2, children: 0, infants: 1 },
+        classType: 'economy',
+        flexibleDays: 5,
+      },
+      filters: { maxPrice: 4000, preferredAirlines: ['TP'] },
+      resultsCount: 12,
+      createdAt,
+    });
+  });
+
+  it('deve aplicar as preferências como filtros de resultado', () => {
+    expect(
+      toResultFilters({
+        preferredAirlines: ['LA'],
+        directFlightsOnly: true,
+        maxPrice: 5000,
+      })
+    ).toMatchObject({ airlines: ['LA'], maxStops: 0, maxPrice: 5000 });
+    expect(
+      toResultFilters({ airlines: ['G3'], preferredAirlines: ['LA'] }).airlines
+    ).toEqual(['G3']);
+  });
+});
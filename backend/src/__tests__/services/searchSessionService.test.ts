@@ -0,0 +1,81 @@
+import { describe, it, expect } from '@jest/globals';
+import { applySessionQuery } from '../../services/searchSessionService';
+import type { FlightResult } from '../../services/flightModel';
+
+const createFlight = (overrides: Partial<FlightResult>): FlightResult => ({
+  id: 'flight',
+  airline: { code: 'LA', name: 'LATAM' },
+  flightNumber: 'LA8084',
+  origin: { code: 'GRU', name: 'Guarulhos', city: 'São Paulo' },
+  destination: { code: 'LHR', name: 'Heathrow', city: 'Londres' },
+  departureTime: '2026-12-10T23:55:00',
+  arrivalTime: '2026-12-11T15:00:00',
+  duration: 725,
+  stops: 0,
+  price: 5000,
+  currency: 'BRL',
+  classType: 'business',
+  availableSeats: 4,
+  baggageIncluded: true,
+  source: 'latam',
+  bookingUrl: '',
+  isOffer: false,
+  slices: [],
+  fares: [],
+  ...overrides,
+});
+
+const offers = [
+  createFlight({ id: 'a', price: 7000, duration: 700, stops: 0 }),
+  createFlight({
+    id: 'b',
+    airline: { code: 'TP', name: 'TAP Air Portugal' },
+    price: 4500,
+    duration: 900,
+    stops: 1,
+    fares: [
+      {
+        source: 'amadeus',
+        sourceName: 'Amadeus',
+        price: 4500,
+        currency: 'BRL',
+        bookingUrl: '',
+        isCheapest: true,
+      },
+    ],
+  }),
+  createFlight({ id: 'c', price: 5200, duration: 1100, stops: 2 }),
+];
+
+describe('applySessionQuery', () => {
+  it('deve ordenar por preço crescente por padrão', () => {
+    const result = applySessionQuery(offers);
+
+    expect(result.flights.map(flight => flight.id)).toEqual(['b', 'c', 'a']);
+    expect(result.total).toBe(3);
+  });
+
+  it('deve ordenar pelo campo e ordem informados', () => {
+    const result = applySessionQuery(offers, {
+      sortBy: 'duration',
+      order: 'desc',
+    });
+
+    expect(result.flights.map(flight => flight.id)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('deve filtrar por companhia, vendedor, preço e paradas', () => {
+    expect(applySessionQuery(offers, { airline: 'tap' }).total).toBe(1);
+    expect(applySessionQuery(offers, { source: 'amadeus' }).total).toBe(1);
+    expect(
+      applySessionQuery(offers, { maxPrice: 6000, maxStops: 1 }).flights
+    ).toHaveLength(1);
+  });
+
+  it('deve paginar os resultados', () => {
+    const result = applySessionQuery(offers, { page: 2, limit: 2 });
+
+    expect(result.flights.map(flight => flight.id)).toEqual(['a']);
+    expect(result.pages).toBe(2);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  formatLocalDateTime,
+  getTimeZoneOffset,
+  getUtcOffsetLabel,
+  getZonedDate,
+  getZonedDayRange,
+  toLocalDateTime,
+} from '../../utils/timezone';
+
+describe('timezone', () => {
+  it('deve calcular o dia local do aeroporto em UTC', () => {
+    const { start, end } = getZonedDayRange('2026-12-10', 'America/Sao_Paulo');
+
+    expect(start.toISOString()).toBe('2026-12-10T03:00:00.000Z');
+    expect(end.toISOString()).toBe('2026-12-11T03:00:00.000Z');
+  });
+
+  it('deve respeitar o horário de verão', () => {
+    // Nova York adianta o relógio em 08/03/2026: o dia tem 23 horas
+    const { start, end } = getZonedDayRange('2026-03-08', 'America/New_York');
+
+    expect(start.toISOString()).toBe('2026-03-08T05:00:00.000Z');
+    expect(end.toISOString()).toBe('2026-03-09T04:00:00.000Z');
+    expect(getTimeZoneOffset(end, 'America/New_York')).toBe(-240);
+  });
+
+  it('deve manter a data local perto da meia-noite', () => {
+    const instant = new Date('2026-12-11T01:30:00Z');
+
+    expect(getZonedDate(instant, 'America/Sao_Paulo')).toBe('2026-12-10');
+    expect(toLocalDateTime('2026-12-11T01:30:00Z', 'America/Sao_Paulo')).toBe(
+      '2026-12-10T22:30:00-03:00'
+    );
+    expect(toLocalDateTime('2026-12-10T22:30:00', 'America/Sao_Paulo')).toBe(
+      '2026-12-10T22:30:00-03:00'
+    );
+  });
+
+  it('deve formatar o horário local sem depender do fuso do servidor', () => {
+    const dateTime = '2026-12-10T22:30:00-03:00';
+
+    expect(
+      formatLocalDateTime(dateTime, { hour: '2-digit', minute: '2-digit' })
+    ).toBe('22:30');
+    expect(
+      formatLocalDateTime(dateTime, {
+        day: '2-digit',
+        month: '2-digit',
+        year: 'numeric',
+      })
+    ).toBe('10/12/2026');
+    expect(getUtcOffsetLabel(dateTime)).toBe('UTC-03:00');
+    expect(getUtcOffsetLabel('2026-12-10T22:30:00Z')).toBe('UTC');
+  });
+});
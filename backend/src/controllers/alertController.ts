@@ -2,6 +2,10 @@ import { Request, Response } from 'express';
 import { alertService } from '../services/alertService';
 import { logger } from '../utils/logger';
 import { prisma } from '../config/database';
+import {
+  parsePassengerMix,
+  validatePassengerMix,
+} from '../services/passengers';
 
 interface AuthenticatedRequest extends Request {
   user?: {
@@ -36,6 +40,7 @@ export const createAlert = async (
       minPrice,
       classType = 'business',
       maxStops,
+      minDealPercentile,
       preferredAirlines = [],
       emailNotification = true,
       pushNotification = true,
@@ -77,7 +82,13 @@ export const createAlert = async (
         minPrice: minPrice ? parseFloat(minPrice) : null,
         classType,
         maxStops,
+        minDealPercentile:
+          minDealPercentile !== undefined && minDealPercentile !== null
+            ? parseInt(minDealPercentile)
+            : null,
         preferredAirlines,
+        // Composição do grupo usada nas buscas do alerta
+        ...parsePassengerMix(req.body),
         emailNotification,
         pushNotification,
       },
@@ -300,6 +311,12 @@ export const updateAlert = async (
     if (updateData.maxStops !== undefined) {
       dataToUpdate.maxStops = updateData.maxStops;
     }
+    if (updateData.minDealPercentile !== undefined) {
+      dataToUpdate.minDealPercentile =
+        updateData.minDealPercentile !== null
+          ? parseInt(updateData.minDealPercentile)
+          : null;
+    }
     if (updateData.preferredAirlines) {
       dataToUpdate.preferredAirlines = updateData.preferredAirlines;
     }
@@ -313,6 +330,36 @@ export const updateAlert = async (
       dataToUpdate.isActive = updateData.isActive;
     }
 
+    // A composição atualizada é validada junto com a já cadastrada
+    if (
+      ['passengers', 'adults', 'children', 'infants', 'childAges'].some(
+        field => updateData[field] !== undefined
+      )
+    ) {
+      // Só o total (formato antigo) substitui o grupo por adultos
+      const legacyTotal =
+        updateData.adults === undefined && updateData.passengers !== undefined;
+      const mix = parsePassengerMix(
+        legacyTotal
+          ? updateData
+          : {
+              adults: existingAlert.adults,
+              children: existingAlert.children,
+              infants: existingAlert.infants,
+              ...updateData,
+            }
+      );
+      const mixError = validatePassengerMix(mix);
+      if (mixError) {
+        res.status(400).json({
+          success: false,
+          message: mixError,
+        });
+        return;
+      }
+      Object.assign(dataToUpdate, mix);
+    }
+
     // Atualizar alerta
     const updatedAlert = await prisma.alert.update({
       where: { id: alertId },
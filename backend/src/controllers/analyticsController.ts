@@ -0,0 +1,33 @@
+import { Request, Response } from 'express';
+import routeAnalyticsService from '../services/routeAnalyticsService';
+import { ClassType } from '../services/flightModel';
+import { logger } from '../utils/logger';
+
+// Análise de preços e demanda de uma rota
+export const getRouteAnalytics = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { origin, destination } = req.params;
+    const { classType, days } = req.query;
+
+    const analytics = await routeAnalyticsService.getRouteAnalytics({
+      origin,
+      destination,
+      classType: classType as ClassType | undefined,
+      days: days ? parseInt(days as string) : undefined,
+    });
+
+    res.json({
+      success: true,
+      data: analytics,
+    });
+  } catch (error) {
+    logger.error('Erro ao obter análise da rota:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erro interno do servidor',
+    });
+  }
+};
@@ -0,0 +1,39 @@
+import { Request, Response } from 'express';
+import fareAnomalyService from '../services/fareAnomalyService';
+import { ClassType } from '../services/flightModel';
+import { logger } from '../utils/logger';
+
+// Listar tarifas erradas confirmadas pela reverificação
+export const getFareAnomalies = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const {
+      origin,
+      destination,
+      classType,
+      page = '1',
+      limit = '20',
+    } = req.query;
+
+    const feed = await fareAnomalyService.list({
+      origin: origin as string | undefined,
+      destination: destination as string | undefined,
+      classType: classType as ClassType | undefined,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    });
+
+    res.json({
+      success: true,
+      data: feed,
+    });
+  } catch (error) {
+    logger.error('Erro ao listar tarifas anômalas:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erro interno do servidor',
+    });
+  }
+};
@@ -1,15 +1,50 @@
 import { Request, Response } from 'express';
-import { validationResult } from 'express-validator';
 import flightSearchService, {
-  FlightSearchParams,
+  FlightSearchFilters,
 } from '../services/flightSearchService';
 import { flightService } from '../services/flightService';
 import flexibleSearchService, {
   FlexibleSearchParams,
 } from '../services/flexibleSearchService';
 import recommendationService from '../services/recommendationService';
-import airlineApiService from '../services/airlineApiService';
+import airlineApiService, {
+  providerRegistry,
+} from '../services/airlineApiService';
+import {
+  ClassType,
+  FlightSearchParams,
+  MultiCityLeg,
+  parseFlightSearchParams,
+  parseSearchPreferences,
+} from '../services/flightModel';
+import circuitBreakers from '../services/circuitBreaker';
+import quotaService from '../services/quotaService';
+import roundTripService from '../services/roundTripService';
+import multiCityService from '../services/multiCityService';
+import airportGeoService from '../services/airportGeoService';
+import searchSessionService, {
+  applySessionQuery,
+} from '../services/searchSessionService';
+import {
+  applyFilters,
+  computeFacets,
+  parseResultFilters,
+  ResultSortField,
+  sortFlights,
+} from '../services/searchFilters';
 import cacheService from '../services/cacheService';
+import priceObservationService, {
+  buildDailyStats,
+} from '../services/priceObservationService';
+import searchHistoryService, {
+  SearchType,
+  StoredSearchFilters,
+} from '../services/searchHistoryService';
+import {
+  getPassengerMix,
+  parsePassengerMix,
+  toPassengerParams,
+} from '../services/passengers';
 import { logger } from '../utils/logger';
 import { prisma } from '../config/database';
 
@@ -21,66 +56,62 @@ interface AuthenticatedRequest extends Request {
   };
 }
 
+// Registra a busca no histórico do usuário autenticado
+const saveSearchHistory = async (
+  req: Request,
+  params: Omit<FlightSearchParams, 'classType'> & { classType?: ClassType },
+  resultsCount: number,
+  options: { searchType?: SearchType; filters?: StoredSearchFilters } = {}
+): Promise<void> => {
+  const authReq = req as AuthenticatedRequest;
+  if (!authReq.user) {
+    return;
+  }
+
+  await searchHistoryService.record(
+    authReq.user.id,
+    { ...params, classType: params.classType || 'business' },
+    { ...options, resultsCount }
+  );
+};
+
+// Filtros e ordenação da query de uma busca
+const getResultQuery = (req: Request): StoredSearchFilters => ({
+  ...parseResultFilters(req.query),
+  sortBy: req.query.sortBy as ResultSortField | undefined,
+  order: req.query.order as 'asc' | 'desc' | undefined,
+});
+
 // Buscar voos
 export const searchFlights = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
-    const {
-      origin,
-      destination,
-      departureDate,
-      returnDate,
-      passengers = 1,
-      classType = 'business',
-    } = req.query;
-
-    // Validação básica
-    if (!origin || !destination || !departureDate) {
-      res.status(400).json({
-        success: false,
-        message: 'Origem, destino e data de partida são obrigatórios',
-      });
-      return;
-    }
-
-    const searchParams = {
-      origin: origin as string,
-      destination: destination as string,
-      departureDate: departureDate as string,
-      returnDate: returnDate as string,
-      passengers: parseInt(passengers as string) || 1,
-      classType: classType as 'business' | 'economy' | 'both',
-    };
+    const searchParams = parseFlightSearchParams(req.query);
 
     logger.info('Iniciando busca de voos:', searchParams);
 
     const searchResult = await flightService.searchAllFlights(searchParams);
 
+    // Filtros e ordenação opcionais; os facets consideram todos os resultados
+    const resultQuery = getResultQuery(req);
+    const flights = sortFlights(
+      applyFilters(searchResult.flights, resultQuery),
+      resultQuery.sortBy,
+      resultQuery.order
+    );
+
     // Salvar busca no histórico (se usuário autenticado)
-    const authReq = req as AuthenticatedRequest;
-    if (authReq.user) {
-      await prisma.search.create({
-        data: {
-          userId: authReq.user.id,
-          departureCode: searchParams.origin,
-          arrivalCode: searchParams.destination,
-          departureDate: new Date(searchParams.departureDate),
-          returnDate: searchParams.returnDate
-            ? new Date(searchParams.returnDate)
-            : null,
-          passengers: searchParams.passengers,
-          classType: 'business',
-          resultsCount: searchResult.flights.length,
-        },
-      });
-    }
+    await saveSearchHistory(req, searchParams, searchResult.flights.length, {
+      filters: resultQuery,
+    });
 
     res.json({
       success: true,
       data: {
-        flights: searchResult.flights,
+        flights,
+        facets: computeFacets(searchResult.flights),
         searchId: searchResult.searchId,
         totalResults: searchResult.flights.length,
       },
@@ -98,6 +129,271 @@ export const searchFlights = async (
   }
 };
 
+// Buscar voos com resultados transmitidos via SSE à medida que cada provedor responde
+export const streamSearchFlights = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const searchParams = parseFlightSearchParams(req.query);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  // O cliente pode fechar a conexão antes do fim da busca
+  let closed = false;
+  req.on('close', () => {
+    closed = true;
+  });
+
+  const send = (event: string, data: unknown) => {
+    if (!closed) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  try {
+    logger.info('Iniciando busca de voos (stream):', searchParams);
+
+    const summary = await flightService.searchAllFlights(
+      searchParams,
+      {},
+      batch => send('batch', batch)
+    );
+
+    send('summary', {
+      searchId: summary.searchId,
+      flights: summary.flights,
+      facets: computeFacets(summary.flights),
+      totalResults: summary.totalResults,
+      providers: summary.providers,
+    });
+
+    await saveSearchHistory(req, searchParams, summary.totalResults, {
+      filters: getResultQuery(req),
+    });
+
+    logger.info(
+      `Busca (stream) concluída: ${summary.totalResults} voos encontrados`
+    );
+  } catch (error) {
+    logger.error('Erro na busca de voos (stream):', error);
+    send('error', { message: 'Erro interno do servidor ao buscar voos' });
+  } finally {
+    res.end();
+  }
+};
+
+// Buscar ida e volta: combinações agrupadas pelo trecho de ida
+export const searchRoundTrip = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const searchParams = parseFlightSearchParams(req.query);
+
+    const result = await roundTripService.search(searchParams);
+
+    await saveSearchHistory(req, searchParams, result.totalOptions, {
+      searchType: 'round-trip',
+    });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    logger.error('Erro na busca de ida e volta:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erro interno do servidor ao buscar voos de ida e volta',
+    });
+  }
+};
+
+// Voltas disponíveis para o trecho de ida escolhido
+export const getRoundTripReturns = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { searchId } = req.params;
+    const { outbound } = req.query;
+
+    const returns = await roundTripService.getReturns(
+      searchId,
+      outbound as string
+    );
+
+    if (!returns) {
+      res.status(404).json({
+        success: false,
+        message: 'Busca não encontrada ou expirada',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        searchId,
+        outboundKey: outbound,
+        returns,
+      },
+    });
+  } catch (error) {
+    logger.error('Erro ao obter voltas da busca de ida e volta:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erro interno do servidor',
+    });
+  }
+};
+
+// Busca multi-destino (ex: GRU→JFK, JFK→ORD, ORD→GRU)
+export const searchMultiCity = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { legs, classType = 'business' } = req.body;
+
+    const searchParams = {
+      legs: (legs as MultiCityLeg[]).map(leg => ({
+        origin: leg.origin.toUpperCase(),
+        destination: leg.destination.toUpperCase(),
+        departureDate: leg.departureDate,
+      })),
+      ...toPassengerParams(parsePassengerMix(req.body)),
+      classType: classType as ClassType,
+    };
+
+    const result = await multiCityService.search(searchParams);
+
+    // Cada trecho entra no histórico como uma busca só ida
+    await Promise.all(
+      result.legs.map(leg =>
+        saveSearchHistory(
+          req,
+          {
+            ...leg,
+            passengers: searchParams.passengers,
+            passengerMix: searchParams.passengerMix,
+          },
+          leg.results
+        )
+      )
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    logger.error('Erro na busca multi-destino:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erro interno do servidor ao buscar voos multi-destino',
+    });
+  }
+};
+
+// Obter resultados de uma busca anterior, com filtros, ordenação e paginação
+export const getSearchSession = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { searchId } = req.params;
+    const {
+      sortBy,
+      order,
+      airline,
+      source,
+      page = '1',
+      limit = '20',
+    } = req.query;
+
+    const session = await searchSessionService.get(searchId);
+
+    if (!session) {
+      res.status(404).json({
+        success: false,
+        message: 'Busca não encontrada ou expirada',
+      });
+      return;
+    }
+
+    const result = applySessionQuery(session.offers, {
+      ...parseResultFilters(req.query),
+      sortBy: sortBy as ResultSortField | undefined,
+      order: order as 'asc' | 'desc' | undefined,
+      airline: airline as string | undefined,
+      source: source as string | undefined,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    });
+
+    res.json({
+      success: true,
+      data: {
+        searchId: session.searchId,
+        params: session.params,
+        flights: result.flights,
+        facets: result.facets,
+        totalResults: session.offers.length,
+        createdAt: session.createdAt,
+        expiresAt: session.expiresAt,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          pages: result.pages,
+        },
+      },
+    });
+  } catch (error) {
+    logger.error('Erro ao obter sessão de busca:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erro interno do servidor',
+    });
+  }
+};
+
+// Obter uma oferta de uma busca anterior
+export const getSearchSessionOffer = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { searchId, offerId } = req.params;
+    const offer = await searchSessionService.getOffer(searchId, offerId);
+
+    if (!offer) {
+      res.status(404).json({
+        success: false,
+        message: 'Oferta não encontrada ou busca expirada',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: offer,
+    });
+  } catch (error) {
+    logger.error('Erro ao obter oferta da sessão de busca:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erro interno do servidor',
+    });
+  }
+};
+
 // Obter detalhes de um voo específico
 export const getFlightDetails = async (
   req: Request,
@@ -119,6 +415,9 @@ export const getFlightDetails = async (
       where: { id: flightId },
       include: {
         airline: true,
+        segments: {
+          orderBy: [{ sliceIndex: 'asc' }, { segmentIndex: 'asc' }],
+        },
         priceHistory: {
           orderBy: { timestamp: 'desc' },
           take: 30, // Últimos 30 registros de preço
@@ -246,7 +545,7 @@ export const getPriceHistory = async (
   res: Response
 ): Promise<void> => {
   try {
-    const { origin, destination, days = 30 } = req.query;
+    const { origin, destination, classType, days = 30 } = req.query;
 
     if (!origin || !destination) {
       res.status(400).json({
@@ -257,90 +556,26 @@ export const getPriceHistory = async (
     }
 
     const daysLimit = Math.min(parseInt(days as string) || 30, 90);
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - daysLimit);
 
-    // Buscar histórico de preços
-    const priceHistory = await prisma.priceHistory.findMany({
-      where: {
-        flight: {
-          departureAirport: {
-            code: origin as string,
-          },
-          arrivalAirport: {
-            code: destination as string,
-          },
-        },
-        timestamp: {
-          gte: startDate,
-        },
-      },
-      include: {
-        flight: {
-          include: {
-            airline: true,
-          },
-        },
-      },
-      orderBy: {
-        timestamp: 'asc',
-      },
-    });
-
-    // Agrupar por data para análise de tendências
-    const groupedByDate = priceHistory.reduce(
-      (acc, record) => {
-        const date = record.timestamp.toISOString().split('T')[0];
-        if (!acc[date]) {
-          acc[date] = [];
-        }
-        acc[date].push(record);
-        return acc;
-      },
-      {} as Record<string, typeof priceHistory>
-    );
-
-    // Calcular estatísticas diárias
-    const dailyStats = Object.entries(groupedByDate).map(([date, records]) => {
-      const businessPrices = records
-        .map(r => (r.businessPrice ? Number(r.businessPrice) : 0))
-        .filter(p => p > 0);
-      return {
-        date,
-        minPrice: businessPrices.length > 0 ? Math.min(...businessPrices) : 0,
-        maxPrice: businessPrices.length > 0 ? Math.max(...businessPrices) : 0,
-        avgPrice:
-          businessPrices.length > 0
-            ? businessPrices.reduce((a, b) => a + b, 0) / businessPrices.length
-            : 0,
-        recordCount: records.length,
-      };
+    // Preços observados nas respostas dos provedores (tarifa de um adulto)
+    const observations = await priceObservationService.getObservations({
+      origin: origin as string,
+      destination: destination as string,
+      classType: classType as ClassType | undefined,
+      days: daysLimit,
     });
+    const prices = observations.map(observation => observation.price);
 
     res.json({
       success: true,
       data: {
         route: `${origin} → ${destination}`,
         period: `${daysLimit} dias`,
-        dailyStats,
-        totalRecords: priceHistory.length,
+        dailyStats: buildDailyStats(observations),
+        totalRecords: observations.length,
         priceRange: {
-          min:
-            priceHistory.length > 0
-              ? Math.min(
-                  ...priceHistory
-                    .map(p => (p.businessPrice ? Number(p.businessPrice) : 0))
-                    .filter(p => p > 0)
-                )
-              : 0,
-          max:
-            priceHistory.length > 0
-              ? Math.max(
-                  ...priceHistory
-                    .map(p => (p.businessPrice ? Number(p.businessPrice) : 0))
-                    .filter(p => p > 0)
-                )
-              : 0,
+          min: prices.length > 0 ? Math.min(...prices) : 0,
+          max: prices.length > 0 ? Math.max(...prices) : 0,
         },
       },
     });
@@ -363,15 +598,15 @@ export const getAirports = async (
   try {
     const { search, country, limit = 50 } = req.query;
 
-    const where: any = {
-      isActive: true,
-    };
+    const where: any = {};
 
+    // No SQLite o contains já ignora maiúsculas e minúsculas
     if (search) {
       where.OR = [
-        { code: { contains: search as string, mode: 'insensitive' } },
-        { name: { contains: search as string, mode: 'insensitive' } },
-        { city: { contains: search as string, mode: 'insensitive' } },
+        { code: { contains: search as string } },
+        { icaoCode: { contains: search as string } },
+        { name: { contains: search as string } },
+        { city: { contains: search as string } },
       ];
     }
 
@@ -478,59 +713,18 @@ export const compareFlightPrices = async (
   res: Response
 ): Promise<void> => {
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      res.status(400).json({
-        success: false,
-        message: 'Dados de entrada inválidos',
-        errors: errors.array(),
-      });
-      return;
-    }
-
-    const {
-      origin,
-      destination,
-      departureDate,
-      returnDate,
-      passengers = 1,
-      flightClass = 'business',
-      maxPrice,
-      preferredAirlines,
-      directFlightsOnly = false,
-    } = req.body;
-
-    const searchParams: FlightSearchParams = {
-      origin,
-      destination,
-      departureDate: new Date(departureDate),
-      returnDate: returnDate ? new Date(returnDate) : undefined,
-      passengers,
-      flightClass,
-      maxPrice,
-      preferredAirlines,
-      directFlightsOnly,
+    const searchParams: FlightSearchFilters = {
+      ...parseFlightSearchParams(req.body),
+      ...parseSearchPreferences(req.body),
     };
 
     const comparison =
       await flightSearchService.compareFlightPrices(searchParams);
 
     // Salvar busca no histórico se usuário estiver logado
-    const authReq = req as AuthenticatedRequest;
-    if (authReq.user?.id) {
-      await prisma.search.create({
-        data: {
-          userId: authReq.user.id,
-          departureCode: searchParams.origin,
-          arrivalCode: searchParams.destination,
-          departureDate: searchParams.departureDate,
-          returnDate: searchParams.returnDate || null,
-          passengers: searchParams.passengers,
-          classType: searchParams.flightClass,
-          resultsCount: comparison.flights.length,
-        },
-      });
-    }
+    await saveSearchHistory(req, searchParams, comparison.flights.length, {
+      filters: parseSearchPreferences(req.body),
+    });
 
     res.json({
       success: true,
@@ -552,64 +746,25 @@ export const searchBusinessClassFlights = async (
   res: Response
 ): Promise<void> => {
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      res.status(400).json({
-        success: false,
-        message: 'Dados de entrada inválidos',
-        errors: errors.array(),
-      });
-      return;
-    }
-
-    const {
-      origin,
-      destination,
-      departureDate,
-      returnDate,
-      passengers = 1,
-      maxPrice,
-      preferredAirlines,
-      directFlightsOnly = false,
-    } = req.body;
-
-    const searchParams = {
-      origin,
-      destination,
-      departureDate: new Date(departureDate),
-      returnDate: returnDate ? new Date(returnDate) : undefined,
-      passengers,
-      maxPrice,
-      preferredAirlines,
-      directFlightsOnly,
+    const searchParams: FlightSearchFilters = {
+      ...parseFlightSearchParams({ ...req.body, classType: 'business' }),
+      ...parseSearchPreferences(req.body),
     };
 
     const flights =
       await flightSearchService.searchBusinessClassFlights(searchParams);
 
     // Salvar busca no histórico se usuário estiver logado
-    const authReq = req as AuthenticatedRequest;
-    if (authReq.user?.id) {
-      await prisma.search.create({
-        data: {
-          userId: authReq.user.id,
-          departureCode: searchParams.origin,
-          arrivalCode: searchParams.destination,
-          departureDate: searchParams.departureDate,
-          returnDate: searchParams.returnDate || null,
-          passengers: searchParams.passengers,
-          classType: 'business',
-          resultsCount: flights.length,
-        },
-      });
-    }
+    await saveSearchHistory(req, searchParams, flights.length, {
+      filters: parseSearchPreferences(req.body),
+    });
 
     res.json({
       success: true,
       data: {
         flights,
         total: flights.length,
-        searchParams: { ...searchParams, flightClass: 'business' },
+        searchParams,
       },
     });
   } catch (error) {
@@ -627,30 +782,16 @@ export const searchFlexibleFlights = async (
   res: Response
 ): Promise<void> => {
   try {
-    const {
-      origin,
-      destination,
-      departureDate,
-      returnDate,
-      passengers = 1,
-      classType = 'business',
-      flexibleDays = 3,
-      maxPrice,
-      preferredAirlines,
-      directFlightsOnly = false,
-    } = req.body;
-
-    // Validação
-    if (!origin || !destination || !departureDate) {
-      res.status(400).json({
-        success: false,
-        message: 'Origem, destino e data de partida são obrigatórios',
-      });
-      return;
-    }
+    const params = parseFlightSearchParams(req.body);
+    const searchParams: FlexibleSearchParams = {
+      ...params,
+      ...parseSearchPreferences(req.body),
+      flexibleDays: params.flexibleDays ?? 3,
+    };
 
     // Verificar cache primeiro
-    const cacheKey = `flexible_${origin}_${destination}_${departureDate}_${flexibleDays}_${classType}`;
+    const { adults, children, infants } = getPassengerMix(searchParams);
+    const cacheKey = `flexible_${searchParams.origin}_${searchParams.destination}_${searchParams.departureDate}_${searchParams.flexibleDays}_${searchParams.classType}_${adults}-${children}-${infants}`;
     const cachedResult = cacheService.get(cacheKey);
 
     if (cachedResult) {
@@ -662,20 +803,6 @@ export const searchFlexibleFlights = async (
       return;
     }
 
-    const searchParams: FlexibleSearchParams = {
-      origin: origin as string,
-      destination: destination as string,
-      departureDate: departureDate as string,
-      returnDate: returnDate as string,
-      passengers: parseInt(passengers as string) || 1,
-      classType: classType as 'business' | 'economy' | 'first',
-      flexibleDays: parseInt(flexibleDays as string) || 3,
-      maxPrice: maxPrice ? parseFloat(maxPrice as string) : undefined,
-      preferredAirlines: preferredAirlines as string[],
-      directFlightsOnly:
-        directFlightsOnly === 'true' || directFlightsOnly === true,
-    };
-
     logger.info('Iniciando busca flexível de voos:', searchParams);
 
     const authReq = req as AuthenticatedRequest;
@@ -698,22 +825,10 @@ export const searchFlexibleFlights = async (
     cacheService.cacheFlexibleSearch(cacheKey, finalResult);
 
     // Salvar busca no histórico
-    if (authReq.user) {
-      await prisma.search.create({
-        data: {
-          userId: authReq.user.id,
-          departureCode: searchParams.origin,
-          arrivalCode: searchParams.destination,
-          departureDate: new Date(searchParams.departureDate),
-          returnDate: searchParams.returnDate
-            ? new Date(searchParams.returnDate)
-            : null,
-          passengers: searchParams.passengers,
-          classType: searchParams.classType,
-          resultsCount: result.bestOffers.length,
-        },
-      });
-    }
+    await saveSearchHistory(req, searchParams, result.bestOffers.length, {
+      searchType: 'flexible',
+      filters: parseSearchPreferences(req.body),
+    });
 
     res.json({
       success: true,
@@ -738,21 +853,8 @@ export const getSpecialOffers = async (
   res: Response
 ): Promise<void> => {
   try {
-    const {
-      origin,
-      destination,
-      departureDate,
-      passengers = 1,
-      classType = 'business',
-    } = req.query;
-
-    if (!origin || !destination || !departureDate) {
-      res.status(400).json({
-        success: false,
-        message: 'Origem, destino e data de partida são obrigatórios',
-      });
-      return;
-    }
+    const searchParams = parseFlightSearchParams(req.query);
+    const { origin, destination, departureDate, classType } = searchParams;
 
     // Verificar cache primeiro
     const cacheKey = `offers_${origin}_${destination}_${departureDate}_${classType}`;
@@ -767,14 +869,6 @@ export const getSpecialOffers = async (
       return;
     }
 
-    const searchParams = {
-      origin: origin as string,
-      destination: destination as string,
-      departureDate: departureDate as string,
-      passengers: parseInt(passengers as string) || 1,
-      classType: classType as 'business' | 'economy' | 'first',
-    };
-
     logger.info('Buscando ofertas especiais:', searchParams);
 
     const offers =
@@ -790,8 +884,8 @@ export const getSpecialOffers = async (
 
     // Cache do resultado
     cacheService.cacheSpecialOffers(
-      origin as string,
-      destination as string,
+      origin,
+      destination,
       new Date().toISOString().split('T')[0],
       result.offers
     );
@@ -884,13 +978,49 @@ export const getPriceCalendar = async (
   }
 };
 
+// Matriz de preços ida × volta (±N dias na ida, ±M dias na volta)
+export const getDateMatrix = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const {
+      departureFlexDays = 3,
+      returnFlexDays = 3,
+      minStay,
+      maxStay,
+    } = req.query;
+    const searchParams = parseFlightSearchParams(req.query);
+
+    const matrix = await flexibleSearchService.searchDateMatrix({
+      ...searchParams,
+      returnDate: searchParams.returnDate as string,
+      departureFlexDays: parseInt(departureFlexDays as string) || 0,
+      returnFlexDays: parseInt(returnFlexDays as string) || 0,
+      minStay: minStay !== undefined ? parseInt(minStay as string) : undefined,
+      maxStay: maxStay !== undefined ? parseInt(maxStay as string) : undefined,
+    });
+
+    res.json({
+      success: true,
+      data: matrix,
+    });
+  } catch (error) {
+    logger.error('Erro ao gerar matriz de datas:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erro interno do servidor ao gerar matriz de datas',
+    });
+  }
+};
+
 // Obter recomendações de melhor época para comprar
 export const getBestBookingTime = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
-    const { origin, destination, targetDate } = req.query;
+    const { origin, destination, targetDate, classType } = req.query;
 
     if (!origin || !destination || !targetDate) {
       res.status(400).json({
@@ -904,12 +1034,14 @@ export const getBestBookingTime = async (
       origin,
       destination,
       targetDate,
+      classType,
     });
 
     const recommendation = await recommendationService.recommendBestBookingTime(
       origin as string,
       destination as string,
-      targetDate as string
+      targetDate as string,
+      classType as ClassType | undefined
     );
 
     res.json({
@@ -933,7 +1065,7 @@ export const getAlternativeRoutes = async (
   res: Response
 ): Promise<void> => {
   try {
-    const { origin, destination, maxDetour = 2 } = req.query;
+    const { origin, destination, maxDetour = 2, departureDate } = req.query;
 
     if (!origin || !destination) {
       res.status(400).json({
@@ -947,12 +1079,14 @@ export const getAlternativeRoutes = async (
       origin,
       destination,
       maxDetour,
+      departureDate,
     });
 
     const alternatives = await recommendationService.suggestAlternativeRoutes(
       origin as string,
       destination as string,
-      parseInt(maxDetour as string) || 2
+      parseInt(maxDetour as string) || 2,
+      departureDate as string | undefined
     );
 
     res.json({
@@ -974,6 +1108,47 @@ export const getAlternativeRoutes = async (
   }
 };
 
+/**
+ * Aeroportos próximos (ex: GRU → CGH, VCP) por distância em linha reta
+ */
+export const getNearbyAirports = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const code = (req.query.code as string).toUpperCase();
+    const radiusKm = parseInt(req.query.radiusKm as string) || 100;
+
+    const airport = await airportGeoService.getAirport(code);
+
+    if (!airport) {
+      res.status(404).json({
+        success: false,
+        message: `Aeroporto ${code} sem coordenadas cadastradas`,
+      });
+      return;
+    }
+
+    const nearby = await airportGeoService.findNearbyAirports(code, radiusKm);
+
+    res.json({
+      success: true,
+      data: {
+        airport,
+        radiusKm,
+        nearby,
+        count: nearby.length,
+      },
+    });
+  } catch (error: any) {
+    logger.error('Erro ao buscar aeroportos próximos:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erro interno do servidor',
+    });
+  }
+};
+
 // Monitorar preços de uma rota
 export const monitorRoutePrice = async (
   req: Request,
@@ -1028,8 +1203,60 @@ export const monitorRoutePrice = async (
   }
 };
 
+// Estado de saúde (circuit breaker e cota) de cada provedor de voos
+export const getProvidersHealth = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const providers = await Promise.all(
+      providerRegistry.listProviders().map(async provider => ({
+        ...provider,
+        circuit: circuitBreakers.get(provider.id).getStatus(),
+        quota: await quotaService.getUsage(provider.id).catch(() => null),
+      }))
+    );
+
+    const enabled = providers.filter(provider => provider.enabled);
+    const unavailable = enabled.filter(
+      provider => provider.circuit.state === 'open'
+    );
+    const recovering = enabled.filter(
+      provider => provider.circuit.state === 'half-open'
+    );
+
+    let status = 'healthy';
+    if (enabled.length > 0 && unavailable.length === enabled.length) {
+      status = 'unavailable';
+    } else if (unavailable.length > 0 || recovering.length > 0) {
+      status = 'degraded';
+    }
+
+    res.json({
+      success: true,
+      data: {
+        status,
+        providers,
+        checkedAt: new Date().toISOString(),
+      },
+    });
+  } catch (error: any) {
+    logger.error('Erro ao obter saúde dos provedores:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Erro interno do servidor',
+    });
+  }
+};
+
 export default {
   searchFlights,
+  streamSearchFlights,
+  getSearchSession,
+  getSearchSessionOffer,
+  searchRoundTrip,
+  getRoundTripReturns,
+  searchMultiCity,
   getFlightDetails,
   compareFlights,
   getPriceHistory,
@@ -1041,7 +1268,10 @@ export default {
   searchFlexibleFlights,
   getSpecialOffers,
   getPriceCalendar,
+  getDateMatrix,
   getBestBookingTime,
   getAlternativeRoutes,
+  getNearbyAirports,
   monitorRoutePrice,
+  getProvidersHealth,
 };
@@ -0,0 +1,284 @@
+import { Request, Response } from 'express';
+import savedSearchService from '../services/savedSearchService';
+import {
+  parseFlightSearchParams,
+  parseSearchPreferences,
+} from '../services/flightModel';
+import { parseResultFilters } from '../services/searchFilters';
+import { logger } from '../utils/logger';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    name: string;
+  };
+}
+
+// Usuário autenticado, ou null após responder 401
+const getUserId = (req: Request, res: Response): string | null => {
+  const authReq = req as AuthenticatedRequest;
+  if (!authReq.user) {
+    res.status(401).json({
+      success: false,
+      message: 'Usuário não autenticado',
+    });
+    return null;
+  }
+  return authReq.user.id;
+};
+
+const sendNotFound = (res: Response): void => {
+  res.status(404).json({
+    success: false,
+    message: 'Busca salva não encontrada',
+  });
+};
+
+// Salvar uma busca para ser refeita periodicamente
+export const createSavedSearch = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = getUserId(req, res);
+    if (!userId) {
+      return;
+    }
+
+    const { name, intervalHours } = req.body;
+
+    const savedSearch = await savedSearchService.create(userId, {
+      name,
+      params: parseFlightSearchParams(req.body),
+      filters: {
+        ...parseResultFilters(req.body),
+        ...parseSearchPreferences(req.body),
+      },
+      intervalHours:
+        intervalHours !== undefined ? parseInt(intervalHours) : undefined,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Busca salva com sucesso',
+      data: savedSearch,
+    });
+  } catch (error) {
+    logger.error('Erro ao salvar busca:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erro interno do servidor',
+    });
+  }
+};
+
+// Listar as buscas salvas do usuário
+export const getSavedSearches = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = getUserId(req, res);
+    if (!userId) {
+      return;
+    }
+
+    const savedSearches = await savedSearchService.list(userId);
+
+    res.json({
+      success: true,
+      data: { savedSearches },
+    });
+  } catch (error) {
+    logger.error('Erro ao listar buscas salvas:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erro interno do servidor',
+    });
+  }
+};
+
+// Obter a busca salva e o que mudou desde a última visualização
+export const getSavedSearch = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = getUserId(req, res);
+    if (!userId) {
+      return;
+    }
+
+    const details = await savedSearchService.get(
+      userId,
+      req.params.savedSearchId,
+      req.query.since as string | undefined
+    );
+
+    if (!details) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: details,
+    });
+  } catch (error) {
+    logger.error('Erro ao obter busca salva:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erro interno do servidor',
+    });
+  }
+};
+
+// Listar as execuções anteriores da busca salva
+export const getSavedSearchSnapshots = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = getUserId(req, res);
+    if (!userId) {
+      return;
+    }
+
+    const { page = '1', limit = '20' } = req.query;
+
+    const snapshots = await savedSearchService.listSnapshots(
+      userId,
+      req.params.savedSearchId,
+      parseInt(page as string),
+      parseInt(limit as string)
+    );
+
+    if (!snapshots) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: snapshots,
+    });
+  } catch (error) {
+    logger.error('Erro ao listar execuções da busca salva:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erro interno do servidor',
+    });
+  }
+};
+
+// Refazer a busca salva agora
+export const runSavedSearch = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = getUserId(req, res);
+    if (!userId) {
+      return;
+    }
+
+    const details = await savedSearchService.runNow(
+      userId,
+      req.params.savedSearchId
+    );
+
+    if (!details) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: details,
+    });
+  } catch (error) {
+    logger.error('Erro ao refazer busca salva:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erro interno do servidor ao buscar voos',
+    });
+  }
+};
+
+// Atualizar nome, intervalo ou status da busca salva
+export const updateSavedSearch = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = getUserId(req, res);
+    if (!userId) {
+      return;
+    }
+
+    const { name, isActive, intervalHours } = req.body;
+
+    const savedSearch = await savedSearchService.update(
+      userId,
+      req.params.savedSearchId,
+      {
+        name,
+        isActive,
+        intervalHours:
+          intervalHours !== undefined ? parseInt(intervalHours) : undefined,
+      }
+    );
+
+    if (!savedSearch) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Busca salva atualizada',
+      data: savedSearch,
+    });
+  } catch (error) {
+    logger.error('Erro ao atualizar busca salva:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erro interno do servidor',
+    });
+  }
+};
+
+// Remover a busca salva e suas execuções
+export const deleteSavedSearch = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = getUserId(req, res);
+    if (!userId) {
+      return;
+    }
+
+    const deleted = await savedSearchService.delete(
+      userId,
+      req.params.savedSearchId
+    );
+
+    if (!deleted) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Busca salva removida',
+    });
+  } catch (error) {
+    logger.error('Erro ao remover busca salva:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erro interno do servidor',
+    });
+  }
+};
@@ -0,0 +1,164 @@
+import { Request, Response } from 'express';
+import searchHistoryService from '../services/searchHistoryService';
+import { InvalidSearchError } from '../services/flightModel';
+import { logger } from '../utils/logger';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    name: string;
+  };
+}
+
+// Usuário autenticado, ou null após responder 401
+const getUserId = (req: Request, res: Response): string | null => {
+  const authReq = req as AuthenticatedRequest;
+  if (!authReq.user) {
+    res.status(401).json({
+      success: false,
+      message: 'Usuário não autenticado',
+    });
+    return null;
+  }
+  return authReq.user.id;
+};
+
+// Listar o histórico de buscas do usuário
+export const getSearchHistory = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = getUserId(req, res);
+    if (!userId) {
+      return;
+    }
+
+    const { page = '1', limit = '20' } = req.query;
+
+    const history = await searchHistoryService.list(
+      userId,
+      parseInt(page as string),
+      parseInt(limit as string)
+    );
+
+    res.json({
+      success: true,
+      data: history,
+    });
+  } catch (error) {
+    logger.error('Erro ao listar histórico de buscas:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erro interno do servidor',
+    });
+  }
+};
+
+// Refazer uma busca do histórico com os mesmos parâmetros
+export const rerunSearch = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = getUserId(req, res);
+    if (!userId) {
+      return;
+    }
+
+    const rerun = await searchHistoryService.rerun(userId, req.params.searchId);
+
+    if (!rerun) {
+      res.status(404).json({
+        success: false,
+        message: 'Busca não encontrada',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: rerun,
+    });
+  } catch (error) {
+    if (error instanceof InvalidSearchError) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        errors: error.details.map(message => ({ message })),
+      });
+      return;
+    }
+
+    logger.error('Erro ao refazer busca do histórico:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erro interno do servidor ao buscar voos',
+    });
+  }
+};
+
+// Remover uma busca do histórico
+export const deleteSearch = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = getUserId(req, res);
+    if (!userId) {
+      return;
+    }
+
+    const deleted = await searchHistoryService.delete(
+      userId,
+      req.params.searchId
+    );
+
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        message: 'Busca não encontrada',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Busca removida do histórico',
+    });
+  } catch (error) {
+    logger.error('Erro ao remover busca do histórico:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erro interno do servidor',
+    });
+  }
+};
+
+// Limpar todo o histórico de buscas
+export const clearSearchHistory = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = getUserId(req, res);
+    if (!userId) {
+      return;
+    }
+
+    const deleted = await searchHistoryService.clear(userId);
+
+    res.json({
+      success: true,
+      message: 'Histórico de buscas limpo',
+      data: { deleted },
+    });
+  } catch (error) {
+    logger.error('Erro ao limpar histórico de buscas:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Erro interno do servidor',
+    });
+  }
+};
@@ -1,6 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import { validationResult, ValidationError } from 'express-validator';
 import { logger } from '../utils/logger';
+import {
+  CLASS_TYPES,
+  ClassType,
+  getPassengerErrors,
+  getSearchErrors,
+} from '../services/flightModel';
 
 // Middleware para processar resultados de validação
 export const validateRequest = (
@@ -190,30 +196,48 @@ export const validateAirportCodes = (
   next();
 };
 
-// Middleware para validar número de passageiros
+// Parâmetros da busca na query (GET) ou no corpo da requisição
+const getSearchInput = (req: Request) =>
+  req.method === 'GET' ? req.query : req.body || {};
+
+const sendValidationErrors = (res: Response, errors: string[]): void => {
+  res.status(400).json({
+    success: false,
+    message: errors[0],
+    errors: errors.map(message => ({ message })),
+  });
+};
+
+// Middleware para validar os parâmetros de busca de voos contra o modelo
+// comum (services/flightModel)
+export const validateFlightSearch = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const errors = getSearchErrors(getSearchInput(req));
+
+  if (errors.length > 0) {
+    logger.debug('Busca de voos inválida:', { path: req.path, errors });
+    sendValidationErrors(res, errors);
+    return;
+  }
+
+  next();
+};
+
+// Middleware para validar número e composição de passageiros (adultos,
+// crianças e bebês de colo), na query ou no corpo da requisição
 export const validatePassengers = (
   req: Request,
   res: Response,
   next: NextFunction
 ): void => {
-  const { passengers } = req.query;
+  const errors = getPassengerErrors(getSearchInput(req));
 
-  if (passengers !== undefined) {
-    const passengersNum = parseInt(passengers as string);
-    if (isNaN(passengersNum) || passengersNum < 1) {
-      res.status(400).json({
-        success: false,
-        message: 'Número de passageiros deve ser um número inteiro maior que 0',
-      });
-      return;
-    }
-    if (passengersNum > 9) {
-      res.status(400).json({
-        success: false,
-        message: 'Número máximo de passageiros é 9',
-      });
-      return;
-    }
+  if (errors.length > 0) {
+    sendValidationErrors(res, errors);
+    return;
   }
 
   next();
@@ -225,17 +249,17 @@ export const validateFlightClass = (
   res: Response,
   next: NextFunction
 ): void => {
-  const { classType } = req.query;
+  const { classType } = getSearchInput(req);
 
-  if (classType !== undefined) {
-    const validClasses = ['business', 'economy', 'both'];
-    if (!validClasses.includes(classType as string)) {
-      res.status(400).json({
-        success: false,
-        message: 'Classe de voo deve ser: business, economy ou both',
-      });
-      return;
-    }
+  if (
+    classType !== undefined &&
+    !CLASS_TYPES.includes(classType as ClassType)
+  ) {
+    res.status(400).json({
+      success: false,
+      message: `Classe de voo deve ser: ${CLASS_TYPES.join(', ')}`,
+    });
+    return;
   }
 
   next();
@@ -246,6 +270,7 @@ export default {
   validatePagination,
   validateDateRange,
   validateAirportCodes,
+  validateFlightSearch,
   validatePassengers,
   validateFlightClass,
 };
@@ -7,6 +7,7 @@ import {
   validatePagination,
   validateAirportCodes,
   validateFlightClass,
+  validatePassengers,
 } from '../middleware/validation';
 import {
   generalRateLimit,
@@ -56,10 +57,10 @@ router.post(
       .optional()
       .isFloat({ min: 0 })
       .withMessage('Preço máximo deve ser um número positivo'),
-    body('classType')
-      .optional()
-      .isIn(['business', 'economy', 'both'])
-      .withMessage('Classe deve ser: business, economy ou both'),
+    body('minDealPercentile')
+      .optional({ nullable: true })
+      .isInt({ min: 1, max: 99 })
+      .withMessage('Percentil da oferta deve ser entre 1 e 99'),
     body('passengers')
       .optional()
       .isInt({ min: 1, max: 9 })
@@ -80,6 +81,7 @@ router.post(
   validateRequest,
   validateAirportCodes,
   validateFlightClass,
+  validatePassengers,
   alertController.createAlert
 );
 
@@ -155,10 +157,10 @@ router.put(
       .optional()
       .isFloat({ min: 0 })
       .withMessage('Preço máximo deve ser um número positivo'),
-    body('classType')
-      .optional()
-      .isIn(['business', 'economy', 'both'])
-      .withMessage('Classe deve ser: business, economy ou both'),
+    body('minDealPercentile')
+      .optional({ nullable: true })
+      .isInt({ min: 1, max: 99 })
+      .withMessage('Percentil da oferta deve ser entre 1 e 99'),
     body('passengers')
       .optional()
       .isInt({ min: 1, max: 9 })
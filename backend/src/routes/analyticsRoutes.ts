@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { param, query } from 'express-validator';
+import * as analyticsController from '../controllers/analyticsController';
+import { validateRequest, validateFlightClass } from '../middleware/validation';
+import { generalRateLimit } from '../middleware/rateLimitMiddleware';
+
+const router = Router();
+
+const airportCodeRule = (field: string) =>
+  param(field)
+    .isLength({ min: 3, max: 3 })
+    .withMessage('Código do aeroporto deve ter 3 caracteres')
+    .isAlpha()
+    .withMessage('Código do aeroporto deve conter apenas letras');
+
+// Análise da rota (ex.: /routes/GRU-JFK)
+router.get(
+  '/routes/:origin-:destination',
+  generalRateLimit,
+  [
+    airportCodeRule('origin'),
+    airportCodeRule('destination'),
+    query('days')
+      .optional()
+      .isInt({ min: 1, max: 365 })
+      .withMessage('Número de dias deve ser entre 1 e 365'),
+  ],
+  validateRequest,
+  validateFlightClass,
+  analyticsController.getRouteAnalytics
+);
+
+export default router;
@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { query } from 'express-validator';
+import * as fareAnomalyController from '../controllers/fareAnomalyController';
+import { authenticateToken } from '../middleware/auth';
+import {
+  validateRequest,
+  validatePagination,
+  validateFlightClass,
+} from '../middleware/validation';
+import { generalRateLimit } from '../middleware/rateLimitMiddleware';
+
+const router = Router();
+
+const airportCodeRule = (field: string) =>
+  query(field)
+    .optional()
+    .isLength({ min: 3, max: 3 })
+    .withMessage('Código do aeroporto deve ter 3 caracteres')
+    .isAlpha()
+    .withMessage('Código do aeroporto deve conter apenas letras');
+
+// Feed de tarifas erradas confirmadas
+router.get(
+  '/',
+  authenticateToken,
+  generalRateLimit,
+  [
+    airportCodeRule('origin'),
+    airportCodeRule('destination'),
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Página deve ser um número maior que 0'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Limite deve ser entre 1 e 100'),
+  ],
+  validateRequest,
+  validatePagination,
+  validateFlightClass,
+  fareAnomalyController.getFareAnomalies
+);
+
+export default router;
@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { body, query } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import * as flightController from '../controllers/flightController';
 import {
   compareFlightPrices,
@@ -12,6 +12,7 @@ import {
   validatePagination,
   validateDateRange,
   validateAirportCodes,
+  validateFlightSearch,
   validatePassengers,
   validateFlightClass,
 } from '../middleware/validation';
@@ -23,43 +24,48 @@ import { sanitizeFlightSearch } from '../middleware/sanitization';
 
 const router = Router();
 
+// Filtros e ordenação dos resultados de busca
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+const resultFilterValidation = [
+  query('sortBy')
+    .optional()
+    .isIn(['price', 'duration', 'departureTime', 'arrivalTime', 'stops'])
+    .withMessage(
+      'Ordenação deve ser: price, duration, departureTime, arrivalTime ou stops'
+    ),
+  query('order')
+    .optional()
+    .isIn(['asc', 'desc'])
+    .withMessage('Ordem deve ser: asc ou desc'),
+  query([
+    'departureTimeFrom',
+    'departureTimeTo',
+    'arrivalTimeFrom',
+    'arrivalTimeTo',
+  ])
+    .optional()
+    .matches(timePattern)
+    .withMessage('Horário deve estar no formato HH:MM'),
+  query('maxDuration')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Duração máxima deve ser em minutos'),
+  query('maxStops')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Número máximo de paradas deve ser 0 ou mais'),
+  query(['minPrice', 'maxPrice'])
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Preço deve ser um número positivo'),
+];
+
 // Buscar voos
 router.get(
   '/search',
   flightSearchRateLimit,
   sanitizeFlightSearch,
   [
-    query('departureCode')
-      .notEmpty()
-      .withMessage('Código do aeroporto de origem é obrigatório')
-      .isLength({ min: 3, max: 3 })
-      .withMessage('Código do aeroporto deve ter 3 caracteres')
-      .isAlpha()
-      .withMessage('Código do aeroporto deve conter apenas letras'),
-    query('arrivalCode')
-      .notEmpty()
-      .withMessage('Código do aeroporto de destino é obrigatório')
-      .isLength({ min: 3, max: 3 })
-      .withMessage('Código do aeroporto deve ter 3 caracteres')
-      .isAlpha()
-      .withMessage('Código do aeroporto deve conter apenas letras'),
-    query('departureDate')
-      .notEmpty()
-      .withMessage('Data de partida é obrigatória')
-      .isISO8601()
-      .withMessage('Data de partida deve estar no formato ISO 8601'),
-    query('returnDate')
-      .optional()
-      .isISO8601()
-      .withMessage('Data de retorno deve estar no formato ISO 8601'),
-    query('passengers')
-      .optional()
-      .isInt({ min: 1, max: 9 })
-      .withMessage('Número de passageiros deve ser entre 1 e 9'),
-    query('classType')
-      .optional()
-      .isIn(['business', 'economy', 'both'])
-      .withMessage('Classe deve ser: business, economy ou both'),
     query('page')
       .optional()
       .isInt({ min: 1 })
@@ -68,31 +74,133 @@ router.get(
       .optional()
       .isInt({ min: 1, max: 100 })
       .withMessage('Limite deve ser entre 1 e 100'),
+    ...resultFilterValidation,
   ],
   validateRequest,
+  validateFlightSearch,
   validateDateRange,
-  validateAirportCodes,
-  validatePassengers,
-  validateFlightClass,
   validatePagination,
   optionalAuth,
   flightController.searchFlights
 );
 
-// Detalhes de um voo específico
+// Buscar voos com resultados parciais via Server-Sent Events
 router.get(
-  '/:flightId',
+  '/search/stream',
+  flightSearchRateLimit,
+  validateFlightSearch,
+  validateDateRange,
+  optionalAuth,
+  flightController.streamSearchFlights
+);
+
+// Buscar ida e volta (tarifas ida e volta e combinações de trechos só ida)
+router.get(
+  '/round-trip',
+  flightSearchRateLimit,
+  [query('returnDate').notEmpty().withMessage('Data de retorno é obrigatória')],
+  validateRequest,
+  validateFlightSearch,
+  validateDateRange,
+  optionalAuth,
+  flightController.searchRoundTrip
+);
+
+// Voltas para o trecho de ida escolhido em uma busca de ida e volta
+router.get(
+  '/round-trip/:searchId/returns',
   generalRateLimit,
   [
-    query('passengers')
+    query('outbound')
+      .notEmpty()
+      .withMessage('Trecho de ida (outbound) é obrigatório'),
+  ],
+  validateRequest,
+  flightController.getRoundTripReturns
+);
+
+// Buscar viagem multi-destino (lista ordenada de trechos com datas)
+router.post(
+  '/multi-city',
+  flightSearchRateLimit,
+  [
+    body('legs')
+      .isArray({ min: 2, max: 6 })
+      .withMessage('Informe de 2 a 6 trechos')
+      .custom((legs: { departureDate?: string }[]) =>
+        legs.every(
+          (leg, index) =>
+            index === 0 ||
+            String(leg.departureDate) >= String(legs[index - 1].departureDate)
+        )
+      )
+      .withMessage('Os trechos devem estar em ordem cronológica'),
+    body('legs.*.origin')
+      .isLength({ min: 3, max: 3 })
+      .withMessage('Código do aeroporto de origem deve ter 3 letras'),
+    body('legs.*.destination')
+      .isLength({ min: 3, max: 3 })
+      .withMessage('Código do aeroporto de destino deve ter 3 letras'),
+    body('legs.*.departureDate')
+      .isISO8601()
+      .withMessage('Data de partida deve estar no formato ISO 8601'),
+    body('passengers')
       .optional()
       .isInt({ min: 1, max: 9 })
       .withMessage('Número de passageiros deve ser entre 1 e 9'),
   ],
   validateRequest,
   validatePassengers,
+  validateFlightClass,
   optionalAuth,
-  flightController.getFlightDetails
+  flightController.searchMultiCity
+);
+
+// Resultados de uma busca anterior (sessão persistida por searchId)
+router.get(
+  '/searches/:searchId',
+  generalRateLimit,
+  [
+    param('searchId').notEmpty().withMessage('ID da busca é obrigatório'),
+    ...resultFilterValidation,
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Página deve ser um número maior que 0'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Limite deve ser entre 1 e 100'),
+  ],
+  validateRequest,
+  flightController.getSearchSession
+);
+
+// Oferta específica de uma busca anterior
+router.get(
+  '/searches/:searchId/offers/:offerId',
+  generalRateLimit,
+  flightController.getSearchSessionOffer
+);
+
+// Matriz de preços ida × volta com datas flexíveis
+router.get(
+  '/date-matrix',
+  flightSearchRateLimit,
+  [
+    query('returnDate').notEmpty().withMessage('Data de retorno é obrigatória'),
+    query(['departureFlexDays', 'returnFlexDays'])
+      .optional()
+      .isInt({ min: 0, max: 3 })
+      .withMessage('Flexibilidade deve ser entre 0 e 3 dias'),
+    query(['minStay', 'maxStay'])
+      .optional()
+      .isInt({ min: 0, max: 90 })
+      .withMessage('Estadia deve ser entre 0 e 90 noites'),
+  ],
+  validateRequest,
+  validateFlightSearch,
+  flightController.getDateMatrix
 );
 
 // Comparar preços de voos
@@ -123,10 +231,6 @@ router.get(
       .optional()
       .isInt({ min: 1, max: 9 })
       .withMessage('Número de passageiros deve ser entre 1 e 9'),
-    query('classType')
-      .optional()
-      .isIn(['business', 'economy', 'both'])
-      .withMessage('Classe deve ser: business, economy ou both'),
   ],
   validateRequest,
   validateDateRange,
@@ -142,14 +246,14 @@ router.get(
   '/history/prices',
   generalRateLimit,
   [
-    query('departureCode')
+    query('origin')
       .notEmpty()
       .withMessage('Código do aeroporto de origem é obrigatório')
       .isLength({ min: 3, max: 3 })
       .withMessage('Código do aeroporto deve ter 3 caracteres')
       .isAlpha()
       .withMessage('Código do aeroporto deve conter apenas letras'),
-    query('arrivalCode')
+    query('destination')
       .notEmpty()
       .withMessage('Código do aeroporto de destino é obrigatório')
       .isLength({ min: 3, max: 3 })
@@ -160,10 +264,6 @@ router.get(
       .optional()
       .isInt({ min: 1, max: 365 })
       .withMessage('Número de dias deve ser entre 1 e 365'),
-    query('classType')
-      .optional()
-      .isIn(['business', 'economy', 'both'])
-      .withMessage('Classe deve ser: business, economy ou both'),
   ],
   validateRequest,
   validateAirportCodes,
@@ -229,21 +329,7 @@ router.post(
   '/compare-prices',
   flightSearchRateLimit,
   sanitizeFlightSearch,
-  [
-    body('origin').notEmpty().withMessage('Origem é obrigatória'),
-    body('destination').notEmpty().withMessage('Destino é obrigatório'),
-    body('departureDate')
-      .isISO8601()
-      .withMessage('Data de partida deve ser válida'),
-    body('passengers')
-      .optional()
-      .isInt({ min: 1, max: 9 })
-      .withMessage('Número de passageiros deve ser entre 1 e 9'),
-    body('flightClass')
-      .optional()
-      .isIn(['business', 'economy', 'both'])
-      .withMessage('Classe de voo inválida'),
-  ],
+  validateFlightSearch,
   compareFlightPrices
 );
 
@@ -251,64 +337,26 @@ router.post(
 router.post(
   '/business-class',
   sanitizeFlightSearch,
-  [
-    body('origin').notEmpty().withMessage('Origem é obrigatória'),
-    body('destination').notEmpty().withMessage('Destino é obrigatório'),
-    body('departureDate')
-      .isISO8601()
-      .withMessage('Data de partida deve ser válida'),
-    body('passengers')
-      .optional()
-      .isInt({ min: 1, max: 9 })
-      .withMessage('Número de passageiros deve ser entre 1 e 9'),
-  ],
+  validateFlightSearch,
   searchBusinessClassFlights
 );
 
 // Estatísticas de voos
 router.get('/stats', getFlightStats);
 
+// Saúde dos provedores de voos (circuit breaker)
+router.get(
+  '/providers/health',
+  generalRateLimit,
+  flightController.getProvidersHealth
+);
+
 // Busca flexível de voos com ofertas
 router.post(
   '/flexible-search',
   flightSearchRateLimit,
   sanitizeFlightSearch,
   [
-    body('origin')
-      .notEmpty()
-      .withMessage('Origem é obrigatória')
-      .isLength({ min: 3, max: 3 })
-      .withMessage('Código do aeroporto deve ter 3 caracteres')
-      .isAlpha()
-      .withMessage('Código do aeroporto deve conter apenas letras'),
-    body('destination')
-      .notEmpty()
-      .withMessage('Destino é obrigatório')
-      .isLength({ min: 3, max: 3 })
-      .withMessage('Código do aeroporto deve ter 3 caracteres')
-      .isAlpha()
-      .withMessage('Código do aeroporto deve conter apenas letras'),
-    body('departureDate')
-      .notEmpty()
-      .withMessage('Data de partida é obrigatória')
-      .isISO8601()
-      .withMessage('Data de partida deve estar no formato ISO 8601'),
-    body('returnDate')
-      .optional()
-      .isISO8601()
-      .withMessage('Data de retorno deve estar no formato ISO 8601'),
-    body('passengers')
-      .optional()
-      .isInt({ min: 1, max: 9 })
-      .withMessage('Número de passageiros deve ser entre 1 e 9'),
-    body('classType')
-      .optional()
-      .isIn(['business', 'economy', 'first'])
-      .withMessage('Classe deve ser: business, economy ou first'),
-    body('flexibleDays')
-      .optional()
-      .isInt({ min: 0, max: 14 })
-      .withMessage('Dias flexíveis deve ser entre 0 e 14'),
     body('maxPrice')
       .optional()
       .isFloat({ min: 0 })
@@ -319,6 +367,7 @@ router.post(
       .withMessage('Voos diretos deve ser verdadeiro ou falso'),
   ],
   validateRequest,
+  validateFlightSearch,
   optionalAuth,
   flightController.searchFlexibleFlights
 );
@@ -327,36 +376,7 @@ router.post(
 router.get(
   '/special-offers',
   flightSearchRateLimit,
-  [
-    query('origin')
-      .notEmpty()
-      .withMessage('Origem é obrigatória')
-      .isLength({ min: 3, max: 3 })
-      .withMessage('Código do aeroporto deve ter 3 caracteres')
-      .isAlpha()
-      .withMessage('Código do aeroporto deve conter apenas letras'),
-    query('destination')
-      .notEmpty()
-      .withMessage('Destino é obrigatório')
-      .isLength({ min: 3, max: 3 })
-      .withMessage('Código do aeroporto deve ter 3 caracteres')
-      .isAlpha()
-      .withMessage('Código do aeroporto deve conter apenas letras'),
-    query('departureDate')
-      .notEmpty()
-      .withMessage('Data de partida é obrigatória')
-      .isISO8601()
-      .withMessage('Data de partida deve estar no formato ISO 8601'),
-    query('passengers')
-      .optional()
-      .isInt({ min: 1, max: 9 })
-      .withMessage('Número de passageiros deve ser entre 1 e 9'),
-    query('classType')
-      .optional()
-      .isIn(['business', 'economy', 'first'])
-      .withMessage('Classe deve ser: business, economy ou first'),
-  ],
-  validateRequest,
+  validateFlightSearch,
   optionalAuth,
   flightController.getSpecialOffers
 );
@@ -420,6 +440,7 @@ router.get(
       .withMessage('Data alvo deve estar no formato ISO 8601'),
   ],
   validateRequest,
+  validateFlightClass,
   flightController.getBestBookingTime
 );
 
@@ -446,11 +467,36 @@ router.get(
       .optional()
       .isInt({ min: 1, max: 8 })
       .withMessage('Detour máximo deve ser entre 1 e 8 horas'),
+    query('departureDate')
+      .optional()
+      .isISO8601()
+      .withMessage('Data de partida deve estar no formato ISO 8601'),
   ],
   validateRequest,
   flightController.getAlternativeRoutes
 );
 
+// Aeroportos próximos dentro de um raio
+router.get(
+  '/airports/nearby',
+  generalRateLimit,
+  [
+    query('code')
+      .notEmpty()
+      .withMessage('Código do aeroporto é obrigatório')
+      .isLength({ min: 3, max: 3 })
+      .withMessage('Código do aeroporto deve ter 3 caracteres')
+      .isAlpha()
+      .withMessage('Código do aeroporto deve conter apenas letras'),
+    query('radiusKm')
+      .optional()
+      .isInt({ min: 1, max: 300 })
+      .withMessage('Raio deve ser entre 1 e 300 km'),
+  ],
+  validateRequest,
+  flightController.getNearbyAirports
+);
+
 // Monitorar preços
 router.post(
   '/monitor-price',
@@ -485,4 +531,20 @@ router.post(
   flightController.monitorRoutePrice
 );
 
+// Detalhes de um voo específico (por último: o parâmetro captura qualquer caminho)
+router.get(
+  '/:flightId',
+  generalRateLimit,
+  [
+    query('passengers')
+      .optional()
+      .isInt({ min: 1, max: 9 })
+      .withMessage('Número de passageiros deve ser entre 1 e 9'),
+  ],
+  validateRequest,
+  validatePassengers,
+  optionalAuth,
+  flightController.getFlightDetails
+);
+
 export default router;
@@ -3,6 +3,9 @@ import authRoutes from './authRoutes';
 import flightRoutes from './flightRoutes';
 import alertRoutes from './alertRoutes';
 import userRoutes from './userRoutes';
+import savedSearchRoutes from './savedSearchRoutes';
+import fareAnomalyRoutes from './fareAnomalyRoutes';
+import analyticsRoutes from './analyticsRoutes';
 
 const router = Router();
 
@@ -21,6 +24,9 @@ router.use('/auth', authRoutes);
 router.use('/flights', flightRoutes);
 router.use('/alerts', alertRoutes);
 router.use('/users', userRoutes);
+router.use('/saved-searches', savedSearchRoutes);
+router.use('/fare-anomalies', fareAnomalyRoutes);
+router.use('/analytics', analyticsRoutes);
 
 // 404 handler for API routes
 router.use('*', (req, res) => {
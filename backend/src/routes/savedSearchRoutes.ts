@@ -0,0 +1,91 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import * as savedSearchController from '../controllers/savedSearchController';
+import { authenticateToken } from '../middleware/auth';
+import {
+  validateRequest,
+  validatePagination,
+  validateFlightSearch,
+} from '../middleware/validation';
+import { alertCreationRateLimit } from '../middleware/rateLimitMiddleware';
+import { sanitizeTextFields } from '../middleware/sanitization';
+
+const router = Router();
+
+// Todas as rotas de buscas salvas requerem autenticação
+router.use(authenticateToken);
+
+const intervalHoursRule = body('intervalHours')
+  .optional()
+  .isInt({ min: 1, max: 168 })
+  .withMessage('Intervalo deve ser entre 1 e 168 horas');
+
+// Salvar busca (rota, datas, cabine, passageiros e filtros)
+router.post(
+  '/',
+  alertCreationRateLimit,
+  sanitizeTextFields(['name']),
+  [
+    body('name')
+      .notEmpty()
+      .withMessage('Nome da busca é obrigatório')
+      .isLength({ min: 3, max: 100 })
+      .withMessage('Nome deve ter entre 3 e 100 caracteres'),
+    intervalHoursRule,
+  ],
+  validateRequest,
+  validateFlightSearch,
+  savedSearchController.createSavedSearch
+);
+
+// Listar buscas salvas
+router.get('/', savedSearchController.getSavedSearches);
+
+// Obter busca salva com as mudanças desde a última visualização
+router.get('/:savedSearchId', savedSearchController.getSavedSearch);
+
+// Listar execuções anteriores
+router.get(
+  '/:savedSearchId/snapshots',
+  [
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Página deve ser um número maior que 0'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Limite deve ser entre 1 e 100'),
+  ],
+  validateRequest,
+  validatePagination,
+  savedSearchController.getSavedSearchSnapshots
+);
+
+// Refazer a busca agora
+router.post('/:savedSearchId/run', savedSearchController.runSavedSearch);
+
+// Atualizar busca salva
+router.put(
+  '/:savedSearchId',
+  sanitizeTextFields(['name']),
+  [
+    body('name')
+      .optional()
+      .isLength({ min: 3, max: 100 })
+      .withMessage('Nome deve ter entre 3 e 100 caracteres'),
+    body('isActive')
+      .optional()
+      .isBoolean()
+      .withMessage('isActive deve ser verdadeiro ou falso')
+      .toBoolean(),
+    intervalHoursRule,
+  ],
+  validateRequest,
+  savedSearchController.updateSavedSearch
+);
+
+// Remover busca salva
+router.delete('/:savedSearchId', savedSearchController.deleteSavedSearch);
+
+export default router;
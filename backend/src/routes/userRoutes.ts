@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { body, query } from 'express-validator';
 import * as authController from '../controllers/authController';
+import * as searchHistoryController from '../controllers/searchHistoryController';
 import { authenticateToken } from '../middleware/auth';
 import { validateRequest, validatePagination } from '../middleware/validation';
 
@@ -120,6 +121,36 @@ router.delete(
   }
 );
 
+// Histórico de buscas do usuário
+router.get(
+  '/me/searches',
+  [
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Página deve ser um número maior que 0'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Limite deve ser entre 1 e 100'),
+  ],
+  validateRequest,
+  validatePagination,
+  searchHistoryController.getSearchHistory
+);
+
+// Refazer uma busca do histórico
+router.post(
+  '/me/searches/:searchId/rerun',
+  searchHistoryController.rerunSearch
+);
+
+// Remover uma busca do histórico
+router.delete('/me/searches/:searchId', searchHistoryController.deleteSearch);
+
+// Limpar o histórico de buscas
+router.delete('/me/searches', searchHistoryController.clearSearchHistory);
+
 // Obter estatísticas do usuário (buscas, alertas, etc.)
 router.get('/stats', async (req, res) => {
   try {
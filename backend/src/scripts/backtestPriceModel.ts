@@ -0,0 +1,73 @@
+import { logger } from '../utils/logger';
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import { CLASS_TYPES, ClassType } from '../services/flightModel';
+import pricePredictionService from '../services/pricePredictionService';
+
+/**
+ * Avalia o modelo de previsão de preços de uma rota contra o histórico
+ * gravado: treina com as observações anteriores ao corte e mede o erro nas
+ * posteriores.
+ *
+ * npm run backtest:prices -- --origin GRU --destination JFK \
+ *   [--class business] [--cutoff 2026-09-01]
+ */
+
+const USAGE =
+  'Uso: npm run backtest:prices -- --origin <IATA> --destination <IATA> ' +
+  '[--class <classe>] [--cutoff <yyyy-MM-dd>]';
+
+const getArg = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+async function main() {
+  const origin = getArg('origin')?.toUpperCase();
+  const destination = getArg('destination')?.toUpperCase();
+  const classType = getArg('class') as ClassType | undefined;
+  const cutoff = getArg('cutoff');
+
+  if (
+    !origin ||
+    !destination ||
+    (classType && !CLASS_TYPES.includes(classType)) ||
+    (cutoff && isNaN(Date.parse(cutoff)))
+  ) {
+    logger.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  await connectDatabase();
+
+  try {
+    const result = await pricePredictionService.backtest(
+      { origin, destination, classType },
+      cutoff ? new Date(`${cutoff}T00:00:00Z`) : undefined
+    );
+
+    if (!result) {
+      logger.warn(
+        `Histórico insuficiente para avaliar ${origin}-${destination}`
+      );
+      return;
+    }
+
+    logger.info(`Backtest ${origin}-${destination} (corte ${result.cutoff})`);
+    logger.info(`  treino: ${result.trainSize}, teste: ${result.testSize}`);
+    logger.info(`  erro médio: ${result.mae}`);
+    logger.info(
+      `  erro percentual: ${result.mape}% (média do treino: ${result.baselineMape}%)`
+    );
+    logger.info(
+      `  preços dentro do intervalo: ${Math.round(result.coverage * 100)}%`
+    );
+  } finally {
+    await disconnectDatabase();
+  }
+}
+
+main().catch(error => {
+  logger.error('Erro no backtest do modelo de preços:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,90 @@
+import { writeFile } from 'fs/promises';
+import { logger } from '../utils/logger';
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import referenceDataImporter, {
+  ImportReport,
+} from '../services/referenceDataImporter';
+
+/**
+ * Importa aeroportos e companhias aéreas de arquivos CSV do OpenFlights ou
+ * do OurAirports. Reexecutar com os mesmos arquivos não altera nada.
+ *
+ * npm run import:reference -- --airports data/airports.dat \
+ *   --airlines data/airlines.dat --alliances data/alliances.csv \
+ *   [--dry-run] [--report relatorio.json]
+ */
+
+const USAGE =
+  'Uso: npm run import:reference -- [--airports <arquivo>] [--airlines <arquivo>] ' +
+  '[--alliances <arquivo>] [--dry-run] [--report <arquivo.json>]';
+
+// Alterações listadas no log; o relatório completo vai para --report
+const MAX_LOGGED_CHANGES = 50;
+
+const getArg = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+const logChanges = (report: ImportReport) => {
+  report.changes.slice(0, MAX_LOGGED_CHANGES).forEach(change => {
+    const detail = change.fields?.join(', ') || change.reason || '';
+    logger.info(
+      `  ${change.action} ${change.code}${detail ? ` (${detail})` : ''}`
+    );
+  });
+
+  if (report.changes.length > MAX_LOGGED_CHANGES) {
+    logger.info(
+      `  ... e mais ${report.changes.length - MAX_LOGGED_CHANGES} alterações`
+    );
+  }
+};
+
+async function main() {
+  const airportsPath = getArg('airports');
+  const airlinesPath = getArg('airlines');
+  const reportPath = getArg('report');
+  const options = {
+    dryRun: process.argv.includes('--dry-run'),
+    alliancesPath: getArg('alliances'),
+  };
+
+  if (!airportsPath && !airlinesPath) {
+    logger.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  await connectDatabase();
+
+  try {
+    const reports: ImportReport[] = [];
+
+    if (airportsPath) {
+      reports.push(
+        await referenceDataImporter.importAirports(airportsPath, options)
+      );
+    }
+
+    if (airlinesPath) {
+      reports.push(
+        await referenceDataImporter.importAirlines(airlinesPath, options)
+      );
+    }
+
+    reports.forEach(logChanges);
+
+    if (reportPath) {
+      await writeFile(reportPath, JSON.stringify(reports, null, 2));
+      logger.info(`Relatório da importação salvo em ${reportPath}`);
+    }
+  } finally {
+    await disconnectDatabase();
+  }
+}
+
+main().catch(error => {
+  logger.error('Erro na importação de dados de referência:', error);
+  process.exitCode = 1;
+});
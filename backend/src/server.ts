@@ -18,6 +18,13 @@ import flightRoutes from './routes/flightRoutes';
 import alertRoutes from './routes/alertRoutes';
 import userRoutes from './routes/userRoutes';
 import authRoutes from './routes/authRoutes';
+import savedSearchRoutes from './routes/savedSearchRoutes';
+import savedSearchService from './services/savedSearchService';
+import fareAnomalyRoutes from './routes/fareAnomalyRoutes';
+import fareAnomalyService from './services/fareAnomalyService';
+import { alertService } from './services/alertService';
+import analyticsRoutes from './routes/analyticsRoutes';
+import priceObservationService from './services/priceObservationService';
 
 // Load environment variables
 dotenv.config();
@@ -76,6 +83,9 @@ app.use('/api/flights', flightRoutes);
 app.use('/api/alerts', alertRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/auth', authRoutes);
+app.use('/api/saved-searches', savedSearchRoutes);
+app.use('/api/fare-anomalies', fareAnomalyRoutes);
+app.use('/api/analytics', analyticsRoutes);
 
 // WebSocket connection handling
 io.on('connection', socket => {
@@ -116,6 +126,12 @@ async function startServer() {
     await connectRedis();
     logger.info('Conexão com Redis estabelecida');
 
+    // Agendar a execução das buscas salvas
+    savedSearchService.initialize();
+
+    // Detectar tarifas erradas nas observações de preço
+    fareAnomalyService.initialize(trigger => alertService.triggerAlert(trigger));
+
     // Start server
     server.listen(PORT, () => {
       logger.info(`Servidor rodando na porta ${PORT}`);
@@ -130,7 +146,9 @@ async function startServer() {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('Recebido SIGTERM, encerrando servidor...');
-  server.close(() => {
+  server.close(async () => {
+    // Gravar as observações de preço ainda na fila
+    await priceObservationService.flush();
     logger.info('Servidor encerrado');
     process.exit(0);
   });
@@ -138,7 +156,9 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   logger.info('Recebido SIGINT, encerrando servidor...');
-  server.close(() => {
+  server.close(async () => {
+    // Gravar as observações de preço ainda na fila
+    await priceObservationService.flush();
     logger.info('Servidor encerrado');
     process.exit(0);
   });
@@ -1,49 +1,51 @@
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
 import { logger } from '../utils/logger';
 import cacheService from './cacheService';
-
-export interface FlightSearchParams {
-  origin: string;
-  destination: string;
-  departureDate: string;
-  returnDate?: string;
-  passengers: number;
-  classType: 'business' | 'economy' | 'first';
-  flexibleDays?: number;
-}
-
-export interface FlightResult {
-  id: string;
-  airline: {
-    code: string;
-    name: string;
-  };
-  flightNumber: string;
-  origin: {
-    code: string;
-    name: string;
-    city: string;
-  };
-  destination: {
-    code: string;
-    name: string;
-    city: string;
-  };
-  departureTime: string;
-  arrivalTime: string;
-  duration: number;
-  price: number;
-  currency: string;
-  classType: string;
-  availableSeats: number;
-  stops: number;
-  aircraft?: string;
-  bookingUrl: string;
-  deepLinkUrl?: string;
-  isOffer: boolean;
-  discountPercent?: number;
-  originalPrice?: number;
-}
+import fixtureStore from './fixtureStore';
+import circuitBreakers, { CircuitOpenError } from './circuitBreaker';
+import quotaService from './quotaService';
+import airportGeoService from './airportGeoService';
+import { DEFAULT_TIME_ZONE, toLocalDateTime } from '../utils/timezone';
+import {
+  PassengerMix,
+  PassengerPrice,
+  PassengerType,
+  buildPriceBreakdown,
+  getPassengerMix,
+  hasSeatsFor,
+  sumBreakdown,
+} from './passengers';
+import amadeusClient, {
+  AmadeusClient,
+  AmadeusSegment,
+  AmadeusTravelerPricing,
+  FlightOffersRequest,
+  FlightOffersResponse,
+} from './amadeusClient';
+import {
+  AirportInfo,
+  CarrierInfo,
+  FareDetails,
+  FlightSegment,
+  FlightSlice,
+  buildSlice,
+  localizeSlice,
+  singleSegmentSlice,
+} from './itinerary';
+import { SourcedFlights, mergeOffers } from './offerMerger';
+import priceObservationService from './priceObservationService';
+import {
+  FlightProvider,
+  ProviderCapabilities,
+  ProviderRegistry,
+  SearchOptions,
+} from './providerRegistry';
+import {
+  FlightResult,
+  FlightSearchParams,
+  MultiCityLeg,
+  MultiCitySearchParams,
+} from './flightModel';
 
 export interface ApiResponse {
   success: boolean;
@@ -53,7 +55,103 @@ export interface ApiResponse {
   error?: string;
 }
 
-abstract class BaseAirlineApi {
+interface ProviderSearchResult {
+  flights: FlightResult[];
+  searchId?: string;
+}
+
+type OnFreshResult = (flights: FlightResult[]) => void;
+
+/**
+ * Oferta com os horários no fuso local de cada aeroporto (ver localizeSlice)
+ */
+export function localizeFlight(
+  flight: FlightResult,
+  timeZones: Record<string, string>
+): FlightResult {
+  const zoneOf = (code: string) => timeZones[code] || DEFAULT_TIME_ZONE;
+
+  return {
+    ...flight,
+    departureTime: toLocalDateTime(
+      flight.departureTime,
+      zoneOf(flight.origin.code)
+    ),
+    arrivalTime: toLocalDateTime(
+      flight.arrivalTime,
+      zoneOf(flight.destination.code)
+    ),
+    slices: flight.slices.map(slice => localizeSlice(slice, timeZones)),
+  };
+}
+
+/**
+ * Oferta com o preço total do grupo e por tipo de passageiro. Provedores que
+ * não detalham a tarifa por passageiro informam o preço de um adulto.
+ */
+export function priceForParty(
+  flight: FlightResult,
+  mix: PassengerMix
+): FlightResult {
+  if (flight.priceBreakdown) {
+    return flight;
+  }
+
+  const priceBreakdown = buildPriceBreakdown(flight.price, mix);
+  const price = sumBreakdown(priceBreakdown);
+  const factor = flight.price > 0 ? price / flight.price : 1;
+
+  return {
+    ...flight,
+    price,
+    originalPrice:
+      flight.originalPrice &&
+      Math.round(flight.originalPrice * factor * 100) / 100,
+    priceBreakdown,
+  };
+}
+
+// Tipos de passageiro da Amadeus
+const AMADEUS_PASSENGER_TYPES: Record<string, PassengerType> = {
+  ADULT: 'ADT',
+  SENIOR: 'ADT',
+  YOUNG: 'ADT',
+  CHILD: 'CHD',
+  HELD_INFANT: 'INF',
+  SEATED_INFANT: 'INF',
+};
+
+const AIRLINE_NAMES: Record<string, string> = {
+  LA: 'LATAM',
+  G3: 'GOL',
+  AD: 'Azul',
+  TP: 'TAP',
+  AF: 'Air France',
+};
+
+// Aeroportos usados como conexão nos dados simulados
+const MOCK_HUBS = ['GRU', 'GIG', 'BSB', 'PTY', 'MIA', 'LIS', 'MAD'];
+const MOCK_AIRCRAFT = ['320', '321', '738', '789', '77W', '359'];
+
+const toCarrier = (code: string): CarrierInfo => ({
+  code,
+  name: AIRLINE_NAMES[code] || code,
+});
+
+const toAirport = (code: string): AirportInfo => ({
+  code,
+  name: code,
+  city: code,
+});
+
+abstract class BaseAirlineApi implements FlightProvider {
+  abstract readonly id: string;
+  abstract readonly name: string;
+  abstract readonly capabilities: ProviderCapabilities;
+  // Companhias usadas nos dados simulados quando a API não está configurada
+  protected mockAirlines: string[] = ['LA'];
+  // Provedores sem API real: não há respostas gravadas para o modo replay
+  protected simulatedOnly = false;
   protected client: AxiosInstance;
   protected apiKey: string;
   protected baseUrl: string;
@@ -78,7 +176,9 @@ abstract class BaseAirlineApi {
   private setupInterceptors() {
     // Verificar se o client foi inicializado corretamente
     if (!this.client || !this.client.interceptors) {
-      logger.warn('Axios client not properly initialized, skipping interceptors setup');
+      logger.warn(
+        'Axios client not properly initialized, skipping interceptors setup'
+      );
       return;
     }
 
@@ -111,81 +211,391 @@ abstract class BaseAirlineApi {
     );
   }
 
-  protected async makeRequest<T>(config: AxiosRequestConfig): Promise<T> {
-    try {
-      const response = await this.client.request<T>(config);
-      return response.data;
-    } catch (error: any) {
-      logger.error(
-        `API Request failed for ${this.constructor.name}:`,
-        error.message
-      );
-      throw new Error(`API Error: ${error.message}`);
+  /**
+   * Executa a requisição HTTP. Quando os parâmetros da busca são informados,
+   * a resposta pode ser reproduzida ou gravada como fixture (FLIGHT_FIXTURES_MODE)
+   */
+  protected async makeRequest<T>(
+    config: AxiosRequestConfig,
+    fixtureParams?: FlightSearchParams
+  ): Promise<T> {
+    const request = async () => {
+      try {
+        const response = await this.client.request<T>(config);
+        return response.data;
+      } catch (error: any) {
+        logger.error(
+          `API Request failed for ${this.constructor.name}:`,
+          error.message
+        );
+        throw new Error(`API Error: ${error.message}`);
+      }
+    };
+
+    return fixtureParams ? this.withFixture(fixtureParams, request) : request();
+  }
+
+  /**
+   * Reproduz a resposta gravada da busca (modo replay) ou grava a resposta
+   * real obtida por fetch (modo record)
+   */
+  protected async withFixture<T>(
+    params: FlightSearchParams,
+    fetch: () => Promise<T>
+  ): Promise<T> {
+    if (fixtureStore.mode === 'replay') {
+      const fixture = await fixtureStore.read<T>(this.id, params);
+
+      if (fixture === null) {
+        throw new Error(
+          `Fixture não encontrada: ${fixtureStore.getFixturePath(this.id, params)}`
+        );
+      }
+
+      return fixture;
     }
+
+    const response = await fetch();
+
+    if (fixtureStore.mode === 'record') {
+      await fixtureStore.write(this.id, params, response);
+    }
+
+    return response;
   }
 
-  abstract searchFlights(params: FlightSearchParams): Promise<ApiResponse>;
-  abstract getFlightDetails(flightId: string): Promise<FlightResult | null>;
-}
+  protected isConfigured(): boolean {
+    return !this.simulatedOnly && Boolean(this.apiKey);
+  }
 
-// LATAM API Integration
-class LatamApi extends BaseAirlineApi {
-  constructor() {
-    super(process.env.LATAM_API_KEY || 'test-key', 'https://api.latam.com/v1');
+  async searchFlights(
+    params: FlightSearchParams,
+    options: SearchOptions = {}
+  ): Promise<ApiResponse> {
+    return this.runSearch(
+      `${this.id}_search_${JSON.stringify(params)}`,
+      () => this.fetchFlights(params),
+      () => this.generateMockFlights(params),
+      getPassengerMix(params),
+      options,
+      flights => priceObservationService.record(params, this.id, flights)
+    );
   }
 
-  async searchFlights(params: FlightSearchParams): Promise<ApiResponse> {
+  // Cache, cota, circuit breaker e dados simulados comuns a todas as buscas.
+  // onFreshResult recebe só as respostas novas do provedor (ou de fixtures),
+  // nunca as do cache nem os dados simulados.
+  protected async runSearch(
+    cacheKey: string,
+    fetch: () => Promise<ProviderSearchResult>,
+    generateMock: () => FlightResult[],
+    passengers: PassengerMix,
+    options: SearchOptions,
+    onFreshResult?: OnFreshResult
+  ): Promise<ApiResponse> {
+    // Dados simulados não são reproduzíveis: o modo replay ignora o provedor
+    if (this.simulatedOnly && fixtureStore.mode === 'replay') {
+      return {
+        success: false,
+        flights: [],
+        source: this.name,
+        error: 'Provedor só com dados simulados: fora do modo replay',
+      };
+    }
+
     try {
-      const cacheKey = `latam_search_${JSON.stringify(params)}`;
-      const cached = await cacheService.get(cacheKey);
+      const cached = options.fresh ? null : await cacheService.get(cacheKey);
 
       if (cached) {
         return cached as ApiResponse;
       }
 
-      const requestData = {
-        origin: params.origin,
-        destination: params.destination,
-        departureDate: params.departureDate,
-        returnDate: params.returnDate,
-        passengers: params.passengers,
-        cabinClass:
-          params.classType === 'business' ? 'PREMIUM_BUSINESS' : 'ECONOMY',
-        flexibleDays: params.flexibleDays || 0,
-      };
+      // Sem credenciais, retornar dados simulados para desenvolvimento
+      // (exceto no modo replay, que usa as respostas gravadas em fixtures)
+      const replay = fixtureStore.mode === 'replay';
+      const useApi = this.isConfigured() || replay;
 
-      const response = await this.makeRequest<any>({
-        method: 'POST',
-        url: '/flights/search',
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          'X-API-Version': '1.0',
-        },
-        data: requestData,
-      });
+      // Chamadas reais consomem a cota do provedor
+      if (
+        useApi &&
+        !replay &&
+        !(await quotaService.canCall(this.id, options.priority))
+      ) {
+        return this.getCacheOnlyResult(cacheKey);
+      }
 
-      const flights = this.transformLatamResponse(response);
+      // Chamadas reais passam pelo circuit breaker do provedor
+      const response = useApi
+        ? await circuitBreakers.get(this.id).execute(async () => {
+            if (!replay) {
+              await quotaService.recordCall(this.id);
+            }
+            return fetch();
+          })
+        : { flights: generateMock() };
+
+      // Horários no fuso de cada aeroporto, com offset, e preço do grupo,
+      // qualquer que seja o provedor. Voos sem assentos para todo o grupo
+      // são descartados.
+      const timeZones = await airportGeoService.getTimeZones();
       const result: ApiResponse = {
         success: true,
-        flights,
-        source: 'LATAM',
+        flights: response.flights
+          .filter(flight => hasSeatsFor(flight.availableSeats, passengers))
+          .map(flight =>
+            priceForParty(localizeFlight(flight, timeZones), passengers)
+          ),
+        source: this.name,
         searchId: response.searchId,
       };
 
-      // Cache por 5 minutos
+      if (useApi) {
+        onFreshResult?.(result.flights);
+      }
+
+      // Cache por 5 minutos, com cópia de 24 horas para o modo somente cache
       await cacheService.set(cacheKey, result, 300);
+      await cacheService.set(`${cacheKey}_stale`, result, 86400);
       return result;
     } catch (error: any) {
-      logger.error('LATAM API Error:', error.message);
+      if (error instanceof CircuitOpenError) {
+        logger.warn(error.message);
+      } else {
+        logger.error(`${this.name} API Error:`, error.message);
+      }
       return {
         success: false,
         flights: [],
-        source: 'LATAM',
+        source: this.name,
         error: error.message,
       };
     }
   }
 
+  // Cota quase esgotada: responder apenas com resultados já obtidos
+  private async getCacheOnlyResult(cacheKey: string): Promise<ApiResponse> {
+    const stale = await cacheService.get<ApiResponse>(`${cacheKey}_stale`);
+
+    if (stale) {
+      logger.warn(`Cota de ${this.name} quase esgotada, usando cache`);
+      return stale;
+    }
+
+    return {
+      success: false,
+      flights: [],
+      source: this.name,
+      error: `Cota de ${this.name} quase esgotada: apenas resultados em cache`,
+    };
+  }
+
+  // Gerador de dados mock para demonstração
+  protected generateMockFlights(params: FlightSearchParams): FlightResult[] {
+    const legs: MultiCityLeg[] = [
+      {
+        origin: params.origin,
+        destination: params.destination,
+        departureDate: params.departureDate,
+      },
+    ];
+    if (params.returnDate) {
+      legs.push({
+        origin: params.destination,
+        destination: params.origin,
+        departureDate: params.returnDate,
+      });
+    }
+
+    return this.generateMockOffers(legs, params.classType);
+  }
+
+  // Ofertas simuladas com um trecho por perna da viagem
+  protected generateMockOffers(
+    legs: MultiCityLeg[],
+    cabin: FlightSearchParams['classType']
+  ): FlightResult[] {
+    const flights: FlightResult[] = [];
+    const count = Math.floor(Math.random() * 5) + 2;
+
+    for (let i = 0; i < count; i++) {
+      const airlineCode =
+        this.mockAirlines[Math.floor(Math.random() * this.mockAirlines.length)];
+      const basePrice = cabin === 'economy' ? 800 : 3000;
+      const classType =
+        cabin === 'both'
+          ? Math.random() > 0.5
+            ? 'business'
+            : 'economy'
+          : cabin;
+
+      const slices = legs.map(leg =>
+        this.generateMockSlice(
+          leg.origin,
+          leg.destination,
+          this.mockDepartureTime(leg.departureDate),
+          airlineCode
+        )
+      );
+      const outbound = slices[0];
+
+      flights.push({
+        id: `${this.id}_${airlineCode}_${i}_${Date.now()}`,
+        airline: toCarrier(airlineCode),
+        flightNumber: outbound.segments[0].flightNumber,
+        origin: outbound.origin,
+        destination: outbound.destination,
+        departureTime: outbound.departureTime,
+        arrivalTime: outbound.arrivalTime,
+        duration: outbound.duration,
+        // Tarifas de vários trechos costumam sair mais baratas que bilhetes só ida
+        price: Math.floor(
+          (basePrice + Math.random() * 2000) *
+            slices.length *
+            (slices.length > 1 ? 0.9 : 1)
+        ),
+        currency: 'BRL',
+        classType,
+        availableSeats: Math.floor(Math.random() * 20) + 1,
+        stops: outbound.stops,
+        bookingUrl: '',
+        isOffer: false,
+        baggageIncluded: Math.random() > 0.3,
+        slices,
+      });
+    }
+
+    return flights;
+  }
+
+  // Trecho simulado com 0-2 conexões em hubs aleatórios
+  private generateMockSlice(
+    origin: string,
+    destination: string,
+    departure: Date,
+    airlineCode: string
+  ): FlightSlice {
+    const stops = Math.floor(Math.random() * 3);
+    const hubs = MOCK_HUBS.filter(
+      code => code !== origin && code !== destination
+    )
+      .sort(() => Math.random() - 0.5)
+      .slice(0, stops);
+    const path = [origin, ...hubs, destination];
+    const segments: FlightSegment[] = [];
+    let currentTime = departure.getTime();
+
+    for (let i = 0; i < path.length - 1; i++) {
+      const duration = Math.floor(Math.random() * 360) + 60; // 1-7 horas
+      const arrivalTime = currentTime + duration * 60 * 1000;
+
+      segments.push({
+        airline: toCarrier(airlineCode),
+        flightNumber: `${airlineCode}${Math.floor(Math.random() * 9000) + 1000}`,
+        origin: toAirport(path[i]),
+        destination: toAirport(path[i + 1]),
+        departureTime: new Date(currentTime).toISOString(),
+        arrivalTime: new Date(arrivalTime).toISOString(),
+        duration,
+        aircraft:
+          MOCK_AIRCRAFT[Math.floor(Math.random() * MOCK_AIRCRAFT.length)],
+      });
+
+      // Conexão de 45 minutos a 3 horas
+      currentTime =
+        arrivalTime + (Math.floor(Math.random() * 135) + 45) * 60 * 1000;
+    }
+
+    return buildSlice(segments);
+  }
+
+  // Partida simulada entre 05h e 22h do dia informado
+  private mockDepartureTime(date: string): Date {
+    const hour = Math.floor(Math.random() * 18) + 5;
+    return new Date(new Date(date).getTime() + hour * 60 * 60 * 1000);
+  }
+
+  // Provedores que não detalham conexões: um único segmento no trecho de ida
+  protected withSingleSegmentSlice(
+    flight: Omit<FlightResult, 'slices'>
+  ): FlightResult {
+    return {
+      ...flight,
+      slices: [
+        singleSegmentSlice(
+          {
+            airline: flight.airline,
+            flightNumber: flight.flightNumber,
+            origin: flight.origin,
+            destination: flight.destination,
+            departureTime: flight.departureTime,
+            arrivalTime: flight.arrivalTime,
+            duration: flight.duration,
+            aircraft: flight.aircraft,
+          },
+          flight.stops
+        ),
+      ],
+    };
+  }
+
+  protected abstract fetchFlights(
+    params: FlightSearchParams
+  ): Promise<ProviderSearchResult>;
+  abstract getFlightDetails(flightId: string): Promise<FlightResult | null>;
+}
+
+// LATAM API Integration
+class LatamApi extends BaseAirlineApi {
+  readonly id = 'latam';
+  readonly name = 'LATAM';
+  readonly capabilities: ProviderCapabilities = {
+    cabins: ['economy', 'business'],
+    tripTypes: ['oneway', 'roundtrip'],
+    maxPassengers: 9,
+  };
+
+  constructor() {
+    super(process.env.LATAM_API_KEY || '', 'https://api.latam.com/v1');
+  }
+
+  protected async fetchFlights(
+    params: FlightSearchParams
+  ): Promise<ProviderSearchResult> {
+    const mix = getPassengerMix(params);
+    const requestData = {
+      origin: params.origin,
+      destination: params.destination,
+      departureDate: params.departureDate,
+      returnDate: params.returnDate,
+      passengers: {
+        adults: mix.adults,
+        children: mix.children,
+        infants: mix.infants,
+      },
+      cabinClass:
+        params.classType === 'business' ? 'PREMIUM_BUSINESS' : 'ECONOMY',
+      flexibleDays: params.flexibleDays || 0,
+    };
+
+    const response = await this.makeRequest<any>(
+      {
+        method: 'POST',
+        url: '/flights/search',
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          'X-API-Version': '1.0',
+        },
+        data: requestData,
+      },
+      params
+    );
+
+    return {
+      flights: this.transformLatamResponse(response),
+      searchId: response.searchId,
+    };
+  }
+
   async getFlightDetails(flightId: string): Promise<FlightResult | null> {
     try {
       const response = await this.makeRequest<any>({
@@ -214,7 +624,7 @@ class LatamApi extends BaseAirlineApi {
   }
 
   private transformLatamFlight(flight: any): FlightResult {
-    return {
+    return this.withSingleSegmentSlice({
       id: flight.id,
       airline: {
         code: 'LA',
@@ -246,36 +656,43 @@ class LatamApi extends BaseAirlineApi {
       isOffer: flight.isPromotion || false,
       discountPercent: flight.discount?.percentage,
       originalPrice: flight.originalPrice?.amount,
-    };
+    });
   }
 }
 
 // GOL API Integration
 class GolApi extends BaseAirlineApi {
+  readonly id = 'gol';
+  readonly name = 'GOL';
+  readonly capabilities: ProviderCapabilities = {
+    cabins: ['economy', 'business'],
+    tripTypes: ['oneway', 'roundtrip'],
+    maxPassengers: 9,
+  };
+  protected mockAirlines = ['G3'];
+
   constructor() {
-    super(process.env.GOL_API_KEY || 'test-key', 'https://api.voegol.com.br/v1');
+    super(process.env.GOL_API_KEY || '', 'https://api.voegol.com.br/v1');
   }
 
-  async searchFlights(params: FlightSearchParams): Promise<ApiResponse> {
-    try {
-      const cacheKey = `gol_search_${JSON.stringify(params)}`;
-      const cached = await cacheService.get(cacheKey);
-
-      if (cached) {
-        return cached as ApiResponse;
-      }
-
-      const requestData = {
-        departureAirport: params.origin,
-        arrivalAirport: params.destination,
-        departureDate: params.departureDate,
-        returnDate: params.returnDate,
-        adultCount: params.passengers,
-        cabinClass: params.classType === 'business' ? 'PREMIUM' : 'ECONOMY',
-        flexibleSearch: params.flexibleDays ? true : false,
-      };
+  protected async fetchFlights(
+    params: FlightSearchParams
+  ): Promise<ProviderSearchResult> {
+    const mix = getPassengerMix(params);
+    const requestData = {
+      departureAirport: params.origin,
+      arrivalAirport: params.destination,
+      departureDate: params.departureDate,
+      returnDate: params.returnDate,
+      adultCount: mix.adults,
+      childCount: mix.children,
+      infantCount: mix.infants,
+      cabinClass: params.classType === 'business' ? 'PREMIUM' : 'ECONOMY',
+      flexibleSearch: params.flexibleDays ? true : false,
+    };
 
-      const response = await this.makeRequest<any>({
+    const response = await this.makeRequest<any>(
+      {
         method: 'GET',
         url: '/flights/search',
         headers: {
@@ -283,27 +700,14 @@ class GolApi extends BaseAirlineApi {
           Accept: 'application/json',
         },
         params: requestData,
-      });
-
-      const flights = this.transformGolResponse(response);
-      const result: ApiResponse = {
-        success: true,
-        flights,
-        source: 'GOL',
-        searchId: response.sessionId,
-      };
+      },
+      params
+    );
 
-      await cacheService.set(cacheKey, result, 300);
-      return result;
-    } catch (error: any) {
-      logger.error('GOL API Error:', error.message);
-      return {
-        success: false,
-        flights: [],
-        source: 'GOL',
-        error: error.message,
-      };
-    }
+    return {
+      flights: this.transformGolResponse(response),
+      searchId: response.sessionId,
+    };
   }
 
   async getFlightDetails(flightId: string): Promise<FlightResult | null> {
@@ -334,7 +738,7 @@ class GolApi extends BaseAirlineApi {
   }
 
   private transformGolFlight(flight: any): FlightResult {
-    return {
+    return this.withSingleSegmentSlice({
       id: flight.flightKey,
       airline: {
         code: 'G3',
@@ -365,36 +769,43 @@ class GolApi extends BaseAirlineApi {
       isOffer: flight.isSpecialOffer || false,
       discountPercent: flight.discountPercentage,
       originalPrice: flight.originalPrice,
-    };
+    });
   }
 }
 
 // Azul API Integration
 class AzulApi extends BaseAirlineApi {
+  readonly id = 'azul';
+  readonly name = 'AZUL';
+  readonly capabilities: ProviderCapabilities = {
+    cabins: ['economy', 'business'],
+    tripTypes: ['oneway', 'roundtrip'],
+    maxPassengers: 9,
+  };
+  protected mockAirlines = ['AD'];
+
   constructor() {
-    super(process.env.AZUL_API_KEY || 'test-key', 'https://api.voeazul.com.br/v1');
+    super(process.env.AZUL_API_KEY || '', 'https://api.voeazul.com.br/v1');
   }
 
-  async searchFlights(params: FlightSearchParams): Promise<ApiResponse> {
-    try {
-      const cacheKey = `azul_search_${JSON.stringify(params)}`;
-      const cached = await cacheService.get(cacheKey);
-
-      if (cached) {
-        return cached as ApiResponse;
-      }
-
-      const requestData = {
-        origin: params.origin,
-        destination: params.destination,
-        outboundDate: params.departureDate,
-        inboundDate: params.returnDate,
-        passengers: params.passengers,
-        fareClass: params.classType === 'business' ? 'BUSINESS' : 'ECONOMY',
-        flexibleDates: params.flexibleDays || 0,
-      };
+  protected async fetchFlights(
+    params: FlightSearchParams
+  ): Promise<ProviderSearchResult> {
+    const mix = getPassengerMix(params);
+    const requestData = {
+      origin: params.origin,
+      destination: params.destination,
+      outboundDate: params.departureDate,
+      inboundDate: params.returnDate,
+      adults: mix.adults,
+      children: mix.children,
+      infants: mix.infants,
+      fareClass: params.classType === 'business' ? 'BUSINESS' : 'ECONOMY',
+      flexibleDates: params.flexibleDays || 0,
+    };
 
-      const response = await this.makeRequest<any>({
+    const response = await this.makeRequest<any>(
+      {
         method: 'POST',
         url: '/flights/availability',
         headers: {
@@ -402,27 +813,14 @@ class AzulApi extends BaseAirlineApi {
           'Content-Type': 'application/json',
         },
         data: requestData,
-      });
-
-      const flights = this.transformAzulResponse(response);
-      const result: ApiResponse = {
-        success: true,
-        flights,
-        source: 'AZUL',
-        searchId: response.searchToken,
-      };
+      },
+      params
+    );
 
-      await cacheService.set(cacheKey, result, 300);
-      return result;
-    } catch (error: any) {
-      logger.error('AZUL API Error:', error.message);
-      return {
-        success: false,
-        flights: [],
-        source: 'AZUL',
-        error: error.message,
-      };
-    }
+    return {
+      flights: this.transformAzulResponse(response),
+      searchId: response.searchToken,
+    };
   }
 
   async getFlightDetails(flightId: string): Promise<FlightResult | null> {
@@ -453,7 +851,7 @@ class AzulApi extends BaseAirlineApi {
   }
 
   private transformAzulFlight(flight: any): FlightResult {
-    return {
+    return this.withSingleSegmentSlice({
       id: flight.id,
       airline: {
         code: 'AD',
@@ -484,72 +882,411 @@ class AzulApi extends BaseAirlineApi {
       isOffer: flight.isPromotion || false,
       discountPercent: flight.promotionDiscount,
       originalPrice: flight.originalPrice,
+    });
+  }
+}
+
+// Google Flights Integration
+class GoogleFlightsApi extends BaseAirlineApi {
+  readonly id = 'google';
+  readonly name = 'Google Flights';
+  readonly capabilities: ProviderCapabilities = {
+    cabins: ['economy', 'business', 'first'],
+    tripTypes: ['oneway', 'roundtrip'],
+    maxPassengers: 9,
+  };
+  protected mockAirlines = ['LA', 'G3', 'AD', 'TP', 'AF'];
+  // Google Flights não possui API pública: os resultados são sempre simulados
+  protected simulatedOnly = true;
+
+  constructor() {
+    super(
+      process.env.GOOGLE_FLIGHTS_API_KEY || '',
+      'https://www.googleapis.com/qpxExpress/v1'
+    );
+  }
+
+  protected async fetchFlights(
+    params: FlightSearchParams
+  ): Promise<ProviderSearchResult> {
+    return { flights: this.generateMockFlights(params) };
+  }
+
+  async getFlightDetails(): Promise<FlightResult | null> {
+    return null;
+  }
+}
+
+// Amadeus API Integration (voos internacionais)
+class AmadeusApi extends BaseAirlineApi {
+  readonly id = 'amadeus';
+  readonly name = 'Amadeus';
+  readonly capabilities: ProviderCapabilities = {
+    cabins: ['economy', 'business', 'first'],
+    tripTypes: ['oneway', 'roundtrip', 'multicity'],
+    maxPassengers: 9,
+  };
+  protected mockAirlines = ['LA', 'TP', 'AF'];
+  private amadeus: AmadeusClient;
+
+  constructor(client: AmadeusClient = amadeusClient) {
+    super(process.env.AMADEUS_API_KEY || '', client.baseUrl);
+    this.amadeus = client;
+  }
+
+  protected isConfigured(): boolean {
+    return this.amadeus.isConfigured();
+  }
+
+  protected async fetchFlights(
+    params: FlightSearchParams
+  ): Promise<ProviderSearchResult> {
+    // Token OAuth e paginação ficam a cargo do AmadeusClient
+    const mix = getPassengerMix(params);
+    const response = await this.withFixture(params, () =>
+      this.amadeus.searchFlightOffers({
+        originLocationCode: params.origin,
+        destinationLocationCode: params.destination,
+        departureDate: params.departureDate,
+        returnDate: params.returnDate,
+        adults: mix.adults,
+        children: mix.children || undefined,
+        infants: mix.infants || undefined,
+        travelClass: this.toTravelClass(params.classType),
+        max: 20,
+      })
+    );
+
+    return { flights: this.transformAmadeusResponse(response, params) };
+  }
+
+  /**
+   * Tarifa única para todos os trechos de uma viagem multi-destino
+   */
+  async searchMultiCity(
+    params: MultiCitySearchParams,
+    options: SearchOptions = {}
+  ): Promise<ApiResponse> {
+    return this.runSearch(
+      `${this.id}_multicity_${JSON.stringify(params)}`,
+      () => this.fetchMultiCity(params),
+      () => this.generateMockOffers(params.legs, params.classType),
+      getPassengerMix(params),
+      options
+    );
+  }
+
+  private async fetchMultiCity(
+    params: MultiCitySearchParams
+  ): Promise<ProviderSearchResult> {
+    const legIds = params.legs.map((_leg, index) => String(index + 1));
+    const travelClass = this.toTravelClass(params.classType);
+
+    // Fixture identificada pelo percurso completo e pelas datas extremas
+    const fixtureParams: FlightSearchParams = {
+      origin: params.legs.map(leg => leg.origin).join('-'),
+      destination: params.legs[params.legs.length - 1].destination,
+      departureDate: params.legs[0].departureDate,
+      returnDate: params.legs[params.legs.length - 1].departureDate,
+      passengers: params.passengers,
+      passengerMix: params.passengerMix,
+      classType: params.classType,
+    };
+
+    const response = await this.withFixture(fixtureParams, () =>
+      this.amadeus.searchMultiCityOffers({
+        originDestinations: params.legs.map((leg, index) => ({
+          id: legIds[index],
+          originLocationCode: leg.origin,
+          destinationLocationCode: leg.destination,
+          departureDateTimeRange: { date: leg.departureDate.slice(0, 10) },
+        })),
+        travelers: this.toTravelers(getPassengerMix(params)),
+        sources: ['GDS'],
+        searchCriteria: {
+          maxFlightOffers: 20,
+          flightFilters:
+            params.classType === 'both'
+              ? undefined
+              : {
+                  cabinRestrictions: [
+                    {
+                      cabin: travelClass,
+                      coverage: 'MOST_SEGMENTS',
+                      originDestinationIds: legIds,
+                    },
+                  ],
+                },
+        },
+      })
+    );
+
+    return { flights: this.transformAmadeusResponse(response, fixtureParams) };
+  }
+
+  async getFlightDetails(): Promise<FlightResult | null> {
+    // A API de ofertas da Amadeus não permite consulta por id
+    return null;
+  }
+
+  // Adultos, crianças e bebês de colo, cada bebê associado a um adulto
+  private toTravelers(mix: PassengerMix): FlightOffersRequest['travelers'] {
+    const types = [
+      ...Array<string>(mix.adults).fill('ADULT'),
+      ...Array<string>(mix.children).fill('CHILD'),
+    ];
+    const travelers = types.map((travelerType, index) => ({
+      id: String(index + 1),
+      travelerType,
+    }));
+
+    return [
+      ...travelers,
+      ...Array.from({ length: mix.infants }, (_, index) => ({
+        id: String(travelers.length + index + 1),
+        travelerType: 'HELD_INFANT',
+        associatedAdultId: String(index + 1),
+      })),
+    ];
+  }
+
+  // Preço por tipo de passageiro a partir das tarifas de cada viajante
+  private toPriceBreakdown(
+    travelerPricings: AmadeusTravelerPricing[]
+  ): PassengerPrice[] {
+    const byType = new Map<PassengerType, PassengerPrice>();
+
+    travelerPricings.forEach(pricing => {
+      const type = AMADEUS_PASSENGER_TYPES[pricing.travelerType] || 'ADT';
+      const unitPrice = parseFloat(pricing.price?.total || '0');
+      const current = byType.get(type);
+
+      byType.set(type, {
+        type,
+        count: (current?.count || 0) + 1,
+        unitPrice,
+        subtotal:
+          Math.round(((current?.subtotal || 0) + unitPrice) * 100) / 100,
+      });
+    });
+
+    return [...byType.values()];
+  }
+
+  private toTravelClass(classType: FlightSearchParams['classType']): string {
+    if (classType === 'business') {
+      return 'BUSINESS';
+    }
+    if (classType === 'first') {
+      return 'FIRST';
+    }
+    return 'ECONOMY';
+  }
+
+  // Converter resposta da Amadeus para nosso formato
+  private transformAmadeusResponse(
+    response: FlightOffersResponse,
+    params: FlightSearchParams
+  ): FlightResult[] {
+    if (!response.data || !Array.isArray(response.data)) {
+      return [];
+    }
+
+    const carriers = response.dictionaries?.carriers || {};
+
+    return response.data.map((offer, index) => {
+      // Tarifas por segmento do primeiro passageiro
+      const faresBySegment = new Map<string, FareDetails>(
+        (offer.travelerPricings?.[0]?.fareDetailsBySegment || []).map(fare => [
+          fare.segmentId,
+          {
+            cabin: fare.cabin?.toLowerCase(),
+            fareBasis: fare.fareBasis,
+            brandedFare: fare.brandedFare,
+            bookingClass: fare.class,
+            includedCheckedBags: fare.includedCheckedBags,
+          },
+        ])
+      );
+
+      // Cada itinerário da oferta é um trecho (ida e, se houver, volta)
+      const slices: FlightSlice[] = offer.itineraries.map(itinerary =>
+        buildSlice(
+          itinerary.segments.map(segment =>
+            this.transformAmadeusSegment(
+              segment,
+              faresBySegment.get(segment.id),
+              carriers
+            )
+          ),
+          this.parseDuration(itinerary.duration)
+        )
+      );
+      const outbound = slices[0];
+      const firstSegment = outbound.segments[0];
+      const fareDetails = firstSegment.fare;
+      const checkedBags = fareDetails?.includedCheckedBags;
+
+      return {
+        id: `amadeus_${offer.id || index}`,
+        airline: firstSegment.airline,
+        flightNumber: firstSegment.flightNumber,
+        origin: outbound.origin,
+        destination: outbound.destination,
+        departureTime: outbound.departureTime,
+        arrivalTime: outbound.arrivalTime,
+        duration: outbound.duration,
+        price: parseFloat(offer.price.total),
+        currency: offer.price.currency,
+        priceBreakdown: offer.travelerPricings?.length
+          ? this.toPriceBreakdown(offer.travelerPricings)
+          : undefined,
+        classType: fareDetails?.cabin || params.classType,
+        availableSeats: offer.numberOfBookableSeats || 0,
+        stops: outbound.stops,
+        aircraft: firstSegment.aircraft,
+        bookingUrl: '',
+        isOffer: false,
+        baggageIncluded: Boolean(
+          checkedBags && (checkedBags.quantity || checkedBags.weight)
+        ),
+        slices,
+        fareDetails,
+      };
+    });
+  }
+
+  private transformAmadeusSegment(
+    segment: AmadeusSegment,
+    fare: FareDetails | undefined,
+    carriers: Record<string, string>
+  ): FlightSegment {
+    const carrier = (code: string): CarrierInfo => ({
+      code,
+      name: AIRLINE_NAMES[code] || carriers[code] || code,
+    });
+    const operatingCode = segment.operating?.carrierCode;
+
+    return {
+      airline: carrier(segment.carrierCode),
+      operatingAirline:
+        operatingCode && operatingCode !== segment.carrierCode
+          ? carrier(operatingCode)
+          : undefined,
+      flightNumber: `${segment.carrierCode}${segment.number}`,
+      origin: toAirport(segment.departure.iataCode),
+      destination: toAirport(segment.arrival.iataCode),
+      departureTime: segment.departure.at,
+      arrivalTime: segment.arrival.at,
+      duration: this.parseDuration(segment.duration),
+      aircraft: segment.aircraft?.code,
+      fare,
     };
   }
+
+  // Converter duração ISO 8601 (ex: PT10H30M, P1DT2H) para minutos
+  private parseDuration(duration: string): number {
+    const match = duration?.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/);
+    if (!match) {
+      return 0;
+    }
+
+    const [, days, hours, minutes] = match.map(value => parseInt(value) || 0);
+
+    return days * 24 * 60 + hours * 60 + minutes;
+  }
 }
 
+// Registro único de provedores usado pelos agregadores
+const providerRegistry = new ProviderRegistry([
+  new GoogleFlightsApi(),
+  new LatamApi(),
+  new GolApi(),
+  new AzulApi(),
+  new AmadeusApi(),
+]);
+
 // Agregador de APIs
 class AirlineApiAggregator {
-  private apis: BaseAirlineApi[];
+  private registry: ProviderRegistry;
 
-  constructor() {
-    this.apis = [new LatamApi(), new GolApi(), new AzulApi()];
+  constructor(registry: ProviderRegistry = providerRegistry) {
+    this.registry = registry;
   }
 
-  async searchAllFlights(params: FlightSearchParams): Promise<{
+  async searchAllFlights(
+    params: FlightSearchParams,
+    options: SearchOptions = {}
+  ): Promise<{
     flights: FlightResult[];
     sources: string[];
     errors: string[];
   }> {
-    const promises = this.apis.map(api =>
-      api.searchFlights(params).catch(error => ({
+    const providers = this.registry.getProviders(params);
+    const promises = providers.map(provider =>
+      provider.searchFlights(params, options).catch(error => ({
         success: false,
         flights: [],
-        source: api.constructor.name,
+        source: provider.name,
         error: error.message,
       }))
     );
 
     const results = await Promise.all(promises);
 
-    const allFlights: FlightResult[] = [];
+    const offers: SourcedFlights[] = [];
     const sources: string[] = [];
     const errors: string[] = [];
 
-    results.forEach(result => {
+    results.forEach((result, index) => {
       if (result.success) {
-        allFlights.push(...result.flights);
+        offers.push({
+          source: providers[index].id,
+          sourceName: providers[index].name,
+          flights: result.flights,
+        });
         sources.push(result.source);
       } else {
         errors.push(`${result.source}: ${result.error}`);
       }
     });
 
-    // Ordenar por preço (menor primeiro)
-    allFlights.sort((a, b) => a.price - b.price);
+    // Unificar o mesmo voo vendido por várias fontes (ordenado por preço)
+    const flights = mergeOffers(offers);
 
     return {
-      flights: allFlights,
+      flights,
       sources,
       errors,
     };
   }
 
+  /**
+   * Detalhes do voo no provedor de origem. Recebe o id do provedor
+   * (FlightResult.source), não o nome exibido em ApiResponse.source.
+   */
   async getFlightDetails(
     flightId: string,
-    source: string
+    providerId: string
   ): Promise<FlightResult | null> {
-    const api = this.apis.find(api =>
-      api.constructor.name.toLowerCase().includes(source.toLowerCase())
-    );
+    const provider = this.registry.get(providerId);
 
-    if (!api) {
-      throw new Error(`API not found for source: ${source}`);
+    if (!provider) {
+      throw new Error(`API not found for provider: ${providerId}`);
     }
 
-    return api.getFlightDetails(flightId);
+    return provider.getFlightDetails(flightId);
   }
 }
 
 export default new AirlineApiAggregator();
-export { LatamApi, GolApi, AzulApi, AirlineApiAggregator };
+export {
+  BaseAirlineApi,
+  LatamApi,
+  GolApi,
+  AzulApi,
+  GoogleFlightsApi,
+  AmadeusApi,
+  AirlineApiAggregator,
+  providerRegistry,
+};
@@ -0,0 +1,330 @@
+import { logger } from '../utils/logger';
+import { prisma } from '../config/database';
+import cacheService from './cacheService';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '../utils/timezone';
+
+export interface GeoAirport {
+  code: string;
+  name: string;
+  city: string;
+  timezone: string; // IANA, ex: "America/Sao_Paulo"
+  latitude: number;
+  longitude: number;
+}
+
+export interface NearbyAirport extends GeoAirport {
+  distanceKm: number; // distância em linha reta
+}
+
+const EARTH_RADIUS_KM = 6371;
+const CACHE_KEY = 'airports_geo';
+const TIME_ZONES_CACHE_KEY = 'airports_timezones';
+const CACHE_TTL = 3600; // 1 hora
+
+// Coordenadas e fusos dos principais aeroportos, usados quando a tabela
+// airports ainda não tem o aeroporto
+const KNOWN_AIRPORTS: GeoAirport[] = [
+  {
+    code: 'GRU',
+    name: 'Guarulhos',
+    city: 'São Paulo',
+    timezone: 'America/Sao_Paulo',
+    latitude: -23.4356,
+    longitude: -46.4731,
+  },
+  {
+    code: 'CGH',
+    name: 'Congonhas',
+    city: 'São Paulo',
+    timezone: 'America/Sao_Paulo',
+    latitude: -23.6261,
+    longitude: -46.6564,
+  },
+  {
+    code: 'VCP',
+    name: 'Viracopos',
+    city: 'Campinas',
+    timezone: 'America/Sao_Paulo',
+    latitude: -23.0074,
+    longitude: -47.1345,
+  },
+  {
+    code: 'GIG',
+    name: 'Galeão',
+    city: 'Rio de Janeiro',
+    timezone: 'America/Sao_Paulo',
+    latitude: -22.81,
+    longitude: -43.2506,
+  },
+  {
+    code: 'SDU',
+    name: 'Santos Dumont',
+    city: 'Rio de Janeiro',
+    timezone: 'America/Sao_Paulo',
+    latitude: -22.9105,
+    longitude: -43.1631,
+  },
+  {
+    code: 'BSB',
+    name: 'Brasília',
+    city: 'Brasília',
+    timezone: 'America/Sao_Paulo',
+    latitude: -15.8711,
+    longitude: -47.9186,
+  },
+  {
+    code: 'CNF',
+    name: 'Confins',
+    city: 'Belo Horizonte',
+    timezone: 'America/Sao_Paulo',
+    latitude: -19.6244,
+    longitude: -43.9719,
+  },
+  {
+    code: 'PLU',
+    name: 'Pampulha',
+    city: 'Belo Horizonte',
+    timezone: 'America/Sao_Paulo',
+    latitude: -19.8512,
+    longitude: -43.9506,
+  },
+  {
+    code: 'POA',
+    name: 'Salgado Filho',
+    city: 'Porto Alegre',
+    timezone: 'America/Sao_Paulo',
+    latitude: -29.9944,
+    longitude: -51.1714,
+  },
+  {
+    code: 'CWB',
+    name: 'Afonso Pena',
+    city: 'Curitiba',
+    timezone: 'America/Sao_Paulo',
+    latitude: -25.5285,
+    longitude: -49.1758,
+  },
+  {
+    code: 'JFK',
+    name: 'John F. Kennedy',
+    city: 'Nova York',
+    timezone: 'America/New_York',
+    latitude: 40.6413,
+    longitude: -73.7781,
+  },
+  {
+    code: 'EWR',
+    name: 'Newark',
+    city: 'Nova York',
+    timezone: 'America/New_York',
+    latitude: 40.6895,
+    longitude: -74.1745,
+  },
+  {
+    code: 'LGA',
+    name: 'LaGuardia',
+    city: 'Nova York',
+    timezone: 'America/New_York',
+    latitude: 40.7769,
+    longitude: -73.874,
+  },
+  {
+    code: 'LHR',
+    name: 'Heathrow',
+    city: 'Londres',
+    timezone: 'Europe/London',
+    latitude: 51.47,
+    longitude: -0.4543,
+  },
+  {
+    code: 'LGW',
+    name: 'Gatwick',
+    city: 'Londres',
+    timezone: 'Europe/London',
+    latitude: 51.1537,
+    longitude: -0.1821,
+  },
+  {
+    code: 'CDG',
+    name: 'Charles de Gaulle',
+    city: 'Paris',
+    timezone: 'Europe/Paris',
+    latitude: 49.0097,
+    longitude: 2.5479,
+  },
+  {
+    code: 'ORY',
+    name: 'Orly',
+    city: 'Paris',
+    timezone: 'Europe/Paris',
+    latitude: 48.7262,
+    longitude: 2.3652,
+  },
+];
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Distância em linha reta entre dois pontos (fórmula de haversine)
+ */
+export function haversineKm(
+  from: Pick<GeoAirport, 'latitude' | 'longitude'>,
+  to: Pick<GeoAirport, 'latitude' | 'longitude'>
+): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Aeroportos dentro do raio, do mais próximo ao mais distante
+ */
+export function findWithinRadius(
+  origin: GeoAirport,
+  airports: GeoAirport[],
+  radiusKm: number
+): NearbyAirport[] {
+  return airports
+    .filter(airport => airport.code !== origin.code)
+    .map(airport => ({
+      ...airport,
+      distanceKm: Math.round(haversineKm(origin, airport)),
+    }))
+    .filter(airport => airport.distanceKm <= radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+}
+
+class AirportGeoService {
+  /**
+   * Aeroportos com coordenadas: os da tabela airports prevalecem sobre a
+   * lista embutida de aeroportos conhecidos
+   */
+  async getAirports(): Promise<GeoAirport[]> {
+    const cached = await cacheService.get<GeoAirport[]>(CACHE_KEY);
+    if (cached) {
+      return cached;
+    }
+
+    const airports = new Map(
+      KNOWN_AIRPORTS.map(airport => [airport.code, airport])
+    );
+
+    try {
+      const rows = await prisma.airport.findMany({
+        where: { latitude: { not: null }, longitude: { not: null } },
+        select: {
+          code: true,
+          name: true,
+          city: true,
+          timezone: true,
+          latitude: true,
+          longitude: true,
+        },
+      });
+
+      rows.forEach(row =>
+        airports.set(row.code, {
+          code: row.code,
+          name: row.name,
+          city: row.city,
+          timezone: row.timezone,
+          latitude: row.latitude as number,
+          longitude: row.longitude as number,
+        })
+      );
+    } catch (error) {
+      logger.error('Erro ao carregar coordenadas dos aeroportos:', error);
+    }
+
+    const result = [...airports.values()];
+    await cacheService.set(CACHE_KEY, result, CACHE_TTL);
+    return result;
+  }
+
+  async getAirport(code: string): Promise<GeoAirport | null> {
+    const airports = await this.getAirports();
+    return (
+      airports.find(airport => airport.code === code.toUpperCase()) || null
+    );
+  }
+
+  /**
+   * Aeroportos alternativos dentro do raio (ex: GRU → CGH, VCP).
+   * Retorna vazio quando o aeroporto não tem coordenadas.
+   */
+  async findNearbyAirports(
+    code: string,
+    radiusKm: number = 100
+  ): Promise<NearbyAirport[]> {
+    const airports = await this.getAirports();
+    const origin = airports.find(
+      airport => airport.code === code.toUpperCase()
+    );
+
+    if (!origin) {
+      logger.warn(`Aeroporto ${code} sem coordenadas cadastradas`);
+      return [];
+    }
+
+    return findWithinRadius(origin, airports, radiusKm);
+  }
+
+  /**
+   * Fuso IANA de cada aeroporto (código IATA → fuso), incluindo os que não
+   * têm coordenadas
+   */
+  async getTimeZones(): Promise<Record<string, string>> {
+    const cached =
+      await cacheService.get<Record<string, string>>(TIME_ZONES_CACHE_KEY);
+    if (cached) {
+      return cached;
+    }
+
+    const timeZones: Record<string, string> = {};
+    KNOWN_AIRPORTS.forEach(airport => {
+      timeZones[airport.code] = airport.timezone;
+    });
+
+    try {
+      const rows = await prisma.airport.findMany({
+        select: { code: true, timezone: true },
+      });
+
+      rows.forEach(row => {
+        if (isValidTimeZone(row.timezone)) {
+          timeZones[row.code] = row.timezone;
+        } else {
+          logger.warn(
+            `Fuso horário inválido para ${row.code}: ${row.timezone}`
+          );
+        }
+      });
+    } catch (error) {
+      logger.error('Erro ao carregar fusos horários dos aeroportos:', error);
+    }
+
+    await cacheService.set(TIME_ZONES_CACHE_KEY, timeZones, CACHE_TTL);
+    return timeZones;
+  }
+
+  // Aeroportos sem fuso cadastrado ficam em UTC
+  async getTimeZone(code: string): Promise<string> {
+    const timeZones = await this.getTimeZones();
+    return timeZones[code.toUpperCase()] || DEFAULT_TIME_ZONE;
+  }
+
+  // Descartar o cache após atualizar a tabela de aeroportos
+  async invalidate(): Promise<void> {
+    await cacheService.del(CACHE_KEY);
+    await cacheService.del(TIME_ZONES_CACHE_KEY);
+  }
+}
+
+export default new AirportGeoService();
+export { AirportGeoService };
@@ -1,15 +1,27 @@
 import cron from 'node-cron';
 import { logger } from '../utils/logger';
 import { prisma } from '../config/database';
-import { flightService, FlightSearchParams } from './flightService';
+import { flightService } from './flightService';
+import { ClassType, FlightResult, FlightSearchParams } from './flightModel';
 import { emailService } from './emailService';
+import airportGeoService from './airportGeoService';
+import { PassengerPrice, toPassengerParams } from './passengers';
+import {
+  formatLocalDateTime,
+  getUtcOffsetLabel,
+  getZonedDate,
+} from '../utils/timezone';
 import { io } from '../server';
 
-interface AlertTrigger {
+// Percentil histórico que caracteriza promoção quando o alerta não define um
+const DEAL_TRIGGER_PERCENTILE = 90;
+
+export interface AlertTrigger {
   alertId: string;
   userId: string;
-  flightData: any;
-  triggerType: 'price_drop' | 'new_deal' | 'availability';
+  flightData: FlightResult;
+  // error_fare: tarifa errada confirmada pelo detector de anomalias
+  triggerType: 'price_drop' | 'new_deal' | 'availability' | 'error_fare';
 }
 
 class AlertService {
@@ -70,18 +82,31 @@ class AlertService {
   // Verificar um alerta específico
   async checkSingleAlert(alert: any): Promise<void> {
     try {
+      // As datas do alerta são dias locais (salvos à meia-noite UTC); sem
+      // data, busca daqui a 7 dias no fuso do aeroporto de origem
       const searchParams: FlightSearchParams = {
         origin: alert.departureCode,
         destination: alert.arrivalCode,
         departureDate:
-          alert.departureDate?.toISOString() ||
-          new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-        returnDate: alert.returnDate?.toISOString(),
-        passengers: 1,
-        classType: alert.classType as 'business' | 'economy' | 'both',
+          alert.departureDate?.toISOString().slice(0, 10) ||
+          getZonedDate(
+            new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+            await airportGeoService.getTimeZone(alert.departureCode)
+          ),
+        returnDate: alert.returnDate?.toISOString().slice(0, 10),
+        // Preços e assentos para todo o grupo do alerta; maxPrice e minPrice
+        // se referem ao total
+        ...toPassengerParams({
+          adults: alert.adults ?? 1,
+          children: alert.children ?? 0,
+          infants: alert.infants ?? 0,
+        }),
+        classType: alert.classType as ClassType,
       };
 
-      const searchResult = await flightService.searchAllFlights(searchParams);
+      const searchResult = await flightService.searchAllFlights(searchParams, {
+        priority: 'background',
+      });
       const relevantFlights = this.filterFlightsByAlert(
         searchResult.flights,
         alert
@@ -106,7 +131,10 @@ class AlertService {
   }
 
   // Filtrar voos relevantes para o alerta
-  private filterFlightsByAlert(flights: any[], alert: any): any[] {
+  private filterFlightsByAlert(
+    flights: FlightResult[],
+    alert: any
+  ): FlightResult[] {
     return flights.filter(flight => {
       // Filtrar por classe
       if (alert.classType !== 'both' && flight.classType !== alert.classType) {
@@ -118,6 +146,14 @@ class AlertService {
         return false;
       }
 
+      // Filtrar pela posição do preço no histórico da rota
+      if (
+        alert.minDealPercentile !== null &&
+        (flight.dealQuality?.percentile ?? -1) < alert.minDealPercentile
+      ) {
+        return false;
+      }
+
       // Filtrar por preço mínimo (para detectar promoções)
       if (alert.minPrice && flight.price < alert.minPrice) {
         return true; // Promoção detectada!
@@ -130,8 +166,7 @@ class AlertService {
 
       // Filtrar por companhias preferidas
       if (alert.preferredAirlines && alert.preferredAirlines.length > 0) {
-        const airlineCode = this.getAirlineCode(flight.airline);
-        if (!alert.preferredAirlines.includes(airlineCode)) {
+        if (!alert.preferredAirlines.includes(flight.airline.code)) {
           return false;
         }
       }
@@ -141,7 +176,10 @@ class AlertService {
   }
 
   // Avaliar se o alerta deve ser disparado
-  private evaluateAlertTriggers(flights: any[], alert: any): AlertTrigger[] {
+  private evaluateAlertTriggers(
+    flights: FlightResult[],
+    alert: any
+  ): AlertTrigger[] {
     const triggers: AlertTrigger[] = [];
     const now = new Date();
     const lastTriggered = alert.lastTriggered;
@@ -168,6 +206,15 @@ class AlertService {
         triggerType = 'new_deal';
       }
 
+      // Detectar tarifa entre as mais baratas já vistas na rota
+      if (
+        flight.dealQuality &&
+        flight.dealQuality.percentile >=
+          (alert.minDealPercentile ?? DEAL_TRIGGER_PERCENTILE)
+      ) {
+        triggerType = 'new_deal';
+      }
+
       // Detectar disponibilidade limitada
       if (flight.availableSeats <= 5) {
         triggerType = 'availability';
@@ -253,13 +300,15 @@ class AlertService {
 
     switch (trigger.triggerType) {
       case 'price_drop':
-        return `💰 Preço Reduzido: ${flight.origin} → ${flight.destination}`;
+        return `💰 Preço Reduzido: ${flight.origin.code} → ${flight.destination.code}`;
       case 'new_deal':
-        return `🔥 Promoção Encontrada: ${flight.origin} → ${flight.destination}`;
+        return `🔥 Promoção Encontrada: ${flight.origin.code} → ${flight.destination.code}`;
       case 'availability':
-        return `⚡ Últimas Vagas: ${flight.origin} → ${flight.destination}`;
+        return `⚡ Últimas Vagas: ${flight.origin.code} → ${flight.destination.code}`;
+      case 'error_fare':
+        return `🚨 Possível Tarifa Errada: ${flight.origin.code} → ${flight.destination.code}`;
       default:
-        return `✈️ Voo Encontrado: ${flight.origin} → ${flight.destination}`;
+        return `✈️ Voo Encontrado: ${flight.origin.code} → ${flight.destination.code}`;
     }
   }
 
@@ -270,40 +319,32 @@ class AlertService {
       style: 'currency',
       currency: flight.currency,
     }).format(flight.price);
-
-    const departureDate = new Date(flight.departureTime).toLocaleDateString(
-      'pt-BR'
-    );
-    const departureTime = new Date(flight.departureTime).toLocaleTimeString(
-      'pt-BR',
-      {
-        hour: '2-digit',
-        minute: '2-digit',
-      }
+    const travelers = (flight.priceBreakdown || []).reduce(
+      (total: number, item: PassengerPrice) => total + item.count,
+      0
     );
 
+    // Horário local do aeroporto de origem, e não o do servidor
+    const departureDate = formatLocalDateTime(flight.departureTime, {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+    });
+    const departureTime = formatLocalDateTime(flight.departureTime, {
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
     return (
-      `${flight.airline} ${flight.flightNumber} - ${price} em classe executiva\n` +
-      `Partida: ${departureDate} às ${departureTime}\n` +
+      `${flight.airline.name} ${flight.flightNumber} - ${price}${travelers > 1 ? ` (total para ${travelers} passageiros)` : ''} em classe executiva\n` +
+      `Partida: ${departureDate} às ${departureTime} (horário local, ${getUtcOffsetLabel(flight.departureTime)})\n` +
       `Duração: ${Math.floor(flight.duration / 60)}h${flight.duration % 60}m\n` +
       `Paradas: ${flight.stops === 0 ? 'Direto' : `${flight.stops} parada(s)`}\n` +
-      `Vagas disponíveis: ${flight.availableSeats}`
+      `Vagas disponíveis: ${flight.availableSeats}` +
+      (flight.dealQuality ? `\n${flight.dealQuality.description}` : '')
     );
   }
 
-  // Obter código da companhia aérea
-  private getAirlineCode(airlineName: string): string {
-    const codes: { [key: string]: string } = {
-      LATAM: 'LA',
-      GOL: 'G3',
-      Azul: 'AD',
-      TAP: 'TP',
-      'Air France': 'AF',
-    };
-
-    return codes[airlineName] || airlineName.substring(0, 2).toUpperCase();
-  }
-
   // Criar novo alerta
   async createAlert(userId: string, alertData: any): Promise<any> {
     try {
@@ -324,6 +365,7 @@ class AlertService {
           currency: alertData.currency || 'BRL',
           classType: alertData.classType || 'business',
           maxStops: alertData.maxStops,
+          minDealPercentile: alertData.minDealPercentile,
           preferredAirlines: alertData.preferredAirlines || [],
           emailNotification: alertData.emailNotification !== false,
           pushNotification: alertData.pushNotification !== false,
@@ -0,0 +1,301 @@
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig } from 'axios';
+import { URLSearchParams } from 'url';
+import { logger } from '../utils/logger';
+
+export type AmadeusEnvironment = 'test' | 'production';
+
+export interface AmadeusClientOptions {
+  clientId: string;
+  clientSecret: string;
+  environment?: AmadeusEnvironment;
+  baseUrl?: string; // sobrescreve o host (ex: servidor stub nos testes)
+  maxPages?: number;
+  timeout?: number;
+}
+
+export interface FlightOffersQuery {
+  originLocationCode: string;
+  destinationLocationCode: string;
+  departureDate: string;
+  returnDate?: string;
+  adults: number;
+  children?: number; // 2 a 11 anos
+  infants?: number; // bebês de colo
+  travelClass?: string;
+  nonStop?: boolean;
+  currencyCode?: string;
+  max?: number;
+}
+
+// Corpo do POST de Flight Offers Search (multi-destino)
+export interface FlightOffersRequest {
+  currencyCode?: string;
+  originDestinations: {
+    id: string;
+    originLocationCode: string;
+    destinationLocationCode: string;
+    departureDateTimeRange: { date: string };
+  }[];
+  // Bebês de colo (HELD_INFANT) indicam o adulto responsável
+  travelers: {
+    id: string;
+    travelerType: string;
+    associatedAdultId?: string;
+  }[];
+  sources: string[];
+  searchCriteria?: {
+    maxFlightOffers?: number;
+    flightFilters?: {
+      cabinRestrictions?: {
+        cabin: string;
+        coverage: string;
+        originDestinationIds: string[];
+      }[];
+    };
+  };
+}
+
+// Campos da oferta usados no mapeamento (a API devolve bem mais)
+export interface AmadeusSegment {
+  id: string;
+  carrierCode: string;
+  number: string;
+  operating?: { carrierCode?: string };
+  departure: { iataCode: string; at: string };
+  arrival: { iataCode: string; at: string };
+  duration: string;
+  aircraft?: { code?: string };
+}
+
+export interface AmadeusFareDetails {
+  segmentId: string;
+  cabin?: string;
+  fareBasis?: string;
+  brandedFare?: string;
+  class?: string;
+  includedCheckedBags?: {
+    quantity?: number;
+    weight?: number;
+    weightUnit?: string;
+  };
+}
+
+export interface AmadeusTravelerPricing {
+  travelerType: string;
+  price?: { total?: string };
+  fareDetailsBySegment?: AmadeusFareDetails[];
+}
+
+export interface AmadeusFlightOffer {
+  id?: string;
+  numberOfBookableSeats?: number;
+  itineraries: { duration: string; segments: AmadeusSegment[] }[];
+  price: { total: string; currency: string };
+  travelerPricings?: AmadeusTravelerPricing[];
+}
+
+export interface FlightOffersResponse {
+  data: AmadeusFlightOffer[];
+  dictionaries?: {
+    carriers?: Record<string, string>;
+    aircraft?: Record<string, string>;
+    [key: string]: Record<string, unknown> | undefined;
+  };
+  meta?: {
+    count?: number;
+    links?: { self?: string; next?: string };
+  };
+}
+
+interface AccessToken {
+  value: string;
+  expiresAt: number;
+}
+
+const AMADEUS_HOSTS: Record<AmadeusEnvironment, string> = {
+  test: 'https://test.api.amadeus.com',
+  production: 'https://api.amadeus.com',
+};
+
+// Renovar o token um pouco antes de expirar
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+class AmadeusClient {
+  readonly baseUrl: string;
+  private http: AxiosInstance;
+  private clientId: string;
+  private clientSecret: string;
+  private maxPages: number;
+  private token?: AccessToken;
+  private pendingToken?: Promise<string>;
+
+  constructor(options: AmadeusClientOptions) {
+    this.clientId = options.clientId;
+    this.clientSecret = options.clientSecret;
+    this.maxPages = options.maxPages || 1;
+    this.baseUrl =
+      options.baseUrl || AMADEUS_HOSTS[options.environment || 'test'];
+    this.http = axios.create({
+      baseURL: this.baseUrl,
+      timeout: options.timeout || 30000,
+      headers: { 'User-Agent': 'FlightExec-Radar/1.0' },
+    });
+  }
+
+  /**
+   * Cliente configurado a partir das variáveis AMADEUS_*
+   */
+  static fromEnv(): AmadeusClient {
+    return new AmadeusClient({
+      clientId: process.env.AMADEUS_API_KEY || '',
+      clientSecret: process.env.AMADEUS_API_SECRET || '',
+      environment:
+        process.env.AMADEUS_ENV === 'production' ? 'production' : 'test',
+      baseUrl: process.env.AMADEUS_BASE_URL || undefined,
+      maxPages: parseInt(process.env.AMADEUS_MAX_PAGES || '1'),
+    });
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.clientId && this.clientSecret);
+  }
+
+  /**
+   * Token OAuth em cache, renovado apenas quando expira.
+   * Pedidos simultâneos compartilham a mesma renovação.
+   */
+  async getAccessToken(): Promise<string> {
+    if (this.token && Date.now() < this.token.expiresAt) {
+      return this.token.value;
+    }
+
+    if (!this.pendingToken) {
+      this.pendingToken = this.requestAccessToken().finally(() => {
+        this.pendingToken = undefined;
+      });
+    }
+
+    return this.pendingToken;
+  }
+
+  invalidateToken(): void {
+    this.token = undefined;
+  }
+
+  /**
+   * Flight Offers Search, seguindo a paginação até maxPages
+   */
+  async searchFlightOffers(
+    query: FlightOffersQuery
+  ): Promise<FlightOffersResponse> {
+    const data: AmadeusFlightOffer[] = [];
+    const dictionaries: NonNullable<FlightOffersResponse['dictionaries']> = {};
+    let meta: FlightOffersResponse['meta'];
+    let config: AxiosRequestConfig | undefined = {
+      method: 'GET',
+      url: '/v2/shopping/flight-offers',
+      params: query,
+    };
+
+    for (let page = 0; config && page < this.maxPages; page++) {
+      const response: FlightOffersResponse =
+        await this.request<FlightOffersResponse>(config);
+
+      data.push(...(response.data || []));
+      meta = response.meta;
+      Object.entries(response.dictionaries || {}).forEach(([key, value]) => {
+        dictionaries[key] = { ...dictionaries[key], ...value };
+      });
+
+      const next = response.meta?.links?.next;
+      config = next ? { method: 'GET', url: next } : undefined;
+    }
+
+    return { data, dictionaries, meta };
+  }
+
+  /**
+   * Flight Offers Search via POST, usado nas viagens com vários trechos
+   * (a versão GET aceita apenas origem e destino)
+   */
+  async searchMultiCityOffers(
+    body: FlightOffersRequest
+  ): Promise<FlightOffersResponse> {
+    return this.request<FlightOffersResponse>({
+      method: 'POST',
+      url: '/v2/shopping/flight-offers',
+      data: body,
+      headers: { 'X-HTTP-Method-Override': 'GET' },
+    });
+  }
+
+  /**
+   * Requisição autenticada; em caso de 401 renova o token e tenta de novo
+   */
+  async request<T>(config: AxiosRequestConfig, retry = true): Promise<T> {
+    const token = await this.getAccessToken();
+
+    try {
+      const response = await this.http.request<T>({
+        ...config,
+        headers: { ...config.headers, Authorization: `Bearer ${token}` },
+      });
+      return response.data;
+    } catch (error) {
+      const status = (error as AxiosError).response?.status;
+
+      if (status === 401 && retry) {
+        logger.warn('Token Amadeus rejeitado, renovando');
+        this.invalidateToken();
+        return this.request<T>(config, false);
+      }
+
+      throw new Error(
+        `Amadeus API Error: ${this.describeError(error as AxiosError)}`
+      );
+    }
+  }
+
+  private async requestAccessToken(): Promise<string> {
+    const body = new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: this.clientId,
+      client_secret: this.clientSecret,
+    });
+
+    try {
+      const response = await this.http.post<{
+        access_token: string;
+        expires_in: number;
+      }>('/v1/security/oauth2/token', body.toString(), {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      });
+
+      const { access_token, expires_in } = response.data;
+      this.token = {
+        value: access_token,
+        expiresAt:
+          Date.now() + Math.max(expires_in * 1000 - TOKEN_EXPIRY_MARGIN_MS, 0),
+      };
+
+      logger.info(`Token Amadeus renovado (expira em ${expires_in}s)`);
+      return access_token;
+    } catch (error) {
+      throw new Error(
+        `Falha na autenticação Amadeus: ${this.describeError(error as AxiosError)}`
+      );
+    }
+  }
+
+  private describeError(error: AxiosError): string {
+    const data = error.response?.data as
+      | { errors?: { detail?: string; title?: string }[] }
+      | undefined;
+    const detail = data?.errors?.[0]?.detail || data?.errors?.[0]?.title;
+
+    return detail ? `${error.message} - ${detail}` : error.message;
+  }
+}
+
+export default AmadeusClient.fromEnv();
+export { AmadeusClient };
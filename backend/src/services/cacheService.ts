@@ -1,6 +1,7 @@
 import NodeCache from 'node-cache';
 import { createHash } from 'crypto';
-import { FlightSearchParams, FlightSearchResult } from './flightSearchService';
+import type { FlightResult } from './flightModel';
+import type { FlightSearchFilters } from './flightSearchService';
 import { logger } from '../utils/logger';
 
 interface CacheConfig {
@@ -88,15 +89,23 @@ class CacheService {
 
   // Gera uma chave única baseada nos parâmetros de busca
   private generateCacheKey(prefix: string, params: any): string {
-    const paramString = JSON.stringify(params, Object.keys(params).sort());
+    // As chaves dos objetos aninhados (ex: passengerMix) também entram
+    const keys = Object.values(params).reduce<string[]>(
+      (all, value) =>
+        value && typeof value === 'object' && !(value instanceof Date)
+          ? all.concat(Object.keys(value))
+          : all,
+      Object.keys(params)
+    );
+    const paramString = JSON.stringify(params, [...new Set(keys)].sort());
     const hash = createHash('md5').update(paramString).digest('hex');
     return `${prefix}:${hash}`;
   }
 
   // Cache para resultados de busca de voos
   async cacheFlightSearch(
-    params: FlightSearchParams,
-    results: FlightSearchResult[],
+    params: FlightSearchFilters,
+    results: FlightResult[],
     ttl?: number
   ): Promise<void> {
     const key = this.generateCacheKey('flight_search', params);
@@ -115,13 +124,13 @@ class CacheService {
   }
 
   async getCachedFlightSearch(
-    params: FlightSearchParams
-  ): Promise<FlightSearchResult[] | null> {
+    params: FlightSearchFilters
+  ): Promise<FlightResult[] | null> {
     const key = this.generateCacheKey('flight_search', params);
     const cached = this.flightCache.get<{
-      results: FlightSearchResult[];
+      results: FlightResult[];
       timestamp: string;
-      params: FlightSearchParams;
+      params: FlightSearchFilters;
     }>(key);
 
     if (cached) {
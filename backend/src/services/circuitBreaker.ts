@@ -0,0 +1,199 @@
+import { logger } from '../utils/logger';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // falhas consecutivas para abrir o circuito
+  resetTimeout: number; // ms em aberto antes de testar novamente
+  halfOpenMaxCalls: number; // requisições de teste simultâneas em half-open
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  rejectedRequests: number;
+  lastError?: string;
+  lastFailureAt?: string;
+  lastSuccessAt?: string;
+  openedAt?: string;
+  nextAttemptAt?: string;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(name: string) {
+    super(`Provedor ${name} temporariamente indisponível (circuito aberto)`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+const DEFAULT_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: parseInt(process.env.PROVIDER_BREAKER_THRESHOLD || '5'),
+  resetTimeout: parseInt(process.env.PROVIDER_BREAKER_RESET_MS || '60000'),
+  halfOpenMaxCalls: 1,
+};
+
+class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private halfOpenCalls = 0;
+  private totalRequests = 0;
+  private totalFailures = 0;
+  private rejectedRequests = 0;
+  private lastError?: string;
+  private lastFailureAt?: Date;
+  private lastSuccessAt?: Date;
+  private openedAt?: Date;
+  private name: string;
+  private options: CircuitBreakerOptions;
+
+  constructor(name: string, options: Partial<CircuitBreakerOptions> = {}) {
+    this.name = name;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Executa a chamada protegida pelo circuito. Com o circuito aberto a
+   * chamada é rejeitada imediatamente com CircuitOpenError.
+   */
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    if (!this.acquire()) {
+      this.rejectedRequests++;
+      throw new CircuitOpenError(this.name);
+    }
+
+    const probing = this.state === 'half-open';
+    this.totalRequests++;
+
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error: unknown) {
+      this.onFailure(error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    } finally {
+      if (probing) {
+        this.halfOpenCalls = Math.max(0, this.halfOpenCalls - 1);
+      }
+    }
+  }
+
+  getState(): CircuitState {
+    this.refreshState();
+    return this.state;
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    this.refreshState();
+
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalRequests: this.totalRequests,
+      totalFailures: this.totalFailures,
+      rejectedRequests: this.rejectedRequests,
+      lastError: this.lastError,
+      lastFailureAt: this.lastFailureAt?.toISOString(),
+      lastSuccessAt: this.lastSuccessAt?.toISOString(),
+      openedAt: this.openedAt?.toISOString(),
+      nextAttemptAt:
+        this.state === 'open' && this.openedAt
+          ? new Date(
+              this.openedAt.getTime() + this.options.resetTimeout
+            ).toISOString()
+          : undefined,
+    };
+  }
+
+  reset(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.halfOpenCalls = 0;
+    this.openedAt = undefined;
+  }
+
+  // Verifica se a chamada pode prosseguir, reservando vaga de teste em half-open
+  private acquire(): boolean {
+    this.refreshState();
+
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (
+      this.state === 'half-open' &&
+      this.halfOpenCalls < this.options.halfOpenMaxCalls
+    ) {
+      this.halfOpenCalls++;
+      return true;
+    }
+
+    return false;
+  }
+
+  // Após o resetTimeout, o circuito aberto passa a aceitar chamadas de teste
+  private refreshState(): void {
+    if (
+      this.state === 'open' &&
+      this.openedAt &&
+      Date.now() - this.openedAt.getTime() >= this.options.resetTimeout
+    ) {
+      this.state = 'half-open';
+      this.halfOpenCalls = 0;
+      logger.info(`Circuito ${this.name} em half-open, testando provedor`);
+    }
+  }
+
+  private onSuccess(): void {
+    this.lastSuccessAt = new Date();
+
+    if (this.state === 'half-open') {
+      logger.info(`Circuito ${this.name} fechado após teste bem-sucedido`);
+    }
+
+    this.reset();
+  }
+
+  private onFailure(error: Error): void {
+    this.totalFailures++;
+    this.consecutiveFailures++;
+    this.lastError = error.message;
+    this.lastFailureAt = new Date();
+
+    if (
+      this.state === 'half-open' ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.state = 'open';
+      this.openedAt = new Date();
+      logger.warn(
+        `Circuito ${this.name} aberto após ${this.consecutiveFailures} falha(s) consecutiva(s)`
+      );
+    }
+  }
+}
+
+// Um circuito por provedor, criado sob demanda
+class CircuitBreakerRegistry {
+  private breakers = new Map<string, CircuitBreaker>();
+
+  get(name: string): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+
+    if (!breaker) {
+      breaker = new CircuitBreaker(name);
+      this.breakers.set(name, breaker);
+    }
+
+    return breaker;
+  }
+
+  reset(name: string): void {
+    this.breakers.get(name)?.reset();
+  }
+}
+
+export default new CircuitBreakerRegistry();
+export { CircuitBreaker, CircuitBreakerRegistry };
@@ -0,0 +1,215 @@
+import { PriceObservation } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../utils/logger';
+import cacheService from './cacheService';
+import { FlightResult, FlightSearchParams } from './flightModel';
+import {
+  getAdultFare,
+  getDaysBeforeDeparture,
+} from './priceObservationService';
+
+export type DealLabel = 'excellent' | 'good' | 'fair' | 'high';
+
+// Qualidade da oferta frente às tarifas já vistas na rota
+export interface DealQuality {
+  percentile: number; // % das tarifas observadas mais caras que esta
+  label: DealLabel;
+  description: string;
+  medianPrice: number; // mediana das tarifas de adulto observadas
+  savingsPercent: number; // abaixo da mediana (negativo: acima)
+  sampleSize: number;
+  bookingWindow: BookingWindow;
+}
+
+export interface BookingWindow {
+  minDays: number;
+  maxDays: number | null; // null: sem limite
+}
+
+// Tarifas ordenadas por cabine e janela de compra (índice de BOOKING_WINDOWS)
+export type PriceDistribution = Record<string, number[][]>;
+
+export const BOOKING_WINDOWS: BookingWindow[] = [
+  { minDays: 0, maxDays: 6 },
+  { minDays: 7, maxDays: 13 },
+  { minDays: 14, maxDays: 29 },
+  { minDays: 30, maxDays: 59 },
+  { minDays: 60, maxDays: 119 },
+  { minDays: 120, maxDays: null },
+];
+
+export const HISTORY_DAYS = 90;
+// Abaixo disso o percentil não é confiável e a oferta fica sem nota
+const MIN_SAMPLE_SIZE = 20;
+const DISTRIBUTION_CACHE_TTL = 60 * 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const LABELS: { minPercentile: number; label: DealLabel }[] = [
+  { minPercentile: 90, label: 'excellent' },
+  { minPercentile: 70, label: 'good' },
+  { minPercentile: 40, label: 'fair' },
+  { minPercentile: 0, label: 'high' },
+];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function getBookingWindowIndex(daysBeforeDeparture: number): number {
+  return BOOKING_WINDOWS.findIndex(
+    window =>
+      daysBeforeDeparture >= window.minDays &&
+      (window.maxDays === null || daysBeforeDeparture <= window.maxDays)
+  );
+}
+
+/**
+ * Agrupa as tarifas observadas por cabine e janela de compra, em ordem
+ * crescente
+ */
+export function buildPriceDistribution(
+  observations: Pick<
+    PriceObservation,
+    'classType' | 'daysBeforeDeparture' | 'price'
+  >[]
+): PriceDistribution {
+  const distribution: PriceDistribution = {};
+
+  observations.forEach(observation => {
+    if (!distribution[observation.classType]) {
+      distribution[observation.classType] = BOOKING_WINDOWS.map(() => []);
+    }
+    distribution[observation.classType][
+      getBookingWindowIndex(observation.daysBeforeDeparture)
+    ].push(observation.price);
+  });
+
+  Object.values(distribution).forEach(windows =>
+    windows.forEach(prices => prices.sort((a, b) => a - b))
+  );
+  return distribution;
+}
+
+/**
+ * Posição de uma tarifa de adulto entre as tarifas observadas (ordenadas),
+ * ou null com poucas observações
+ */
+export function scoreFare(
+  fare: number,
+  sortedPrices: number[],
+  bookingWindow: BookingWindow
+): DealQuality | null {
+  const sampleSize = sortedPrices.length;
+  if (sampleSize < MIN_SAMPLE_SIZE) {
+    return null;
+  }
+
+  // Primeira posição com tarifa acima da oferta
+  let low = 0;
+  let high = sampleSize;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (sortedPrices[middle] <= fare) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  const percentile = Math.round(((sampleSize - low) / sampleSize) * 100);
+  const half = sampleSize >> 1;
+  const medianPrice =
+    sampleSize % 2
+      ? sortedPrices[half]
+      : (sortedPrices[half - 1] + sortedPrices[half]) / 2;
+  const label =
+    LABELS.find(item => percentile >= item.minPercentile)?.label || 'high';
+
+  return {
+    percentile,
+    label,
+    description: `Mais barata que ${percentile}% das tarifas vistas nos últimos ${HISTORY_DAYS} dias`,
+    medianPrice: round(medianPrice),
+    savingsPercent: round(((medianPrice - fare) / medianPrice) * 100),
+    sampleSize,
+    bookingWindow,
+  };
+}
+
+class DealQualityService {
+  /**
+   * Distribuição das tarifas da rota nos últimos 90 dias, em cache por uma
+   * hora
+   */
+  async getDistribution(
+    origin: string,
+    destination: string,
+    isRoundTrip: boolean
+  ): Promise<PriceDistribution> {
+    const cacheKey = `deal_distribution_${origin}_${destination}_${isRoundTrip ? 'rt' : 'ow'}`;
+    const cached = await cacheService.get<PriceDistribution>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const observations = await prisma.priceObservation.findMany({
+      where: {
+        origin,
+        destination,
+        isRoundTrip,
+        observedAt: { gte: new Date(Date.now() - HISTORY_DAYS * DAY_MS) },
+      },
+      select: { classType: true, daysBeforeDeparture: true, price: true },
+    });
+
+    const distribution = buildPriceDistribution(observations);
+    await cacheService.set(cacheKey, distribution, DISTRIBUTION_CACHE_TTL);
+    return distribution;
+  }
+
+  /**
+   * Ofertas com dealQuality preenchido quando há histórico suficiente na
+   * cabine e janela de compra. Falhas devolvem as ofertas sem nota.
+   */
+  async annotate(
+    params: FlightSearchParams,
+    flights: FlightResult[]
+  ): Promise<FlightResult[]> {
+    if (flights.length === 0) {
+      return flights;
+    }
+
+    try {
+      const distribution = await this.getDistribution(
+        params.origin,
+        params.destination,
+        Boolean(params.returnDate)
+      );
+      const now = new Date();
+
+      return flights.map(flight => {
+        const index = getBookingWindowIndex(
+          getDaysBeforeDeparture(params, flight, now)
+        );
+        const prices = distribution[flight.classType]?.[index];
+        const dealQuality =
+          prices &&
+          scoreFare(
+            getAdultFare(flight, params),
+            prices,
+            BOOKING_WINDOWS[index]
+          );
+
+        return dealQuality ? { ...flight, dealQuality } : flight;
+      });
+    } catch (error) {
+      logger.error(
+        `Erro ao avaliar ofertas de ${params.origin}-${params.destination}:`,
+        error
+      );
+    }
+
+    return flights;
+  }
+}
+
+export default new DealQualityService();
+export { DealQualityService };
@@ -1,5 +1,7 @@
 import nodemailer from 'nodemailer';
 import { logger } from '../utils/logger';
+import { formatLocalDateTime, getUtcOffsetLabel } from '../utils/timezone';
+import type { FlightResult } from './flightModel';
 
 interface EmailConfig {
   host: string;
@@ -15,8 +17,16 @@ interface AlertEmailData {
   to: string;
   userName: string;
   alertName: string;
-  flightData: any;
-  triggerType: 'price_drop' | 'new_deal' | 'availability';
+  flightData: FlightResult;
+  triggerType: 'price_drop' | 'new_deal' | 'availability' | 'error_fare';
+}
+
+// Notificação genérica, sem dados de voo
+interface NotificationEmailData {
+  to: string;
+  userName: string;
+  subject: string;
+  message: string;
 }
 
 interface WelcomeEmailData {
@@ -107,6 +117,30 @@ class EmailService {
     }
   }
 
+  // Enviar email de notificação
+  async sendNotificationEmail(data: NotificationEmailData): Promise<boolean> {
+    if (!this.isConfigured) {
+      logger.warn('Serviço de email não configurado. Email não enviado.');
+      return false;
+    }
+
+    try {
+      const mailOptions = {
+        from: `"FlightExec" <${process.env.SMTP_USER}>`,
+        to: data.to,
+        subject: `${data.subject} - FlightExec`,
+        html: this.generateNotificationEmailHTML(data),
+      };
+
+      await this.transporter.sendMail(mailOptions);
+      logger.info(`Email de notificação enviado para ${data.to}`);
+      return true;
+    } catch (error) {
+      logger.error('Erro ao enviar email de notificação:', error);
+      return false;
+    }
+  }
+
   // Enviar email de boas-vindas
   async sendWelcomeEmail(data: WelcomeEmailData): Promise<boolean> {
     if (!this.isConfigured) {
@@ -162,8 +196,11 @@ class EmailService {
   }
 
   // Gerar assunto do email de alerta
-  private generateAlertSubject(triggerType: string, flightData: any): string {
-    const route = `${flightData.origin} → ${flightData.destination}`;
+  private generateAlertSubject(
+    triggerType: string,
+    flightData: FlightResult
+  ): string {
+    const route = `${flightData.origin.code} → ${flightData.destination.code}`;
 
     switch (triggerType) {
       case 'price_drop':
@@ -172,6 +209,8 @@ class EmailService {
         return `🔥 Promoção Imperdível: ${route} - FlightExec`;
       case 'availability':
         return `⚡ Últimas Vagas: ${route} - FlightExec`;
+      case 'error_fare':
+        return `🚨 Possível Tarifa Errada: ${route} - FlightExec`;
       default:
         return `✈️ Voo Encontrado: ${route} - FlightExec`;
     }
@@ -185,23 +224,18 @@ class EmailService {
       currency: flight.currency || 'BRL',
     }).format(flight.price);
 
-    const departureDate = new Date(flight.departureTime).toLocaleDateString(
-      'pt-BR',
-      {
-        weekday: 'long',
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric',
-      }
-    );
+    // Horário local do aeroporto de origem, e não o do servidor
+    const departureDate = formatLocalDateTime(flight.departureTime, {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
 
-    const departureTime = new Date(flight.departureTime).toLocaleTimeString(
-      'pt-BR',
-      {
-        hour: '2-digit',
-        minute: '2-digit',
-      }
-    );
+    const departureTime = `${formatLocalDateTime(flight.departureTime, {
+      hour: '2-digit',
+      minute: '2-digit',
+    })} (${getUtcOffsetLabel(flight.departureTime)})`;
 
     const duration = `${Math.floor(flight.duration / 60)}h${flight.duration % 60}m`;
     const stops =
@@ -223,6 +257,11 @@ class EmailService {
         alertIcon = '⚡';
         alertMessage = 'Atenção! Restam poucas vagas disponíveis!';
         break;
+      case 'error_fare':
+        alertIcon = '🚨';
+        alertMessage =
+          'Encontramos uma tarifa muito abaixo do normal. Tarifas erradas costumam ser corrigidas em poucas horas!';
+        break;
     }
 
     return `
@@ -266,12 +305,12 @@ class EmailService {
                 
                 <div class="flight-card">
                     <div class="route">
-                        ${flight.origin} → ${flight.destination}
+                        ${flight.origin.code} → ${flight.destination.code}
                     </div>
                     
                     <div class="price">${price}</div>
                     
-                    <p><strong>${flight.airline} ${flight.flightNumber}</strong> - Classe Executiva</p>
+                    <p><strong>${flight.airline.name} ${flight.flightNumber}</strong> - Classe Executiva</p>
                     
                     <div class="details">
                         <div class="detail-item">
@@ -316,6 +355,27 @@ class EmailService {
     `;
   }
 
+  // Gerar HTML do email de notificação
+  private generateNotificationEmailHTML(data: NotificationEmailData): string {
+    return `
+    <!DOCTYPE html>
+    <html lang="pt-BR">
+    <head>
+        <meta charset="UTF-8">
+        <title>${data.subject}</title>
+    </head>
+    <body style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #f5f7fa;">
+        <div style="max-width: 600px; margin: 0 auto; background-color: white; padding: 30px;">
+            <h2>Olá, ${data.userName}!</h2>
+            <h3>${data.subject}</h3>
+            <p style="white-space: pre-line;">${data.message}</p>
+            <a href="${process.env.FRONTEND_URL}">Abrir o FlightExec</a>
+        </div>
+    </body>
+    </html>
+    `;
+  }
+
   // Gerar HTML do email de boas-vindas
   private generateWelcomeEmailHTML(data: WelcomeEmailData): string {
     return `
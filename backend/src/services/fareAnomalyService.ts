@@ -0,0 +1,477 @@
+import cron from 'node-cron';
+import { FareAnomaly, PriceObservation, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../utils/logger';
+import { providerRegistry } from './airlineApiService';
+import type { AlertTrigger } from './alertService';
+import { ClassType, FlightResult, FlightSearchParams } from './flightModel';
+import { getAdultFare } from './priceObservationService';
+
+export type AnomalyReason = 'price_outlier' | 'fare_basis_drop';
+export type AnomalyStatus = 'pending' | 'confirmed' | 'rejected';
+
+// Tarifas já vistas na rota e cabine antes das observações analisadas
+export interface FareBaseline {
+  median: number;
+  spread: number; // desvio robusto: 1,4826 × MAD
+  sampleSize: number;
+  bookingClasses: string[]; // primeira letra das bases tarifárias vistas
+}
+
+export interface DetectedAnomaly {
+  reason: AnomalyReason;
+  deviations: number;
+  dropPercent: number;
+}
+
+// Entrega de alertas injetada pelo server.ts: importar o alertService aqui
+// carregaria o servidor junto com o detector
+export type AlertNotifier = (trigger: AlertTrigger) => Promise<void>;
+
+export interface AnomalyFeedQuery {
+  origin?: string;
+  destination?: string;
+  classType?: ClassType;
+  page: number;
+  limit: number;
+}
+
+export interface AnomalyFeedPage {
+  anomalies: FareAnomaly[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+// Histórico usado como referência e mínimo de tarifas para confiar nele
+const BASELINE_DAYS = 30;
+const MIN_BASELINE_SIZE = 30;
+// Outlier: 3 desvios abaixo da mediana e ao menos 20% mais barato
+const SIGMA_THRESHOLD = 3;
+const MIN_OUTLIER_DROP = 0.2;
+// Base tarifária nunca vista na cabine, ao menos 30% mais barata
+const MIN_FARE_BASIS_DROP = 0.3;
+// Piso do desvio, para rotas de preço quase constante
+const MIN_SPREAD_RATIO = 0.02;
+// A reverificação confirma se o preço não subiu mais que 10%
+const VERIFY_TOLERANCE = 0.1;
+// Espera o cache dos provedores (5 minutos) expirar antes de reverificar
+const VERIFY_DELAY_MS = 5 * 60 * 1000;
+const PENDING_TIMEOUT_MS = 60 * 60 * 1000;
+// Margem para observações ainda na fila de gravação
+const SCAN_LAG_MS = 60 * 1000;
+const DUPLICATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const median = (sorted: number[]): number => {
+  const half = sorted.length >> 1;
+  return sorted.length % 2
+    ? sorted[half]
+    : (sorted[half - 1] + sorted[half]) / 2;
+};
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Mediana e desvio robusto das tarifas de referência, ou null com poucas
+ * tarifas
+ */
+export function computeBaseline(
+  rows: Pick<PriceObservation, 'price' | 'fareBasis'>[]
+): FareBaseline | null {
+  if (rows.length < MIN_BASELINE_SIZE) {
+    return null;
+  }
+
+  const prices = rows.map(row => row.price).sort((a, b) => a - b);
+  const center = median(prices);
+  const deviations = prices
+    .map(price => Math.abs(price - center))
+    .sort((a, b) => a - b);
+
+  return {
+    median: center,
+    spread: Math.max(1.4826 * median(deviations), center * MIN_SPREAD_RATIO),
+    sampleSize: rows.length,
+    bookingClasses: [
+      ...new Set(
+        rows
+          .filter(row => row.fareBasis)
+          .map(row => (row.fareBasis as string)[0].toUpperCase())
+      ),
+    ],
+  };
+}
+
+/**
+ * Classifica a observação como anomalia frente à referência: outlier de
+ * preço ou queda para uma base tarifária nunca vista na cabine
+ */
+export function detectAnomaly(
+  observation: Pick<PriceObservation, 'price' | 'fareBasis'>,
+  baseline: FareBaseline
+): DetectedAnomaly | null {
+  const drop = (baseline.median - observation.price) / baseline.median;
+  const deviations = (baseline.median - observation.price) / baseline.spread;
+  const result = {
+    deviations: round(deviations),
+    dropPercent: round(drop * 100),
+  };
+
+  if (deviations >= SIGMA_THRESHOLD && drop >= MIN_OUTLIER_DROP) {
+    return { reason: 'price_outlier', ...result };
+  }
+
+  const bookingClass = observation.fareBasis?.[0]?.toUpperCase();
+  if (
+    bookingClass &&
+    baseline.bookingClasses.length > 0 &&
+    !baseline.bookingClasses.includes(bookingClass) &&
+    drop >= MIN_FARE_BASIS_DROP
+  ) {
+    return { reason: 'fare_basis_drop', ...result };
+  }
+
+  return null;
+}
+
+class FareAnomalyService {
+  private isRunning = false;
+  private lastScanAt: Date | null = null;
+  private notifier: AlertNotifier | null = null;
+
+  initialize(notifier: AlertNotifier) {
+    this.notifier = notifier;
+    cron.schedule('*/5 * * * *', async () => {
+      if (!this.isRunning) {
+        await this.run();
+      }
+    });
+
+    logger.info('Detector de tarifas anômalas agendado');
+  }
+
+  /**
+   * Analisa as observações novas e reverifica as anomalias pendentes
+   */
+  async run(): Promise<void> {
+    this.isRunning = true;
+
+    try {
+      await this.scan();
+      await this.verifyPending();
+    } catch (error) {
+      logger.error('Erro no detector de tarifas anômalas:', error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Compara as observações gravadas desde a última análise com o histórico
+   * da rota e cabine, e registra as anomalias como pendentes
+   */
+  async scan(): Promise<number> {
+    const until = new Date(Date.now() - SCAN_LAG_MS);
+    const since =
+      this.lastScanAt || new Date(until.getTime() - VERIFY_DELAY_MS * 3);
+    this.lastScanAt = until;
+
+    const observations = await prisma.priceObservation.findMany({
+      where: { observedAt: { gt: since, lte: until } },
+    });
+
+    // Menor tarifa de cada voo, agrupada por rota, cabine e tipo de viagem
+    const groups = new Map<string, Map<string, PriceObservation>>();
+    observations.forEach(observation => {
+      const groupKey = [
+        observation.origin,
+        observation.destination,
+        observation.classType,
+        observation.isRoundTrip,
+      ].join('|');
+      const flightKey = [
+        observation.source,
+        observation.flightNumber,
+        toDay(observation.departureDate),
+        observation.returnDate ? toDay(observation.returnDate) : '',
+      ].join('|');
+
+      const flights = groups.get(groupKey) || new Map();
+      const current = flights.get(flightKey);
+      if (!current || observation.price < current.price) {
+        flights.set(flightKey, observation);
+      }
+      groups.set(groupKey, flights);
+    });
+
+    let detected = 0;
+
+    for (const flights of groups.values()) {
+      const [sample] = flights.values();
+      const baseline = computeBaseline(
+        await prisma.priceObservation.findMany({
+          where: {
+            origin: sample.origin,
+            destination: sample.destination,
+            classType: sample.classType,
+            isRoundTrip: sample.isRoundTrip,
+            observedAt: {
+              gte: new Date(since.getTime() - BASELINE_DAYS * DAY_MS),
+              lte: since,
+            },
+          },
+          select: { price: true, fareBasis: true },
+        })
+      );
+
+      if (!baseline) {
+        continue;
+      }
+
+      for (const observation of flights.values()) {
+        const anomaly = detectAnomaly(observation, baseline);
+        if (anomaly && (await this.record(observation, baseline, anomaly))) {
+          detected++;
+        }
+      }
+    }
+
+    if (detected > 0) {
+      logger.warn(`${detected} tarifas anômalas aguardando reverificação`);
+    }
+    return detected;
+  }
+
+  /**
+   * Refaz a busca no provedor que informou cada tarifa pendente. Tarifas que
+   * não se repetem são descartadas como falha de dados.
+   */
+  async verifyPending(): Promise<void> {
+    const pending = await prisma.fareAnomaly.findMany({
+      where: {
+        status: 'pending',
+        createdAt: { lte: new Date(Date.now() - VERIFY_DELAY_MS) },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // Uma por vez: cada reverificação consome a cota do provedor
+    for (const anomaly of pending) {
+      try {
+        await this.verify(anomaly);
+      } catch (error) {
+        logger.error(`Erro ao reverificar a tarifa ${anomaly.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Anomalias confirmadas, das mais recentes para as mais antigas
+   */
+  async list(query: AnomalyFeedQuery): Promise<AnomalyFeedPage> {
+    const where: Prisma.FareAnomalyWhereInput = { status: 'confirmed' };
+    if (query.origin) {
+      where.origin = query.origin.toUpperCase();
+    }
+    if (query.destination) {
+      where.destination = query.destination.toUpperCase();
+    }
+    if (query.classType && query.classType !== 'both') {
+      where.classType = query.classType;
+    }
+
+    const [anomalies, total] = await Promise.all([
+      prisma.fareAnomaly.findMany({
+        where,
+        orderBy: { verifiedAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      prisma.fareAnomaly.count({ where }),
+    ]);
+
+    return {
+      anomalies,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        pages: Math.ceil(total / query.limit),
+      },
+    };
+  }
+
+  // Registra a anomalia, exceto se o mesmo voo já foi registrado há pouco
+  private async record(
+    observation: PriceObservation,
+    baseline: FareBaseline,
+    anomaly: DetectedAnomaly
+  ): Promise<boolean> {
+    const existing = await prisma.fareAnomaly.findFirst({
+      where: {
+        origin: observation.origin,
+        destination: observation.destination,
+        classType: observation.classType,
+        departureDate: observation.departureDate,
+        returnDate: observation.returnDate,
+        flightNumber: observation.flightNumber,
+        source: observation.source,
+        createdAt: { gte: new Date(Date.now() - DUPLICATE_WINDOW_MS) },
+      },
+    });
+    if (existing) {
+      return false;
+    }
+
+    await prisma.fareAnomaly.create({
+      data: {
+        origin: observation.origin,
+        destination: observation.destination,
+        departureDate: observation.departureDate,
+        returnDate: observation.returnDate,
+        isRoundTrip: observation.isRoundTrip,
+        classType: observation.classType,
+        airlineCode: observation.airlineCode,
+        airlineName: observation.airlineName,
+        flightNumber: observation.flightNumber,
+        source: observation.source,
+        fareBasis: observation.fareBasis,
+        reason: anomaly.reason,
+        price: observation.price,
+        currency: observation.currency,
+        baselineMedian: baseline.median,
+        baselineSpread: round(baseline.spread),
+        deviations: anomaly.deviations,
+        dropPercent: anomaly.dropPercent,
+        observedAt: observation.observedAt,
+      },
+    });
+
+    logger.warn(
+      `Tarifa anômala em ${observation.origin}-${observation.destination} ` +
+        `(${observation.classType}): ${observation.flightNumber} a ` +
+        `${observation.price} ${observation.currency}, ${anomaly.dropPercent}% abaixo da mediana`
+    );
+    return true;
+  }
+
+  private async verify(anomaly: FareAnomaly): Promise<void> {
+    const expired =
+      Date.now() - anomaly.createdAt.getTime() > PENDING_TIMEOUT_MS;
+    const provider = providerRegistry.get(anomaly.source);
+
+    if (!provider) {
+      await this.resolve(anomaly, 'rejected', null);
+      return;
+    }
+
+    const params: FlightSearchParams = {
+      origin: anomaly.origin,
+      destination: anomaly.destination,
+      departureDate: toDay(anomaly.departureDate),
+      returnDate: anomaly.returnDate ? toDay(anomaly.returnDate) : undefined,
+      passengers: 1,
+      classType: anomaly.classType as ClassType,
+    };
+
+    const result = await provider.searchFlights(params, {
+      priority: 'background',
+      fresh: true,
+    });
+
+    // Falha do provedor não decide nada: tenta de novo até expirar
+    if (!result.success) {
+      if (expired) {
+        await this.resolve(anomaly, 'rejected', null);
+      }
+      return;
+    }
+
+    const flight = result.flights.find(
+      item =>
+        item.flightNumber === anomaly.flightNumber &&
+        item.airline.code === anomaly.airlineCode
+    );
+    const verifiedPrice = flight ? getAdultFare(flight, params) : null;
+
+    if (
+      !flight ||
+      verifiedPrice === null ||
+      verifiedPrice > anomaly.price * (1 + VERIFY_TOLERANCE)
+    ) {
+      logger.info(
+        `Tarifa anômala ${anomaly.id} não se repetiu na reverificação, descartada`
+      );
+      await this.resolve(anomaly, 'rejected', verifiedPrice);
+      return;
+    }
+
+    await this.resolve(anomaly, 'confirmed', verifiedPrice);
+    await this.notify(anomaly, flight);
+  }
+
+  private async resolve(
+    anomaly: FareAnomaly,
+    status: AnomalyStatus,
+    verifiedPrice: number | null
+  ): Promise<void> {
+    await prisma.fareAnomaly.update({
+      where: { id: anomaly.id },
+      data: { status, verifiedPrice, verifiedAt: new Date() },
+    });
+  }
+
+  // Avisa pelos alertas da rota e cabine, como os demais disparos
+  private async notify(
+    anomaly: FareAnomaly,
+    flight: FlightResult
+  ): Promise<void> {
+    const notifier = this.notifier;
+    if (!notifier) {
+      logger.warn(
+        `Tarifa errada ${anomaly.id} confirmada sem notificador configurado`
+      );
+      return;
+    }
+
+    const alerts = await prisma.alert.findMany({
+      where: {
+        isActive: true,
+        user: { isActive: true },
+        departureCode: anomaly.origin,
+        arrivalCode: anomaly.destination,
+        classType: { in: [anomaly.classType, 'both'] },
+      },
+      select: { id: true, userId: true },
+    });
+
+    for (const alert of alerts) {
+      await notifier({
+        alertId: alert.id,
+        userId: alert.userId,
+        flightData: flight,
+        triggerType: 'error_fare',
+      });
+    }
+
+    const notifiedUsers = new Set(alerts.map(alert => alert.userId)).size;
+    await prisma.fareAnomaly.update({
+      where: { id: anomaly.id },
+      data: { notifiedUsers },
+    });
+
+    logger.warn(
+      `Tarifa errada confirmada em ${anomaly.origin}-${anomaly.destination}: ` +
+        `${anomaly.flightNumber}, ${notifiedUsers} usuários avisados`
+    );
+  }
+}
+
+export default new FareAnomalyService();
+export { FareAnomalyService };
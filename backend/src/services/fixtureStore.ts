@@ -0,0 +1,110 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import type { FlightSearchParams } from './flightModel';
+
+export type FixtureMode = 'off' | 'replay' | 'record';
+
+export interface FlightFixture<T = unknown> {
+  provider: string;
+  params: FlightSearchParams;
+  recordedAt: string;
+  response: T;
+}
+
+const FIXTURE_MODES: FixtureMode[] = ['off', 'replay', 'record'];
+
+// Armazena respostas brutas dos provedores em disco, uma por
+// provedor/rota/data/cabine, para reproduzir buscas sem acesso às APIs
+class FixtureStore {
+  private baseDir?: string;
+
+  constructor(baseDir?: string) {
+    this.baseDir = baseDir;
+  }
+
+  /**
+   * Modo atual definido por FLIGHT_FIXTURES_MODE (off, replay ou record)
+   */
+  get mode(): FixtureMode {
+    const mode = (process.env.FLIGHT_FIXTURES_MODE || 'off').toLowerCase();
+    return FIXTURE_MODES.includes(mode as FixtureMode)
+      ? (mode as FixtureMode)
+      : 'off';
+  }
+
+  get directory(): string {
+    return (
+      this.baseDir ||
+      process.env.FLIGHT_FIXTURES_DIR ||
+      path.join(process.cwd(), 'fixtures', 'flights')
+    );
+  }
+
+  /**
+   * Caminho da fixture: <dir>/<provedor>/<ORIGEM>-<DESTINO>_<ida>[_<volta>]_<cabine>.json
+   */
+  getFixturePath(providerId: string, params: FlightSearchParams): string {
+    const dates = [params.departureDate, params.returnDate]
+      .filter((date): date is string => Boolean(date))
+      .map(date => date.slice(0, 10));
+    const fileName = [
+      `${params.origin}-${params.destination}`.toUpperCase(),
+      ...dates,
+      params.classType,
+    ].join('_');
+
+    return path.join(this.directory, providerId, `${fileName}.json`);
+  }
+
+  /**
+   * Lê a resposta gravada para a busca, ou null se não houver fixture
+   */
+  async read<T>(
+    providerId: string,
+    params: FlightSearchParams
+  ): Promise<T | null> {
+    const filePath = this.getFixturePath(providerId, params);
+
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const fixture = JSON.parse(content) as FlightFixture<T>;
+      return fixture.response;
+    } catch (error: unknown) {
+      const { code, message } = error as { code?: string; message?: string };
+      if (code === 'ENOENT') {
+        return null;
+      }
+      throw new Error(`Fixture inválida em ${filePath}: ${message}`);
+    }
+  }
+
+  /**
+   * Grava a resposta real de um provedor como fixture
+   */
+  async write<T>(
+    providerId: string,
+    params: FlightSearchParams,
+    response: T
+  ): Promise<void> {
+    const filePath = this.getFixturePath(providerId, params);
+    const fixture: FlightFixture<T> = {
+      provider: providerId,
+      params,
+      recordedAt: new Date().toISOString(),
+      response,
+    };
+
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, JSON.stringify(fixture, null, 2));
+      logger.info(`Fixture gravada: ${filePath}`);
+    } catch (error) {
+      // Falha na gravação não deve interromper a busca real
+      logger.error(`Erro ao gravar fixture ${filePath}:`, error);
+    }
+  }
+}
+
+export default new FixtureStore();
+export { FixtureStore };
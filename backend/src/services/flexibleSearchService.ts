@@ -1,23 +1,20 @@
-import { addDays, format, parseISO } from 'date-fns';
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
 import { logger } from '../utils/logger';
-import airlineApiService, {
-  FlightSearchParams,
+import { getLocalHour } from '../utils/timezone';
+import airlineApiService from './airlineApiService';
+import {
   FlightResult,
-} from './airlineApiService';
+  FlightSearchParams,
+  SearchPreferences,
+} from './flightModel';
 import cacheService from './cacheService';
+import { SearchOptions } from './providerRegistry';
 import { prisma } from '../config/database';
 
-export interface FlexibleSearchParams {
-  origin: string;
-  destination: string;
-  departureDate: string;
-  returnDate?: string;
-  passengers: number;
-  classType: 'business' | 'economy' | 'first';
+export interface FlexibleSearchParams
+  extends FlightSearchParams,
+    SearchPreferences {
   flexibleDays: number; // ±dias de flexibilidade
-  maxPrice?: number;
-  preferredAirlines?: string[];
-  directFlightsOnly?: boolean;
 }
 
 export interface FlexibleSearchResult {
@@ -55,6 +52,125 @@ export interface PriceCalendarEntry {
   discountPercent?: number;
 }
 
+// Matriz ida × volta: ±N dias na ida, ±M dias na volta
+export interface DateMatrixParams extends FlightSearchParams {
+  returnDate: string;
+  departureFlexDays: number;
+  returnFlexDays: number;
+  minStay?: number; // noites
+  maxStay?: number;
+}
+
+export type DatePriceLevel = 'low' | 'medium' | 'high';
+
+export interface DateMatrixCell {
+  departureDate: string;
+  returnDate: string;
+  stay: number;
+  withinStay: boolean; // combinações fora da estadia mínima/máxima não são buscadas
+  price: number | null;
+  currency?: string;
+  flightCount: number;
+  bestFlight?: FlightResult;
+  isCheapest: boolean;
+  priceLevel?: DatePriceLevel;
+}
+
+export interface DateMatrixResult {
+  departureDates: string[];
+  returnDates: string[];
+  cells: DateMatrixCell[][]; // [ida][volta]
+  cheapest: DateMatrixCell | null;
+  priceRange: { min: number; max: number };
+  searchMetadata: {
+    searchId: string;
+    searchedCombinations: number;
+    searchTime: number;
+    cacheHit: boolean;
+  };
+}
+
+export interface DateCombinationResult {
+  departureDate: string;
+  returnDate: string;
+  flights: FlightResult[];
+}
+
+export const DEFAULT_MIN_STAY = 1;
+export const DEFAULT_MAX_STAY = 30;
+
+export const getStayNights = (
+  departureDate: string,
+  returnDate: string
+): number =>
+  differenceInCalendarDays(parseISO(returnDate), parseISO(departureDate));
+
+/**
+ * Monta a matriz de menores preços por combinação de datas. As células são
+ * classificadas em faixas de preço (terços) e as de menor preço destacadas.
+ */
+export function buildDateMatrix(
+  departureDates: string[],
+  returnDates: string[],
+  results: DateCombinationResult[],
+  minStay = DEFAULT_MIN_STAY,
+  maxStay = DEFAULT_MAX_STAY
+): Pick<DateMatrixResult, 'cells' | 'cheapest' | 'priceRange'> {
+  const byDates = new Map(
+    results.map(result => [
+      `${result.departureDate}_${result.returnDate}`,
+      result.flights,
+    ])
+  );
+
+  const cells = departureDates.map(departureDate =>
+    returnDates.map((returnDate): DateMatrixCell => {
+      const stay = getStayNights(departureDate, returnDate);
+      const flights = byDates.get(`${departureDate}_${returnDate}`) || [];
+      const bestFlight = flights.reduce<FlightResult | undefined>(
+        (best, flight) => (!best || flight.price < best.price ? flight : best),
+        undefined
+      );
+
+      return {
+        departureDate,
+        returnDate,
+        stay,
+        withinStay: stay >= minStay && stay <= maxStay,
+        price: bestFlight ? bestFlight.price : null,
+        currency: bestFlight?.currency,
+        flightCount: flights.length,
+        bestFlight,
+        isCheapest: false,
+      };
+    })
+  );
+
+  const priced = cells
+    .flat()
+    .filter(cell => cell.price !== null)
+    .sort((a, b) => (a.price as number) - (b.price as number));
+
+  if (priced.length === 0) {
+    return { cells, cheapest: null, priceRange: { min: 0, max: 0 } };
+  }
+
+  const min = priced[0].price as number;
+  const max = priced[priced.length - 1].price as number;
+  const lowLimit = priced[Math.floor((priced.length - 1) / 3)].price as number;
+  const highLimit = priced[Math.floor(((priced.length - 1) * 2) / 3)]
+    .price as number;
+
+  priced.forEach(cell => {
+    const price = cell.price as number;
+    cell.isCheapest = price === min;
+    cell.priceLevel =
+      price <= lowLimit ? 'low' : price <= highLimit ? 'medium' : 'high';
+  });
+
+  return { cells, cheapest: priced[0], priceRange: { min, max } };
+}
+
 class FlexibleSearchService {
   private readonly CACHE_TTL = 300; // 5 minutos
   private readonly MAX_CONCURRENT_SEARCHES = 5;
@@ -63,7 +179,8 @@ class FlexibleSearchService {
    * Busca voos com flexibilidade de datas
    */
   async searchFlexibleFlights(
-    params: FlexibleSearchParams
+    params: FlexibleSearchParams,
+    options: SearchOptions = {}
   ): Promise<FlexibleSearchResult> {
     const startTime = Date.now();
     const searchId = this.generateSearchId();
@@ -94,15 +211,19 @@ class FlexibleSearchService {
       );
 
       // Buscar voos para cada data
-      const searchPromises = searchDates.map(date =>
-        this.searchFlightsForDate({
-          ...params,
-          departureDate: date,
-        })
+      const searchTasks = searchDates.map(
+        date => () =>
+          this.searchFlightsForDate(
+            {
+              ...params,
+              departureDate: date,
+            },
+            options
+          )
       );
 
       // Executar buscas em lotes para evitar sobrecarga
-      const allResults = await this.executeBatchSearches(searchPromises);
+      const allResults = await this.executeBatchSearches(searchTasks);
 
       // Processar e agregar resultados
       const result = await this.processFlexibleResults(
@@ -133,7 +254,8 @@ class FlexibleSearchService {
    * Busca ofertas especiais em tempo real
    */
   async searchSpecialOffers(
-    params: Omit<FlexibleSearchParams, 'flexibleDays'>
+    params: Omit<FlexibleSearchParams, 'flexibleDays'>,
+    options: SearchOptions = {}
   ): Promise<FlightResult[]> {
     try {
       const cacheKey = `special_offers_${this.generateCacheKey(params)}`;
@@ -149,7 +271,7 @@ class FlexibleSearchService {
         flexibleDays: 7,
       };
 
-      const result = await this.searchFlexibleFlights(flexibleParams);
+      const result = await this.searchFlexibleFlights(flexibleParams, options);
 
       // Filtrar apenas ofertas especiais (desconto > 15%)
       const specialOffers = result.bestOffers.filter(
@@ -184,13 +306,13 @@ class FlexibleSearchService {
       }
 
       const calendar: PriceCalendarEntry[] = [];
-      const searchPromises: Promise<any>[] = [];
+      const searchTasks: (() => Promise<any>)[] = [];
 
       // Gerar buscas para cada dia
       for (let i = 0; i < days; i++) {
         const date = format(addDays(parseISO(startDate), i), 'yyyy-MM-dd');
 
-        searchPromises.push(
+        searchTasks.push(() =>
           this.searchFlightsForDate({
             origin,
             destination,
@@ -203,7 +325,7 @@ class FlexibleSearchService {
       }
 
       // Executar buscas em lotes
-      const results = await this.executeBatchSearches(searchPromises);
+      const results = await this.executeBatchSearches(searchTasks);
 
       // Processar resultados
       results.forEach(({ date, flights }) => {
@@ -235,6 +357,90 @@ class FlexibleSearchService {
     }
   }
 
+  /**
+   * Matriz de menores preços de ida e volta variando as duas datas,
+   * buscando apenas as combinações dentro da estadia mínima e máxima
+   */
+  async searchDateMatrix(
+    params: DateMatrixParams,
+    options: SearchOptions = {}
+  ): Promise<DateMatrixResult> {
+    const startTime = Date.now();
+    const searchId = this.generateSearchId();
+    const minStay = params.minStay ?? DEFAULT_MIN_STAY;
+    const maxStay = params.maxStay ?? DEFAULT_MAX_STAY;
+
+    const cacheKey = `date_matrix_${this.generateCacheKey(params)}`;
+    const cached = await cacheService.get<DateMatrixResult>(cacheKey);
+
+    if (cached) {
+      return {
+        ...cached,
+        searchMetadata: { ...cached.searchMetadata, cacheHit: true },
+      };
+    }
+
+    const departureDates = this.generateSearchDates(
+      params.departureDate,
+      params.departureFlexDays
+    );
+    const returnDates = this.generateSearchDates(
+      params.returnDate,
+      params.returnFlexDays
+    );
+
+    const searchTasks = departureDates.flatMap(departureDate =>
+      returnDates
+        .filter(returnDate => {
+          const stay = getStayNights(departureDate, returnDate);
+          return stay >= minStay && stay <= maxStay;
+        })
+        .map(
+          returnDate => (): Promise<DateCombinationResult> =>
+            this.searchFlightsForDate(
+              {
+                origin: params.origin,
+                destination: params.destination,
+                departureDate,
+                returnDate,
+                passengers: params.passengers,
+                passengerMix: params.passengerMix,
+                classType: params.classType,
+              },
+              options
+            ).then(flights => ({ departureDate, returnDate, flights }))
+        )
+    );
+
+    logger.info(
+      `Matriz de datas ${params.origin}-${params.destination}: ${searchTasks.length} combinações`
+    );
+
+    const results = await this.executeBatchSearches(searchTasks);
+
+    const result: DateMatrixResult = {
+      departureDates,
+      returnDates,
+      ...buildDateMatrix(
+        departureDates,
+        returnDates,
+        results,
+        minStay,
+        maxStay
+      ),
+      searchMetadata: {
+        searchId,
+        searchedCombinations: searchTasks.length,
+        searchTime: Date.now() - startTime,
+        cacheHit: false,
+      },
+    };
+
+    await cacheService.set(cacheKey, result, this.CACHE_TTL);
+
+    return result;
+  }
+
   /**
    * Monitora preços de uma rota específica
    */
@@ -329,10 +535,11 @@ class FlexibleSearchService {
   }
 
   private async searchFlightsForDate(
-    params: FlightSearchParams
+    params: FlightSearchParams,
+    options: SearchOptions = {}
   ): Promise<FlightResult[]> {
     try {
-      const result = await airlineApiService.searchAllFlights(params);
+      const result = await airlineApiService.searchAllFlights(params, options);
       return result.flights;
     } catch (error) {
       logger.error('Erro na busca para data específica:', error);
@@ -340,13 +547,16 @@ class FlexibleSearchService {
     }
   }
 
-  private async executeBatchSearches<T>(promises: Promise<T>[]): Promise<T[]> {
+  // Cada busca só começa quando o seu lote é executado
+  private async executeBatchSearches<T>(
+    tasks: (() => Promise<T>)[]
+  ): Promise<T[]> {
     const results: T[] = [];
 
     // Executar em lotes para evitar sobrecarga
-    for (let i = 0; i < promises.length; i += this.MAX_CONCURRENT_SEARCHES) {
-      const batch = promises.slice(i, i + this.MAX_CONCURRENT_SEARCHES);
-      const batchResults = await Promise.allSettled(batch);
+    for (let i = 0; i < tasks.length; i += this.MAX_CONCURRENT_SEARCHES) {
+      const batch = tasks.slice(i, i + this.MAX_CONCURRENT_SEARCHES);
+      const batchResults = await Promise.allSettled(batch.map(task => task()));
 
       batchResults.forEach(result => {
         if (result.status === 'fulfilled') {
@@ -355,7 +565,7 @@ class FlexibleSearchService {
       });
 
       // Pequena pausa entre lotes
-      if (i + this.MAX_CONCURRENT_SEARCHES < promises.length) {
+      if (i + this.MAX_CONCURRENT_SEARCHES < tasks.length) {
         await new Promise(resolve => setTimeout(resolve, 1000));
       }
     }
@@ -483,8 +693,8 @@ class FlexibleSearchService {
       }
       if (current.stops === best.stops) {
         // Preferir horários entre 8h e 18h
-        const currentHour = new Date(current.departureTime).getHours();
-        const bestHour = new Date(best.departureTime).getHours();
+        const currentHour = getLocalHour(current.departureTime);
+        const bestHour = getLocalHour(best.departureTime);
 
         const currentInRange = currentHour >= 8 && currentHour <= 18;
         const bestInRange = bestHour >= 8 && bestHour <= 18;
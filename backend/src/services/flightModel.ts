@@ -0,0 +1,280 @@
+import Joi from 'joi';
+import {
+  AirportInfo,
+  CarrierInfo,
+  FareDetails,
+  FlightSlice,
+} from './itinerary';
+import type { FareOption } from './offerMerger';
+import type { DealQuality } from './dealQualityService';
+import {
+  ADULT_MIN_AGE,
+  MAX_PASSENGERS,
+  PassengerMix,
+  PassengerPrice,
+  parsePassengerMix,
+  toPassengerParams,
+  validatePassengerMix,
+} from './passengers';
+
+// Modelo de busca e de oferta de voo comum a provedores, serviços,
+// controllers e ao frontend (frontend/src/services/apiService.ts)
+
+export type CabinClass = 'economy' | 'business' | 'first';
+
+// 'both' aceita qualquer cabine
+export type ClassType = CabinClass | 'both';
+
+export const CLASS_TYPES: ClassType[] = [
+  'economy',
+  'business',
+  'first',
+  'both',
+];
+
+export interface FlightSearchParams {
+  origin: string; // código IATA
+  destination: string;
+  departureDate: string; // dia local do aeroporto de origem (yyyy-MM-dd)
+  returnDate?: string;
+  passengers: number; // total do grupo
+  passengerMix?: PassengerMix; // sem composição, todos são adultos
+  classType: ClassType;
+  flexibleDays?: number;
+}
+
+// Preferências aplicadas aos resultados
+export interface SearchPreferences {
+  maxPrice?: number;
+  preferredAirlines?: string[]; // códigos IATA
+  directFlightsOnly?: boolean;
+}
+
+// Trecho de uma viagem multi-destino (ex: GRU→JFK, JFK→ORD, ORD→GRU)
+export interface MultiCityLeg {
+  origin: string;
+  destination: string;
+  departureDate: string;
+}
+
+export interface MultiCitySearchParams {
+  legs: MultiCityLeg[];
+  passengers: number;
+  passengerMix?: PassengerMix;
+  classType: ClassType;
+}
+
+// Oferta de voo. Os campos de topo resumem o trecho de ida; o itinerário
+// completo (conexões e volta) fica em slices
+export interface FlightResult {
+  id: string;
+  airline: CarrierInfo;
+  flightNumber: string;
+  origin: AirportInfo;
+  destination: AirportInfo;
+  departureTime: string; // horário local do aeroporto, com offset
+  arrivalTime: string;
+  duration: number; // em minutos
+  price: number; // total do grupo de passageiros
+  priceBreakdown?: PassengerPrice[]; // preço por tipo de passageiro
+  currency: string;
+  classType: string;
+  availableSeats: number;
+  stops: number;
+  aircraft?: string;
+  bookingUrl: string;
+  deepLinkUrl?: string;
+  isOffer: boolean;
+  discountPercent?: number;
+  originalPrice?: number;
+  baggageIncluded?: boolean;
+  slices: FlightSlice[]; // [0] = ida, [1] = volta (ou um por trecho no multi-destino)
+  fareDetails?: FareDetails; // Tarifa do primeiro segmento da ida
+  fares?: FareOption[]; // Preço em cada provedor após a deduplicação
+  source?: string; // provedor com o menor preço
+  dealQuality?: DealQuality; // posição do preço no histórico da rota
+}
+
+export class InvalidSearchError extends Error {
+  constructor(public readonly details: string[]) {
+    super(details[0]);
+    this.name = 'InvalidSearchError';
+  }
+}
+
+const airportCode = (label: string) =>
+  Joi.string()
+    .trim()
+    .uppercase()
+    .pattern(/^[A-Z]{3}$/)
+    .messages({
+      'any.required': `Código do aeroporto de ${label} é obrigatório`,
+      'string.empty': `Código do aeroporto de ${label} é obrigatório`,
+      'string.pattern.base': `Código do aeroporto de ${label} deve ter 3 letras (ex: GRU)`,
+    });
+
+// Só o dia: horários vindos do cliente são descartados
+const localDate = (label: string) =>
+  Joi.string()
+    .trim()
+    .pattern(/^\d{4}-\d{2}-\d{2}(T.*)?$/)
+    .custom(value => value.slice(0, 10))
+    .messages({
+      'any.required': `Data de ${label} é obrigatória`,
+      'string.empty': `Data de ${label} é obrigatória`,
+      'string.pattern.base': `Data de ${label} deve estar no formato ISO 8601`,
+    });
+
+const passengerCount = (min: number, label: string) =>
+  Joi.number()
+    .integer()
+    .min(min)
+    .max(MAX_PASSENGERS)
+    .messages({
+      'number.base': `Número de ${label} deve ser um número inteiro`,
+      'number.integer': `Número de ${label} deve ser um número inteiro`,
+      'number.min': `Número de ${label} deve ser no mínimo ${min}`,
+      'number.max': `Máximo de ${MAX_PASSENGERS} passageiros por reserva`,
+    });
+
+const passengerFields = {
+  passengers: passengerCount(1, 'passageiros'),
+  adults: passengerCount(1, 'adultos'),
+  children: passengerCount(0, 'crianças'),
+  infants: passengerCount(0, 'bebês'),
+  childAges: Joi.any().custom((value, helpers) => {
+    const ages = Array.isArray(value) ? value : String(value).split(',');
+    const valid =
+      value === '' ||
+      ages.every(
+        age => /^\d+$/.test(String(age).trim()) && Number(age) < ADULT_MIN_AGE
+      );
+    return valid
+      ? value
+      : helpers.message({
+          custom: `Idades das crianças devem estar entre 0 e ${ADULT_MIN_AGE - 1} anos`,
+        });
+  }),
+};
+
+const classTypeField = Joi.string()
+  .valid(...CLASS_TYPES)
+  .default('business')
+  .messages({
+    'any.only': `Classe deve ser: ${CLASS_TYPES.join(', ')}`,
+  });
+
+/**
+ * Parâmetros de busca aceitos pela API. Nomes antigos (departureCode,
+ * arrivalCode, flightClass) continuam aceitos.
+ */
+export const flightSearchSchema = Joi.object({
+  origin: airportCode('origem').required(),
+  destination: airportCode('destino').required(),
+  departureDate: localDate('partida').required(),
+  returnDate: localDate('retorno').allow(''),
+  ...passengerFields,
+  classType: classTypeField,
+  flexibleDays: Joi.number().integer().min(0).max(14).messages({
+    'number.base': 'Dias flexíveis deve ser entre 0 e 14',
+    'number.integer': 'Dias flexíveis deve ser entre 0 e 14',
+    'number.min': 'Dias flexíveis deve ser entre 0 e 14',
+    'number.max': 'Dias flexíveis deve ser entre 0 e 14',
+  }),
+})
+  .rename('departureCode', 'origin', { ignoreUndefined: true, override: true })
+  .rename('arrivalCode', 'destination', {
+    ignoreUndefined: true,
+    override: true,
+  })
+  .rename('flightClass', 'classType', { ignoreUndefined: true, override: true })
+  .custom((value, helpers) => {
+    if (value.origin === value.destination) {
+      return helpers.message({
+        custom: 'Aeroporto de origem e destino devem ser diferentes',
+      });
+    }
+    if (value.returnDate && value.returnDate < value.departureDate) {
+      return helpers.message({
+        custom: 'Data de retorno deve ser posterior à data de partida',
+      });
+    }
+    return value;
+  })
+  .unknown(true);
+
+// Mensagens de todos os erros de validação
+const validate = (schema: Joi.Schema, input: unknown) => {
+  const { value, error } = schema.validate(input, {
+    abortEarly: false,
+    convert: true,
+  });
+  const details = error ? error.details.map(detail => detail.message) : [];
+
+  if (!error) {
+    const mixError = validatePassengerMix(parsePassengerMix(value));
+    if (mixError) {
+      details.push(mixError);
+    }
+  }
+
+  return { value, details };
+};
+
+const passengerSchema = Joi.object(passengerFields).unknown(true);
+
+/**
+ * Erros de validação dos parâmetros de busca (vazio quando válidos)
+ */
+export function getSearchErrors(input: unknown): string[] {
+  return validate(flightSearchSchema, input).details;
+}
+
+// Erros de validação só da composição de passageiros
+export function getPassengerErrors(input: unknown): string[] {
+  return validate(passengerSchema, input).details;
+}
+
+/**
+ * Valida e normaliza os parâmetros de uma busca vindos da query, do corpo
+ * da requisição ou de outro serviço
+ */
+export function parseFlightSearchParams(input: unknown): FlightSearchParams {
+  const { value, details } = validate(flightSearchSchema, input);
+
+  if (details.length > 0) {
+    throw new InvalidSearchError(details);
+  }
+
+  return {
+    origin: value.origin,
+    destination: value.destination,
+    departureDate: value.departureDate,
+    returnDate: value.returnDate || undefined,
+    ...toPassengerParams(parsePassengerMix(value)),
+    classType: value.classType,
+    flexibleDays: value.flexibleDays,
+  };
+}
+
+/**
+ * Preferências opcionais da busca (maxPrice, preferredAirlines,
+ * directFlightsOnly), como vêm da query ou do corpo
+ */
+export function parseSearchPreferences(
+  input: Record<string, unknown>
+): SearchPreferences {
+  const maxPrice = parseFloat(String(input.maxPrice));
+  const airlines = input.preferredAirlines;
+
+  return {
+    maxPrice: Number.isFinite(maxPrice) ? maxPrice : undefined,
+    preferredAirlines: airlines
+      ? (Array.isArray(airlines) ? airlines : String(airlines).split(','))
+          .map(code => String(code).trim().toUpperCase())
+          .filter(Boolean)
+      : undefined,
+    directFlightsOnly:
+      input.directFlightsOnly === true || input.directFlightsOnly === 'true',
+  };
+}
@@ -1,53 +1,43 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import cacheService from './cacheService';
+import airportGeoService from './airportGeoService';
+import priceObservationService from './priceObservationService';
+import {
+  FlightSegment,
+  FlightSlice,
+  buildSlice,
+  localizeSlice,
+} from './itinerary';
+import { formatInTimeZone, getZonedDayRange } from '../utils/timezone';
+import {
+  ClassType,
+  FlightResult,
+  FlightSearchParams,
+  SearchPreferences,
+} from './flightModel';
+import {
+  buildPriceBreakdown,
+  countSeats,
+  getPassengerMix,
+  sumBreakdown,
+} from './passengers';
 
 const prisma = new PrismaClient();
 
-export type FlightClass = 'business' | 'economy' | 'both';
-
-export interface FlightSearchParams {
-  origin: string;
-  destination: string;
-  departureDate: Date;
-  returnDate?: Date;
-  passengers: number;
-  flightClass: FlightClass;
-  maxPrice?: number;
-  preferredAirlines?: string[];
-  directFlightsOnly?: boolean;
-}
+// Parâmetros da busca no banco: busca comum mais as preferências
+export type FlightSearchFilters = FlightSearchParams & SearchPreferences;
 
-export interface FlightSearchResult {
-  id: string;
-  airline: {
-    code: string;
-    name: string;
-  };
-  flightNumber: string;
-  origin: {
-    code: string;
-    name: string;
-    city: string;
-  };
-  destination: {
-    code: string;
-    name: string;
-    city: string;
+type FlightWithSegments = Prisma.FlightGetPayload<{
+  include: {
+    airline: true;
+    departureAirport: true;
+    arrivalAirport: true;
+    segments: true;
   };
-  departureTime: Date;
-  arrivalTime: Date;
-  duration: number; // em minutos
-  price: number;
-  currency: string;
-  flightClass: FlightClass;
-  availableSeats: number;
-  stops: number;
-  aircraft?: string;
-  isActive: boolean;
-}
+}>;
 
 export interface PriceComparison {
-  flights: FlightSearchResult[];
+  flights: FlightResult[];
   priceStats: {
     lowest: number;
     highest: number;
@@ -55,10 +45,10 @@ export interface PriceComparison {
     median: number;
   };
   recommendations: {
-    bestPrice: FlightSearchResult;
-    bestValue: FlightSearchResult; // melhor custo-benefício
-    fastest: FlightSearchResult;
-    mostComfortable: FlightSearchResult;
+    bestPrice: FlightResult;
+    bestValue: FlightResult; // melhor custo-benefício
+    fastest: FlightResult;
+    mostComfortable: FlightResult;
   };
 }
 
@@ -66,9 +56,7 @@ class FlightSearchService {
   /**
    * Busca voos com base nos parâmetros fornecidos
    */
-  async searchFlights(
-    params: FlightSearchParams
-  ): Promise<FlightSearchResult[]> {
+  async searchFlights(params: FlightSearchFilters): Promise<FlightResult[]> {
     // Verificar cache primeiro
     const cachedResults = await cacheService.getCachedFlightSearch(params);
     if (cachedResults) {
@@ -80,12 +68,18 @@ class FlightSearchService {
       origin,
       destination,
       departureDate,
-      passengers,
-      flightClass,
       maxPrice,
       preferredAirlines,
       directFlightsOnly,
     } = params;
+    const passengers = getPassengerMix(params);
+
+    // O dia da partida é o dia local do aeroporto de origem, não o do servidor
+    const timeZones = await airportGeoService.getTimeZones();
+    const departureDay = getZonedDayRange(
+      departureDate,
+      await airportGeoService.getTimeZone(origin)
+    );
 
     // Construir filtros dinâmicos
     const whereClause: any = {
@@ -96,19 +90,12 @@ class FlightSearchService {
         code: destination,
       },
       departureTime: {
-        gte: new Date(
-          departureDate.getFullYear(),
-          departureDate.getMonth(),
-          departureDate.getDate()
-        ),
-        lt: new Date(
-          departureDate.getFullYear(),
-          departureDate.getMonth(),
-          departureDate.getDate() + 1
-        ),
+        gte: departureDay.start,
+        lt: departureDay.end,
       },
+      // Assentos para todo o grupo (bebês de colo não ocupam assento)
       availableSeats: {
-        gte: passengers,
+        gte: countSeats(passengers),
       },
       isActive: true,
     };
@@ -140,41 +127,62 @@ class FlightSearchService {
         airline: true,
         departureAirport: true,
         arrivalAirport: true,
+        segments: {
+          orderBy: [{ sliceIndex: 'asc' }, { segmentIndex: 'asc' }],
+        },
       },
       orderBy: [{ businessPrice: 'asc' }, { departureTime: 'asc' }],
     });
 
-    const results = flights.map(flight => ({
-      id: flight.id,
-      airline: {
-        code: flight.airline.code,
-        name: flight.airline.name,
-      },
-      flightNumber: flight.flightNumber,
-      origin: {
-        code: flight.departureAirport.code,
-        name: flight.departureAirport.name,
-        city: flight.departureAirport.city,
-      },
-      destination: {
-        code: flight.arrivalAirport.code,
-        name: flight.arrivalAirport.name,
-        city: flight.arrivalAirport.city,
-      },
-      departureTime: flight.departureTime,
-      arrivalTime: flight.arrivalTime,
-      duration: flight.duration,
-      price:
-        params.flightClass === 'business'
+    const results = flights.map((flight): FlightResult => {
+      // Preços cadastrados são por adulto
+      const priceBreakdown = buildPriceBreakdown(
+        params.classType === 'business'
           ? Number(flight.businessPrice || 0)
           : Number(flight.economyPrice || 0),
-      currency: flight.currency,
-      flightClass: params.flightClass,
-      availableSeats: flight.availableSeats || 0,
-      stops: flight.stops,
-      aircraft: flight.aircraft || undefined,
-      isActive: flight.isActive,
-    }));
+        passengers
+      );
+
+      return {
+        id: flight.id,
+        airline: {
+          code: flight.airline.code,
+          name: flight.airline.name,
+        },
+        flightNumber: flight.flightNumber,
+        origin: {
+          code: flight.departureAirport.code,
+          name: flight.departureAirport.name,
+          city: flight.departureAirport.city,
+        },
+        destination: {
+          code: flight.arrivalAirport.code,
+          name: flight.arrivalAirport.name,
+          city: flight.arrivalAirport.city,
+        },
+        departureTime: formatInTimeZone(
+          flight.departureTime,
+          flight.departureAirport.timezone
+        ),
+        arrivalTime: formatInTimeZone(
+          flight.arrivalTime,
+          flight.arrivalAirport.timezone
+        ),
+        duration: flight.duration,
+        price: sumBreakdown(priceBreakdown),
+        priceBreakdown,
+        currency: flight.currency,
+        classType: params.classType,
+        availableSeats: flight.availableSeats || 0,
+        stops: flight.stops,
+        aircraft: flight.aircraft || undefined,
+        bookingUrl: '',
+        isOffer: false,
+        slices: this.buildSlices(flight).map(slice =>
+          localizeSlice(slice, timeZones)
+        ),
+      };
+    });
 
     // Cachear os resultados por 15 minutos
     await cacheService.cacheFlightSearch(params, results, 900);
@@ -182,11 +190,68 @@ class FlightSearchService {
     return results;
   }
 
+  /**
+   * Monta os trechos do itinerário a partir dos segmentos salvos.
+   * Voos sem segmentos viram um trecho de segmento único.
+   */
+  private buildSlices(flight: FlightWithSegments): FlightSlice[] {
+    const toAirport = (code: string) => {
+      const airport = [flight.departureAirport, flight.arrivalAirport].find(
+        a => a.code === code
+      );
+      return airport
+        ? { code: airport.code, name: airport.name, city: airport.city }
+        : { code, name: code, city: code };
+    };
+
+    if (flight.segments.length === 0) {
+      const slice = buildSlice([
+        {
+          airline: { code: flight.airline.code, name: flight.airline.name },
+          flightNumber: flight.flightNumber,
+          origin: toAirport(flight.departureAirport.code),
+          destination: toAirport(flight.arrivalAirport.code),
+          departureTime: flight.departureTime.toISOString(),
+          arrivalTime: flight.arrivalTime.toISOString(),
+          duration: flight.duration,
+          aircraft: flight.aircraft || undefined,
+        },
+      ]);
+      return [{ ...slice, stops: flight.stops }];
+    }
+
+    const segmentsBySlice = new Map<number, FlightSegment[]>();
+    flight.segments.forEach(segment => {
+      const segments = segmentsBySlice.get(segment.sliceIndex) || [];
+      segments.push({
+        airline: { code: segment.airlineCode, name: segment.airlineCode },
+        operatingAirline: segment.operatingAirlineCode
+          ? {
+              code: segment.operatingAirlineCode,
+              name: segment.operatingAirlineCode,
+            }
+          : undefined,
+        flightNumber: segment.flightNumber,
+        origin: toAirport(segment.departureCode),
+        destination: toAirport(segment.arrivalCode),
+        departureTime: segment.departureTime.toISOString(),
+        arrivalTime: segment.arrivalTime.toISOString(),
+        duration: segment.duration,
+        aircraft: segment.aircraft || undefined,
+      });
+      segmentsBySlice.set(segment.sliceIndex, segments);
+    });
+
+    return [...segmentsBySlice.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, segments]) => buildSlice(segments));
+  }
+
   /**
    * Compara preços e fornece análise detalhada
    */
   async compareFlightPrices(
-    params: FlightSearchParams
+    params: FlightSearchFilters
   ): Promise<PriceComparison> {
     const flights = await this.searchFlights(params);
 
@@ -224,7 +289,7 @@ class FlightSearchService {
 
     // Mais confortável (classe executiva, menos paradas, melhor companhia)
     const mostComfortable = flights
-      .filter(f => f.flightClass === 'business')
+      .filter(f => f.classType === 'business')
       .reduce((best, current) => {
         if (!best) {
           return current;
@@ -252,7 +317,7 @@ class FlightSearchService {
   /**
    * Calcula score de custo-benefício
    */
-  private calculateValueScore(flight: FlightSearchResult): number {
+  private calculateValueScore(flight: FlightResult): number {
     // Score baseado em preço (invertido), duração (invertida) e paradas (invertidas)
     const priceScore = 1000 / flight.price; // Quanto menor o preço, maior o score
     const durationScore = 1000 / flight.duration; // Quanto menor a duração, maior o score
@@ -265,21 +330,22 @@ class FlightSearchService {
    * Filtra voos por classe executiva com critérios específicos
    */
   async searchBusinessClassFlights(
-    params: Omit<FlightSearchParams, 'flightClass'>
-  ): Promise<FlightSearchResult[]> {
+    params: Omit<FlightSearchFilters, 'classType'>
+  ): Promise<FlightResult[]> {
     return this.searchFlights({
       ...params,
-      flightClass: 'business',
+      classType: 'business',
     });
   }
 
   /**
-   * Busca histórico de preços para análise de tendências
+   * Busca histórico de preços para análise de tendências, a partir dos
+   * preços observados nas respostas dos provedores
    */
   async getPriceHistory(
     origin: string,
     destination: string,
-    flightClass: FlightClass,
+    classType: ClassType,
     days: number = 30
   ): Promise<any[]> {
     try {
@@ -287,54 +353,35 @@ class FlightSearchService {
       const cachedHistory = await cacheService.getCachedPriceHistory(
         origin,
         destination,
-        flightClass
+        classType
       );
       if (cachedHistory) {
         console.log('Returning cached price history');
         return cachedHistory;
       }
 
-      const startDate = new Date();
-      startDate.setDate(startDate.getDate() - days);
-
-      const priceHistory = await prisma.priceHistory.findMany({
-        where: {
-          flight: {
-            departureAirport: { code: origin },
-            arrivalAirport: { code: destination },
-          },
-          timestamp: {
-            gte: startDate,
-          },
-        },
-        include: {
-          flight: {
-            include: {
-              airline: true,
-            },
-          },
-        },
-        orderBy: {
-          timestamp: 'asc',
-        },
+      const observations = await priceObservationService.getObservations({
+        origin,
+        destination,
+        classType,
+        days,
       });
 
-      const results = priceHistory.map(record => ({
-        date: record.timestamp,
-        price:
-          flightClass === 'business'
-            ? Number(record.businessPrice || 0)
-            : Number(record.economyPrice || 0),
-        currency: record.currency,
-        flightNumber: record.flight.flightNumber,
-        airline: record.flight.airline.name,
+      const results = observations.map(observation => ({
+        date: observation.observedAt,
+        price: observation.price,
+        currency: observation.currency,
+        flightNumber: observation.flightNumber,
+        airline: observation.airlineName,
+        source: observation.source,
+        daysBeforeDeparture: observation.daysBeforeDeparture,
       }));
 
       // Cachear por 1 hora
       await cacheService.cachePriceHistory(
         origin,
         destination,
-        flightClass,
+        classType,
         results,
         3600
       );
@@ -351,18 +398,19 @@ class FlightSearchService {
    */
   async saveUserSearch(
     userId: string,
-    params: FlightSearchParams,
-    results: FlightSearchResult[]
+    params: FlightSearchFilters,
+    results: FlightResult[]
   ): Promise<void> {
     await prisma.search.create({
       data: {
         userId,
         departureCode: params.origin,
         arrivalCode: params.destination,
-        departureDate: params.departureDate,
-        returnDate: params.returnDate,
+        departureDate: new Date(params.departureDate),
+        returnDate: params.returnDate ? new Date(params.returnDate) : undefined,
+        ...getPassengerMix(params),
         passengers: params.passengers,
-        classType: params.flightClass,
+        classType: params.classType,
         resultsCount: results.length,
       },
     });
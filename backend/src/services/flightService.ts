@@ -1,371 +1,208 @@
-import axios from 'axios';
 import { logger } from '../utils/logger';
-import { redisClient } from '../config/redis';
+import { providerRegistry } from './airlineApiService';
+import { SearchOptions } from './providerRegistry';
+import {
+  FlightResult,
+  FlightSearchParams,
+  MultiCitySearchParams,
+} from './flightModel';
+import { SourcedFlights, mergeOffers } from './offerMerger';
+import searchSessionService from './searchSessionService';
+import dealQualityService from './dealQualityService';
 
 // Interfaces para tipos de dados
-interface FlightSearchParams {
-  origin: string;
-  destination: string;
-  departureDate: string;
-  returnDate?: string;
-  passengers: number;
-  classType: 'business' | 'economy' | 'both';
-}
-
-interface FlightResult {
-  id: string;
-  airline: string;
-  flightNumber: string;
-  origin: string;
-  destination: string;
-  departureTime: string;
-  arrivalTime: string;
-  duration: number;
-  stops: number;
-  price: number;
-  currency: string;
-  classType: string;
-  availableSeats: number;
-  baggageIncluded: boolean;
-  source: string;
-}
-
 interface APIResponse {
   flights: FlightResult[];
   totalResults: number;
   searchId: string;
 }
 
-class FlightService {
-  private readonly CACHE_TTL = 600; // 10 minutos
-  private readonly RATE_LIMIT_DELAY = 1000; // 1 segundo entre chamadas
-
-  // Google Flights API Integration
-  async searchGoogleFlights(
-    params: FlightSearchParams
-  ): Promise<FlightResult[]> {
-    try {
-      const cacheKey = `google_flights_${JSON.stringify(params)}`;
-      const cached = await redisClient.get(cacheKey);
-
-      if (cached) {
-        logger.info('Retornando resultados do cache - Google Flights');
-        return JSON.parse(cached);
-      }
+// Lote parcial emitido quando um provedor responde
+interface SearchBatch {
+  searchId: string;
+  provider: string;
+  providerName: string;
+  flights: FlightResult[];
+}
 
-      // Simulação da chamada para Google Flights API
-      // Em produção, usar a API real do Google Flights
-      const mockResults = this.generateMockFlights('Google Flights', params);
+type OnSearchBatch = (batch: SearchBatch) => void;
 
-      await redisClient.setEx(
-        cacheKey,
-        this.CACHE_TTL,
-        JSON.stringify(mockResults)
-      );
-      logger.info(
-        `Busca Google Flights realizada: ${params.origin} -> ${params.destination}`
-      );
+interface ProviderSearchStatus {
+  provider: string;
+  providerName: string;
+  success: boolean;
+  results: number;
+  durationMs: number;
+  error?: string;
+}
 
-      return mockResults;
-    } catch (error) {
-      logger.error('Erro na busca Google Flights:', error);
-      return [];
-    }
-  }
+interface SearchSummary extends APIResponse {
+  providers: ProviderSearchStatus[];
+}
 
-  // LATAM API Integration
-  async searchLatamFlights(
-    params: FlightSearchParams
-  ): Promise<FlightResult[]> {
+class FlightService {
+  /**
+   * Busca consolidada em todas as APIs. Com onBatch, os resultados de cada
+   * provedor são entregues assim que ele responde, sem esperar os demais.
+   */
+  async searchAllFlights(
+    params: FlightSearchParams,
+    options: SearchOptions = {},
+    onBatch?: OnSearchBatch
+  ): Promise<SearchSummary> {
     try {
-      const cacheKey = `latam_flights_${JSON.stringify(params)}`;
-      const cached = await redisClient.get(cacheKey);
-
-      if (cached) {
-        logger.info('Retornando resultados do cache - LATAM');
-        return JSON.parse(cached);
-      }
+      const searchId = `search_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-      // Simulação da chamada para LATAM API
-      const mockResults = this.generateMockFlights('LATAM', params);
+      logger.info(`Iniciando busca consolidada: ${searchId}`);
 
-      await redisClient.setEx(
-        cacheKey,
-        this.CACHE_TTL,
-        JSON.stringify(mockResults)
-      );
-      logger.info(
-        `Busca LATAM realizada: ${params.origin} -> ${params.destination}`
+      // Executar buscas em paralelo nos provedores habilitados
+      const providers = providerRegistry.getProviders(params);
+      const offers: SourcedFlights[] = [];
+
+      const statuses = await Promise.all(
+        providers.map(async (provider): Promise<ProviderSearchStatus> => {
+          const startedAt = Date.now();
+          const status = {
+            provider: provider.id,
+            providerName: provider.name,
+          };
+
+          try {
+            const result = await provider.searchFlights(params, options);
+
+            if (!result.success) {
+              throw new Error(result.error);
+            }
+
+            const sourced = {
+              source: provider.id,
+              sourceName: provider.name,
+              flights: result.flights,
+            };
+            offers.push(sourced);
+
+            const flights = this.consolidate([sourced], params);
+            onBatch?.({ searchId, ...status, flights });
+
+            return {
+              ...status,
+              success: true,
+              results: flights.length,
+              durationMs: Date.now() - startedAt,
+            };
+          } catch (error: any) {
+            logger.error(`Erro na busca ${provider.name}:`, error.message);
+
+            return {
+              ...status,
+              success: false,
+              results: 0,
+              durationMs: Date.now() - startedAt,
+              error: error.message,
+            };
+          }
+        })
       );
 
-      return mockResults;
-    } catch (error) {
-      logger.error('Erro na busca LATAM:', error);
-      return [];
-    }
-  }
-
-  // GOL API Integration
-  async searchGolFlights(params: FlightSearchParams): Promise<FlightResult[]> {
-    try {
-      const cacheKey = `gol_flights_${JSON.stringify(params)}`;
-      const cached = await redisClient.get(cacheKey);
-
-      if (cached) {
-        logger.info('Retornando resultados do cache - GOL');
-        return JSON.parse(cached);
-      }
-
-      // Simulação da chamada para GOL API
-      const mockResults = this.generateMockFlights('GOL', params);
-
-      await redisClient.setEx(
-        cacheKey,
-        this.CACHE_TTL,
-        JSON.stringify(mockResults)
-      );
-      logger.info(
-        `Busca GOL realizada: ${params.origin} -> ${params.destination}`
+      // Unificar o mesmo voo vendido por várias fontes e comparar cada
+      // oferta com as tarifas já vistas na rota
+      const sortedFlights = await dealQualityService.annotate(
+        params,
+        this.consolidate(offers, params)
       );
 
-      return mockResults;
-    } catch (error) {
-      logger.error('Erro na busca GOL:', error);
-      return [];
-    }
-  }
-
-  // Azul API Integration
-  async searchAzulFlights(params: FlightSearchParams): Promise<FlightResult[]> {
-    try {
-      const cacheKey = `azul_flights_${JSON.stringify(params)}`;
-      const cached = await redisClient.get(cacheKey);
-
-      if (cached) {
-        logger.info('Retornando resultados do cache - Azul');
-        return JSON.parse(cached);
-      }
-
-      // Simulação da chamada para Azul API
-      const mockResults = this.generateMockFlights('Azul', params);
-
-      await redisClient.setEx(
-        cacheKey,
-        this.CACHE_TTL,
-        JSON.stringify(mockResults)
-      );
       logger.info(
-        `Busca Azul realizada: ${params.origin} -> ${params.destination}`
+        `Busca consolidada finalizada: ${sortedFlights.length} voos encontrados`
       );
 
-      return mockResults;
-    } catch (error) {
-      logger.error('Erro na busca Azul:', error);
-      return [];
-    }
-  }
-
-  // Amadeus API Integration
-  async searchAmadeusFlights(
-    params: FlightSearchParams
-  ): Promise<FlightResult[]> {
-    try {
-      const cacheKey = `amadeus_flights_${JSON.stringify(params)}`;
-      const cached = await redisClient.get(cacheKey);
-
-      if (cached) {
-        logger.info('Retornando resultados do cache - Amadeus');
-        return JSON.parse(cached);
-      }
-
-      const apiKey = process.env.AMADEUS_API_KEY;
-      const apiSecret = process.env.AMADEUS_API_SECRET;
-
-      if (!apiKey) {
-        logger.warn('Chave da API Amadeus não configurada');
-        return [];
+      // Buscas interativas ficam disponíveis por searchId (recarregar, compartilhar, paginar)
+      if (options.priority !== 'background') {
+        await searchSessionService
+          .save(searchId, params, sortedFlights)
+          .catch(error =>
+            logger.error(`Erro ao salvar sessão de busca ${searchId}:`, error)
+          );
       }
 
-      // Implementação real da API Amadeus
-      const amadeusResults = await this.callAmadeusAPI(
-        params,
-        apiKey,
-        apiSecret
-      );
-
-      await redisClient.setEx(
-        cacheKey,
-        this.CACHE_TTL,
-        JSON.stringify(amadeusResults)
-      );
-      logger.info(
-        `Busca Amadeus realizada: ${params.origin} -> ${params.destination}`
-      );
-
-      return amadeusResults;
+      return {
+        flights: sortedFlights,
+        totalResults: sortedFlights.length,
+        searchId,
+        providers: statuses,
+      };
     } catch (error) {
-      logger.error('Erro na busca Amadeus:', error);
-      // Retorna dados mock em caso de erro
-      return this.generateMockFlights('Amadeus', params);
+      logger.error('Erro na busca consolidada:', error);
+      throw error;
     }
   }
 
-  // Chamada real para a API do Amadeus
-  private async callAmadeusAPI(
-    params: FlightSearchParams,
-    apiKey: string,
-    apiSecret?: string
+  /**
+   * Tarifas multi-destino (um bilhete para todos os trechos) nos provedores
+   * que as oferecem. Falhas de um provedor não interrompem os demais.
+   */
+  async searchMultiCityFares(
+    params: MultiCitySearchParams,
+    options: SearchOptions = {}
   ): Promise<FlightResult[]> {
-    try {
-      // Primeiro, obter token de acesso
-      const tokenResponse = await axios.post(
-        'https://test.api.amadeus.com/v1/security/oauth2/token',
-        'grant_type=client_credentials&client_id=' +
-          apiKey +
-          '&client_secret=' +
-          (apiSecret || ''),
-        {
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
-        }
-      );
-
-      const accessToken = tokenResponse.data.access_token;
-
-      // Buscar voos
-      const flightResponse = await axios.get(
-        'https://test.api.amadeus.com/v2/shopping/flight-offers',
-        {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
-          params: {
-            originLocationCode: params.origin,
-            destinationLocationCode: params.destination,
-            departureDate: params.departureDate,
-            returnDate: params.returnDate,
-            adults: params.passengers,
-            travelClass:
-              params.classType === 'business' ? 'BUSINESS' : 'ECONOMY',
-            max: 20,
-          },
+    const providers = providerRegistry.getMultiCityProviders(params);
+    const offers: SourcedFlights[] = [];
+
+    await Promise.all(
+      providers.map(async provider => {
+        try {
+          const result = await provider.searchMultiCity(params, options);
+
+          if (!result.success) {
+            throw new Error(result.error);
+          }
+
+          offers.push({
+            source: provider.id,
+            sourceName: provider.name,
+            flights: result.flights,
+          });
+        } catch (error: any) {
+          logger.error(
+            `Erro na busca multi-destino ${provider.name}:`,
+            error.message
+          );
         }
-      );
-
-      // Converter resposta da Amadeus para nosso formato
-      return this.convertAmadeusResponse(flightResponse.data);
-    } catch (error) {
-      logger.error('Erro na chamada da API Amadeus:', error);
-      // Retorna dados mock em caso de erro
-      return this.generateMockFlights('Amadeus', params);
-    }
-  }
-
-  // Converter resposta da Amadeus para nosso formato
-  private convertAmadeusResponse(amadeusData: any): FlightResult[] {
-    try {
-      if (!amadeusData.data || !Array.isArray(amadeusData.data)) {
-        return [];
-      }
+      })
+    );
 
-      return amadeusData.data.map((offer: any, index: number) => {
-        const itinerary = offer.itineraries[0];
-        const segment = itinerary.segments[0];
-        const price = offer.price;
-
-        return {
-          id: `amadeus_${offer.id || index}`,
-          airline: segment.carrierCode || 'Unknown',
-          flightNumber: `${segment.carrierCode}${segment.number}`,
-          origin: segment.departure.iataCode,
-          destination: segment.arrival.iataCode,
-          departureTime: segment.departure.at,
-          arrivalTime: segment.arrival.at,
-          duration: this.parseDuration(itinerary.duration),
-          stops: itinerary.segments.length - 1,
-          price: parseFloat(price.total),
-          currency: price.currency,
-          classType: segment.cabin || 'economy',
-          availableSeats: offer.numberOfBookableSeats || 9,
-          baggageIncluded: true,
-          source: 'Amadeus',
-        };
-      });
-    } catch (error) {
-      logger.error('Erro ao converter resposta Amadeus:', error);
-      return [];
-    }
+    return this.consolidate(offers, params);
   }
 
-  // Converter duração ISO 8601 para minutos
-  private parseDuration(duration: string): number {
-    try {
-      const match = duration.match(/PT(\d+H)?(\d+M)?/);
-      if (!match) {
-        return 0;
-      }
+  // Unifica ofertas, aplica o filtro de classe e ordena por preço
+  private consolidate(
+    offers: SourcedFlights[],
+    params: Pick<FlightSearchParams, 'classType'>
+  ): FlightResult[] {
+    const allFlights = mergeOffers(offers).map(flight =>
+      this.toFlightResult(flight)
+    );
 
-      const hours = match[1] ? parseInt(match[1].replace('H', '')) : 0;
-      const minutes = match[2] ? parseInt(match[2].replace('M', '')) : 0;
+    // Filtrar pela cabine pedida ('both' aceita qualquer uma)
+    const filteredFlights =
+      params.classType === 'both'
+        ? allFlights
+        : allFlights.filter(flight => flight.classType === params.classType);
 
-      return hours * 60 + minutes;
-    } catch {
-      return 0;
-    }
+    return filteredFlights.sort((a, b) => a.price - b.price);
   }
 
-  // Busca consolidada em todas as APIs
-  async searchAllFlights(params: FlightSearchParams): Promise<APIResponse> {
-    try {
-      const searchId = `search_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-      logger.info(`Iniciando busca consolidada: ${searchId}`);
-
-      // Executar buscas em paralelo com controle de rate limit
-      const promises = [
-        this.searchGoogleFlights(params),
-        this.searchLatamFlights(params),
-        this.searchGolFlights(params),
-        this.searchAzulFlights(params),
-        this.searchAmadeusFlights(params),
-      ];
-
-      const results = await Promise.allSettled(promises);
-
-      // Consolidar resultados
-      const allFlights: FlightResult[] = [];
-      results.forEach((result, index) => {
-        if (result.status === 'fulfilled') {
-          allFlights.push(...result.value);
-        } else {
-          const sources = ['Google Flights', 'LATAM', 'GOL', 'Azul', 'Amadeus'];
-          logger.error(`Erro na busca ${sources[index]}:`, result.reason);
-        }
-      });
-
-      // Filtrar apenas classe executiva se especificado
-      const filteredFlights =
-        params.classType === 'business'
-          ? allFlights.filter(flight => flight.classType === 'business')
-          : allFlights;
-
-      // Ordenar por preço
-      const sortedFlights = filteredFlights.sort((a, b) => a.price - b.price);
+  // Oferta consolidada: dados do vendedor mais barato e o preço em cada um
+  private toFlightResult(flight: FlightResult): FlightResult {
+    const fares = flight.fares || [];
+    const cheapest = fares.find(fare => fare.isCheapest);
 
-      logger.info(
-        `Busca consolidada finalizada: ${sortedFlights.length} voos encontrados`
-      );
-
-      return {
-        flights: sortedFlights,
-        totalResults: sortedFlights.length,
-        searchId,
-      };
-    } catch (error) {
-      logger.error('Erro na busca consolidada:', error);
-      throw error;
-    }
+    return {
+      ...flight,
+      priceBreakdown: flight.priceBreakdown || [],
+      baggageIncluded: flight.baggageIncluded ?? false,
+      fares,
+      source: cheapest?.source || '',
+    };
   }
 
   // Comparar preços e encontrar melhores ofertas
@@ -424,69 +261,8 @@ class FlightService {
       priceRange,
     };
   }
-
-  // Gerador de dados mock para demonstração
-  private generateMockFlights(
-    source: string,
-    params: FlightSearchParams
-  ): FlightResult[] {
-    const airlines = {
-      'Google Flights': ['LA', 'G3', 'AD', 'TP', 'AF'],
-      LATAM: ['LA'],
-      GOL: ['G3'],
-      Azul: ['AD'],
-    };
-
-    const airlineNames = {
-      LA: 'LATAM',
-      G3: 'GOL',
-      AD: 'Azul',
-      TP: 'TAP',
-      AF: 'Air France',
-    };
-
-    const sourceAirlines = airlines[source as keyof typeof airlines] || ['LA'];
-    const flights: FlightResult[] = [];
-
-    for (let i = 0; i < Math.floor(Math.random() * 5) + 2; i++) {
-      const airlineCode =
-        sourceAirlines[Math.floor(Math.random() * sourceAirlines.length)];
-      const airline = airlineNames[airlineCode as keyof typeof airlineNames];
-
-      const basePrice = params.classType === 'business' ? 3000 : 800;
-      const priceVariation = Math.random() * 2000;
-
-      flights.push({
-        id: `${source.toLowerCase()}_${airlineCode}_${i}_${Date.now()}`,
-        airline,
-        flightNumber: `${airlineCode}${Math.floor(Math.random() * 9000) + 1000}`,
-        origin: params.origin,
-        destination: params.destination,
-        departureTime: new Date(params.departureDate).toISOString(),
-        arrivalTime: new Date(
-          new Date(params.departureDate).getTime() +
-            (Math.random() * 8 + 2) * 60 * 60 * 1000
-        ).toISOString(),
-        duration: Math.floor(Math.random() * 480) + 120, // 2-10 horas
-        stops: Math.floor(Math.random() * 3), // 0-2 paradas
-        price: Math.floor(basePrice + priceVariation),
-        currency: 'BRL',
-        classType:
-          params.classType === 'both'
-            ? Math.random() > 0.5
-              ? 'business'
-              : 'economy'
-            : params.classType,
-        availableSeats: Math.floor(Math.random() * 20) + 1,
-        baggageIncluded: Math.random() > 0.3,
-        source: source.toLowerCase().replace(' ', '_'),
-      });
-    }
-
-    return flights;
-  }
 }
 
 export const flightService = new FlightService();
 export default flightService;
-export type { FlightSearchParams, FlightResult, APIResponse };
+export type { APIResponse, SearchBatch, SearchSummary, ProviderSearchStatus };
@@ -0,0 +1,133 @@
+import { DEFAULT_TIME_ZONE, toLocalDateTime } from '../utils/timezone';
+
+// Modelo de itinerário: oferta → trechos (ida/volta) → segmentos com conexões
+
+export interface AirportInfo {
+  code: string;
+  name: string;
+  city: string;
+}
+
+export interface CarrierInfo {
+  code: string;
+  name: string;
+}
+
+// Detalhes tarifários (quando o provedor informa)
+export interface FareDetails {
+  cabin?: string;
+  fareBasis?: string;
+  brandedFare?: string; // Ex: "LIGHT", "STANDARD", "FLEX"
+  bookingClass?: string;
+  includedCheckedBags?: {
+    quantity?: number;
+    weight?: number;
+    weightUnit?: string;
+  };
+}
+
+export interface FlightSegment {
+  airline: CarrierInfo;
+  // Companhia que opera o voo quando diferente da que vende (codeshare)
+  operatingAirline?: CarrierInfo;
+  flightNumber: string;
+  origin: AirportInfo;
+  destination: AirportInfo;
+  departureTime: string;
+  arrivalTime: string;
+  duration: number; // em minutos
+  aircraft?: string;
+  fare?: FareDetails;
+  // Tempo de conexão até o próximo segmento do trecho (em minutos)
+  layoverDuration?: number;
+}
+
+export interface FlightSlice {
+  origin: AirportInfo;
+  destination: AirportInfo;
+  departureTime: string;
+  arrivalTime: string;
+  duration: number; // em minutos, incluindo conexões
+  stops: number;
+  segments: FlightSegment[];
+}
+
+const minutesBetween = (start: string, end: string): number =>
+  Math.round((new Date(end).getTime() - new Date(start).getTime()) / 60000);
+
+/**
+ * Monta um trecho a partir dos segmentos, calculando as conexões
+ */
+export function buildSlice(
+  segments: FlightSegment[],
+  duration?: number
+): FlightSlice {
+  if (segments.length === 0) {
+    throw new Error('Trecho sem segmentos');
+  }
+
+  const first = segments[0];
+  const last = segments[segments.length - 1];
+
+  return {
+    origin: first.origin,
+    destination: last.destination,
+    departureTime: first.departureTime,
+    arrivalTime: last.arrivalTime,
+    duration: duration || minutesBetween(first.departureTime, last.arrivalTime),
+    stops: segments.length - 1,
+    segments: segments.map((segment, index) => {
+      const next = segments[index + 1];
+      return next
+        ? {
+            ...segment,
+            layoverDuration: minutesBetween(
+              segment.arrivalTime,
+              next.departureTime
+            ),
+          }
+        : segment;
+    }),
+  };
+}
+
+/**
+ * Trecho de segmento único para provedores que não detalham as conexões.
+ * O número de paradas informado pelo provedor é preservado.
+ */
+export function singleSegmentSlice(
+  segment: FlightSegment,
+  stops: number = 0
+): FlightSlice {
+  return { ...buildSlice([segment], segment.duration), stops };
+}
+
+/**
+ * Horários do trecho no horário local de cada aeroporto, com offset (ex:
+ * "2026-12-10T22:30:00-03:00"). Horários sem offset, como os do Amadeus,
+ * já são locais do aeroporto; aeroportos sem fuso cadastrado ficam em UTC.
+ */
+export function localizeSlice(
+  slice: FlightSlice,
+  timeZones: Record<string, string>
+): FlightSlice {
+  const zoneOf = (airport: AirportInfo) =>
+    timeZones[airport.code] || DEFAULT_TIME_ZONE;
+
+  return {
+    ...slice,
+    departureTime: toLocalDateTime(slice.departureTime, zoneOf(slice.origin)),
+    arrivalTime: toLocalDateTime(slice.arrivalTime, zoneOf(slice.destination)),
+    segments: slice.segments.map(segment => ({
+      ...segment,
+      departureTime: toLocalDateTime(
+        segment.departureTime,
+        zoneOf(segment.origin)
+      ),
+      arrivalTime: toLocalDateTime(
+        segment.arrivalTime,
+        zoneOf(segment.destination)
+      ),
+    })),
+  };
+}
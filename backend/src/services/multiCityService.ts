@@ -0,0 +1,220 @@
+import { logger } from '../utils/logger';
+import { flightService } from './flightService';
+import { FlightResult, MultiCitySearchParams } from './flightModel';
+import { FlightSlice } from './itinerary';
+import { getSliceFingerprint } from './offerMerger';
+import { SearchOptions } from './providerRegistry';
+import { PassengerPrice, combineBreakdowns } from './passengers';
+
+export type MultiCityFareType = 'multi-city' | 'separate-tickets';
+
+// Itinerário multi-destino precificado, com um trecho por perna da viagem
+export interface MultiCityItinerary {
+  id: string;
+  slices: FlightSlice[];
+  price: number; // total do grupo de passageiros
+  priceBreakdown: PassengerPrice[];
+  currency: string;
+  fareType: MultiCityFareType;
+  airline: string;
+  classType: string;
+  offerIds: string[]; // uma oferta (tarifa multi-destino) ou uma por trecho
+  bookingUrls: string[];
+  separatePrice?: number; // soma das tarifas só ida dos mesmos trechos
+  savings?: number; // economia da tarifa multi-destino sobre os bilhetes avulsos
+}
+
+export interface MultiCityLegSummary {
+  origin: string;
+  destination: string;
+  departureDate: string;
+  searchId: string; // sessão da busca do trecho (GET /searches/:searchId)
+  results: number;
+  cheapestPrice: number | null;
+}
+
+export interface MultiCitySearchResult {
+  legs: MultiCityLegSummary[];
+  itineraries: MultiCityItinerary[];
+  cheapest: MultiCityItinerary | null;
+  totalOptions: number;
+  multiCityFares: number;
+}
+
+export interface CombinationOptions {
+  maxPerLeg: number; // trechos só ida mais baratos combinados por perna
+  maxResults: number;
+}
+
+const DEFAULT_COMBINATION: CombinationOptions = {
+  maxPerLeg: 6,
+  maxResults: 30,
+};
+
+const joinAirlines = (offers: FlightResult[]): string =>
+  [...new Set(offers.map(offer => offer.airline.name))].join(' / ');
+
+/**
+ * Monta os itinerários multi-destino a partir das tarifas multi-destino e
+ * da combinação de bilhetes só ida de cada trecho. Cada trecho precisa
+ * partir depois da chegada do anterior; para os mesmos trechos prevalece
+ * o menor preço.
+ */
+export function combineLegs(
+  multiCityOffers: FlightResult[],
+  legOffers: FlightResult[][],
+  options: Partial<CombinationOptions> = {}
+): MultiCityItinerary[] {
+  const { maxPerLeg, maxResults } = { ...DEFAULT_COMBINATION, ...options };
+  const itineraries = new Map<string, MultiCityItinerary>();
+
+  const add = (itinerary: MultiCityItinerary) => {
+    const current = itineraries.get(itinerary.id);
+    if (!current || itinerary.price < current.price) {
+      itineraries.set(itinerary.id, itinerary);
+    }
+  };
+
+  // Menor preço só ida de cada trecho, para calcular a economia
+  const cheapestOneWay = new Map<string, number>();
+  legOffers.flat().forEach(offer => {
+    const key = getSliceFingerprint(offer.slices[0]);
+    const current = cheapestOneWay.get(key);
+    if (current === undefined || offer.price < current) {
+      cheapestOneWay.set(key, offer.price);
+    }
+  });
+
+  multiCityOffers
+    .filter(offer => offer.slices.length === legOffers.length)
+    .forEach(offer => {
+      const keys = offer.slices.map(getSliceFingerprint);
+      const prices = keys.map(key => cheapestOneWay.get(key));
+      const separatePrice = prices.every(price => price !== undefined)
+        ? prices.reduce<number>((sum, price) => sum + (price as number), 0)
+        : undefined;
+
+      add({
+        id: keys.join('::'),
+        slices: offer.slices,
+        price: offer.price,
+        priceBreakdown: offer.priceBreakdown || [],
+        currency: offer.currency,
+        fareType: 'multi-city',
+        airline: offer.airline.name,
+        classType: offer.classType,
+        offerIds: [offer.id],
+        bookingUrls: [offer.bookingUrl],
+        separatePrice,
+        savings:
+          separatePrice !== undefined && separatePrice > offer.price
+            ? separatePrice - offer.price
+            : undefined,
+      });
+    });
+
+  const candidates = legOffers.map(offers =>
+    [...offers].sort((a, b) => a.price - b.price).slice(0, maxPerLeg)
+  );
+
+  const combine = (legIndex: number, chosen: FlightResult[]) => {
+    if (legIndex === candidates.length) {
+      add({
+        id: chosen
+          .map(offer => getSliceFingerprint(offer.slices[0]))
+          .join('::'),
+        slices: chosen.map(offer => offer.slices[0]),
+        price: chosen.reduce((sum, offer) => sum + offer.price, 0),
+        priceBreakdown: combineBreakdowns(
+          chosen.map(offer => offer.priceBreakdown || [])
+        ),
+        currency: chosen[0].currency,
+        fareType: 'separate-tickets',
+        airline: joinAirlines(chosen),
+        classType: chosen[0].classType,
+        offerIds: chosen.map(offer => offer.id),
+        bookingUrls: chosen.map(offer => offer.bookingUrl),
+      });
+      return;
+    }
+
+    const previous = chosen[chosen.length - 1];
+
+    candidates[legIndex]
+      // O trecho seguinte precisa partir depois da chegada do anterior
+      .filter(
+        offer =>
+          !previous ||
+          new Date(offer.slices[0].departureTime).getTime() >
+            new Date(previous.slices[0].arrivalTime).getTime()
+      )
+      .forEach(offer => combine(legIndex + 1, [...chosen, offer]));
+  };
+
+  if (candidates.length > 0) {
+    combine(0, []);
+  }
+
+  return [...itineraries.values()]
+    .sort((a, b) => a.price - b.price)
+    .slice(0, maxResults);
+}
+
+class MultiCityService {
+  /**
+   * Busca multi-destino: cada trecho é buscado como só ida em todos os
+   * provedores e, em paralelo, as tarifas multi-destino de quem as oferece
+   */
+  async search(
+    params: MultiCitySearchParams,
+    options: SearchOptions = {}
+  ): Promise<MultiCitySearchResult> {
+    if (params.legs.length < 2) {
+      throw new Error('A busca multi-destino exige ao menos dois trechos');
+    }
+
+    const [multiCityOffers, legResults] = await Promise.all([
+      flightService.searchMultiCityFares(params, options),
+      Promise.all(
+        params.legs.map(leg =>
+          flightService.searchAllFlights(
+            {
+              ...leg,
+              passengers: params.passengers,
+              passengerMix: params.passengerMix,
+              classType: params.classType,
+            },
+            options
+          )
+        )
+      ),
+    ]);
+
+    const itineraries = combineLegs(
+      multiCityOffers,
+      legResults.map(result => result.flights)
+    );
+
+    logger.info(
+      `Multi-destino ${params.legs.map(leg => leg.origin).join('-')}-${
+        params.legs[params.legs.length - 1].destination
+      }: ${itineraries.length} itinerários`
+    );
+
+    return {
+      legs: params.legs.map((leg, index) => ({
+        ...leg,
+        searchId: legResults[index].searchId,
+        results: legResults[index].totalResults,
+        cheapestPrice: legResults[index].flights[0]?.price ?? null,
+      })),
+      itineraries,
+      cheapest: itineraries[0] || null,
+      totalOptions: itineraries.length,
+      multiCityFares: multiCityOffers.length,
+    };
+  }
+}
+
+export default new MultiCityService();
+export { MultiCityService };
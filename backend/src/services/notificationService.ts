@@ -178,13 +178,11 @@ class NotificationService {
         return;
       }
 
-      // Enviar email usando o método disponível no emailService
-      await emailService.sendAlertEmail({
+      await emailService.sendNotificationEmail({
         to: user.email,
         userName: user.name || 'Usuário',
-        alertName: notification.title,
-        flightData: { message: notification.message },
-        triggerType: 'price_drop',
+        subject: notification.title,
+        message: notification.message,
       });
 
       logger.info(`Email de notificação enviado para ${user.email}`);
@@ -0,0 +1,137 @@
+import type { FlightResult } from './flightModel';
+import type { FlightSlice } from './itinerary';
+
+// Preço de uma mesma oferta em um vendedor (provedor) específico
+export interface FareOption {
+  source: string;
+  sourceName: string;
+  price: number;
+  currency: string;
+  bookingUrl: string;
+  deepLinkUrl?: string;
+  isCheapest: boolean;
+}
+
+export interface SourcedFlights {
+  source: string;
+  sourceName: string;
+  flights: FlightResult[];
+}
+
+// Remove espaços, prefixo da companhia e zeros à esquerda: "LA 0800" → "LA800"
+const normalizeFlightNumber = (
+  carrierCode: string,
+  flightNumber: string
+): string => {
+  const carrier = carrierCode.toUpperCase();
+  let number = flightNumber.replace(/\s+/g, '').toUpperCase();
+
+  if (number.startsWith(carrier)) {
+    number = number.slice(carrier.length);
+  }
+
+  return `${carrier}${number.replace(/^0+(?=\d)/, '')}`;
+};
+
+/**
+ * Identifica o voo físico: companhia, números de voo de todos os
+ * segmentos, instante de partida (precisão de minuto) e cabine
+ */
+export function getOfferFingerprint(flight: FlightResult): string {
+  const segments = flight.slices.flatMap(slice => slice.segments);
+  const flightNumbers =
+    segments.length > 0
+      ? segments.map(segment =>
+          normalizeFlightNumber(segment.airline.code, segment.flightNumber)
+        )
+      : [normalizeFlightNumber(flight.airline.code, flight.flightNumber)];
+
+  const departure = new Date(flight.departureTime);
+  const departureInstant = isNaN(departure.getTime())
+    ? flight.departureTime
+    : departure.toISOString().slice(0, 16);
+
+  return [
+    flight.airline.code.toUpperCase(),
+    flightNumbers.join('+'),
+    departureInstant,
+    flight.classType.toLowerCase(),
+  ].join('|');
+}
+
+/**
+ * Identifica um trecho: números de voo dos segmentos e partida (minuto)
+ */
+export function getSliceFingerprint(slice: FlightSlice): string {
+  const flightNumbers = slice.segments.map(segment =>
+    normalizeFlightNumber(segment.airline.code, segment.flightNumber)
+  );
+  const departure = new Date(slice.departureTime);
+
+  return [
+    flightNumbers.join('+'),
+    isNaN(departure.getTime())
+      ? slice.departureTime
+      : departure.toISOString().slice(0, 16),
+  ].join('|');
+}
+
+/**
+ * Agrupa ofertas duplicadas entre provedores em um único resultado com
+ * o preço de cada vendedor. O resultado usa os dados do vendedor mais barato.
+ */
+export function mergeOffers(results: SourcedFlights[]): FlightResult[] {
+  const groups = new Map<
+    string,
+    { flight: FlightResult; fare: FareOption }[]
+  >();
+
+  results.forEach(({ source, sourceName, flights }) => {
+    flights.forEach(flight => {
+      const fingerprint = getOfferFingerprint(flight);
+      const group = groups.get(fingerprint) || [];
+
+      group.push({
+        flight,
+        fare: {
+          source,
+          sourceName,
+          price: flight.price,
+          currency: flight.currency,
+          bookingUrl: flight.bookingUrl,
+          deepLinkUrl: flight.deepLinkUrl,
+          isCheapest: false,
+        },
+      });
+      groups.set(fingerprint, group);
+    });
+  });
+
+  const merged: FlightResult[] = [];
+
+  groups.forEach(group => {
+    // Um preço por vendedor: mantém o menor quando o provedor repete a oferta
+    const bySource = new Map<string, (typeof group)[number]>();
+    group.forEach(entry => {
+      const current = bySource.get(entry.fare.source);
+      if (!current || entry.fare.price < current.fare.price) {
+        bySource.set(entry.fare.source, entry);
+      }
+    });
+
+    const entries = [...bySource.values()].sort(
+      (a, b) => a.fare.price - b.fare.price
+    );
+    const cheapest = entries[0];
+
+    merged.push({
+      ...cheapest.flight,
+      fares: entries.map(entry => ({
+        ...entry.fare,
+        isCheapest: entry === cheapest,
+      })),
+    });
+  });
+
+  return merged.sort((a, b) => a.price - b.price);
+}
@@ -0,0 +1,189 @@
+// Composição do grupo de passageiros e preço por tipo de passageiro
+
+export type PassengerType = 'ADT' | 'CHD' | 'INF';
+
+export interface PassengerMix {
+  adults: number; // 12 anos ou mais
+  children: number; // 2 a 11 anos
+  infants: number; // menores de 2 anos, no colo de um adulto
+}
+
+export interface PassengerPrice {
+  type: PassengerType;
+  count: number;
+  unitPrice: number; // por passageiro
+  subtotal: number; // unitPrice * count
+}
+
+// Valores brutos da query ou do corpo da requisição
+export interface PassengerInput {
+  passengers?: unknown;
+  adults?: unknown;
+  children?: unknown;
+  infants?: unknown;
+  childAges?: unknown; // idades dos menores de 12 anos, ex: "7,1" ou [7, 1]
+}
+
+export const MAX_PASSENGERS = 9;
+export const CHILD_MIN_AGE = 2;
+export const ADULT_MIN_AGE = 12;
+
+// Tarifa de cada tipo em relação à do adulto, usada quando o provedor só
+// informa o preço de um adulto
+const FARE_RATIOS: Record<PassengerType, number> = {
+  ADT: 1,
+  CHD: 0.75,
+  INF: 0.1,
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toInt = (value: unknown, fallback: number): number => {
+  const parsed = parseInt(String(value), 10);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+export const adultsOnly = (adults: number): PassengerMix => ({
+  adults,
+  children: 0,
+  infants: 0,
+});
+
+export const countPassengers = (mix: PassengerMix): number =>
+  mix.adults + mix.children + mix.infants;
+
+// Bebês de colo não ocupam assento
+export const countSeats = (mix: PassengerMix): number =>
+  mix.adults + mix.children;
+
+/**
+ * Composição a partir das idades dos menores de 12 anos
+ */
+export function mixFromAges(adults: number, ages: number[]): PassengerMix {
+  return {
+    adults,
+    children: ages.filter(age => age >= CHILD_MIN_AGE).length,
+    infants: ages.filter(age => age < CHILD_MIN_AGE).length,
+  };
+}
+
+/**
+ * Composição da busca. Buscas que informam só o total de passageiros são
+ * tratadas como somente adultos.
+ */
+export function getPassengerMix(params: {
+  passengers: number;
+  passengerMix?: PassengerMix;
+}): PassengerMix {
+  return params.passengerMix || adultsOnly(params.passengers);
+}
+
+/**
+ * Composição informada na requisição: adults/children/infants, childAges ou,
+ * no formato antigo, apenas passengers (todos adultos)
+ */
+export function parsePassengerMix(input: PassengerInput): PassengerMix {
+  const adults = toInt(input.adults ?? input.passengers, 1);
+
+  if (input.childAges !== undefined && input.childAges !== '') {
+    const ages = (
+      Array.isArray(input.childAges)
+        ? input.childAges
+        : String(input.childAges).split(',')
+    )
+      .map(age => toInt(age, -1))
+      .filter(age => age >= 0);
+    return mixFromAges(adults, ages);
+  }
+
+  return {
+    adults,
+    children: toInt(input.children, 0),
+    infants: toInt(input.infants, 0),
+  };
+}
+
+// Total de passageiros e composição, no formato dos parâmetros de busca
+export const toPassengerParams = (mix: PassengerMix) => ({
+  passengers: countPassengers(mix),
+  passengerMix: mix,
+});
+
+/**
+ * Mensagem de erro quando a composição não pode ser emitida, ou null
+ */
+export function validatePassengerMix(mix: PassengerMix): string | null {
+  if (mix.adults < 1) {
+    return 'É necessário pelo menos 1 adulto';
+  }
+  if (mix.children < 0 || mix.infants < 0) {
+    return 'Número de crianças e bebês não pode ser negativo';
+  }
+  if (mix.infants > mix.adults) {
+    return 'Cada bebê de colo precisa de um adulto responsável';
+  }
+  if (countPassengers(mix) > MAX_PASSENGERS) {
+    return `Máximo de ${MAX_PASSENGERS} passageiros por reserva`;
+  }
+  return null;
+}
+
+/**
+ * Preço por tipo de passageiro a partir da tarifa de um adulto
+ */
+export function buildPriceBreakdown(
+  adultPrice: number,
+  mix: PassengerMix
+): PassengerPrice[] {
+  const counts: [PassengerType, number][] = [
+    ['ADT', mix.adults],
+    ['CHD', mix.children],
+    ['INF', mix.infants],
+  ];
+
+  return counts
+    .filter(([, count]) => count > 0)
+    .map(([type, count]) => {
+      const unitPrice = round(adultPrice * FARE_RATIOS[type]);
+      return { type, count, unitPrice, subtotal: round(unitPrice * count) };
+    });
+}
+
+export const sumBreakdown = (breakdown: PassengerPrice[]): number =>
+  round(breakdown.reduce((total, item) => total + item.subtotal, 0));
+
+/**
+ * Soma os preços por tipo de vários bilhetes do mesmo grupo (ex: ida e volta
+ * compradas separadamente)
+ */
+export function combineBreakdowns(
+  breakdowns: PassengerPrice[][]
+): PassengerPrice[] {
+  const byType = new Map<PassengerType, PassengerPrice>();
+
+  breakdowns.flat().forEach(item => {
+    const current = byType.get(item.type);
+    byType.set(
+      item.type,
+      current
+        ? {
+            type: item.type,
+            count: Math.max(current.count, item.count),
+            unitPrice: round(current.unitPrice + item.unitPrice),
+            subtotal: round(current.subtotal + item.subtotal),
+          }
+        : { ...item }
+    );
+  });
+
+  return [...byType.values()];
+}
+
+/**
+ * Assentos suficientes para o grupo. Zero significa que o provedor não
+ * informou a disponibilidade.
+ */
+export const hasSeatsFor = (
+  availableSeats: number,
+  mix: PassengerMix
+): boolean => availableSeats === 0 || availableSeats >= countSeats(mix);
@@ -183,15 +183,18 @@ export class PriceMonitoringService {
       }
 
       // Busca preços atuais
-      const searchResult = await airlineApi.searchAllFlights({
-        origin: alert.origin,
-        destination: alert.destination,
-        departureDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
-          .toISOString()
-          .split('T')[0],
-        classType: 'business',
-        passengers: 1,
-      });
+      const searchResult = await airlineApi.searchAllFlights(
+        {
+          origin: alert.origin,
+          destination: alert.destination,
+          departureDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+            .toISOString()
+            .split('T')[0],
+          classType: 'business',
+          passengers: 1,
+        },
+        { priority: 'background' }
+      );
 
       if (searchResult.flights.length === 0) {
         return null;
@@ -266,11 +269,16 @@ export class PriceMonitoringService {
       for (const route of popularRoutes) {
         try {
           const offers = await flexibleSearch.searchSpecialOffers(
-            route.origin,
-            route.destination,
-            new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
-              .toISOString()
-              .split('T')[0]
+            {
+              origin: route.origin,
+              destination: route.destination,
+              departureDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+                .toISOString()
+                .split('T')[0],
+              passengers: 1,
+              classType: 'business',
+            },
+            { priority: 'background' }
           );
 
           // Filtra ofertas realmente especiais (desconto > 30%)
@@ -0,0 +1,216 @@
+import { Prisma, PriceObservation } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../utils/logger';
+import { ClassType, FlightResult, FlightSearchParams } from './flightModel';
+import { countPassengers, getPassengerMix } from './passengers';
+
+export interface PriceHistoryQuery {
+  origin: string;
+  destination: string;
+  classType?: ClassType; // 'both' ou ausente: todas as cabines
+  days?: number; // janela de observação, até hoje
+  departureDate?: string; // só observações desse dia de partida (yyyy-MM-dd)
+}
+
+export interface DailyPriceStats {
+  date: string; // dia da observação (yyyy-MM-dd, UTC)
+  minPrice: number;
+  maxPrice: number;
+  avgPrice: number;
+  recordCount: number;
+}
+
+// Gravação em lote: as buscas só enfileiram as observações
+const BATCH_SIZE = 500;
+const FLUSH_INTERVAL_MS = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Tarifa de um adulto da oferta, comparável entre buscas com grupos de
+ * tamanhos diferentes
+ */
+export function getAdultFare(
+  flight: FlightResult,
+  params: Pick<FlightSearchParams, 'passengers' | 'passengerMix'>
+): number {
+  const adult = flight.priceBreakdown?.find(item => item.type === 'ADT');
+  return adult
+    ? adult.unitPrice
+    : round(
+        flight.price / Math.max(countPassengers(getPassengerMix(params)), 1)
+      );
+}
+
+/**
+ * Antecedência da compra em dias inteiros, pelo horário de partida da oferta
+ * (ou pela data buscada, se o horário não for válido)
+ */
+export function getDaysBeforeDeparture(
+  params: Pick<FlightSearchParams, 'departureDate'>,
+  flight: Pick<FlightResult, 'departureTime'>,
+  observedAt: Date = new Date()
+): number {
+  const departure = new Date(flight.departureTime);
+  const departureInstant = isNaN(departure.getTime())
+    ? new Date(`${params.departureDate}T00:00:00Z`)
+    : departure;
+
+  return Math.max(
+    0,
+    Math.floor((departureInstant.getTime() - observedAt.getTime()) / DAY_MS)
+  );
+}
+
+/**
+ * Observação de preço de uma oferta retornada por um provedor
+ */
+export function toPriceObservation(
+  params: FlightSearchParams,
+  source: string,
+  flight: FlightResult,
+  observedAt: Date = new Date()
+): Prisma.PriceObservationCreateManyInput {
+  return {
+    origin: params.origin,
+    destination: params.destination,
+    departureDate: new Date(`${params.departureDate}T00:00:00Z`),
+    returnDate: params.returnDate
+      ? new Date(`${params.returnDate}T00:00:00Z`)
+      : null,
+    isRoundTrip: Boolean(params.returnDate),
+    airlineCode: flight.airline.code,
+    airlineName: flight.airline.name,
+    flightNumber: flight.flightNumber,
+    classType: flight.classType,
+    stops: flight.stops,
+    daysBeforeDeparture: getDaysBeforeDeparture(params, flight, observedAt),
+    source,
+    fareBasis: flight.fareDetails?.fareBasis || null,
+    price: getAdultFare(flight, params),
+    currency: flight.currency,
+    observedAt,
+  };
+}
+
+/**
+ * Estatísticas por dia de observação
+ */
+export function buildDailyStats(
+  observations: Pick<PriceObservation, 'price' | 'observedAt'>[]
+): DailyPriceStats[] {
+  const byDate = new Map<string, number[]>();
+
+  observations.forEach(observation => {
+    const date = observation.observedAt.toISOString().slice(0, 10);
+    byDate.set(date, [...(byDate.get(date) || []), observation.price]);
+  });
+
+  return [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, prices]) => ({
+      date,
+      minPrice: Math.min(...prices),
+      maxPrice: Math.max(...prices),
+      avgPrice: round(
+        prices.reduce((sum, price) => sum + price, 0) / prices.length
+      ),
+      recordCount: prices.length,
+    }));
+}
+
+class PriceObservationService {
+  private queue: Prisma.PriceObservationCreateManyInput[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Enfileira os preços de uma resposta de provedor. A gravação acontece em
+   * lote, fora do caminho da busca.
+   */
+  record(
+    params: FlightSearchParams,
+    source: string,
+    flights: FlightResult[]
+  ): void {
+    if (flights.length === 0) {
+      return;
+    }
+
+    // Um problema na captura não pode derrubar a busca
+    try {
+      const observedAt = new Date();
+      this.queue.push(
+        ...flights
+          .filter(flight => flight.price > 0)
+          .map(flight => toPriceObservation(params, source, flight, observedAt))
+      );
+    } catch (error) {
+      logger.error(`Erro ao capturar preços de ${source}:`, error);
+      return;
+    }
+
+    if (this.queue.length >= BATCH_SIZE) {
+      void this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => void this.flush(), FLUSH_INTERVAL_MS);
+      this.flushTimer.unref();
+    }
+  }
+
+  /**
+   * Grava as observações pendentes. Falhas são registradas e o lote é
+   * descartado para não acumular memória.
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const batch = this.queue.splice(0, this.queue.length);
+    if (batch.length === 0) {
+      return;
+    }
+
+    try {
+      await prisma.priceObservation.createMany({ data: batch });
+      logger.debug(`${batch.length} observações de preço gravadas`);
+    } catch (error) {
+      logger.error(
+        `Erro ao gravar ${batch.length} observações de preço:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Observações de uma rota, das mais antigas para as mais recentes
+   */
+  async getObservations(query: PriceHistoryQuery): Promise<PriceObservation[]> {
+    const where: Prisma.PriceObservationWhereInput = {
+      origin: query.origin.toUpperCase(),
+      destination: query.destination.toUpperCase(),
+    };
+
+    if (query.days) {
+      where.observedAt = { gte: new Date(Date.now() - query.days * DAY_MS) };
+    }
+    if (query.classType && query.classType !== 'both') {
+      where.classType = query.classType;
+    }
+    if (query.departureDate) {
+      where.departureDate = new Date(
+        `${query.departureDate.slice(0, 10)}T00:00:00Z`
+      );
+    }
+
+    return prisma.priceObservation.findMany({
+      where,
+      orderBy: { observedAt: 'asc' },
+    });
+  }
+}
+
+export default new PriceObservationService();
+export { PriceObservationService };
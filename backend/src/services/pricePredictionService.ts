@@ -0,0 +1,414 @@
+import { PriceObservation } from '@prisma/client';
+import { logger } from '../utils/logger';
+import cacheService from './cacheService';
+import { ClassType } from './flightModel';
+import priceObservationService from './priceObservationService';
+
+type TrainingObservation = Pick<
+  PriceObservation,
+  'departureDate' | 'daysBeforeDeparture' | 'price' | 'observedAt'
+>;
+
+export interface PriceModel {
+  coefficients: number[]; // sobre o log do preço, na ordem de buildFeatures
+  residualStdDev: number; // desvio dos resíduos, em log
+  observations: number;
+  currency: string;
+  trainedAt: string;
+}
+
+export interface PriceProjection {
+  date: string; // dia da compra (yyyy-MM-dd)
+  daysBeforeDeparture: number;
+  price: number;
+  lower: number;
+  upper: number;
+}
+
+export interface PriceForecast {
+  action: 'buy' | 'wait';
+  confidence: number; // 0-1, chance de a decisão estar certa
+  currentPrice: number;
+  bestPurchaseDate: string;
+  bestPrice: number;
+  expectedSavings: number;
+  interval: { lower: number; upper: number; level: number };
+  projections: PriceProjection[];
+  seasonalEffect: number; // variação da época da partida, -0.1 = 10% mais barata
+  dayOfWeekEffect: number; // variação do dia da semana da partida
+  cheapestDayOfWeek: number; // 0 = domingo
+  currency: string;
+  observations: number;
+}
+
+export interface BacktestResult {
+  cutoff: string;
+  trainSize: number;
+  testSize: number;
+  mae: number;
+  mape: number; // erro percentual médio do modelo
+  baselineMape: number; // erro de prever sempre a média do treino
+  coverage: number; // parcela dos preços dentro do intervalo
+}
+
+export interface RouteModelQuery {
+  origin: string;
+  destination: string;
+  classType?: ClassType;
+}
+
+// Mínimo de observações para treinar e janela de histórico usada
+const MIN_OBSERVATIONS = 30;
+const TRAINING_DAYS = 365;
+// Regularização leve: rotas novas não cobrem todos os dias da semana
+const RIDGE_LAMBDA = 0.5;
+// Intervalo de 80% na normal
+const INTERVAL_LEVEL = 0.8;
+const INTERVAL_Z = 1.2816;
+// Economia mínima prevista para recomendar esperar
+const WAIT_THRESHOLD = 0.03;
+const MAX_HORIZON_DAYS = 60;
+const MODEL_CACHE_TTL = 6 * 60 * 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const dot = (a: number[], b: number[]) =>
+  a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+/**
+ * Variáveis do modelo: antecedência da compra (curva log e linear), dia da
+ * semana da partida (domingo como referência) e época do ano da partida
+ */
+export function buildFeatures(
+  departureDate: Date,
+  daysBeforeDeparture: number
+): number[] {
+  const days = Math.max(daysBeforeDeparture, 0);
+  const dayOfWeek = departureDate.getUTCDay();
+  const startOfYear = Date.UTC(departureDate.getUTCFullYear(), 0, 1);
+  const angle =
+    (2 * Math.PI * (departureDate.getTime() - startOfYear)) / (365.25 * DAY_MS);
+
+  return [
+    1,
+    Math.log1p(days),
+    days / 100,
+    ...[1, 2, 3, 4, 5, 6].map(day => (dayOfWeek === day ? 1 : 0)),
+    Math.sin(angle),
+    Math.cos(angle),
+  ];
+}
+
+// Resolve o sistema linear por eliminação de Gauss com pivoteamento parcial
+const solve = (matrix: number[][], vector: number[]): number[] => {
+  const size = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) {
+        pivot = row;
+      }
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < size; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= size; k++) {
+        a[row][k] -= factor * a[col][k];
+      }
+    }
+  }
+
+  const result = new Array(size).fill(0);
+  for (let row = size - 1; row >= 0; row--) {
+    let sum = a[row][size];
+    for (let k = row + 1; k < size; k++) {
+      sum -= a[row][k] * result[k];
+    }
+    result[row] = sum / a[row][row];
+  }
+  return result;
+};
+
+/**
+ * Regressão ridge sobre o log do preço de adulto. Retorna null sem
+ * observações suficientes.
+ */
+export function trainPriceModel(
+  observations: TrainingObservation[],
+  currency: string = 'BRL'
+): PriceModel | null {
+  const rows = observations.filter(observation => observation.price > 0);
+  if (rows.length < MIN_OBSERVATIONS) {
+    return null;
+  }
+
+  const features = rows.map(row =>
+    buildFeatures(row.departureDate, row.daysBeforeDeparture)
+  );
+  const targets = rows.map(row => Math.log(row.price));
+  const size = features[0].length;
+
+  const xtx = Array.from({ length: size }, () => new Array(size).fill(0));
+  const xty = new Array(size).fill(0);
+  features.forEach((x, n) => {
+    for (let i = 0; i < size; i++) {
+      xty[i] += x[i] * targets[n];
+      for (let j = 0; j < size; j++) {
+        xtx[i][j] += x[i] * x[j];
+      }
+    }
+  });
+  // O intercepto não é regularizado
+  for (let i = 1; i < size; i++) {
+    xtx[i][i] += RIDGE_LAMBDA;
+  }
+
+  const coefficients = solve(xtx, xty);
+  const squaredErrors = features.reduce((sum, x, n) => {
+    const residual = targets[n] - dot(coefficients, x);
+    return sum + residual * residual;
+  }, 0);
+
+  return {
+    coefficients,
+    residualStdDev: Math.sqrt(squaredErrors / Math.max(rows.length - size, 1)),
+    observations: rows.length,
+    currency,
+    trainedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Preço previsto e intervalo para comprar com a antecedência informada
+ */
+export function predictPrice(
+  model: PriceModel,
+  departureDate: Date,
+  daysBeforeDeparture: number
+): { price: number; lower: number; upper: number } {
+  const estimate = dot(
+    model.coefficients,
+    buildFeatures(departureDate, daysBeforeDeparture)
+  );
+  const margin = INTERVAL_Z * model.residualStdDev;
+
+  return {
+    price: round(Math.exp(estimate)),
+    lower: round(Math.exp(estimate - margin)),
+    upper: round(Math.exp(estimate + margin)),
+  };
+}
+
+// Função de distribuição da normal padrão (Abramowitz e Stegun 26.2.17)
+const normalCdf = (z: number): number => {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const density = Math.exp((-z * z) / 2) / Math.sqrt(2 * Math.PI);
+  const tail =
+    density *
+    t *
+    (0.31938153 +
+      t *
+        (-0.356563782 +
+          t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - tail : tail;
+};
+
+/**
+ * Projeta o preço de cada dia de compra até a partida e decide entre
+ * comprar agora ou esperar pelo dia mais barato previsto
+ */
+export function forecastPrices(
+  model: PriceModel,
+  targetDate: string,
+  today: Date = new Date()
+): PriceForecast {
+  const departure = new Date(`${targetDate.slice(0, 10)}T00:00:00Z`);
+  const startOfToday = new Date(`${toDay(today)}T00:00:00Z`);
+  const daysToDeparture = Math.max(
+    0,
+    Math.round((departure.getTime() - startOfToday.getTime()) / DAY_MS)
+  );
+  const horizon = Math.min(daysToDeparture, MAX_HORIZON_DAYS);
+
+  const projections: PriceProjection[] = [];
+  for (let offset = 0; offset <= horizon; offset++) {
+    projections.push({
+      date: toDay(new Date(startOfToday.getTime() + offset * DAY_MS)),
+      daysBeforeDeparture: daysToDeparture - offset,
+      ...predictPrice(model, departure, daysToDeparture - offset),
+    });
+  }
+
+  const [current, ...future] = projections;
+  const cheapestAhead = future.reduce<PriceProjection | null>(
+    (cheapest, projection) =>
+      !cheapest || projection.price < cheapest.price ? projection : cheapest,
+    null
+  );
+  const savings = cheapestAhead
+    ? (current.price - cheapestAhead.price) / current.price
+    : 0;
+  const action = savings >= WAIT_THRESHOLD ? 'wait' : 'buy';
+  const best = action === 'wait' && cheapestAhead ? cheapestAhead : current;
+
+  // Chance de o melhor dia à frente economizar ao menos o limite, com erros
+  // independentes nos dois dias
+  const chanceOfSaving = cheapestAhead
+    ? normalCdf(
+        Math.log((current.price * (1 - WAIT_THRESHOLD)) / cheapestAhead.price) /
+          (model.residualStdDev * Math.SQRT2 || 1)
+      )
+    : 0;
+
+  const c = model.coefficients;
+  const dayOfWeek = departure.getUTCDay();
+  const dayOfWeekEffects = [0, ...c.slice(3, 9)];
+  const cheapestDayOfWeek = dayOfWeekEffects.indexOf(
+    Math.min(...dayOfWeekEffects)
+  );
+  const seasonal = buildFeatures(departure, 0).slice(9);
+
+  return {
+    action,
+    confidence: round(action === 'wait' ? chanceOfSaving : 1 - chanceOfSaving),
+    currentPrice: current.price,
+    bestPurchaseDate: best.date,
+    bestPrice: best.price,
+    expectedSavings: round(Math.max(current.price - best.price, 0)),
+    interval: {
+      lower: current.lower,
+      upper: current.upper,
+      level: INTERVAL_LEVEL,
+    },
+    projections,
+    seasonalEffect: round(
+      Math.exp(c[9] * seasonal[0] + c[10] * seasonal[1]) - 1
+    ),
+    dayOfWeekEffect: round(
+      Math.exp(dayOfWeekEffects[dayOfWeek] - Math.min(...dayOfWeekEffects)) - 1
+    ),
+    cheapestDayOfWeek,
+    currency: model.currency,
+    observations: model.observations,
+  };
+}
+
+/**
+ * Treina com as observações anteriores ao corte e mede o erro nas
+ * posteriores, comparando com a média do treino
+ */
+export function backtestPriceModel(
+  observations: TrainingObservation[],
+  cutoff: Date
+): BacktestResult | null {
+  const train = observations.filter(row => row.observedAt < cutoff);
+  const test = observations.filter(
+    row => row.observedAt >= cutoff && row.price > 0
+  );
+  const model = trainPriceModel(train);
+
+  if (!model || test.length === 0) {
+    return null;
+  }
+
+  const trainMean =
+    train.reduce((sum, row) => sum + row.price, 0) / train.length;
+  let absoluteError = 0;
+  let percentError = 0;
+  let baselineError = 0;
+  let covered = 0;
+
+  test.forEach(row => {
+    const prediction = predictPrice(
+      model,
+      row.departureDate,
+      row.daysBeforeDeparture
+    );
+    absoluteError += Math.abs(prediction.price - row.price);
+    percentError += Math.abs(prediction.price - row.price) / row.price;
+    baselineError += Math.abs(trainMean - row.price) / row.price;
+    if (row.price >= prediction.lower && row.price <= prediction.upper) {
+      covered++;
+    }
+  });
+
+  return {
+    cutoff: cutoff.toISOString(),
+    trainSize: model.observations,
+    testSize: test.length,
+    mae: round(absoluteError / test.length),
+    mape: round((percentError / test.length) * 100),
+    baselineMape: round((baselineError / test.length) * 100),
+    coverage: round(covered / test.length),
+  };
+}
+
+class PricePredictionService {
+  /**
+   * Modelo da rota treinado com o último ano de observações, em cache por
+   * algumas horas
+   */
+  async getModel(query: RouteModelQuery): Promise<PriceModel | null> {
+    const cacheKey = `price_model_${query.origin}_${query.destination}_${query.classType || 'all'}`;
+    const cached = await cacheService.get<PriceModel | 'none'>(cacheKey);
+    if (cached) {
+      return cached === 'none' ? null : cached;
+    }
+
+    const observations = await priceObservationService.getObservations({
+      ...query,
+      days: TRAINING_DAYS,
+    });
+    const model = trainPriceModel(observations, observations[0]?.currency);
+
+    logger.info(
+      `Modelo de preço ${query.origin}-${query.destination}: ${
+        model ? `${model.observations} observações` : 'histórico insuficiente'
+      }`
+    );
+
+    await cacheService.set(cacheKey, model || 'none', MODEL_CACHE_TTL);
+    return model;
+  }
+
+  /**
+   * Previsão de compra para a data de partida, ou null sem histórico
+   */
+  async forecast(
+    query: RouteModelQuery,
+    targetDate: string
+  ): Promise<PriceForecast | null> {
+    const model = await this.getModel(query);
+    return model ? forecastPrices(model, targetDate) : null;
+  }
+
+  /**
+   * Avalia o modelo da rota contra o histórico gravado. Sem corte, usa as
+   * últimas 20% das observações como teste.
+   */
+  async backtest(
+    query: RouteModelQuery,
+    cutoff?: Date
+  ): Promise<BacktestResult | null> {
+    const observations = await priceObservationService.getObservations({
+      ...query,
+      days: TRAINING_DAYS,
+    });
+    if (observations.length === 0) {
+      return null;
+    }
+
+    const splitAt =
+      cutoff || observations[Math.floor(observations.length * 0.8)].observedAt;
+    return backtestPriceModel(observations, splitAt);
+  }
+}
+
+export default new PricePredictionService();
+export { PricePredictionService };
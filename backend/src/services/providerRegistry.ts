@@ -0,0 +1,174 @@
+import { logger } from '../utils/logger';
+import { ApiResponse } from './airlineApiService';
+import {
+  CabinClass,
+  FlightResult,
+  FlightSearchParams,
+  MultiCitySearchParams,
+} from './flightModel';
+
+export type TripType = 'oneway' | 'roundtrip' | 'multicity';
+
+// Buscas em segundo plano (cron, monitoramento) cedem a cota às interativas
+export type SearchPriority = 'interactive' | 'background';
+
+export interface SearchOptions {
+  priority?: SearchPriority;
+  fresh?: boolean; // ignora o cache (ex: reverificação de tarifas)
+}
+
+export interface ProviderCapabilities {
+  cabins: CabinClass[];
+  tripTypes: TripType[];
+  maxPassengers: number;
+}
+
+export interface FlightProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly capabilities: ProviderCapabilities;
+  searchFlights(
+    params: FlightSearchParams,
+    options?: SearchOptions
+  ): Promise<ApiResponse>;
+  getFlightDetails(flightId: string): Promise<FlightResult | null>;
+  // Tarifa única para vários trechos (provedores com 'multicity')
+  searchMultiCity?(
+    params: MultiCitySearchParams,
+    options?: SearchOptions
+  ): Promise<ApiResponse>;
+}
+
+// Provedor com tarifa única para vários trechos
+export type MultiCityProvider = FlightProvider &
+  Required<Pick<FlightProvider, 'searchMultiCity'>>;
+
+const hasMultiCity = (
+  provider: FlightProvider
+): provider is MultiCityProvider => Boolean(provider.searchMultiCity);
+
+export interface ProviderInfo {
+  id: string;
+  name: string;
+  enabled: boolean;
+  capabilities: ProviderCapabilities;
+}
+
+class ProviderRegistry {
+  private providers = new Map<string, FlightProvider>();
+
+  constructor(providers: FlightProvider[] = []) {
+    providers.forEach(provider => this.register(provider));
+  }
+
+  /**
+   * Registra um provedor de voos (substitui outro com o mesmo id)
+   */
+  register(provider: FlightProvider): void {
+    const id = provider.id.toLowerCase();
+    if (this.providers.has(id)) {
+      logger.warn(`Provedor ${provider.id} já registrado, substituindo`);
+    }
+
+    this.providers.set(id, provider);
+  }
+
+  unregister(providerId: string): void {
+    this.providers.delete(providerId.toLowerCase());
+  }
+
+  get(providerId: string): FlightProvider | undefined {
+    return this.providers.get(providerId.toLowerCase());
+  }
+
+  /**
+   * Verifica se o provedor está habilitado no ambiente atual.
+   * FLIGHT_PROVIDERS_ENABLED restringe a lista (ex: "latam,amadeus") e
+   * FLIGHT_PROVIDERS_DISABLED remove provedores específicos.
+   */
+  isEnabled(providerId: string): boolean {
+    const enabled = this.parseProviderList(
+      process.env.FLIGHT_PROVIDERS_ENABLED
+    );
+    const disabled = this.parseProviderList(
+      process.env.FLIGHT_PROVIDERS_DISABLED
+    );
+
+    const id = providerId.toLowerCase();
+
+    if (enabled.length > 0 && !enabled.includes(id)) {
+      return false;
+    }
+
+    return !disabled.includes(id);
+  }
+
+  /**
+   * Verifica se o provedor atende cabine, tipo de viagem e passageiros
+   */
+  supports(
+    provider: FlightProvider,
+    params: Pick<FlightSearchParams, 'returnDate' | 'passengers' | 'classType'>,
+    tripType: TripType = params.returnDate ? 'roundtrip' : 'oneway'
+  ): boolean {
+    const { cabins, tripTypes, maxPassengers } = provider.capabilities;
+
+    const cabinSupported =
+      params.classType === 'both'
+        ? cabins.includes('business') || cabins.includes('economy')
+        : cabins.includes(params.classType);
+
+    return (
+      cabinSupported &&
+      tripTypes.includes(tripType) &&
+      params.passengers <= maxPassengers
+    );
+  }
+
+  /**
+   * Lista os provedores habilitados, opcionalmente filtrados pelos
+   * parâmetros de uma busca
+   */
+  getProviders(params?: FlightSearchParams): FlightProvider[] {
+    return [...this.providers.values()].filter(
+      provider =>
+        this.isEnabled(provider.id) &&
+        (!params || this.supports(provider, params))
+    );
+  }
+
+  /**
+   * Provedores habilitados que vendem tarifas multi-destino para a busca
+   */
+  getMultiCityProviders(params: MultiCitySearchParams): MultiCityProvider[] {
+    return [...this.providers.values()]
+      .filter(hasMultiCity)
+      .filter(
+        provider =>
+          this.isEnabled(provider.id) &&
+          this.supports(provider, params, 'multicity')
+      );
+  }
+
+  listProviders(): ProviderInfo[] {
+    return [...this.providers.values()].map(provider => ({
+      id: provider.id,
+      name: provider.name,
+      enabled: this.isEnabled(provider.id),
+      capabilities: provider.capabilities,
+    }));
+  }
+
+  private parseProviderList(value?: string): string[] {
+    if (!value) {
+      return [];
+    }
+
+    return value
+      .split(',')
+      .map(id => id.trim().toLowerCase())
+      .filter(Boolean);
+  }
+}
+
+export { ProviderRegistry };
@@ -0,0 +1,207 @@
+import { ProviderQuota } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../utils/logger';
+import type { SearchPriority } from './providerRegistry';
+
+export type QuotaMode = 'normal' | 'interactive-only' | 'cache-only';
+
+export interface QuotaUsage {
+  provider: string;
+  dailyLimit: number | null;
+  monthlyLimit: number | null;
+  dailyCalls: number;
+  monthlyCalls: number;
+  usage: number; // maior fração consumida entre cota diária e mensal
+  mode: QuotaMode;
+}
+
+// Fração da cota a partir da qual buscas em segundo plano deixam de chamar a API
+const BACKGROUND_RATIO = parseFloat(
+  process.env.PROVIDER_QUOTA_BACKGROUND_RATIO || '0.8'
+);
+// Fração da cota a partir da qual o provedor responde apenas com cache
+const CACHE_ONLY_RATIO = parseFloat(
+  process.env.PROVIDER_QUOTA_CACHE_ONLY_RATIO || '0.95'
+);
+
+type QuotaLimits = Pick<ProviderQuota, 'dailyLimit' | 'monthlyLimit'>;
+type QuotaCounters = Pick<
+  ProviderQuota,
+  'dayKey' | 'monthKey' | 'dailyCalls' | 'monthlyCalls'
+>;
+
+/**
+ * Maior fração consumida entre cota diária e mensal (limite null = sem limite)
+ */
+export function measureUsage(quota: QuotaLimits & QuotaCounters): number {
+  return Math.max(
+    quota.dailyLimit ? quota.dailyCalls / quota.dailyLimit : 0,
+    quota.monthlyLimit ? quota.monthlyCalls / quota.monthlyLimit : 0
+  );
+}
+
+export function getQuotaMode(usage: number): QuotaMode {
+  if (usage >= CACHE_ONLY_RATIO) {
+    return 'cache-only';
+  }
+  return usage >= BACKGROUND_RATIO ? 'interactive-only' : 'normal';
+}
+
+export function getPeriodKeys(now: Date = new Date()): {
+  dayKey: string;
+  monthKey: string;
+} {
+  const today = now.toISOString();
+  return { dayKey: today.slice(0, 10), monthKey: today.slice(0, 7) };
+}
+
+/**
+ * Contadores do período atual, zerando os de dia ou mês vencidos.
+ * Retorna null quando o registro já está no período atual.
+ */
+export function rollOverPeriods(
+  quota: QuotaCounters,
+  now: Date = new Date()
+): QuotaCounters | null {
+  const { dayKey, monthKey } = getPeriodKeys(now);
+
+  if (quota.dayKey === dayKey && quota.monthKey === monthKey) {
+    return null;
+  }
+
+  return {
+    dayKey,
+    monthKey,
+    dailyCalls: quota.dayKey === dayKey ? quota.dailyCalls : 0,
+    monthlyCalls: quota.monthKey === monthKey ? quota.monthlyCalls : 0,
+  };
+}
+
+/**
+ * Limites do provedor em PROVIDER_QUOTAS="amadeus:2000:60000,latam:5000:"
+ * (provedor:diário:mensal). Valores ausentes, inválidos ou zerados = sem limite.
+ */
+export function parseQuotaLimits(value: string, provider: string): QuotaLimits {
+  const entry = value
+    .split(',')
+    .map(item => item.split(':').map(part => part.trim()))
+    .find(([id]) => id.toLowerCase() === provider.toLowerCase());
+
+  const parseLimit = (limit?: string) =>
+    limit && /^\d+$/.test(limit) && parseInt(limit) > 0
+      ? parseInt(limit)
+      : null;
+
+  return {
+    dailyLimit: parseLimit(entry?.[1]),
+    monthlyLimit: parseLimit(entry?.[2]),
+  };
+}
+
+class QuotaService {
+  /**
+   * Verifica se a busca pode chamar a API paga do provedor.
+   * Buscas em segundo plano têm uma reserva menor que as interativas.
+   */
+  async canCall(
+    provider: string,
+    priority: SearchPriority = 'interactive'
+  ): Promise<boolean> {
+    try {
+      const { mode } = await this.getUsage(provider);
+
+      if (mode === 'cache-only') {
+        return false;
+      }
+
+      return mode === 'normal' || priority === 'interactive';
+    } catch (error) {
+      // Falha no controle de cota não deve bloquear as buscas
+      logger.error(`Erro ao verificar cota do provedor ${provider}:`, error);
+      return true;
+    }
+  }
+
+  /**
+   * Registra uma chamada real à API do provedor
+   */
+  async recordCall(provider: string): Promise<void> {
+    try {
+      await this.getQuota(provider);
+      await prisma.providerQuota.update({
+        where: { provider },
+        data: {
+          dailyCalls: { increment: 1 },
+          monthlyCalls: { increment: 1 },
+        },
+      });
+    } catch (error) {
+      logger.error(`Erro ao registrar chamada do provedor ${provider}:`, error);
+    }
+  }
+
+  async getUsage(provider: string): Promise<QuotaUsage> {
+    const quota = await this.getQuota(provider);
+    const usage = measureUsage(quota);
+    const mode = getQuotaMode(usage);
+
+    return {
+      provider,
+      dailyLimit: quota.dailyLimit,
+      monthlyLimit: quota.monthlyLimit,
+      dailyCalls: quota.dailyCalls,
+      monthlyCalls: quota.monthlyCalls,
+      usage,
+      mode,
+    };
+  }
+
+  /**
+   * Define os limites de chamadas de um provedor (null = sem limite)
+   */
+  async setLimits(
+    provider: string,
+    dailyLimit: number | null,
+    monthlyLimit: number | null
+  ): Promise<void> {
+    await this.getQuota(provider);
+    await prisma.providerQuota.update({
+      where: { provider },
+      data: { dailyLimit, monthlyLimit },
+    });
+  }
+
+  // Busca (ou cria) o registro do provedor, zerando contadores de períodos vencidos
+  private async getQuota(provider: string): Promise<ProviderQuota> {
+    const now = new Date();
+    const { dayKey, monthKey } = getPeriodKeys(now);
+    const quota = await prisma.providerQuota.findUnique({
+      where: { provider },
+    });
+
+    if (!quota) {
+      const limits = parseQuotaLimits(
+        process.env.PROVIDER_QUOTAS || '',
+        provider
+      );
+      return prisma.providerQuota.upsert({
+        where: { provider },
+        update: {},
+        create: { provider, dayKey, monthKey, ...limits },
+      });
+    }
+
+    const counters = rollOverPeriods(quota, now);
+    if (!counters) {
+      return quota;
+    }
+
+    return prisma.providerQuota.update({
+      where: { provider },
+      data: counters,
+    });
+  }
+}
+
+export default new QuotaService();
+export { QuotaService };
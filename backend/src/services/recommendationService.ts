@@ -1,11 +1,16 @@
 import { logger } from '../utils/logger';
-import { FlightResult } from './airlineApiService';
-import {
-  FlexibleSearchResult,
-  PriceCalendarEntry,
-} from './flexibleSearchService';
+import { getLocalHour } from '../utils/timezone';
+import { ClassType, FlightResult } from './flightModel';
+import { FlexibleSearchResult } from './flexibleSearchService';
 import { prisma } from '../config/database';
 import cacheService from './cacheService';
+import { flightService } from './flightService';
+import airportGeoService, { NearbyAirport } from './airportGeoService';
+import pricePredictionService, {
+  PriceForecast,
+  PriceProjection,
+} from './pricePredictionService';
+import { addDays, format } from 'date-fns';
 
 export interface RecommendationCriteria {
   priceWeight: number; // 0-1
@@ -28,7 +33,7 @@ export interface FlightRecommendation {
   savings: {
     amount: number;
     percentage: number;
-    comparedTo: 'average' | 'highest';
+    comparedTo: 'average' | 'highest' | 'historical_median' | 'original_price';
   };
   tags: string[];
 }
@@ -56,6 +61,65 @@ export interface PersonalizedRecommendations {
   };
 }
 
+export interface BookingTimeRecommendation {
+  recommendation: string;
+  action: 'buy' | 'wait' | 'monitor'; // monitor: sem histórico da rota
+  confidence: number;
+  currentPrice: number | null;
+  bestPurchaseDate: string | null;
+  confidenceInterval: { lower: number; upper: number; level: number } | null;
+  priceProjection: {
+    nextWeek: number;
+    nextMonth: number;
+    trend: 'rising' | 'falling' | 'stable';
+    daily: PriceProjection[];
+  };
+  tips: string[];
+  currency: string | null;
+  observations: number;
+}
+
+// Deslocamento terrestre até um aeroporto alternativo
+export interface GroundTransfer {
+  from: string;
+  to: string;
+  distanceKm: number;
+}
+
+export interface AlternativeRoute {
+  route: string;
+  airports: string[];
+  price: number;
+  baselinePrice: number; // menor preço da rota original
+  currency: string;
+  savings: number;
+  savingsPercent: number;
+  detourTime: number; // horas estimadas de deslocamento terrestre
+  groundDistanceKm: number;
+  transfers: GroundTransfer[];
+}
+
+// Raio de busca de aeroportos alternativos e velocidade média do trajeto
+const ALTERNATIVE_AIRPORT_RADIUS_KM = 100;
+const GROUND_SPEED_KMH = 50;
+const MAX_ALTERNATIVE_SEARCHES = 8;
+
+// Percentil histórico a partir do qual a tarifa é uma oferta especial
+const SPECIAL_DEAL_PERCENTILE = 80;
+
+// Variação mínima para tratar tendência e época como relevantes
+const PRICE_TREND_THRESHOLD = 0.03;
+const SEASONAL_THRESHOLD = 0.05;
+const WEEKDAY_NAMES = [
+  'domingo',
+  'segunda-feira',
+  'terça-feira',
+  'quarta-feira',
+  'quinta-feira',
+  'sexta-feira',
+  'sábado',
+];
+
 class RecommendationService {
   private readonly DEFAULT_CRITERIA: RecommendationCriteria = {
     priceWeight: 0.4,
@@ -122,29 +186,25 @@ class RecommendationService {
   }
 
   /**
-   * Encontra ofertas especiais baseadas em padrões de preço
+   * Encontra ofertas especiais pela posição do preço no histórico da rota
+   * (dealQuality), e não pela média do próprio resultado, que pode ser todo
+   * caro
    */
   async findSpecialDeals(
-    flights: FlightResult[],
-    priceHistory?: PriceCalendarEntry[]
+    flights: FlightResult[]
   ): Promise<FlightRecommendation[]> {
     try {
       const deals: FlightRecommendation[] = [];
 
-      // Calcular preço médio e estatísticas
-      const prices = flights.map(f => f.price);
-      const avgPrice = prices.reduce((sum, p) => sum + p, 0) / prices.length;
-      const maxPrice = Math.max(...prices);
-
       for (const flight of flights) {
-        const savingsFromAvg = avgPrice - flight.price;
-        const savingsFromMax = maxPrice - flight.price;
-        const savingsPercent = (savingsFromAvg / avgPrice) * 100;
+        const { dealQuality } = flight;
+        const savingsPercent =
+          dealQuality?.savingsPercent ?? flight.discountPercent ?? 0;
 
         // Critérios para ofertas especiais
         const isSpecialDeal =
           flight.isOffer ||
-          savingsPercent >= 20 ||
+          (dealQuality && dealQuality.percentile >= SPECIAL_DEAL_PERCENTILE) ||
           (flight.discountPercent && flight.discountPercent >= 15) ||
           this.isFlashSale(flight) ||
           this.isLastMinuteDeal(flight);
@@ -159,10 +219,15 @@ class RecommendationService {
             reasons,
             category: 'best_deal',
             savings: {
-              amount: Math.max(savingsFromAvg, savingsFromMax),
+              // savingsPercent é da tarifa de adulto; aplicado ao total do grupo
+              amount:
+                savingsPercent > 0 && savingsPercent < 100
+                  ? Math.round(
+                      (flight.price * savingsPercent) / (100 - savingsPercent)
+                    )
+                  : 0,
               percentage: savingsPercent,
-              comparedTo:
-                savingsFromAvg > savingsFromMax ? 'average' : 'highest',
+              comparedTo: dealQuality ? 'historical_median' : 'original_price',
             },
             tags,
           });
@@ -178,60 +243,64 @@ class RecommendationService {
   }
 
   /**
-   * Recomenda melhor época para comprar baseado em dados históricos
+   * Recomenda comprar agora ou esperar, com base no modelo de preços da rota
+   * treinado com as observações dos provedores
    */
   async recommendBestBookingTime(
     origin: string,
     destination: string,
-    targetDate: string
-  ): Promise<{
-    recommendation: string;
-    confidence: number;
-    priceProjection: {
-      nextWeek: number;
-      nextMonth: number;
-      trend: 'rising' | 'falling' | 'stable';
-    };
-    tips: string[];
-  }> {
+    targetDate: string,
+    classType?: ClassType
+  ): Promise<BookingTimeRecommendation> {
     try {
-      const cacheKey = `booking_time_${origin}_${destination}_${targetDate}`;
-      const cached = await cacheService.get(cacheKey);
+      const cacheKey = `booking_time_${origin}_${destination}_${targetDate}_${classType || 'all'}`;
+      const cached =
+        await cacheService.get<BookingTimeRecommendation>(cacheKey);
 
       if (cached) {
-        return cached as any;
+        return cached;
       }
 
-      // Buscar dados históricos da rota
-      const historicalData = await this.getHistoricalPriceData(
-        origin,
-        destination
+      const forecast = await pricePredictionService.forecast(
+        { origin, destination, classType },
+        targetDate
       );
 
+      if (!forecast) {
+        return this.getDefaultBookingRecommendation(
+          'Ainda não há histórico de preços suficiente para esta rota. Recomendamos monitorar os preços por alguns dias antes de comprar.'
+        );
+      }
+
       // Analisar padrões sazonais
-      const seasonalAnalysis = this.analyzeSeasonalPatterns(
-        historicalData,
-        targetDate
-      );
+      const seasonalAnalysis = this.analyzeSeasonalPatterns(forecast);
 
       // Calcular tendência de preços
-      const priceTrend = this.calculatePriceTrend(historicalData);
+      const priceTrend = this.calculatePriceTrend(forecast);
 
       // Gerar recomendação
       const recommendation = this.generateBookingRecommendation(
+        forecast,
         seasonalAnalysis,
         priceTrend
       );
 
-      const result = {
+      const result: BookingTimeRecommendation = {
         recommendation: recommendation.message,
-        confidence: recommendation.confidence,
+        action: forecast.action,
+        confidence: forecast.confidence,
+        currentPrice: forecast.currentPrice,
+        bestPurchaseDate: forecast.bestPurchaseDate,
+        confidenceInterval: forecast.interval,
         priceProjection: {
-          nextWeek: recommendation.projectedPrices.nextWeek,
-          nextMonth: recommendation.projectedPrices.nextMonth,
+          nextWeek: priceTrend.nextWeek,
+          nextMonth: priceTrend.nextMonth,
           trend: priceTrend.direction,
+          daily: forecast.projections,
         },
         tips: recommendation.tips,
+        currency: forecast.currency,
+        observations: forecast.observations,
       };
 
       // Cache por 6 horas
@@ -240,80 +309,140 @@ class RecommendationService {
       return result;
     } catch (error: any) {
       logger.error('Erro ao recomendar melhor época de compra:', error.message);
-      return {
-        recommendation:
-          'Recomendamos monitorar os preços por alguns dias antes de comprar.',
-        confidence: 0.5,
-        priceProjection: {
-          nextWeek: 0,
-          nextMonth: 0,
-          trend: 'stable' as const,
-        },
-        tips: [
-          'Configure alertas de preço',
-          'Compare com outras datas próximas',
-        ],
-      };
+      return this.getDefaultBookingRecommendation(
+        'Recomendamos monitorar os preços por alguns dias antes de comprar.'
+      );
     }
   }
 
   /**
-   * Sugere rotas alternativas que podem ser mais baratas
+   * Sugere rotas por aeroportos próximos da origem e do destino (ex: CGH e
+   * VCP para GRU), comparando o menor preço de buscas reais com o da rota
+   * original. O deslocamento terrestre conta no limite de detour.
    */
   async suggestAlternativeRoutes(
     origin: string,
     destination: string,
-    maxDetour: number = 2 // horas de detour máximo
-  ): Promise<
-    {
-      route: string;
-      savings: number;
-      detourTime: number;
-      airports: string[];
-    }[]
-  > {
+    maxDetour: number = 2, // horas de detour máximo
+    departureDate: string = format(addDays(new Date(), 30), 'yyyy-MM-dd')
+  ): Promise<AlternativeRoute[]> {
     try {
-      const alternatives: any[] = [];
-
-      // Buscar aeroportos próximos
-      const nearbyOrigins = await this.getNearbyAirports(origin, 100); // 100km
-      const nearbyDestinations = await this.getNearbyAirports(destination, 100);
-
-      // Buscar rotas com conexões populares
-      const hubAirports = ['GRU', 'CGH', 'BSB', 'REC', 'FOR', 'SSA']; // Principais hubs brasileiros
-
-      for (const hub of hubAirports) {
-        if (hub !== origin && hub !== destination) {
-          // Simular busca via hub
-          const routeViaHub = `${origin}-${hub}-${destination}`;
-          const estimatedSavings = Math.random() * 500 + 100; // Simulação
-          const estimatedDetour = Math.random() * 3 + 0.5; // Simulação
-
-          if (estimatedDetour <= maxDetour) {
-            alternatives.push({
-              route: routeViaHub,
-              savings: estimatedSavings,
-              detourTime: estimatedDetour,
-              airports: [origin, hub, destination],
-            });
-          }
-        }
+      const [nearbyOrigins, nearbyDestinations] = await Promise.all([
+        airportGeoService.findNearbyAirports(
+          origin,
+          ALTERNATIVE_AIRPORT_RADIUS_KM
+        ),
+        airportGeoService.findNearbyAirports(
+          destination,
+          ALTERNATIVE_AIRPORT_RADIUS_KM
+        ),
+      ]);
+
+      const asOption = (code: string) => ({ code, distanceKm: 0 });
+      const origins: Pick<NearbyAirport, 'code' | 'distanceKm'>[] = [
+        asOption(origin),
+        ...nearbyOrigins,
+      ];
+      const destinations: Pick<NearbyAirport, 'code' | 'distanceKm'>[] = [
+        asOption(destination),
+        ...nearbyDestinations,
+      ];
+
+      // Combinações alternativas dentro do detour, das mais próximas às mais distantes
+      const candidates = origins
+        .flatMap(altOrigin =>
+          destinations.map(altDestination => ({
+            altOrigin,
+            altDestination,
+            groundDistanceKm: altOrigin.distanceKm + altDestination.distanceKm,
+          }))
+        )
+        .filter(
+          candidate =>
+            candidate.groundDistanceKm > 0 &&
+            candidate.groundDistanceKm / GROUND_SPEED_KMH <= maxDetour
+        )
+        .sort((a, b) => a.groundDistanceKm - b.groundDistanceKm)
+        .slice(0, MAX_ALTERNATIVE_SEARCHES);
+
+      if (candidates.length === 0) {
+        return [];
       }
 
-      // Adicionar aeroportos alternativos
-      for (const altOrigin of nearbyOrigins) {
-        for (const altDest of nearbyDestinations) {
-          if (altOrigin !== origin || altDest !== destination) {
-            alternatives.push({
-              route: `${altOrigin}-${altDest}`,
-              savings: Math.random() * 300 + 50,
-              detourTime: Math.random() * 1.5,
-              airports: [altOrigin, altDest],
-            });
-          }
-        }
+      const cheapestFare = async (from: string, to: string) => {
+        const result = await flightService.searchAllFlights(
+          {
+            origin: from,
+            destination: to,
+            departureDate,
+            passengers: 1,
+            classType: 'business',
+          },
+          { priority: 'background' }
+        );
+        return result.flights[0] || null;
+      };
+
+      const [baseline, ...fares] = await Promise.all([
+        cheapestFare(origin, destination),
+        ...candidates.map(candidate =>
+          cheapestFare(
+            candidate.altOrigin.code,
+            candidate.altDestination.code
+          ).catch(() => null)
+        ),
+      ]);
+
+      if (!baseline) {
+        logger.warn(
+          `Sem preço para ${origin}-${destination} em ${departureDate}, alternativas não comparadas`
+        );
+        return [];
       }
 
+      const alternatives: AlternativeRoute[] = [];
+
+      candidates.forEach((candidate, index) => {
+        const fare = fares[index];
+        if (!fare || fare.price >= baseline.price) {
+          return;
+        }
+
+        const { altOrigin, altDestination } = candidate;
+        const transfers: GroundTransfer[] = [];
+        if (altOrigin.code !== origin) {
+          transfers.push({
+            from: origin,
+            to: altOrigin.code,
+            distanceKm: altOrigin.distanceKm,
+          });
+        }
+        if (altDestination.code !== destination) {
+          transfers.push({
+            from: altDestination.code,
+            to: destination,
+            distanceKm: altDestination.distanceKm,
+          });
+        }
+
+        const savings = baseline.price - fare.price;
+
+        alternatives.push({
+          route: `${altOrigin.code}-${altDestination.code}`,
+          airports: [altOrigin.code, altDestination.code],
+          price: fare.price,
+          baselinePrice: baseline.price,
+          currency: fare.currency,
+          savings,
+          savingsPercent: Math.round((savings / baseline.price) * 100),
+          detourTime:
+            Math.round((candidate.groundDistanceKm / GROUND_SPEED_KMH) * 10) /
+            10,
+          groundDistanceKm: candidate.groundDistanceKm,
+          transfers,
+        });
+      });
+
       return alternatives.sort((a, b) => b.savings - a.savings).slice(0, 5);
     } catch (error: any) {
       logger.error('Erro ao sugerir rotas alternativas:', error.message);
@@ -402,7 +531,7 @@ class RecommendationService {
     }
 
     // Horário do voo (preferir horários comerciais)
-    const hour = new Date(flight.departureTime).getHours();
+    const hour = getLocalHour(flight.departureTime);
     if (hour >= 8 && hour <= 18) {
       score += 0.1;
     }
@@ -603,6 +732,12 @@ class RecommendationService {
   ): string[] {
     const reasons: string[] = [];
 
+    if (
+      flight.dealQuality &&
+      flight.dealQuality.percentile >= SPECIAL_DEAL_PERCENTILE
+    ) {
+      reasons.push(flight.dealQuality.description);
+    }
     if (savingsPercent >= 30) {
       reasons.push('Economia excepcional de mais de 30%');
     } else if (savingsPercent >= 20) {
@@ -642,7 +777,10 @@ class RecommendationService {
     flight: FlightResult,
     savingsPercent: number
   ): number {
-    let score = savingsPercent / 100; // Base score from savings
+    // Base: posição no histórico da rota ou, sem histórico, a economia
+    let score = flight.dealQuality
+      ? flight.dealQuality.percentile / 100
+      : savingsPercent / 100;
 
     if (flight.isOffer) {
       score += 0.2;
@@ -660,32 +798,98 @@ class RecommendationService {
     return Math.min(score, 1);
   }
 
-  // Métodos simplificados para análise histórica
-  private async getHistoricalPriceData(origin: string, destination: string) {
-    // Implementação simplificada - em produção, buscar dados reais
-    return [];
-  }
+  // Análise da previsão de preços
 
-  private analyzeSeasonalPatterns(data: any[], targetDate: string) {
-    return { peak: false, trend: 'stable' };
-  }
-
-  private calculatePriceTrend(data: any[]) {
-    return { direction: 'stable' as const, confidence: 0.5 };
+  private getDefaultBookingRecommendation(
+    message: string
+  ): BookingTimeRecommendation {
+    return {
+      recommendation: message,
+      action: 'monitor',
+      confidence: 0,
+      currentPrice: null,
+      bestPurchaseDate: null,
+      confidenceInterval: null,
+      priceProjection: {
+        nextWeek: 0,
+        nextMonth: 0,
+        trend: 'stable',
+        daily: [],
+      },
+      tips: ['Configure alertas de preço', 'Compare com outras datas próximas'],
+      currency: null,
+      observations: 0,
+    };
   }
 
-  private generateBookingRecommendation(seasonal: any, trend: any) {
+  // Efeito da época do ano e do dia da semana da partida sobre o preço
+  private analyzeSeasonalPatterns(forecast: PriceForecast) {
     return {
-      message: 'Recomendamos comprar nas próximas 2 semanas',
-      confidence: 0.7,
-      projectedPrices: { nextWeek: 0, nextMonth: 0 },
-      tips: ['Configure alertas de preço', 'Compare datas próximas'],
+      peak: forecast.seasonalEffect >= SEASONAL_THRESHOLD,
+      lowSeason: forecast.seasonalEffect <= -SEASONAL_THRESHOLD,
+      effect: forecast.seasonalEffect,
+      cheaperWeekday:
+        forecast.dayOfWeekEffect >= SEASONAL_THRESHOLD
+          ? WEEKDAY_NAMES[forecast.cheapestDayOfWeek]
+          : null,
+      weekdayEffect: forecast.dayOfWeekEffect,
     };
   }
 
-  private async getNearbyAirports(airport: string, radiusKm: number) {
-    // Implementação simplificada
-    return [];
+  // Tendência pelos preços projetados daqui a uma semana e um mês
+  private calculatePriceTrend(forecast: PriceForecast) {
+    const { projections, currentPrice } = forecast;
+    const at = (offset: number) =>
+      projections[Math.min(offset, projections.length - 1)].price;
+    const nextWeek = at(7);
+    const nextMonth = at(30);
+    const change = (nextWeek - currentPrice) / currentPrice;
+
+    let direction: 'rising' | 'falling' | 'stable' = 'stable';
+    if (change >= PRICE_TREND_THRESHOLD) {
+      direction = 'rising';
+    } else if (change <= -PRICE_TREND_THRESHOLD) {
+      direction = 'falling';
+    }
+
+    return { direction, change, nextWeek, nextMonth };
+  }
+
+  private generateBookingRecommendation(
+    forecast: PriceForecast,
+    seasonal: ReturnType<RecommendationService['analyzeSeasonalPatterns']>,
+    trend: ReturnType<RecommendationService['calculatePriceTrend']>
+  ) {
+    const money = (value: number) => `${forecast.currency} ${value.toFixed(2)}`;
+    const percent = (value: number) => `${Math.round(Math.abs(value) * 100)}%`;
+
+    const message =
+      forecast.action === 'wait'
+        ? `Aguarde: o preço deve cair para cerca de ${money(forecast.bestPrice)} até ${forecast.bestPurchaseDate} (${percent(forecast.expectedSavings / forecast.currentPrice)} abaixo do atual)`
+        : trend.direction === 'rising'
+          ? `Compre agora: os preços tendem a subir ${percent(trend.change)} na próxima semana`
+          : 'Compre agora: não há queda relevante de preço prevista até a partida';
+
+    const tips: string[] = [
+      `Faixa de preço esperada hoje: ${money(forecast.interval.lower)} a ${money(forecast.interval.upper)}`,
+    ];
+    if (seasonal.peak) {
+      tips.push(
+        `A data escolhida é de alta temporada: preços ${percent(seasonal.effect)} acima da média`
+      );
+    } else if (seasonal.lowSeason) {
+      tips.push(
+        `A data escolhida é de baixa temporada: preços ${percent(seasonal.effect)} abaixo da média`
+      );
+    }
+    if (seasonal.cheaperWeekday) {
+      tips.push(
+        `Partidas em ${seasonal.cheaperWeekday} costumam custar até ${percent(seasonal.weekdayEffect)} menos`
+      );
+    }
+    tips.push('Configure alertas de preço');
+
+    return { message, tips };
   }
 
   private extractPreferredAirlines(searches: any[]) {
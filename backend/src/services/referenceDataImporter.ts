@@ -0,0 +1,599 @@
+import { readFile } from 'fs/promises';
+import { basename } from 'path';
+import { Prisma } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { prisma } from '../config/database';
+import airportGeoService from './airportGeoService';
+
+export interface AirportRecord {
+  code: string; // IATA
+  icaoCode: string | null;
+  name: string;
+  city: string;
+  country: string;
+  timezone: string | null; // OurAirports não traz fuso horário
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface AirlineRecord {
+  code: string; // IATA
+  icaoCode: string | null;
+  name: string;
+  country: string;
+  alliance: string | null;
+  isActive: boolean;
+}
+
+export type ImportAction = 'created' | 'updated' | 'unchanged' | 'skipped';
+
+export interface ImportChange {
+  code: string;
+  action: ImportAction;
+  fields?: string[]; // campos alterados (updated)
+  reason?: string; // motivo do descarte (skipped)
+}
+
+export interface ImportReport {
+  entity: 'airports' | 'airlines';
+  source: string;
+  dryRun: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  changes: ImportChange[]; // apenas o que foi criado, alterado ou descartado
+}
+
+export interface ImportOptions {
+  dryRun?: boolean;
+  alliancesPath?: string; // CSV "code,alliance" aplicado sobre as companhias
+}
+
+export interface ParsedRecords<T> {
+  records: T[];
+  skipped: ImportChange[];
+}
+
+export interface RecordDiff<T> {
+  created: T[];
+  updated: { record: Partial<T> & { code: string }; fields: string[] }[];
+  unchanged: string[];
+}
+
+const WRITE_BATCH_SIZE = 200;
+
+// Valor nulo do OpenFlights
+const NULL_VALUES = new Set(['', '\\N', '-', 'N/A']);
+
+const AIRPORT_COLUMNS: Record<keyof AirportRecord | 'type', string[]> = {
+  code: ['iata_code', 'iata', 'code'],
+  icaoCode: ['icao_code', 'icao', 'gps_code', 'ident'],
+  name: ['name'],
+  city: ['municipality', 'city'],
+  country: ['iso_country', 'country'],
+  timezone: ['tz_database_time_zone', 'timezone', 'tz'],
+  latitude: ['latitude_deg', 'latitude', 'lat'],
+  longitude: ['longitude_deg', 'longitude', 'lon', 'lng'],
+  type: ['type'],
+};
+
+const AIRLINE_COLUMNS: Record<keyof AirlineRecord, string[]> = {
+  code: ['iata_code', 'iata', 'code', 'airline'],
+  icaoCode: ['icao_code', 'icao'],
+  name: ['name'],
+  country: ['country', 'iso_country'],
+  alliance: ['alliance'],
+  isActive: ['active', 'is_active'],
+};
+
+// Posições das colunas nos arquivos sem cabeçalho do OpenFlights
+// (airports.dat e airlines.dat)
+const OPENFLIGHTS_AIRPORT_POSITIONS: Record<
+  keyof AirportRecord | 'type',
+  number
+> = {
+  name: 1,
+  city: 2,
+  country: 3,
+  code: 4,
+  icaoCode: 5,
+  latitude: 6,
+  longitude: 7,
+  timezone: 11,
+  type: 12,
+};
+
+const OPENFLIGHTS_AIRLINE_POSITIONS: Record<keyof AirlineRecord, number> = {
+  name: 1,
+  code: 3,
+  icaoCode: 4,
+  country: 6,
+  isActive: 7,
+  alliance: -1,
+};
+
+// Tipos de aeroporto do OurAirports/OpenFlights que não recebem voos comerciais
+const IGNORED_AIRPORT_TYPES = new Set([
+  'closed',
+  'heliport',
+  'seaplane_base',
+  'balloonport',
+  'station',
+  'port',
+  'unknown',
+]);
+
+const AIRPORT_FIELDS: (keyof AirportRecord)[] = [
+  'icaoCode',
+  'name',
+  'city',
+  'country',
+  'timezone',
+  'latitude',
+  'longitude',
+];
+
+const AIRLINE_FIELDS: (keyof AirlineRecord)[] = [
+  'icaoCode',
+  'name',
+  'country',
+  'alliance',
+  'isActive',
+];
+
+/**
+ * Interpreta um CSV (RFC 4180): campos entre aspas podem conter vírgulas,
+ * quebras de linha e aspas duplicadas
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+const clean = (value: string | undefined): string | null => {
+  const trimmed = value?.trim();
+  return trimmed === undefined || NULL_VALUES.has(trimmed) ? null : trimmed;
+};
+
+const toCoordinate = (value: string | undefined): number | null => {
+  const parsed = parseFloat(clean(value) ?? '');
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const toCode = (value: string | undefined, pattern: RegExp): string | null => {
+  const code = clean(value)?.toUpperCase();
+  return code && pattern.test(code) ? code : null;
+};
+
+/**
+ * Monta um leitor de colunas a partir do cabeçalho (CSV do OurAirports ou
+ * planilhas próprias) ou das posições fixas do OpenFlights, que não tem
+ * cabeçalho
+ */
+function createColumnReader<K extends string>(
+  rows: string[][],
+  aliases: Record<K, string[]>,
+  positions: Record<K, number>
+) {
+  const header = rows[0]?.map(cell => cell.trim().toLowerCase()) || [];
+  const knownNames = new Set(Object.values<string[]>(aliases).flat());
+  const hasHeader = header.some(cell => knownNames.has(cell));
+
+  if (!hasHeader) {
+    return {
+      dataRows: rows,
+      read: (row: string[], column: K): string =>
+        positions[column] >= 0 ? row[positions[column]] : '',
+    };
+  }
+
+  const indexes = {} as Record<K, number>;
+  (Object.keys(aliases) as K[]).forEach(column => {
+    const alias = aliases[column].find(name => header.includes(name));
+    indexes[column] = alias ? header.indexOf(alias) : -1;
+  });
+
+  return {
+    dataRows: rows.slice(1),
+    read: (row: string[], column: K): string =>
+      indexes[column] >= 0 ? row[indexes[column]] : '',
+  };
+}
+
+/**
+ * Aeroportos do airports.dat (OpenFlights) ou airports.csv (OurAirports).
+ * Apenas aeroportos com código IATA são importados; o primeiro registro de
+ * cada código prevalece.
+ */
+export function parseAirports(rows: string[][]): ParsedRecords<AirportRecord> {
+  const { dataRows, read } = createColumnReader(
+    rows,
+    AIRPORT_COLUMNS,
+    OPENFLIGHTS_AIRPORT_POSITIONS
+  );
+  const records = new Map<string, AirportRecord>();
+  const skipped: ImportChange[] = [];
+
+  dataRows.forEach((row, index) => {
+    const code = toCode(read(row, 'code'), /^[A-Z0-9]{3}$/);
+    const name = clean(read(row, 'name'));
+    const type = clean(read(row, 'type'))?.toLowerCase();
+
+    // Sem IATA não há como buscar voos: descartado sem constar no relatório
+    if (!code) {
+      return;
+    }
+
+    if (type && IGNORED_AIRPORT_TYPES.has(type)) {
+      skipped.push({ code, action: 'skipped', reason: `tipo ${type}` });
+      return;
+    }
+
+    if (!name) {
+      skipped.push({
+        code,
+        action: 'skipped',
+        reason: `linha ${index + 1} sem nome`,
+      });
+      return;
+    }
+
+    if (records.has(code)) {
+      skipped.push({ code, action: 'skipped', reason: 'código duplicado' });
+      return;
+    }
+
+    records.set(code, {
+      code,
+      icaoCode: toCode(read(row, 'icaoCode'), /^[A-Z0-9]{4}$/),
+      name,
+      city: clean(read(row, 'city')) || name,
+      country: clean(read(row, 'country')) || '',
+      timezone: clean(read(row, 'timezone')),
+      latitude: toCoordinate(read(row, 'latitude')),
+      longitude: toCoordinate(read(row, 'longitude')),
+    });
+  });
+
+  return { records: [...records.values()], skipped };
+}
+
+/**
+ * Companhias do airlines.dat (OpenFlights) ou de um CSV com cabeçalho.
+ * O OpenFlights repete códigos IATA de companhias extintas, então a ativa
+ * prevalece sobre a inativa.
+ */
+export function parseAirlines(rows: string[][]): ParsedRecords<AirlineRecord> {
+  const { dataRows, read } = createColumnReader(
+    rows,
+    AIRLINE_COLUMNS,
+    OPENFLIGHTS_AIRLINE_POSITIONS
+  );
+  const records = new Map<string, AirlineRecord>();
+  const skipped: ImportChange[] = [];
+
+  dataRows.forEach(row => {
+    const code = toCode(read(row, 'code'), /^[A-Z0-9]{2}$/);
+    const name = clean(read(row, 'name'));
+
+    if (!code) {
+      return;
+    }
+
+    if (!name) {
+      skipped.push({ code, action: 'skipped', reason: 'sem nome' });
+      return;
+    }
+
+    const active = clean(read(row, 'isActive'))?.toLowerCase();
+    const record: AirlineRecord = {
+      code,
+      icaoCode: toCode(read(row, 'icaoCode'), /^[A-Z]{3}$/),
+      name,
+      country: clean(read(row, 'country')) || '',
+      alliance: clean(read(row, 'alliance')),
+      isActive:
+        active === undefined || ['y', 'yes', 'true', '1'].includes(active),
+    };
+
+    const current = records.get(code);
+    if (current && (current.isActive || !record.isActive)) {
+      return;
+    }
+
+    records.set(code, record);
+  });
+
+  return { records: [...records.values()], skipped };
+}
+
+/**
+ * Aplica as alianças de um CSV "code,alliance" (ex: "LA,oneworld") sobre as
+ * companhias importadas
+ */
+export function applyAlliances(
+  airlines: AirlineRecord[],
+  rows: string[][]
+): AirlineRecord[] {
+  const { dataRows, read } = createColumnReader(rows, AIRLINE_COLUMNS, {
+    ...OPENFLIGHTS_AIRLINE_POSITIONS,
+    code: 0,
+    alliance: 1,
+  });
+  const alliances = new Map<string, string>();
+
+  dataRows.forEach(row => {
+    const code = toCode(read(row, 'code'), /^[A-Z0-9]{2}$/);
+    const alliance = clean(read(row, 'alliance'));
+    if (code && alliance) {
+      alliances.set(code, alliance);
+    }
+  });
+
+  return airlines.map(airline =>
+    alliances.has(airline.code)
+      ? { ...airline, alliance: alliances.get(airline.code) as string }
+      : airline
+  );
+}
+
+/**
+ * Compara os registros importados com os já cadastrados. Campos vazios no
+ * arquivo não apagam o que já existe, então reimportar o mesmo arquivo não
+ * gera alterações.
+ */
+export function diffRecords<T extends { code: string }>(
+  incoming: T[],
+  existing: T[],
+  fields: (keyof T)[]
+): RecordDiff<T> {
+  const current = new Map(existing.map(record => [record.code, record]));
+  const diff: RecordDiff<T> = { created: [], updated: [], unchanged: [] };
+
+  incoming.forEach(record => {
+    const stored = current.get(record.code);
+
+    if (!stored) {
+      diff.created.push(record);
+      return;
+    }
+
+    const changed = fields.filter(
+      field =>
+        record[field] !== null &&
+        record[field] !== undefined &&
+        record[field] !== stored[field]
+    );
+
+    if (changed.length === 0) {
+      diff.unchanged.push(record.code);
+      return;
+    }
+
+    const update = { code: record.code } as Partial<T> & { code: string };
+    changed.forEach(field => {
+      update[field] = record[field];
+    });
+    diff.updated.push({ record: update, fields: changed.map(String) });
+  });
+
+  return diff;
+}
+
+const buildReport = <T extends { code: string }>(
+  entity: ImportReport['entity'],
+  source: string,
+  dryRun: boolean,
+  diff: RecordDiff<T>,
+  skipped: ImportChange[]
+): ImportReport => ({
+  entity,
+  source,
+  dryRun,
+  total:
+    diff.created.length +
+    diff.updated.length +
+    diff.unchanged.length +
+    skipped.length,
+  created: diff.created.length,
+  updated: diff.updated.length,
+  unchanged: diff.unchanged.length,
+  skipped: skipped.length,
+  changes: [
+    ...diff.created.map(record => ({
+      code: record.code,
+      action: 'created' as const,
+    })),
+    ...diff.updated.map(({ record, fields }) => ({
+      code: record.code,
+      action: 'updated' as const,
+      fields,
+    })),
+    ...skipped,
+  ],
+});
+
+class ReferenceDataImporter {
+  /**
+   * Importa aeroportos de um arquivo do OpenFlights ou do OurAirports
+   */
+  async importAirports(
+    filePath: string,
+    options: ImportOptions = {}
+  ): Promise<ImportReport> {
+    const { records, skipped } = parseAirports(
+      parseCsv(await readFile(filePath, 'utf-8'))
+    );
+
+    const existing = await prisma.airport.findMany({
+      select: {
+        code: true,
+        icaoCode: true,
+        name: true,
+        city: true,
+        country: true,
+        timezone: true,
+        latitude: true,
+        longitude: true,
+      },
+    });
+
+    const diff = diffRecords<AirportRecord>(records, existing, AIRPORT_FIELDS);
+
+    // O fuso horário é obrigatório no cadastro de aeroportos
+    const creatable = diff.created.filter(record => record.timezone);
+    diff.created
+      .filter(record => !record.timezone)
+      .forEach(record =>
+        skipped.push({
+          code: record.code,
+          action: 'skipped',
+          reason: 'sem fuso horário',
+        })
+      );
+    diff.created = creatable;
+
+    if (!options.dryRun) {
+      await this.writeInBatches([
+        ...diff.created.map(record =>
+          prisma.airport.create({
+            data: { ...record, timezone: record.timezone as string },
+          })
+        ),
+        ...diff.updated.map(({ record: { code, ...data } }) =>
+          prisma.airport.update({
+            where: { code },
+            data: { ...data, timezone: data.timezone ?? undefined },
+          })
+        ),
+      ]);
+
+      await airportGeoService.invalidate();
+    }
+
+    return this.logReport(
+      buildReport(
+        'airports',
+        basename(filePath),
+        Boolean(options.dryRun),
+        diff,
+        skipped
+      )
+    );
+  }
+
+  /**
+   * Importa companhias aéreas de um arquivo do OpenFlights ou de um CSV com
+   * cabeçalho, opcionalmente com as alianças de um segundo arquivo
+   */
+  async importAirlines(
+    filePath: string,
+    options: ImportOptions = {}
+  ): Promise<ImportReport> {
+    const parsed = parseAirlines(parseCsv(await readFile(filePath, 'utf-8')));
+    const records = options.alliancesPath
+      ? applyAlliances(
+          parsed.records,
+          parseCsv(await readFile(options.alliancesPath, 'utf-8'))
+        )
+      : parsed.records;
+
+    const existing = await prisma.airline.findMany({
+      select: {
+        code: true,
+        icaoCode: true,
+        name: true,
+        country: true,
+        alliance: true,
+        isActive: true,
+      },
+    });
+
+    const diff = diffRecords<AirlineRecord>(records, existing, AIRLINE_FIELDS);
+
+    if (!options.dryRun) {
+      await this.writeInBatches([
+        ...diff.created.map(record => prisma.airline.create({ data: record })),
+        ...diff.updated.map(({ record: { code, ...data } }) =>
+          prisma.airline.update({ where: { code }, data })
+        ),
+      ]);
+    }
+
+    return this.logReport(
+      buildReport(
+        'airlines',
+        basename(filePath),
+        Boolean(options.dryRun),
+        diff,
+        parsed.skipped
+      )
+    );
+  }
+
+  // Grava em transações de tamanho limitado para não travar o SQLite
+  private async writeInBatches(
+    operations: Prisma.PrismaPromise<unknown>[]
+  ): Promise<void> {
+    for (let i = 0; i < operations.length; i += WRITE_BATCH_SIZE) {
+      await prisma.$transaction(operations.slice(i, i + WRITE_BATCH_SIZE));
+    }
+  }
+
+  private logReport(report: ImportReport): ImportReport {
+    logger.info(
+      `Importação de ${report.entity} (${report.source})${
+        report.dryRun ? ' [simulação]' : ''
+      }: ${report.created} criados, ${report.updated} atualizados, ` +
+        `${report.unchanged} sem alteração, ${report.skipped} descartados`
+    );
+    return report;
+  }
+}
+
+export default new ReferenceDataImporter();
+export { ReferenceDataImporter };
@@ -0,0 +1,278 @@
+import { logger } from '../utils/logger';
+import cacheService from './cacheService';
+import { flightService } from './flightService';
+import { FlightResult, FlightSearchParams } from './flightModel';
+import { FlightSlice } from './itinerary';
+import { getSliceFingerprint } from './offerMerger';
+import { SearchOptions } from './providerRegistry';
+import { PassengerPrice, combineBreakdowns } from './passengers';
+
+export type RoundTripFareType = 'round-trip' | 'one-way-combination';
+
+// Combinação precificada de ida e volta
+export interface RoundTripOption {
+  id: string;
+  outboundKey: string;
+  returnKey: string;
+  outbound: FlightSlice;
+  inbound: FlightSlice;
+  price: number; // total do grupo de passageiros
+  priceBreakdown: PassengerPrice[];
+  currency: string;
+  fareType: RoundTripFareType;
+  airline: string;
+  classType: string;
+  offerIds: string[]; // uma oferta (tarifa ida e volta) ou duas (só ida)
+  bookingUrls: string[];
+  oneWayPrice?: number; // soma das tarifas só ida dos mesmos trechos
+  savings?: number; // economia da tarifa ida e volta sobre os dois trechos
+}
+
+export interface OutboundChoice {
+  key: string;
+  slice: FlightSlice;
+  airline: string;
+  fromPrice: number; // menor preço total de ida e volta com este trecho
+  currency: string;
+  returnOptions: number;
+  hasRoundTripFare: boolean;
+}
+
+export interface RoundTripSearchResult {
+  searchId: string;
+  outbounds: OutboundChoice[];
+  cheapest: RoundTripOption | null;
+  totalOptions: number;
+}
+
+export interface PairingOptions {
+  maxPerLeg: number; // trechos só ida mais baratos combinados por sentido
+}
+
+const DEFAULT_PAIRING: PairingOptions = {
+  maxPerLeg: 15,
+};
+
+// Validade das combinações para a escolha da volta
+const ROUND_TRIP_TTL_SECONDS =
+  parseInt(process.env.SEARCH_SESSION_TTL_MINUTES || '30') * 60;
+
+/**
+ * Monta as combinações de ida e volta a partir das tarifas ida e volta
+ * e da combinação de dois trechos só ida. Para o mesmo par de trechos
+ * prevalece o menor preço.
+ */
+export function pairRoundTrips(
+  roundTripOffers: FlightResult[],
+  outboundOffers: FlightResult[],
+  returnOffers: FlightResult[],
+  options: Partial<PairingOptions> = {}
+): RoundTripOption[] {
+  const { maxPerLeg } = { ...DEFAULT_PAIRING, ...options };
+  const pairs = new Map<string, RoundTripOption>();
+
+  const add = (option: RoundTripOption) => {
+    const current = pairs.get(option.id);
+    if (!current || option.price < current.price) {
+      pairs.set(option.id, option);
+    }
+  };
+
+  // Menor preço só ida de cada trecho, para calcular a economia
+  const cheapestOneWay = new Map<string, number>();
+  [...outboundOffers, ...returnOffers].forEach(offer => {
+    const key = getSliceFingerprint(offer.slices[0]);
+    const current = cheapestOneWay.get(key);
+    if (current === undefined || offer.price < current) {
+      cheapestOneWay.set(key, offer.price);
+    }
+  });
+
+  roundTripOffers
+    .filter(offer => offer.slices.length >= 2)
+    .forEach(offer => {
+      const [outbound, inbound] = offer.slices;
+      const outboundKey = getSliceFingerprint(outbound);
+      const returnKey = getSliceFingerprint(inbound);
+      const outboundPrice = cheapestOneWay.get(outboundKey);
+      const returnPrice = cheapestOneWay.get(returnKey);
+      const oneWayPrice =
+        outboundPrice !== undefined && returnPrice !== undefined
+          ? outboundPrice + returnPrice
+          : undefined;
+
+      add({
+        id: `${outboundKey}::${returnKey}`,
+        outboundKey,
+        returnKey,
+        outbound,
+        inbound,
+        price: offer.price,
+        priceBreakdown: offer.priceBreakdown || [],
+        currency: offer.currency,
+        fareType: 'round-trip',
+        airline: offer.airline.name,
+        classType: offer.classType,
+        offerIds: [offer.id],
+        bookingUrls: [offer.bookingUrl],
+        oneWayPrice,
+        savings:
+          oneWayPrice !== undefined && oneWayPrice > offer.price
+            ? oneWayPrice - offer.price
+            : undefined,
+      });
+    });
+
+  const cheapest = (offers: FlightResult[]) =>
+    [...offers].sort((a, b) => a.price - b.price).slice(0, maxPerLeg);
+
+  cheapest(outboundOffers).forEach(outboundOffer => {
+    const outbound = outboundOffer.slices[0];
+
+    cheapest(returnOffers)
+      // A volta precisa partir depois da chegada da ida
+      .filter(
+        returnOffer =>
+          new Date(returnOffer.slices[0].departureTime).getTime() >
+          new Date(outbound.arrivalTime).getTime()
+      )
+      .forEach(returnOffer => {
+        const inbound = returnOffer.slices[0];
+        const outboundKey = getSliceFingerprint(outbound);
+        const returnKey = getSliceFingerprint(inbound);
+
+        add({
+          id: `${outboundKey}::${returnKey}`,
+          outboundKey,
+          returnKey,
+          outbound,
+          inbound,
+          price: outboundOffer.price + returnOffer.price,
+          priceBreakdown: combineBreakdowns([
+            outboundOffer.priceBreakdown || [],
+            returnOffer.priceBreakdown || [],
+          ]),
+          currency: outboundOffer.currency,
+          fareType: 'one-way-combination',
+          airline:
+            outboundOffer.airline.code === returnOffer.airline.code
+              ? outboundOffer.airline.name
+              : `${outboundOffer.airline.name} / ${returnOffer.airline.name}`,
+          classType: outboundOffer.classType,
+          offerIds: [outboundOffer.id, returnOffer.id],
+          bookingUrls: [outboundOffer.bookingUrl, returnOffer.bookingUrl],
+        });
+      });
+  });
+
+  return [...pairs.values()].sort((a, b) => a.price - b.price);
+}
+
+/**
+ * Agrupa as combinações pelo trecho de ida, com o menor preço total de cada um
+ */
+export function groupByOutbound(options: RoundTripOption[]): OutboundChoice[] {
+  const choices = new Map<string, OutboundChoice>();
+
+  options.forEach(option => {
+    const choice = choices.get(option.outboundKey);
+
+    if (!choice) {
+      choices.set(option.outboundKey, {
+        key: option.outboundKey,
+        slice: option.outbound,
+        airline: option.airline,
+        fromPrice: option.price,
+        currency: option.currency,
+        returnOptions: 1,
+        hasRoundTripFare: option.fareType === 'round-trip',
+      });
+      return;
+    }
+
+    choice.returnOptions++;
+    choice.hasRoundTripFare =
+      choice.hasRoundTripFare || option.fareType === 'round-trip';
+    if (option.price < choice.fromPrice) {
+      choice.fromPrice = option.price;
+      choice.airline = option.airline;
+    }
+  });
+
+  return [...choices.values()].sort((a, b) => a.fromPrice - b.fromPrice);
+}
+
+class RoundTripService {
+  /**
+   * Busca de ida e volta: tarifas ida e volta dos provedores e os dois
+   * sentidos só ida, em paralelo
+   */
+  async search(
+    params: FlightSearchParams,
+    options: SearchOptions = {}
+  ): Promise<RoundTripSearchResult> {
+    if (!params.returnDate) {
+      throw new Error('Data de retorno é obrigatória para ida e volta');
+    }
+
+    const oneWay = { ...params, returnDate: undefined };
+    const [roundTrip, outbound, inbound] = await Promise.all([
+      flightService.searchAllFlights(params, options),
+      flightService.searchAllFlights(oneWay, options),
+      flightService.searchAllFlights(
+        {
+          ...oneWay,
+          origin: params.destination,
+          destination: params.origin,
+          departureDate: params.returnDate,
+        },
+        options
+      ),
+    ]);
+
+    const pairs = pairRoundTrips(
+      roundTrip.flights,
+      outbound.flights,
+      inbound.flights
+    );
+
+    await cacheService.set(
+      `roundtrip_${roundTrip.searchId}`,
+      pairs,
+      ROUND_TRIP_TTL_SECONDS
+    );
+
+    logger.info(
+      `Ida e volta ${params.origin}-${params.destination}: ${pairs.length} combinações`
+    );
+
+    return {
+      searchId: roundTrip.searchId,
+      outbounds: groupByOutbound(pairs),
+      cheapest: pairs[0] || null,
+      totalOptions: pairs.length,
+    };
+  }
+
+  /**
+   * Voltas disponíveis para o trecho de ida escolhido, com o preço total
+   * (null quando a busca expirou)
+   */
+  async getReturns(
+    searchId: string,
+    outboundKey: string
+  ): Promise<RoundTripOption[] | null> {
+    const pairs = await cacheService.get<RoundTripOption[]>(
+      `roundtrip_${searchId}`
+    );
+
+    if (!pairs) {
+      return null;
+    }
+
+    return pairs.filter(option => option.outboundKey === outboundKey);
+  }
+}
+
+export default new RoundTripService();
+export { RoundTripService };
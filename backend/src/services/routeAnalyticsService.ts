@@ -0,0 +1,343 @@
+import { PriceObservation } from '@prisma/client';
+import { prisma } from '../config/database';
+import cacheService from './cacheService';
+import {
+  BOOKING_WINDOWS,
+  BookingWindow,
+  getBookingWindowIndex,
+} from './dealQualityService';
+import { ClassType } from './flightModel';
+import priceObservationService, {
+  DailyPriceStats,
+  buildDailyStats,
+} from './priceObservationService';
+
+export interface RouteAnalyticsQuery {
+  origin: string;
+  destination: string;
+  classType?: ClassType; // 'both' ou ausente: todas as cabines
+  days?: number; // janela de observação, até hoje
+}
+
+export interface PriceSummary {
+  avgPrice: number | null;
+  minPrice: number | null;
+  sampleSize: number;
+}
+
+export interface WeekdayStats extends PriceSummary {
+  dayOfWeek: number; // 0 = domingo, pelo dia da partida
+}
+
+export interface BookingWindowStats extends PriceSummary {
+  bookingWindow: BookingWindow;
+}
+
+export interface CarrierShare {
+  airlineCode: string;
+  airlineName: string;
+  offers: number;
+  sharePercent: number; // % das ofertas observadas na rota
+  avgPrice: number;
+  cheapestPercent: number; // % dos dias em que teve a menor tarifa
+}
+
+export type VolatilityLevel = 'low' | 'medium' | 'high';
+
+export interface RouteVolatility {
+  coefficientOfVariation: number; // desvio padrão / média das médias diárias (%)
+  avgDailyChange: number; // variação média entre dias seguidos (%)
+  level: VolatilityLevel;
+  days: number;
+}
+
+export interface RouteSearchVolume {
+  searchCount: number;
+  lastSearched: Date;
+  avgPrice: number | null;
+  rank: number; // posição entre as rotas mais buscadas
+}
+
+export interface RouteAnalytics {
+  origin: string;
+  destination: string;
+  classType: ClassType;
+  periodDays: number;
+  currency: string;
+  observations: number;
+  fareTrend: Record<string, DailyPriceStats[]>; // por cabine
+  weekdays: WeekdayStats[];
+  cheapestWeekday: number | null;
+  bookingWindows: BookingWindowStats[];
+  cheapestBookingWindow: BookingWindow | null;
+  carriers: CarrierShare[];
+  volatility: RouteVolatility | null;
+  searchVolume: RouteSearchVolume | null;
+  generatedAt: Date;
+}
+
+const DEFAULT_DAYS = 90;
+// Grupos com menos observações não disputam o "mais barato"
+const MIN_GROUP_SIZE = 5;
+const MIN_VOLATILITY_DAYS = 7;
+const ANALYTICS_CACHE_TTL = 30 * 60;
+
+// Coeficiente de variação (%) a partir do qual a rota sobe de nível
+const VOLATILITY_LEVELS: { minCoefficient: number; level: VolatilityLevel }[] =
+  [
+    { minCoefficient: 25, level: 'high' },
+    { minCoefficient: 10, level: 'medium' },
+    { minCoefficient: 0, level: 'low' },
+  ];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const average = (values: number[]) =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function summarize(prices: number[]): PriceSummary {
+  return prices.length > 0
+    ? {
+        avgPrice: round(average(prices)),
+        minPrice: Math.min(...prices),
+        sampleSize: prices.length,
+      }
+    : { avgPrice: null, minPrice: null, sampleSize: 0 };
+}
+
+/**
+ * Índice do grupo com a menor média, entre os que têm observações
+ * suficientes
+ */
+export function findCheapest(groups: PriceSummary[]): number | null {
+  let cheapest: number | null = null;
+  let cheapestPrice = Infinity;
+
+  groups.forEach((group, index) => {
+    if (
+      group.avgPrice !== null &&
+      group.sampleSize >= MIN_GROUP_SIZE &&
+      group.avgPrice < cheapestPrice
+    ) {
+      cheapest = index;
+      cheapestPrice = group.avgPrice;
+    }
+  });
+
+  return cheapest;
+}
+
+/**
+ * Tarifas agrupadas pelo dia da semana da partida
+ */
+export function buildWeekdayStats(
+  observations: Pick<PriceObservation, 'departureDate' | 'price'>[]
+): WeekdayStats[] {
+  const byWeekday: number[][] = Array.from({ length: 7 }, () => []);
+
+  observations.forEach(observation =>
+    byWeekday[observation.departureDate.getUTCDay()].push(observation.price)
+  );
+
+  return byWeekday.map((prices, dayOfWeek) => ({
+    dayOfWeek,
+    ...summarize(prices),
+  }));
+}
+
+/**
+ * Tarifas agrupadas pelas janelas de compra usadas na qualidade da oferta
+ */
+export function buildBookingWindowStats(
+  observations: Pick<PriceObservation, 'daysBeforeDeparture' | 'price'>[]
+): BookingWindowStats[] {
+  const byWindow: number[][] = BOOKING_WINDOWS.map(() => []);
+
+  observations.forEach(observation =>
+    byWindow[getBookingWindowIndex(observation.daysBeforeDeparture)].push(
+      observation.price
+    )
+  );
+
+  return byWindow.map((prices, index) => ({
+    bookingWindow: BOOKING_WINDOWS[index],
+    ...summarize(prices),
+  }));
+}
+
+/**
+ * Participação de cada companhia nas ofertas observadas e nos dias em que
+ * ela teve a menor tarifa da rota
+ */
+export function buildCarrierShare(
+  observations: Pick<
+    PriceObservation,
+    'airlineCode' | 'airlineName' | 'price' | 'observedAt'
+  >[]
+): CarrierShare[] {
+  const carriers = new Map<string, { name: string; prices: number[] }>();
+  const cheapestByDate = new Map<string, { code: string; price: number }>();
+
+  observations.forEach(observation => {
+    const carrier = carriers.get(observation.airlineCode) || {
+      name: observation.airlineName,
+      prices: [],
+    };
+    carrier.prices.push(observation.price);
+    carriers.set(observation.airlineCode, carrier);
+
+    const date = observation.observedAt.toISOString().slice(0, 10);
+    const cheapest = cheapestByDate.get(date);
+    if (!cheapest || observation.price < cheapest.price) {
+      cheapestByDate.set(date, {
+        code: observation.airlineCode,
+        price: observation.price,
+      });
+    }
+  });
+
+  const cheapestDays = [...cheapestByDate.values()];
+
+  return [...carriers.entries()]
+    .map(([airlineCode, carrier]) => ({
+      airlineCode,
+      airlineName: carrier.name,
+      offers: carrier.prices.length,
+      sharePercent: round((carrier.prices.length / observations.length) * 100),
+      avgPrice: round(average(carrier.prices)),
+      cheapestPercent: round(
+        (cheapestDays.filter(day => day.code === airlineCode).length /
+          cheapestDays.length) *
+          100
+      ),
+    }))
+    .sort((a, b) => b.offers - a.offers);
+}
+
+/**
+ * Volatilidade das médias diárias, ou null com menos de uma semana de
+ * histórico
+ */
+export function measureVolatility(
+  dailyStats: Pick<DailyPriceStats, 'avgPrice'>[]
+): RouteVolatility | null {
+  if (dailyStats.length < MIN_VOLATILITY_DAYS) {
+    return null;
+  }
+
+  const prices = dailyStats.map(day => day.avgPrice);
+  const mean = average(prices);
+  const deviation = Math.sqrt(
+    average(prices.map(price => (price - mean) ** 2))
+  );
+  const changes = prices
+    .slice(1)
+    .map((price, index) => Math.abs(price / prices[index] - 1) * 100);
+
+  const coefficientOfVariation = round((deviation / mean) * 100);
+
+  return {
+    coefficientOfVariation,
+    avgDailyChange: round(average(changes)),
+    level:
+      VOLATILITY_LEVELS.find(
+        item => coefficientOfVariation >= item.minCoefficient
+      )?.level || 'low',
+    days: dailyStats.length,
+  };
+}
+
+class RouteAnalyticsService {
+  /**
+   * Análise de uma rota a partir das tarifas observadas, em cache por 30
+   * minutos. A tendência cobre todas as cabines; as demais estatísticas, a
+   * cabine pedida.
+   */
+  async getRouteAnalytics(query: RouteAnalyticsQuery): Promise<RouteAnalytics> {
+    const origin = query.origin.toUpperCase();
+    const destination = query.destination.toUpperCase();
+    const classType = query.classType || 'both';
+    const days = query.days || DEFAULT_DAYS;
+
+    const cacheKey = `route_analytics_${origin}_${destination}_${classType}_${days}`;
+    const cached = await cacheService.get<RouteAnalytics>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const [observations, searchVolume] = await Promise.all([
+      priceObservationService.getObservations({ origin, destination, days }),
+      this.getSearchVolume(origin, destination),
+    ]);
+
+    const fareTrend: Record<string, DailyPriceStats[]> = {};
+    [...new Set(observations.map(observation => observation.classType))]
+      .sort()
+      .forEach(cabin => {
+        fareTrend[cabin] = buildDailyStats(
+          observations.filter(observation => observation.classType === cabin)
+        );
+      });
+
+    const cabinObservations =
+      classType === 'both'
+        ? observations
+        : observations.filter(
+            observation => observation.classType === classType
+          );
+    const weekdays = buildWeekdayStats(cabinObservations);
+    const bookingWindows = buildBookingWindowStats(cabinObservations);
+    const cheapestWindow = findCheapest(bookingWindows);
+
+    const analytics: RouteAnalytics = {
+      origin,
+      destination,
+      classType,
+      periodDays: days,
+      currency: observations[0]?.currency || 'BRL',
+      observations: cabinObservations.length,
+      fareTrend,
+      weekdays,
+      cheapestWeekday: findCheapest(weekdays),
+      bookingWindows,
+      cheapestBookingWindow:
+        cheapestWindow === null ? null : BOOKING_WINDOWS[cheapestWindow],
+      carriers: buildCarrierShare(cabinObservations),
+      volatility: measureVolatility(buildDailyStats(cabinObservations)),
+      searchVolume,
+      generatedAt: new Date(),
+    };
+
+    await cacheService.set(cacheKey, analytics, ANALYTICS_CACHE_TTL);
+    return analytics;
+  }
+
+  /**
+   * Volume de buscas registrado em PopularRoute
+   */
+  private async getSearchVolume(
+    origin: string,
+    destination: string
+  ): Promise<RouteSearchVolume | null> {
+    const route = await prisma.popularRoute.findUnique({
+      where: { origin_destination: { origin, destination } },
+    });
+    if (!route) {
+      return null;
+    }
+
+    const moreSearched = await prisma.popularRoute.count({
+      where: { searchCount: { gt: route.searchCount } },
+    });
+
+    return {
+      searchCount: route.searchCount,
+      lastSearched: route.lastSearched,
+      avgPrice: route.avgPrice === null ? null : Number(route.avgPrice),
+      rank: moreSearched + 1,
+    };
+  }
+}
+
+export default new RouteAnalyticsService();
+export { RouteAnalyticsService };
@@ -0,0 +1,515 @@
+import cron from 'node-cron';
+import { SavedSearch, SavedSearchSnapshot } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../utils/logger';
+import { ClassType, FlightResult, FlightSearchParams } from './flightModel';
+import { CarrierInfo } from './itinerary';
+import { flightService } from './flightService';
+import { getOfferFingerprint } from './offerMerger';
+import { applyFilters } from './searchFilters';
+import { StoredSearchFilters, toResultFilters } from './searchHistoryService';
+import { getPassengerMix, toPassengerParams } from './passengers';
+
+// Voo gravado em um snapshot, só com o necessário para comparar execuções
+export interface SnapshotFlight {
+  key: string; // getOfferFingerprint
+  airline: CarrierInfo;
+  flightNumber: string;
+  departureTime: string;
+  arrivalTime: string;
+  duration: number;
+  stops: number;
+  price: number;
+  currency: string;
+  source?: string;
+}
+
+export interface PriceChange {
+  flight: SnapshotFlight;
+  previousPrice: number;
+  change: number; // positivo quando o preço subiu
+  changePercent: number;
+}
+
+export interface SnapshotDiff {
+  newFlights: SnapshotFlight[];
+  removedFlights: SnapshotFlight[];
+  priceChanges: PriceChange[];
+  unchanged: number;
+  minPriceChange: number | null; // variação do menor preço
+}
+
+export interface SnapshotSummary {
+  id: string;
+  resultsCount: number;
+  minPrice: number | null;
+  currency: string;
+  createdAt: Date;
+}
+
+export interface SavedSearchView {
+  id: string;
+  name: string;
+  params: FlightSearchParams;
+  filters: StoredSearchFilters;
+  intervalHours: number;
+  isActive: boolean;
+  lastRunAt: Date | null;
+  createdAt: Date;
+  latest: SnapshotSummary | null;
+  hasChanges: boolean; // há execução mais recente que a última vista
+}
+
+export interface SavedSearchDetails {
+  savedSearch: SavedSearchView;
+  snapshot: (SnapshotSummary & { flights: SnapshotFlight[] }) | null;
+  changes: SnapshotDiff & { since: Date | null };
+}
+
+export interface SavedSearchInput {
+  name: string;
+  params: FlightSearchParams;
+  filters?: StoredSearchFilters;
+  intervalHours?: number;
+}
+
+export type SavedSearchUpdate = Partial<
+  Pick<SavedSearch, 'name' | 'isActive' | 'intervalHours'>
+>;
+
+// Snapshots guardam só os voos mais baratos e as execuções mais recentes
+const MAX_SNAPSHOT_FLIGHTS = 100;
+const MAX_SNAPSHOTS = 50;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+const parseJson = <T>(value: string | null, fallback: T): T => {
+  if (!value) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fallback;
+  }
+};
+
+const toSnapshotFlight = (flight: FlightResult): SnapshotFlight => ({
+  key: getOfferFingerprint(flight),
+  airline: flight.airline,
+  flightNumber: flight.flightNumber,
+  departureTime: flight.departureTime,
+  arrivalTime: flight.arrivalTime,
+  duration: flight.duration,
+  stops: flight.stops,
+  price: flight.price,
+  currency: flight.currency,
+  source: flight.source,
+});
+
+const toSummary = (snapshot: SavedSearchSnapshot): SnapshotSummary => ({
+  id: snapshot.id,
+  resultsCount: snapshot.resultsCount,
+  minPrice: snapshot.minPrice,
+  currency: snapshot.currency,
+  createdAt: snapshot.createdAt,
+});
+
+const minPriceOf = (flights: SnapshotFlight[]): number | null =>
+  flights.length > 0 ? Math.min(...flights.map(flight => flight.price)) : null;
+
+/**
+ * Compara duas execuções da busca: voos novos, voos que sumiram e variação
+ * de preço de cada voo presente nas duas. Sem execução anterior, todos os
+ * voos são novos.
+ */
+export function diffSnapshots(
+  previous: SnapshotFlight[] | null,
+  current: SnapshotFlight[]
+): SnapshotDiff {
+  const before = new Map((previous || []).map(flight => [flight.key, flight]));
+  const currentKeys = new Set(current.map(flight => flight.key));
+
+  const newFlights: SnapshotFlight[] = [];
+  const priceChanges: PriceChange[] = [];
+  let unchanged = 0;
+
+  current.forEach(flight => {
+    const old = before.get(flight.key);
+    if (!old) {
+      newFlights.push(flight);
+    } else if (old.price !== flight.price) {
+      const change = round(flight.price - old.price);
+      priceChanges.push({
+        flight,
+        previousPrice: old.price,
+        change,
+        changePercent: old.price > 0 ? round((change / old.price) * 100) : 0,
+      });
+    } else {
+      unchanged++;
+    }
+  });
+
+  const previousMin = previous ? minPriceOf(previous) : null;
+  const currentMin = minPriceOf(current);
+
+  return {
+    newFlights,
+    removedFlights: (previous || []).filter(
+      flight => !currentKeys.has(flight.key)
+    ),
+    // Maiores variações primeiro
+    priceChanges: priceChanges.sort(
+      (a, b) => Math.abs(b.change) - Math.abs(a.change)
+    ),
+    unchanged,
+    minPriceChange:
+      previousMin !== null && currentMin !== null
+        ? round(currentMin - previousMin)
+        : null,
+  };
+}
+
+/**
+ * Parâmetros de busca de uma busca salva
+ */
+export function toSavedSearchParams(row: SavedSearch): FlightSearchParams {
+  return {
+    origin: row.departureCode,
+    destination: row.arrivalCode,
+    departureDate: toDay(row.departureDate),
+    returnDate: row.returnDate ? toDay(row.returnDate) : undefined,
+    ...toPassengerParams({
+      adults: row.adults,
+      children: row.children,
+      infants: row.infants,
+    }),
+    classType: row.classType as ClassType,
+  };
+}
+
+class SavedSearchService {
+  private isRunning = false;
+
+  // Refaz as buscas salvas vencidas a cada 15 minutos
+  initialize() {
+    cron.schedule('*/15 * * * *', async () => {
+      if (!this.isRunning) {
+        await this.runDueSearches();
+      }
+    });
+
+    logger.info('Buscas salvas agendadas');
+  }
+
+  /**
+   * Salva a busca e faz a primeira execução, que serve de base para as
+   * próximas comparações
+   */
+  async create(
+    userId: string,
+    input: SavedSearchInput
+  ): Promise<SavedSearchDetails> {
+    const { params } = input;
+
+    const row = await prisma.savedSearch.create({
+      data: {
+        userId,
+        name: input.name,
+        departureCode: params.origin,
+        arrivalCode: params.destination,
+        departureDate: new Date(params.departureDate),
+        returnDate: params.returnDate ? new Date(params.returnDate) : null,
+        ...getPassengerMix(params),
+        classType: params.classType,
+        filters: input.filters ? JSON.stringify(input.filters) : null,
+        intervalHours: input.intervalHours,
+      },
+    });
+
+    await this.run(row);
+
+    return (await this.get(userId, row.id)) as SavedSearchDetails;
+  }
+
+  /**
+   * Buscas salvas do usuário com o resumo da última execução
+   */
+  async list(userId: string): Promise<SavedSearchView[]> {
+    const rows = await prisma.savedSearch.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        snapshots: { orderBy: { createdAt: 'desc' }, take: 1 },
+      },
+    });
+
+    return rows.map(row => this.toView(row, row.snapshots[0] || null));
+  }
+
+  /**
+   * Busca salva com a última execução e o que mudou desde a última vez que
+   * o usuário a viu (ou desde o snapshot informado em sinceSnapshotId).
+   * Marca a execução atual como vista.
+   */
+  async get(
+    userId: string,
+    id: string,
+    sinceSnapshotId?: string
+  ): Promise<SavedSearchDetails | null> {
+    const row = await prisma.savedSearch.findFirst({
+      where: { id, userId },
+      include: {
+        snapshots: { orderBy: { createdAt: 'desc' }, take: 1 },
+      },
+    });
+
+    if (!row) {
+      return null;
+    }
+
+    const latest = row.snapshots[0] || null;
+    const baseId = sinceSnapshotId || row.lastViewedSnapshotId;
+    const base = baseId
+      ? await prisma.savedSearchSnapshot.findFirst({
+          where: { id: baseId, savedSearchId: id },
+        })
+      : null;
+    const current = latest
+      ? parseJson<SnapshotFlight[]>(latest.flights, [])
+      : [];
+
+    if (latest && row.lastViewedSnapshotId !== latest.id) {
+      await prisma.savedSearch.update({
+        where: { id },
+        data: { lastViewedSnapshotId: latest.id },
+      });
+    }
+
+    return {
+      savedSearch: this.toView(row, latest),
+      snapshot: latest ? { ...toSummary(latest), flights: current } : null,
+      changes: {
+        ...diffSnapshots(
+          base ? parseJson<SnapshotFlight[]>(base.flights, []) : null,
+          current
+        ),
+        since: base?.createdAt || null,
+      },
+    };
+  }
+
+  /**
+   * Execuções anteriores da busca salva, das mais recentes para as mais
+   * antigas. Retorna null se a busca salva não existir.
+   */
+  async listSnapshots(
+    userId: string,
+    id: string,
+    page: number = 1,
+    limit: number = 20
+  ) {
+    const savedSearch = await prisma.savedSearch.findFirst({
+      where: { id, userId },
+      select: { id: true },
+    });
+
+    if (!savedSearch) {
+      return null;
+    }
+
+    const [snapshots, total] = await Promise.all([
+      prisma.savedSearchSnapshot.findMany({
+        where: { savedSearchId: id },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.savedSearchSnapshot.count({ where: { savedSearchId: id } }),
+    ]);
+
+    return {
+      snapshots: snapshots.map(toSummary),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async update(
+    userId: string,
+    id: string,
+    data: SavedSearchUpdate
+  ): Promise<SavedSearchView | null> {
+    const { count } = await prisma.savedSearch.updateMany({
+      where: { id, userId },
+      data,
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const row = await prisma.savedSearch.findUniqueOrThrow({
+      where: { id },
+      include: {
+        snapshots: { orderBy: { createdAt: 'desc' }, take: 1 },
+      },
+    });
+    return this.toView(row, row.snapshots[0] || null);
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    const { count } = await prisma.savedSearch.deleteMany({
+      where: { id, userId },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Refaz a busca salva agora, fora do agendamento
+   */
+  async runNow(userId: string, id: string): Promise<SavedSearchDetails | null> {
+    const row = await prisma.savedSearch.findFirst({ where: { id, userId } });
+
+    if (!row) {
+      return null;
+    }
+
+    await this.run(row);
+    return this.get(userId, id);
+  }
+
+  /**
+   * Refaz as buscas salvas ativas cuja última execução passou do intervalo.
+   * Buscas com data de partida já passada são desativadas.
+   */
+  async runDueSearches(): Promise<void> {
+    if (this.isRunning) {
+      logger.info('Execução de buscas salvas já em andamento, pulando...');
+      return;
+    }
+
+    this.isRunning = true;
+
+    try {
+      const today = new Date(`${toDay(new Date())}T00:00:00Z`);
+
+      const { count: expired } = await prisma.savedSearch.updateMany({
+        where: { isActive: true, departureDate: { lt: today } },
+        data: { isActive: false },
+      });
+      if (expired > 0) {
+        logger.info(`${expired} buscas salvas expiradas desativadas`);
+      }
+
+      const active = await prisma.savedSearch.findMany({
+        where: { isActive: true, user: { isActive: true } },
+      });
+      const now = Date.now();
+      const due = active.filter(
+        row =>
+          !row.lastRunAt ||
+          now - row.lastRunAt.getTime() >= row.intervalHours * 60 * 60 * 1000
+      );
+
+      logger.info(`Refazendo ${due.length} buscas salvas`);
+
+      // Uma de cada vez para não disputar a cota dos provedores
+      for (const row of due) {
+        await this.run(row).catch(error => {
+          logger.error(`Erro ao refazer busca salva ${row.id}:`, error);
+        });
+      }
+    } catch (error) {
+      logger.error('Erro ao refazer buscas salvas:', error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Executa a busca e grava um snapshot com os voos que passam nos filtros
+   */
+  private async run(row: SavedSearch): Promise<SavedSearchSnapshot> {
+    const filters = parseJson<StoredSearchFilters>(row.filters, {});
+    const summary = await flightService.searchAllFlights(
+      toSavedSearchParams(row),
+      { priority: 'background' }
+    );
+
+    const flights = applyFilters(summary.flights, toResultFilters(filters))
+      .sort((a, b) => a.price - b.price)
+      .slice(0, MAX_SNAPSHOT_FLIGHTS)
+      .map(toSnapshotFlight);
+
+    const [snapshot] = await prisma.$transaction([
+      prisma.savedSearchSnapshot.create({
+        data: {
+          savedSearchId: row.id,
+          flights: JSON.stringify(flights),
+          resultsCount: flights.length,
+          minPrice: minPriceOf(flights),
+          currency: flights[0]?.currency || 'BRL',
+        },
+      }),
+      prisma.savedSearch.update({
+        where: { id: row.id },
+        data: { lastRunAt: new Date() },
+      }),
+    ]);
+
+    await this.pruneSnapshots(row);
+
+    logger.info(
+      `Busca salva ${row.id} refeita: ${flights.length} voos encontrados`
+    );
+    return snapshot;
+  }
+
+  // Remove os snapshots mais antigos, preservando o último visto
+  private async pruneSnapshots(row: SavedSearch): Promise<void> {
+    const old = await prisma.savedSearchSnapshot.findMany({
+      where: { savedSearchId: row.id },
+      orderBy: { createdAt: 'desc' },
+      skip: MAX_SNAPSHOTS,
+      select: { id: true },
+    });
+    const ids = old
+      .map(snapshot => snapshot.id)
+      .filter(id => id !== row.lastViewedSnapshotId);
+
+    if (ids.length > 0) {
+      await prisma.savedSearchSnapshot.deleteMany({
+        where: { id: { in: ids } },
+      });
+    }
+  }
+
+  private toView(
+    row: SavedSearch,
+    latest: SavedSearchSnapshot | null
+  ): SavedSearchView {
+    return {
+      id: row.id,
+      name: row.name,
+      params: toSavedSearchParams(row),
+      filters: parseJson<StoredSearchFilters>(row.filters, {}),
+      intervalHours: row.intervalHours,
+      isActive: row.isActive,
+      lastRunAt: row.lastRunAt,
+      createdAt: row.createdAt,
+      latest: latest ? toSummary(latest) : null,
+      hasChanges: Boolean(latest && latest.id !== row.lastViewedSnapshotId),
+    };
+  }
+}
+
+export default new SavedSearchService();
+export { SavedSearchService };
@@ -0,0 +1,287 @@
+import type { FlightResult } from './flightModel';
+
+// Janela de horário no formato HH:MM (ex: 06:00-12:00)
+export interface TimeWindow {
+  from?: string;
+  to?: string;
+}
+
+export interface ResultFilters {
+  departureWindow?: TimeWindow;
+  arrivalWindow?: TimeWindow;
+  maxDuration?: number; // em minutos, por trecho
+  maxStops?: number; // por trecho
+  airlines?: string[]; // códigos IATA permitidos
+  excludeAirlines?: string[];
+  connectionAirports?: string[]; // conexões permitidas
+  aircraft?: string[];
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+export type ResultSortField =
+  | 'price'
+  | 'duration'
+  | 'departureTime'
+  | 'arrivalTime'
+  | 'stops';
+
+export interface FacetValue {
+  value: string;
+  label: string;
+  count: number;
+  minPrice: number;
+}
+
+export interface FacetRange {
+  min: number;
+  max: number;
+}
+
+export interface SearchFacets {
+  airlines: FacetValue[];
+  stops: FacetValue[];
+  connectionAirports: FacetValue[];
+  aircraft: FacetValue[];
+  departurePeriods: FacetValue[];
+  arrivalPeriods: FacetValue[];
+  price: FacetRange;
+  duration: FacetRange;
+}
+
+// Períodos do dia usados nos facets de horário
+const DAY_PERIODS = [
+  {
+    value: 'madrugada',
+    label: 'Madrugada (00h-06h)',
+    from: '00:00',
+    to: '05:59',
+  },
+  { value: 'manha', label: 'Manhã (06h-12h)', from: '06:00', to: '11:59' },
+  { value: 'tarde', label: 'Tarde (12h-18h)', from: '12:00', to: '17:59' },
+  { value: 'noite', label: 'Noite (18h-24h)', from: '18:00', to: '23:59' },
+];
+
+/**
+ * Horário local informado pelo provedor (HH:MM), sem conversão de fuso
+ */
+const timeOfDay = (dateTime: string): string => dateTime.slice(11, 16);
+
+const inWindow = (dateTime: string, window?: TimeWindow): boolean => {
+  if (!window) {
+    return true;
+  }
+
+  const time = timeOfDay(dateTime);
+  return (
+    (!window.from || time >= window.from) && (!window.to || time <= window.to)
+  );
+};
+
+const segmentsOf = (flight: FlightResult) =>
+  flight.slices.flatMap(slice => slice.segments);
+
+// Companhia que vende a oferta (primeiro segmento da ida)
+const carrierOf = (flight: FlightResult): { code: string; name: string } =>
+  flight.slices[0]?.segments[0]?.airline || flight.airline;
+
+const connectionsOf = (flight: FlightResult): string[] =>
+  flight.slices.flatMap(slice =>
+    slice.segments.slice(0, -1).map(segment => segment.destination.code)
+  );
+
+const maxOf = (flight: FlightResult, field: 'stops' | 'duration'): number =>
+  flight.slices.length > 0
+    ? Math.max(...flight.slices.map(slice => slice[field]))
+    : flight[field];
+
+const includes = (list: string[] | undefined, value: string): boolean =>
+  !list || list.length === 0 || list.includes(value.toUpperCase());
+
+/**
+ * Filtra as ofertas consolidadas de uma busca
+ */
+export function applyFilters(
+  flights: FlightResult[],
+  filters: ResultFilters = {}
+): FlightResult[] {
+  return flights.filter(flight => {
+    const carrier = carrierOf(flight).code.toUpperCase();
+    const aircraft = segmentsOf(flight)
+      .map(segment => segment.aircraft?.toUpperCase())
+      .filter((code): code is string => Boolean(code));
+
+    return (
+      inWindow(flight.departureTime, filters.departureWindow) &&
+      inWindow(flight.arrivalTime, filters.arrivalWindow) &&
+      (filters.maxDuration === undefined ||
+        maxOf(flight, 'duration') <= filters.maxDuration) &&
+      (filters.maxStops === undefined ||
+        maxOf(flight, 'stops') <= filters.maxStops) &&
+      includes(filters.airlines, carrier) &&
+      !filters.excludeAirlines?.includes(carrier) &&
+      connectionsOf(flight).every(code =>
+        includes(filters.connectionAirports, code)
+      ) &&
+      (!filters.aircraft?.length ||
+        aircraft.some(code => filters.aircraft?.includes(code))) &&
+      (filters.minPrice === undefined || flight.price >= filters.minPrice) &&
+      (filters.maxPrice === undefined || flight.price <= filters.maxPrice)
+    );
+  });
+}
+
+const sortValue = (flight: FlightResult, field: ResultSortField): number => {
+  switch (field) {
+    case 'departureTime':
+    case 'arrivalTime':
+      return new Date(flight[field]).getTime();
+    case 'duration':
+    case 'stops':
+      return maxOf(flight, field);
+    default:
+      return flight.price;
+  }
+};
+
+export function sortFlights(
+  flights: FlightResult[],
+  sortBy: ResultSortField = 'price',
+  order: 'asc' | 'desc' = 'asc'
+): FlightResult[] {
+  const direction = order === 'desc' ? -1 : 1;
+  return [...flights].sort(
+    (a, b) => (sortValue(a, sortBy) - sortValue(b, sortBy)) * direction
+  );
+}
+
+/**
+ * Contagem de ofertas por valor de cada filtro, com o menor preço de cada um
+ */
+export function computeFacets(flights: FlightResult[]): SearchFacets {
+  const buckets = {
+    airlines: new Map<string, FacetValue>(),
+    stops: new Map<string, FacetValue>(),
+    connectionAirports: new Map<string, FacetValue>(),
+    aircraft: new Map<string, FacetValue>(),
+    departurePeriods: new Map<string, FacetValue>(),
+    arrivalPeriods: new Map<string, FacetValue>(),
+  };
+
+  const add = (
+    bucket: Map<string, FacetValue>,
+    value: string,
+    label: string,
+    price: number
+  ) => {
+    const facet = bucket.get(value);
+    if (facet) {
+      facet.count++;
+      facet.minPrice = Math.min(facet.minPrice, price);
+    } else {
+      bucket.set(value, { value, label, count: 1, minPrice: price });
+    }
+  };
+
+  const periodOf = (dateTime: string) =>
+    DAY_PERIODS.find(period => inWindow(dateTime, period));
+
+  flights.forEach(flight => {
+    const carrier = carrierOf(flight);
+    const stops = maxOf(flight, 'stops');
+    add(buckets.airlines, carrier.code, carrier.name, flight.price);
+    add(
+      buckets.stops,
+      String(stops),
+      stops === 0 ? 'Direto' : `${stops} parada(s)`,
+      flight.price
+    );
+
+    // Cada oferta conta uma vez por aeroporto de conexão e aeronave
+    new Set(connectionsOf(flight)).forEach(code =>
+      add(buckets.connectionAirports, code, code, flight.price)
+    );
+    new Set(
+      segmentsOf(flight)
+        .map(segment => segment.aircraft)
+        .filter((code): code is string => Boolean(code))
+    ).forEach(code => add(buckets.aircraft, code, code, flight.price));
+
+    const departure = periodOf(flight.departureTime);
+    if (departure) {
+      add(
+        buckets.departurePeriods,
+        departure.value,
+        departure.label,
+        flight.price
+      );
+    }
+    const arrival = periodOf(flight.arrivalTime);
+    if (arrival) {
+      add(buckets.arrivalPeriods, arrival.value, arrival.label, flight.price);
+    }
+  });
+
+  const sorted = (bucket: Map<string, FacetValue>) =>
+    [...bucket.values()].sort((a, b) => b.count - a.count);
+  const range = (values: number[]): FacetRange =>
+    values.length > 0
+      ? { min: Math.min(...values), max: Math.max(...values) }
+      : { min: 0, max: 0 };
+
+  return {
+    airlines: sorted(buckets.airlines),
+    stops: [...buckets.stops.values()].sort(
+      (a, b) => parseInt(a.value) - parseInt(b.value)
+    ),
+    connectionAirports: sorted(buckets.connectionAirports),
+    aircraft: sorted(buckets.aircraft),
+    departurePeriods: DAY_PERIODS.map(period =>
+      buckets.departurePeriods.get(period.value)
+    ).filter((facet): facet is FacetValue => Boolean(facet)),
+    arrivalPeriods: DAY_PERIODS.map(period =>
+      buckets.arrivalPeriods.get(period.value)
+    ).filter((facet): facet is FacetValue => Boolean(facet)),
+    price: range(flights.map(flight => flight.price)),
+    duration: range(flights.map(flight => maxOf(flight, 'duration'))),
+  };
+}
+
+/**
+ * Converte a query string (?airlines=LA,G3&departureTimeFrom=06:00...) em filtros
+ */
+export function parseResultFilters(
+  query: Record<string, unknown>
+): ResultFilters {
+  const list = (value: unknown): string[] | undefined =>
+    value
+      ? String(value)
+          .split(',')
+          .map(item => item.trim().toUpperCase())
+          .filter(Boolean)
+      : undefined;
+  const number = (value: unknown): number | undefined =>
+    value !== undefined && value !== '' && !isNaN(Number(value))
+      ? Number(value)
+      : undefined;
+  const window = (from: unknown, to: unknown): TimeWindow | undefined =>
+    from || to
+      ? {
+          from: from ? String(from) : undefined,
+          to: to ? String(to) : undefined,
+        }
+      : undefined;
+
+  return {
+    departureWindow: window(query.departureTimeFrom, query.departureTimeTo),
+    arrivalWindow: window(query.arrivalTimeFrom, query.arrivalTimeTo),
+    maxDuration: number(query.maxDuration),
+    maxStops: number(query.maxStops),
+    airlines: list(query.airlines),
+    excludeAirlines: list(query.excludeAirlines),
+    connectionAirports: list(query.connectionAirports),
+    aircraft: list(query.aircraft),
+    minPrice: number(query.minPrice),
+    maxPrice: number(query.maxPrice),
+  };
+}
@@ -0,0 +1,292 @@
+import { Search } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../utils/logger';
+import {
+  ClassType,
+  FlightSearchParams,
+  InvalidSearchError,
+  SearchPreferences,
+  parseFlightSearchParams,
+} from './flightModel';
+import { flightService } from './flightService';
+import roundTripService from './roundTripService';
+import flexibleSearchService from './flexibleSearchService';
+import {
+  ResultFilters,
+  ResultSortField,
+  applyFilters,
+  computeFacets,
+  sortFlights,
+} from './searchFilters';
+import { countPassengers, getPassengerMix } from './passengers';
+
+// Endpoint que originou a busca, usado para repeti-la
+export type SearchType = 'search' | 'round-trip' | 'flexible';
+
+// Filtros, preferências e ordenação gravados com a busca
+export type StoredSearchFilters = ResultFilters &
+  SearchPreferences & {
+    sortBy?: ResultSortField;
+    order?: 'asc' | 'desc';
+  };
+
+export interface SearchHistoryEntry {
+  id: string;
+  searchType: SearchType;
+  params: FlightSearchParams;
+  filters: StoredSearchFilters;
+  resultsCount: number;
+  createdAt: Date;
+}
+
+export interface RecordSearchOptions {
+  searchType?: SearchType;
+  filters?: StoredSearchFilters;
+  resultsCount: number;
+}
+
+export interface SearchHistoryPage {
+  searches: SearchHistoryEntry[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+export interface SearchRerunResult {
+  search: SearchHistoryEntry;
+  result: unknown; // resposta do endpoint original da busca
+}
+
+const SEARCH_TYPES: SearchType[] = ['search', 'round-trip', 'flexible'];
+
+const toDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+// Remove campos vazios antes de gravar o JSON
+const compactFilters = (filters: StoredSearchFilters = {}): string | null => {
+  const entries = Object.entries(filters).filter(
+    ([, value]) =>
+      value !== undefined &&
+      value !== false &&
+      !(Array.isArray(value) && value.length === 0)
+  );
+  return entries.length > 0
+    ? JSON.stringify(Object.fromEntries(entries))
+    : null;
+};
+
+const parseFilters = (filters: string | null): StoredSearchFilters => {
+  if (!filters) {
+    return {};
+  }
+  try {
+    return JSON.parse(filters);
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Converte um registro da tabela searches nos parâmetros da busca
+ */
+export function toSearchHistoryEntry(row: Search): SearchHistoryEntry {
+  const passengerMix = {
+    adults: row.adults,
+    children: row.children,
+    infants: row.infants,
+  };
+
+  return {
+    id: row.id,
+    searchType: SEARCH_TYPES.includes(row.searchType as SearchType)
+      ? (row.searchType as SearchType)
+      : 'search',
+    params: {
+      origin: row.departureCode,
+      destination: row.arrivalCode,
+      departureDate: toDay(row.departureDate),
+      returnDate: row.returnDate ? toDay(row.returnDate) : undefined,
+      passengers: row.passengers,
+      passengerMix,
+      classType: row.classType as ClassType,
+      flexibleDays: row.flexibleDays ?? undefined,
+    },
+    filters: parseFilters(row.filters),
+    resultsCount: row.resultsCount,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Filtros de resultado equivalentes às preferências da busca
+ */
+export function toResultFilters(filters: StoredSearchFilters): ResultFilters {
+  return {
+    ...filters,
+    airlines: filters.airlines || filters.preferredAirlines,
+    maxStops: filters.directFlightsOnly ? 0 : filters.maxStops,
+  };
+}
+
+class SearchHistoryService {
+  /**
+   * Registra uma busca no histórico do usuário
+   */
+  async record(
+    userId: string,
+    params: FlightSearchParams,
+    options: RecordSearchOptions
+  ): Promise<SearchHistoryEntry> {
+    const mix = getPassengerMix(params);
+
+    const row = await prisma.search.create({
+      data: {
+        userId,
+        departureCode: params.origin,
+        arrivalCode: params.destination,
+        departureDate: new Date(params.departureDate),
+        returnDate: params.returnDate ? new Date(params.returnDate) : null,
+        passengers: countPassengers(mix),
+        ...mix,
+        classType: params.classType,
+        searchType: options.searchType || 'search',
+        flexibleDays: params.flexibleDays ?? null,
+        filters: compactFilters(options.filters),
+        resultsCount: options.resultsCount,
+      },
+    });
+
+    return toSearchHistoryEntry(row);
+  }
+
+  /**
+   * Buscas do usuário, das mais recentes para as mais antigas
+   */
+  async list(
+    userId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<SearchHistoryPage> {
+    const [rows, total] = await Promise.all([
+      prisma.search.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.search.count({ where: { userId } }),
+    ]);
+
+    return {
+      searches: rows.map(toSearchHistoryEntry),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Refaz uma busca do histórico com os mesmos parâmetros e filtros. A nova
+   * execução também entra no histórico. Retorna null se a busca não existir.
+   */
+  async rerun(
+    userId: string,
+    searchId: string
+  ): Promise<SearchRerunResult | null> {
+    const row = await prisma.search.findFirst({
+      where: { id: searchId, userId },
+    });
+
+    if (!row) {
+      return null;
+    }
+
+    const entry = toSearchHistoryEntry(row);
+    const { passengerMix, ...stored } = entry.params;
+
+    if (stored.departureDate < toDay(new Date())) {
+      throw new InvalidSearchError([
+        'Data de partida da busca já passou; faça uma nova busca',
+      ]);
+    }
+
+    // Revalida os parâmetros gravados antes de consultar os provedores
+    const params = parseFlightSearchParams({ ...stored, ...passengerMix });
+    const { filters } = entry;
+
+    logger.info(`Refazendo busca ${searchId} (${entry.searchType})`);
+
+    let result: unknown;
+    let resultsCount: number;
+
+    switch (entry.searchType) {
+      case 'round-trip': {
+        const roundTrip = await roundTripService.search(params);
+        result = roundTrip;
+        resultsCount = roundTrip.totalOptions;
+        break;
+      }
+      case 'flexible': {
+        const flexible = await flexibleSearchService.searchFlexibleFlights({
+          ...params,
+          maxPrice: filters.maxPrice,
+          preferredAirlines: filters.preferredAirlines,
+          directFlightsOnly: filters.directFlightsOnly,
+          flexibleDays: params.flexibleDays ?? 3,
+        });
+        result = flexible;
+        resultsCount = flexible.bestOffers.length;
+        break;
+      }
+      default: {
+        const summary = await flightService.searchAllFlights(params);
+        result = {
+          flights: sortFlights(
+            applyFilters(summary.flights, toResultFilters(filters)),
+            filters.sortBy,
+            filters.order
+          ),
+          facets: computeFacets(summary.flights),
+          searchId: summary.searchId,
+          totalResults: summary.flights.length,
+        };
+        resultsCount = summary.flights.length;
+      }
+    }
+
+    const search = await this.record(userId, params, {
+      searchType: entry.searchType,
+      filters,
+      resultsCount,
+    });
+
+    return { search, result };
+  }
+
+  /**
+   * Remove uma busca do histórico. Retorna false se ela não existir.
+   */
+  async delete(userId: string, searchId: string): Promise<boolean> {
+    const { count } = await prisma.search.deleteMany({
+      where: { id: searchId, userId },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Limpa o histórico do usuário e retorna o número de buscas removidas
+   */
+  async clear(userId: string): Promise<number> {
+    const { count } = await prisma.search.deleteMany({ where: { userId } });
+    logger.info(`Histórico de buscas limpo: ${userId} (${count} buscas)`);
+    return count;
+  }
+}
+
+export default new SearchHistoryService();
+export { SearchHistoryService };
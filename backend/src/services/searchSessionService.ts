@@ -0,0 +1,154 @@
+import { prisma } from '../config/database';
+import { logger } from '../utils/logger';
+import type { FlightResult, FlightSearchParams } from './flightModel';
+import {
+  applyFilters,
+  computeFacets,
+  ResultFilters,
+  ResultSortField,
+  SearchFacets,
+  sortFlights,
+} from './searchFilters';
+
+export interface SessionQuery extends ResultFilters {
+  sortBy?: ResultSortField;
+  order?: 'asc' | 'desc';
+  airline?: string; // busca parcial pelo nome da companhia
+  source?: string; // vendedor (provedor) com tarifa para a oferta
+  page?: number;
+  limit?: number;
+}
+
+export interface SessionQueryResult {
+  flights: FlightResult[];
+  facets: SearchFacets;
+  total: number;
+  page: number;
+  limit: number;
+  pages: number;
+}
+
+export interface SearchSessionData {
+  searchId: string;
+  params: FlightSearchParams;
+  offers: FlightResult[];
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+// Tempo de vida das sessões de busca
+const SESSION_TTL_MINUTES = parseInt(
+  process.env.SEARCH_SESSION_TTL_MINUTES || '30'
+);
+// Intervalo mínimo entre limpezas das sessões expiradas
+const CLEANUP_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Aplica filtros, ordenação e paginação às ofertas de uma sessão.
+ * Os facets consideram todas as ofertas da busca.
+ */
+export function applySessionQuery(
+  offers: FlightResult[],
+  query: SessionQuery = {}
+): SessionQueryResult {
+  const page = Math.max(query.page || 1, 1);
+  const limit = Math.min(Math.max(query.limit || 20, 1), 100);
+  const airline = query.airline?.toLowerCase();
+
+  const filtered = applyFilters(offers, query).filter(
+    flight =>
+      (!airline || flight.airline.name.toLowerCase().includes(airline)) &&
+      (!query.source ||
+        (flight.fares || []).some(fare => fare.source === query.source))
+  );
+  const sorted = sortFlights(filtered, query.sortBy, query.order);
+
+  return {
+    flights: sorted.slice((page - 1) * limit, page * limit),
+    facets: computeFacets(offers),
+    total: sorted.length,
+    page,
+    limit,
+    pages: Math.ceil(sorted.length / limit),
+  };
+}
+
+class SearchSessionService {
+  private lastCleanup = 0;
+
+  /**
+   * Persiste os parâmetros e as ofertas de uma busca pelo TTL configurado
+   */
+  async save(
+    searchId: string,
+    params: FlightSearchParams,
+    offers: FlightResult[]
+  ): Promise<void> {
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MINUTES * 60 * 1000);
+
+    await prisma.searchSession.create({
+      data: {
+        id: searchId,
+        params: JSON.stringify(params),
+        offers: JSON.stringify(offers),
+        resultsCount: offers.length,
+        expiresAt,
+      },
+    });
+
+    await this.cleanupExpired();
+  }
+
+  /**
+   * Sessão ainda válida (null quando não existe ou já expirou)
+   */
+  async get(searchId: string): Promise<SearchSessionData | null> {
+    const session = await prisma.searchSession.findFirst({
+      where: { id: searchId, expiresAt: { gt: new Date() } },
+    });
+
+    if (!session) {
+      return null;
+    }
+
+    return {
+      searchId: session.id,
+      params: JSON.parse(session.params),
+      offers: JSON.parse(session.offers),
+      createdAt: session.createdAt,
+      expiresAt: session.expiresAt,
+    };
+  }
+
+  async getOffer(
+    searchId: string,
+    offerId: string
+  ): Promise<FlightResult | null> {
+    const session = await this.get(searchId);
+    return session?.offers.find(offer => offer.id === offerId) || null;
+  }
+
+  // Remove sessões expiradas, no máximo uma vez por intervalo
+  private async cleanupExpired(): Promise<void> {
+    if (Date.now() - this.lastCleanup < CLEANUP_INTERVAL_MS) {
+      return;
+    }
+
+    this.lastCleanup = Date.now();
+
+    try {
+      const { count } = await prisma.searchSession.deleteMany({
+        where: { expiresAt: { lte: new Date() } },
+      });
+
+      if (count > 0) {
+        logger.info(`${count} sessões de busca expiradas removidas`);
+      }
+    } catch (error) {
+      logger.error('Erro ao remover sessões de busca expiradas:', error);
+    }
+  }
+}
+
+export default new SearchSessionService();
+export { SearchSessionService };
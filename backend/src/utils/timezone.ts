@@ -0,0 +1,203 @@
+// Datas e horários no fuso IANA de cada aeroporto (Airport.timezone), sem
+// depender do fuso do servidor
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const LOCAL_DATE_TIME =
+  /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?)?/;
+const UTC_OFFSET = /(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Data e hora de parede de um instante no fuso informado
+const getZonedParts = (instant: Date, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone)
+    .formatToParts(instant)
+    .forEach(part => {
+      if (part.type !== 'literal') {
+        parts[part.type] = parseInt(part.value, 10);
+      }
+    });
+  return parts;
+};
+
+// Data e hora de parede de um texto ISO, como se fossem UTC (ms)
+const parseWallClock = (dateTime: string): number | null => {
+  const match = LOCAL_DATE_TIME.exec(dateTime);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  return Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second)
+  );
+};
+
+const formatOffset = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const hasUtcOffset = (dateTime: string): boolean =>
+  UTC_OFFSET.test(dateTime);
+
+/**
+ * Diferença em minutos entre o horário local do fuso e o UTC no instante
+ * (ex: -180 para America/Sao_Paulo)
+ */
+export function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const seconds = Math.floor(instant.getTime() / 1000) * 1000;
+  const parts = getZonedParts(new Date(seconds), timeZone);
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+
+  return Math.round((wallClock - seconds) / 60000);
+}
+
+/**
+ * Instante UTC de um horário local sem offset (ex: "2026-12-10T22:30:00"
+ * em America/Sao_Paulo → 2026-12-11T01:30:00Z)
+ */
+export function zonedTimeToUtc(localDateTime: string, timeZone: string): Date {
+  const wallClock = parseWallClock(localDateTime);
+  if (wallClock === null) {
+    return new Date(NaN);
+  }
+
+  // O segundo passo acerta o offset nas transições de horário de verão
+  const firstGuess =
+    wallClock - getTimeZoneOffset(new Date(wallClock), timeZone) * 60000;
+  return new Date(
+    wallClock - getTimeZoneOffset(new Date(firstGuess), timeZone) * 60000
+  );
+}
+
+/**
+ * Horário local com offset (ex: "2026-12-10T22:30:00-03:00")
+ */
+export function formatInTimeZone(
+  instant: Date | string,
+  timeZone: string
+): string {
+  const date = new Date(instant);
+  const parts = getZonedParts(date, timeZone);
+
+  return (
+    `${parts.year}-${pad(parts.month)}-${pad(parts.day)}` +
+    `T${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}` +
+    formatOffset(getTimeZoneOffset(date, timeZone))
+  );
+}
+
+/**
+ * Horário de um provedor no horário local do aeroporto, com offset. Com
+ * offset (ou Z) o valor já é um instante; sem offset, como no Amadeus, ele
+ * já está no horário local do aeroporto.
+ */
+export function toLocalDateTime(dateTime: string, timeZone: string): string {
+  const instant = hasUtcOffset(dateTime)
+    ? new Date(dateTime)
+    : zonedTimeToUtc(dateTime, timeZone);
+
+  return isNaN(instant.getTime())
+    ? dateTime
+    : formatInTimeZone(instant, timeZone);
+}
+
+// Data local (yyyy-MM-dd) de um instante no fuso
+export function getZonedDate(instant: Date, timeZone: string): string {
+  return formatInTimeZone(instant, timeZone).slice(0, 10);
+}
+
+/**
+ * Início e fim (exclusivo) de um dia local no fuso, em UTC
+ */
+export function getZonedDayRange(
+  date: string,
+  timeZone: string
+): { start: Date; end: Date } {
+  const day = date.slice(0, 10);
+  const next = new Date(`${day}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+
+  return {
+    start: zonedTimeToUtc(`${day}T00:00:00`, timeZone),
+    end: zonedTimeToUtc(
+      `${next.toISOString().slice(0, 10)}T00:00:00`,
+      timeZone
+    ),
+  };
+}
+
+// Hora local (0-23) de um horário com offset, lida do próprio texto
+export const getLocalHour = (dateTime: string): number =>
+  parseInt(dateTime.slice(11, 13), 10);
+
+/**
+ * Formata o horário local do aeroporto, e não o do servidor, a partir de um
+ * horário com offset (ex: "2026-12-10T22:30:00-03:00" → "10/12/2026 22:30")
+ */
+export function formatLocalDateTime(
+  dateTime: string,
+  options: Intl.DateTimeFormatOptions,
+  locale: string = 'pt-BR'
+): string {
+  const wallClock = parseWallClock(dateTime);
+  if (wallClock === null) {
+    return dateTime;
+  }
+
+  return new Date(wallClock).toLocaleString(locale, {
+    ...options,
+    timeZone: 'UTC',
+  });
+}
+
+// Rótulo do offset de um horário, ex: "UTC-03:00" ou "UTC"
+export function getUtcOffsetLabel(dateTime: string): string {
+  const offset = UTC_OFFSET.exec(dateTime)?.[0];
+  return !offset || offset.toUpperCase() === 'Z' ? 'UTC' : `UTC${offset}`;
+}
@@ -9,6 +9,7 @@ import AlertsPage from '@/pages/AlertsPage';
 import ProfilePage from '@/pages/ProfilePage';
 import LoginPage from '@/pages/LoginPage';
 import RegisterPage from '@/pages/RegisterPage';
+import RouteAnalyticsPage from '@/pages/RouteAnalyticsPage';
 
 // Components
 import Layout from '@/components/Layout';
@@ -71,6 +72,8 @@ function App() {
       <Route path='/' element={<Layout />}>
         <Route index element={<HomePage />} />
         <Route path='search' element={<SearchPage />} />
+        <Route path='analytics' element={<RouteAnalyticsPage />} />
+        <Route path='analytics/:route' element={<RouteAnalyticsPage />} />
         <Route
           path='alerts'
           element={
@@ -0,0 +1,95 @@
+import { Calendar } from 'lucide-react';
+import { DateMatrixCell, DateMatrixResult } from '@/services/apiService';
+
+interface DateMatrixProps {
+  matrix: DateMatrixResult;
+  onSelect?: (cell: DateMatrixCell) => void;
+}
+
+const LEVEL_STYLES: Record<
+  NonNullable<DateMatrixCell['priceLevel']>,
+  string
+> = {
+  low: 'bg-green-50 text-green-700 hover:bg-green-100',
+  medium: 'bg-yellow-50 text-yellow-700 hover:bg-yellow-100',
+  high: 'bg-red-50 text-red-700 hover:bg-red-100',
+};
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('pt-BR', {
+    weekday: 'short',
+    day: '2-digit',
+    month: '2-digit',
+  });
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+    maximumFractionDigits: 0,
+  }).format(price);
+
+// Menores preços por data de ida (linhas) e de volta (colunas)
+const DateMatrix = ({ matrix, onSelect }: DateMatrixProps) => (
+  <div className='bg-white rounded-lg shadow-lg p-6 mb-6'>
+    <h2 className='text-2xl font-bold text-gray-900 mb-2 flex items-center gap-2'>
+      <Calendar className='w-6 h-6 text-blue-600' />
+      Matriz de Datas
+    </h2>
+    <p className='text-sm text-gray-600 mb-6'>
+      Menor preço de ida e volta para cada combinação de datas
+    </p>
+    <div className='overflow-x-auto'>
+      <table className='w-full text-sm'>
+        <thead>
+          <tr>
+            <th className='p-2 text-left text-gray-500 font-medium'>
+              Ida \ Volta
+            </th>
+            {matrix.returnDates.map(date => (
+              <th key={date} className='p-2 text-gray-700 font-medium'>
+                {formatDay(date)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {matrix.cells.map((row, index) => (
+            <tr key={matrix.departureDates[index]}>
+              <th className='p-2 text-left text-gray-700 font-medium whitespace-nowrap'>
+                {formatDay(matrix.departureDates[index])}
+              </th>
+              {row.map(cell =>
+                cell.price === null ? (
+                  <td
+                    key={cell.returnDate}
+                    className='p-2 text-center text-gray-300 bg-gray-50 rounded'
+                  >
+                    {cell.withinStay ? 'Sem voos' : '—'}
+                  </td>
+                ) : (
+                  <td key={cell.returnDate} className='p-1'>
+                    <button
+                      type='button'
+                      onClick={() => onSelect?.(cell)}
+                      title={`${cell.stay} noite(s) • ${cell.flightCount} voo(s)`}
+                      className={`w-full p-2 rounded font-semibold transition-colors ${
+                        cell.isCheapest
+                          ? 'bg-green-600 text-white hover:bg-green-700'
+                          : LEVEL_STYLES[cell.priceLevel || 'medium']
+                      }`}
+                    >
+                      {formatPrice(cell.price)}
+                    </button>
+                  </td>
+                )
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+export default DateMatrix;
@@ -0,0 +1,243 @@
+import { ReactNode } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { FacetValue, ResultFilters, SearchFacets } from '@/services/apiService';
+
+interface FilterSidebarProps {
+  facets: SearchFacets;
+  filters: ResultFilters;
+  onChange: (filters: ResultFilters) => void;
+}
+
+// Janelas de horário dos períodos retornados nos facets
+const PERIOD_WINDOWS: Record<string, [string, string]> = {
+  madrugada: ['00:00', '05:59'],
+  manha: ['06:00', '11:59'],
+  tarde: ['12:00', '17:59'],
+  noite: ['18:00', '23:59'],
+};
+
+const SORT_OPTIONS = [
+  { value: 'price', label: 'Menor preço' },
+  { value: 'duration', label: 'Menor duração' },
+  { value: 'departureTime', label: 'Partida mais cedo' },
+  { value: 'arrivalTime', label: 'Chegada mais cedo' },
+  { value: 'stops', label: 'Menos paradas' },
+];
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+    maximumFractionDigits: 0,
+  }).format(price);
+
+const formatHours = (minutes: number) => `${Math.ceil(minutes / 60)}h`;
+
+const toggle = (list: string[] | undefined, value: string) => {
+  const current = list || [];
+  return current.includes(value)
+    ? current.filter(item => item !== value)
+    : [...current, value];
+};
+
+const FacetSection = ({
+  title,
+  children,
+}: {
+  title: string;
+  children: ReactNode;
+}) => (
+  <div className='border-t border-gray-100 pt-4'>
+    <h4 className='text-sm font-semibold text-gray-900 mb-2'>{title}</h4>
+    <div className='space-y-1'>{children}</div>
+  </div>
+);
+
+const FacetOption = ({
+  facet,
+  checked,
+  type = 'checkbox',
+  name,
+  onChange,
+}: {
+  facet: FacetValue;
+  checked: boolean;
+  type?: 'checkbox' | 'radio';
+  name?: string;
+  onChange: () => void;
+}) => (
+  <label className='flex items-center justify-between text-sm text-gray-700 cursor-pointer'>
+    <span className='flex items-center gap-2'>
+      <input
+        type={type}
+        name={name}
+        checked={checked}
+        onChange={onChange}
+        className='text-blue-600 focus:ring-blue-500'
+      />
+      {facet.label} ({facet.count})
+    </span>
+    <span className='text-gray-500'>{formatPrice(facet.minPrice)}</span>
+  </label>
+);
+
+const FilterSidebar = ({ facets, filters, onChange }: FilterSidebarProps) => {
+  const update = (changes: Partial<ResultFilters>) =>
+    onChange({ ...filters, ...changes, page: 1 });
+
+  const selectedPeriod = Object.entries(PERIOD_WINDOWS).find(
+    ([, [from, to]]) =>
+      filters.departureTimeFrom === from && filters.departureTimeTo === to
+  )?.[0];
+
+  return (
+    <aside className='bg-white rounded-lg shadow-md p-6 space-y-4'>
+      <div className='flex items-center justify-between'>
+        <h3 className='text-lg font-semibold text-gray-900 flex items-center gap-2'>
+          <SlidersHorizontal className='h-5 w-5' />
+          Filtros
+        </h3>
+        <button
+          type='button'
+          onClick={() => onChange({ sortBy: filters.sortBy })}
+          className='text-sm text-blue-600 hover:text-blue-700'
+        >
+          Limpar
+        </button>
+      </div>
+
+      <select
+        value={filters.sortBy || 'price'}
+        onChange={event =>
+          update({ sortBy: event.target.value as ResultFilters['sortBy'] })
+        }
+        className='w-full px-3 py-2 border border-gray-300 rounded-lg text-sm'
+      >
+        {SORT_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      {facets.stops.length > 0 && (
+        <FacetSection title='Paradas'>
+          {facets.stops.map(facet => (
+            <FacetOption
+              key={facet.value}
+              facet={facet}
+              type='radio'
+              name='maxStops'
+              checked={filters.maxStops === parseInt(facet.value)}
+              onChange={() => update({ maxStops: parseInt(facet.value) })}
+            />
+          ))}
+        </FacetSection>
+      )}
+
+      {facets.airlines.length > 0 && (
+        <FacetSection title='Companhias'>
+          {facets.airlines.map(facet => (
+            <FacetOption
+              key={facet.value}
+              facet={facet}
+              checked={filters.airlines?.includes(facet.value) || false}
+              onChange={() =>
+                update({ airlines: toggle(filters.airlines, facet.value) })
+              }
+            />
+          ))}
+        </FacetSection>
+      )}
+
+      {facets.departurePeriods.length > 0 && (
+        <FacetSection title='Horário de partida'>
+          {facets.departurePeriods.map(facet => (
+            <FacetOption
+              key={facet.value}
+              facet={facet}
+              type='radio'
+              name='departurePeriod'
+              checked={selectedPeriod === facet.value}
+              onChange={() => {
+                const [from, to] = PERIOD_WINDOWS[facet.value];
+                update({ departureTimeFrom: from, departureTimeTo: to });
+              }}
+            />
+          ))}
+        </FacetSection>
+      )}
+
+      {facets.connectionAirports.length > 0 && (
+        <FacetSection title='Conexões em'>
+          {facets.connectionAirports.map(facet => (
+            <FacetOption
+              key={facet.value}
+              facet={facet}
+              checked={
+                filters.connectionAirports?.includes(facet.value) || false
+              }
+              onChange={() =>
+                update({
+                  connectionAirports: toggle(
+                    filters.connectionAirports,
+                    facet.value
+                  ),
+                })
+              }
+            />
+          ))}
+        </FacetSection>
+      )}
+
+      {facets.aircraft.length > 0 && (
+        <FacetSection title='Aeronave'>
+          {facets.aircraft.map(facet => (
+            <FacetOption
+              key={facet.value}
+              facet={facet}
+              checked={filters.aircraft?.includes(facet.value) || false}
+              onChange={() =>
+                update({ aircraft: toggle(filters.aircraft, facet.value) })
+              }
+            />
+          ))}
+        </FacetSection>
+      )}
+
+      {facets.price.max > facets.price.min && (
+        <FacetSection
+          title={`Preço máximo: ${formatPrice(filters.maxPrice ?? facets.price.max)}`}
+        >
+          <input
+            type='range'
+            min={facets.price.min}
+            max={facets.price.max}
+            value={filters.maxPrice ?? facets.price.max}
+            onChange={event => update({ maxPrice: Number(event.target.value) })}
+            className='w-full'
+          />
+        </FacetSection>
+      )}
+
+      {facets.duration.max > facets.duration.min && (
+        <FacetSection
+          title={`Duração máxima: ${formatHours(filters.maxDuration ?? facets.duration.max)}`}
+        >
+          <input
+            type='range'
+            min={facets.duration.min}
+            max={facets.duration.max}
+            value={filters.maxDuration ?? facets.duration.max}
+            onChange={event =>
+              update({ maxDuration: Number(event.target.value) })
+            }
+            className='w-full'
+          />
+        </FacetSection>
+      )}
+    </aside>
+  );
+};
+
+export default FilterSidebar;
@@ -4,6 +4,7 @@ import {
   PlaneTakeoff,
   Search,
   Bell,
+  BarChart3,
   User,
   Menu,
   X,
@@ -33,6 +34,7 @@ const Layout = () => {
     { name: 'Início', href: '/', icon: PlaneTakeoff },
     { name: 'Buscar', href: '/search', icon: Search },
     { name: 'Alertas', href: '/alerts', icon: Bell },
+    { name: 'Rotas', href: '/analytics', icon: BarChart3 },
   ];
 
   const isActive = (path: string) => {
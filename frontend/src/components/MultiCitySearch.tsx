@@ -0,0 +1,283 @@
+import { useState } from 'react';
+import { Plane, Plus, Search, TrendingDown, X } from 'lucide-react';
+import {
+  flightApi,
+  FlightSlice,
+  MultiCityLeg,
+  MultiCitySearchResult,
+} from '@/services/apiService';
+import { useErrorHandler } from '@/hooks/useErrorHandler';
+import { ButtonLoader } from '@/components/LoadingSpinner';
+import { FlightListSkeleton } from '@/components/SkeletonLoader';
+
+const MIN_LEGS = 2;
+const MAX_LEGS = 6;
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  }).format(price);
+
+// Horário local do aeroporto: a API envia o horário local com offset
+const formatTime = (dateTime: string) =>
+  new Date(`${dateTime.slice(0, 19)}Z`).toLocaleString('pt-BR', {
+    timeZone: 'UTC',
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const formatMinutes = (minutes: number) =>
+  `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+
+const emptyLeg = (origin = ''): MultiCityLeg => ({
+  origin,
+  destination: '',
+  departureDate: '',
+});
+
+const SliceRow = ({ slice }: { slice: FlightSlice }) => (
+  <div className='flex items-center gap-6'>
+    <div className='w-28'>
+      <div className='font-bold text-gray-900'>
+        {formatTime(slice.departureTime)}
+      </div>
+      <div className='text-sm text-gray-500'>{slice.origin.code}</div>
+    </div>
+    <div className='flex flex-col items-center text-xs text-gray-500'>
+      <span>{formatMinutes(slice.duration)}</span>
+      <Plane className='h-4 w-4 text-gray-400' />
+      <span>{slice.stops === 0 ? 'Direto' : `${slice.stops} parada(s)`}</span>
+    </div>
+    <div className='w-28'>
+      <div className='font-bold text-gray-900'>
+        {formatTime(slice.arrivalTime)}
+      </div>
+      <div className='text-sm text-gray-500'>{slice.destination.code}</div>
+    </div>
+  </div>
+);
+
+// Busca multi-destino: lista ordenada de trechos e itinerários combinados
+const MultiCitySearch = () => {
+  const [legs, setLegs] = useState<MultiCityLeg[]>([emptyLeg(), emptyLeg()]);
+  const [passengers, setPassengers] = useState(1);
+  const [result, setResult] = useState<MultiCitySearchResult | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const { handleError, showSuccess } = useErrorHandler();
+
+  const updateLeg = (index: number, changes: Partial<MultiCityLeg>) =>
+    setLegs(current =>
+      current.map((leg, position) =>
+        position === index ? { ...leg, ...changes } : leg
+      )
+    );
+
+  // O próximo trecho parte, por padrão, de onde o anterior chegou
+  const addLeg = () =>
+    setLegs(current => [
+      ...current,
+      emptyLeg(current[current.length - 1]?.destination),
+    ]);
+
+  const removeLeg = (index: number) =>
+    setLegs(current => current.filter((_, position) => position !== index));
+
+  const isComplete = legs.every(
+    leg =>
+      leg.origin.length === 3 &&
+      leg.destination.length === 3 &&
+      Boolean(leg.departureDate)
+  );
+
+  const search = async () => {
+    setIsSearching(true);
+    setResult(null);
+
+    try {
+      const response = await flightApi.searchMultiCity({
+        legs,
+        passengers,
+        classType: 'business',
+      });
+      if (!response.success || !response.data) {
+        throw new Error(response.message || 'Erro na busca multi-destino');
+      }
+      setResult(response.data);
+      showSuccess(`${response.data.totalOptions} itinerários encontrados!`);
+    } catch (error) {
+      handleError(error);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className='space-y-6'>
+      <div className='space-y-3'>
+        {legs.map((leg, index) => (
+          <div
+            key={index}
+            className='grid grid-cols-1 md:grid-cols-[auto_1fr_1fr_1fr_auto] gap-3 items-center'
+          >
+            <span className='text-sm font-medium text-gray-700'>
+              Trecho {index + 1}
+            </span>
+            <input
+              type='text'
+              value={leg.origin}
+              maxLength={3}
+              onChange={event =>
+                updateLeg(index, { origin: event.target.value.toUpperCase() })
+              }
+              placeholder='Origem (GRU)'
+              className='w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+            />
+            <input
+              type='text'
+              value={leg.destination}
+              maxLength={3}
+              onChange={event =>
+                updateLeg(index, {
+                  destination: event.target.value.toUpperCase(),
+                })
+              }
+              placeholder='Destino (JFK)'
+              className='w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+            />
+            <input
+              type='date'
+              value={leg.departureDate}
+              min={legs[index - 1]?.departureDate}
+              onChange={event =>
+                updateLeg(index, { departureDate: event.target.value })
+              }
+              className='w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+            />
+            <button
+              type='button'
+              onClick={() => removeLeg(index)}
+              disabled={legs.length <= MIN_LEGS}
+              className='p-2 text-gray-400 hover:text-red-600 disabled:invisible'
+              aria-label={`Remover trecho ${index + 1}`}
+            >
+              <X className='h-5 w-5' />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className='flex flex-col md:flex-row md:items-center md:justify-between gap-4'>
+        <button
+          type='button'
+          onClick={addLeg}
+          disabled={legs.length >= MAX_LEGS}
+          className='flex items-center gap-2 text-blue-600 hover:text-blue-700 disabled:text-gray-400'
+        >
+          <Plus className='h-4 w-4' />
+          Adicionar trecho
+        </button>
+        <div className='flex gap-4'>
+          <select
+            value={passengers}
+            onChange={event => setPassengers(Number(event.target.value))}
+            className='px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+          >
+            {[1, 2, 3, 4, 5, 6, 7, 8, 9].map(num => (
+              <option key={num} value={num}>
+                {num} passageiro{num > 1 ? 's' : ''}
+              </option>
+            ))}
+          </select>
+          <button
+            type='button'
+            onClick={search}
+            disabled={isSearching || !isComplete}
+            className='bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-6 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2'
+          >
+            {isSearching ? (
+              <>
+                <ButtonLoader size='sm' />
+                Buscando...
+              </>
+            ) : (
+              <>
+                <Search className='w-4 h-4' />
+                Buscar
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+
+      {isSearching && <FlightListSkeleton count={3} />}
+
+      {result && (
+        <div className='space-y-4'>
+          <h2 className='text-2xl font-bold text-gray-900'>
+            {result.totalOptions} itinerários multi-destino
+          </h2>
+          {result.itineraries.map(itinerary => (
+            <div
+              key={itinerary.id}
+              className='bg-white rounded-lg shadow-md p-6 flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4'
+            >
+              <div className='space-y-3'>
+                <div className='flex items-center gap-3'>
+                  <span className='text-lg font-semibold text-gray-900'>
+                    {itinerary.airline}
+                  </span>
+                  {itinerary.fareType === 'multi-city' ? (
+                    <span className='bg-green-100 text-green-800 px-2 py-1 rounded-full text-xs font-medium'>
+                      Tarifa multi-destino
+                    </span>
+                  ) : (
+                    <span className='bg-gray-100 text-gray-700 px-2 py-1 rounded-full text-xs font-medium'>
+                      {itinerary.slices.length} bilhetes só ida
+                    </span>
+                  )}
+                </div>
+                {itinerary.slices.map((slice, index) => (
+                  <SliceRow key={index} slice={slice} />
+                ))}
+              </div>
+              <div className='text-right'>
+                <div className='text-2xl font-bold text-gray-900'>
+                  {formatPrice(itinerary.price)}
+                </div>
+                {itinerary.savings && (
+                  <div className='flex items-center justify-end gap-1 text-sm text-green-600'>
+                    <TrendingDown className='h-4 w-4' />
+                    economia de {formatPrice(itinerary.savings)}
+                  </div>
+                )}
+                <div className='flex flex-wrap justify-end gap-2 mt-2'>
+                  {itinerary.bookingUrls.map(
+                    (url, index) =>
+                      url && (
+                        <a
+                          key={url}
+                          href={url}
+                          target='_blank'
+                          rel='noopener noreferrer'
+                          className='bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 text-sm'
+                        >
+                          {itinerary.bookingUrls.length > 1
+                            ? `Comprar trecho ${index + 1}`
+                            : 'Comprar'}
+                        </a>
+                      )
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MultiCitySearch;
@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import { ArrowLeft, Plane, TrendingDown } from 'lucide-react';
+import {
+  flightApi,
+  FlightSlice,
+  OutboundChoice,
+  PassengerPrice,
+  RoundTripOption,
+  RoundTripSearchResult,
+} from '@/services/apiService';
+import { useErrorHandler } from '@/hooks/useErrorHandler';
+import { FlightListSkeleton } from '@/components/SkeletonLoader';
+
+interface RoundTripResultsProps {
+  result: RoundTripSearchResult;
+}
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  }).format(price);
+
+const PASSENGER_LABELS: Record<PassengerPrice['type'], string> = {
+  ADT: 'adulto',
+  CHD: 'criança',
+  INF: 'bebê',
+};
+
+// Ex: "2 × adulto R$ 1.000,00 • 1 × criança R$ 750,00"
+const formatBreakdown = (breakdown: PassengerPrice[]) =>
+  breakdown
+    .map(
+      item =>
+        `${item.count} × ${PASSENGER_LABELS[item.type]} ${formatPrice(item.unitPrice)}`
+    )
+    .join(' • ');
+
+// Horário local do aeroporto: a API envia o horário local com offset
+const formatTime = (dateTime: string) =>
+  new Date(`${dateTime.slice(0, 19)}Z`).toLocaleString('pt-BR', {
+    timeZone: 'UTC',
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const formatMinutes = (minutes: number) =>
+  `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+
+const SliceSummary = ({ slice }: { slice: FlightSlice }) => (
+  <div className='flex items-center gap-6'>
+    <div>
+      <div className='text-lg font-bold text-gray-900'>
+        {formatTime(slice.departureTime)}
+      </div>
+      <div className='text-sm text-gray-500'>{slice.origin.code}</div>
+    </div>
+    <div className='flex flex-col items-center text-xs text-gray-500'>
+      <span>{formatMinutes(slice.duration)}</span>
+      <Plane className='h-4 w-4 text-gray-400' />
+      <span>{slice.stops === 0 ? 'Direto' : `${slice.stops} parada(s)`}</span>
+    </div>
+    <div>
+      <div className='text-lg font-bold text-gray-900'>
+        {formatTime(slice.arrivalTime)}
+      </div>
+      <div className='text-sm text-gray-500'>{slice.destination.code}</div>
+    </div>
+  </div>
+);
+
+// Ida e volta em duas etapas: escolha da ida e, depois, das voltas compatíveis
+const RoundTripResults = ({ result }: RoundTripResultsProps) => {
+  const [selected, setSelected] = useState<OutboundChoice | null>(null);
+  const [returns, setReturns] = useState<RoundTripOption[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { handleError } = useErrorHandler();
+
+  const selectOutbound = async (outbound: OutboundChoice) => {
+    setSelected(outbound);
+    setReturns([]);
+    setIsLoading(true);
+
+    try {
+      const response = await flightApi.getRoundTripReturns(
+        result.searchId,
+        outbound.key
+      );
+      if (response.success && response.data) {
+        setReturns(response.data.returns);
+      } else {
+        throw new Error(response.message || 'Busca expirada, refaça a busca');
+      }
+    } catch (error) {
+      handleError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!selected) {
+    return (
+      <>
+        <h2 className='text-2xl font-bold text-gray-900 mb-2'>
+          Escolha o voo de ida
+        </h2>
+        <p className='text-gray-600 mb-6'>
+          {result.totalOptions} combinações de ida e volta. Preços totais, ida e
+          volta.
+        </p>
+        <div className='space-y-4'>
+          {result.outbounds.map(outbound => (
+            <button
+              key={outbound.key}
+              type='button'
+              onClick={() => selectOutbound(outbound)}
+              className='w-full text-left bg-white rounded-lg shadow-md p-6 hover:shadow-lg transition-shadow flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4'
+            >
+              <div>
+                <div className='text-lg font-semibold text-gray-900 mb-2'>
+                  {outbound.airline}
+                </div>
+                <SliceSummary slice={outbound.slice} />
+              </div>
+              <div className='text-right'>
+                <div className='text-sm text-gray-500'>a partir de</div>
+                <div className='text-2xl font-bold text-gray-900'>
+                  {formatPrice(outbound.fromPrice)}
+                </div>
+                <div className='text-sm text-gray-500'>
+                  {outbound.returnOptions} opções de volta
+                </div>
+              </div>
+            </button>
+          ))}
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <button
+        type='button'
+        onClick={() => setSelected(null)}
+        className='flex items-center gap-2 text-blue-600 hover:text-blue-700 mb-4'
+      >
+        <ArrowLeft className='h-4 w-4' />
+        Trocar voo de ida
+      </button>
+      <div className='bg-blue-50 rounded-lg p-4 mb-6'>
+        <div className='text-sm font-medium text-blue-900 mb-2'>
+          Ida selecionada
+        </div>
+        <SliceSummary slice={selected.slice} />
+      </div>
+
+      <h2 className='text-2xl font-bold text-gray-900 mb-6'>
+        Escolha o voo de volta
+      </h2>
+      {isLoading ? (
+        <FlightListSkeleton count={3} />
+      ) : (
+        <div className='space-y-4'>
+          {returns.map(option => (
+            <div
+              key={option.id}
+              className='bg-white rounded-lg shadow-md p-6 flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4'
+            >
+              <div>
+                <div className='flex items-center gap-3 mb-2'>
+                  <span className='text-lg font-semibold text-gray-900'>
+                    {option.airline}
+                  </span>
+                  {option.fareType === 'round-trip' ? (
+                    <span className='bg-green-100 text-green-800 px-2 py-1 rounded-full text-xs font-medium'>
+                      Tarifa ida e volta
+                    </span>
+                  ) : (
+                    <span className='bg-gray-100 text-gray-700 px-2 py-1 rounded-full text-xs font-medium'>
+                      2 bilhetes só ida
+                    </span>
+                  )}
+                </div>
+                <SliceSummary slice={option.inbound} />
+              </div>
+              <div className='text-right'>
+                <div className='text-2xl font-bold text-gray-900'>
+                  {formatPrice(option.price)}
+                </div>
+                {option.priceBreakdown &&
+                  option.priceBreakdown.some(
+                    item => item.count > 1 || item.type !== 'ADT'
+                  ) && (
+                    <div className='text-xs text-gray-500'>
+                      {formatBreakdown(option.priceBreakdown)}
+                    </div>
+                  )}
+                {option.savings && (
+                  <div className='flex items-center justify-end gap-1 text-sm text-green-600'>
+                    <TrendingDown className='h-4 w-4' />
+                    economia de {formatPrice(option.savings)}
+                  </div>
+                )}
+                <div className='flex justify-end gap-2 mt-2'>
+                  {option.bookingUrls.map(
+                    (url, index) =>
+                      url && (
+                        <a
+                          key={url}
+                          href={url}
+                          target='_blank'
+                          rel='noopener noreferrer'
+                          className='bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 text-sm'
+                        >
+                          {option.bookingUrls.length > 1
+                            ? index === 0
+                              ? 'Comprar ida'
+                              : 'Comprar volta'
+                            : 'Comprar'}
+                        </a>
+                      )
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default RoundTripResults;
@@ -0,0 +1,507 @@
+import { useState, useEffect, FormEvent } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { BarChart3, Activity, Search, TrendingDown, Users } from 'lucide-react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  PieChart,
+  Pie,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from 'recharts';
+import { analyticsApi, ClassType, RouteAnalytics } from '@/services/apiService';
+import { SectionLoader } from '@/components/LoadingSpinner';
+
+const WEEKDAYS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+const CABIN_LABELS: Record<string, string> = {
+  economy: 'Econômica',
+  business: 'Executiva',
+  first: 'Primeira',
+};
+
+const CABIN_COLORS: Record<string, string> = {
+  economy: '#10B981',
+  business: '#2563EB',
+  first: '#9333EA',
+};
+
+const CARRIER_COLORS = [
+  '#2563EB',
+  '#10B981',
+  '#F59E0B',
+  '#EF4444',
+  '#9333EA',
+  '#6B7280',
+];
+
+const VOLATILITY_LABELS = {
+  low: { text: 'Baixa', style: 'text-green-700 bg-green-50' },
+  medium: { text: 'Média', style: 'text-yellow-700 bg-yellow-50' },
+  high: { text: 'Alta', style: 'text-red-700 bg-red-50' },
+};
+
+const formatPrice = (price: number, currency: string) =>
+  new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: 0,
+  }).format(price);
+
+const formatWindow = ({
+  minDays,
+  maxDays,
+}: {
+  minDays: number;
+  maxDays: number | null;
+}) => (maxDays === null ? `${minDays}+ dias` : `${minDays}-${maxDays} dias`);
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+  });
+
+// Uma linha por dia com a média de cada cabine
+const buildTrendData = (fareTrend: RouteAnalytics['fareTrend']) => {
+  const byDate = new Map<string, Record<string, string | number>>();
+
+  Object.entries(fareTrend).forEach(([cabin, days]) =>
+    days.forEach(day => {
+      const row = byDate.get(day.date) || { date: day.date };
+      row[cabin] = day.avgPrice;
+      byDate.set(day.date, row);
+    })
+  );
+
+  return [...byDate.values()].sort((a, b) =>
+    String(a.date).localeCompare(String(b.date))
+  );
+};
+
+const RouteAnalyticsPage = () => {
+  const { route } = useParams();
+  const navigate = useNavigate();
+  const [routeOrigin = '', routeDestination = ''] = (route || '').split('-');
+
+  const [origin, setOrigin] = useState(routeOrigin);
+  const [destination, setDestination] = useState(routeDestination);
+  const [classType, setClassType] = useState<ClassType>('both');
+  const [days, setDays] = useState(90);
+  const [analytics, setAnalytics] = useState<RouteAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setOrigin(routeOrigin);
+    setDestination(routeDestination);
+  }, [routeOrigin, routeDestination]);
+
+  useEffect(() => {
+    if (routeOrigin.length !== 3 || routeDestination.length !== 3) {
+      setAnalytics(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    analyticsApi
+      .getRoute(routeOrigin, routeDestination, { classType, days })
+      .then(response => {
+        if (!cancelled && response.success && response.data) {
+          setAnalytics(response.data);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          toast.error('Erro ao carregar a análise da rota');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [routeOrigin, routeDestination, classType, days]);
+
+  const onSubmit = (event: FormEvent) => {
+    event.preventDefault();
+
+    if (origin.length !== 3 || destination.length !== 3) {
+      toast.error('Informe os códigos IATA de origem e destino');
+      return;
+    }
+    navigate(`/analytics/${origin.toUpperCase()}-${destination.toUpperCase()}`);
+  };
+
+  const trendData = analytics ? buildTrendData(analytics.fareTrend) : [];
+  const weekdayData = (analytics?.weekdays || []).map(day => ({
+    name: WEEKDAYS[day.dayOfWeek],
+    avgPrice: day.avgPrice,
+    cheapest: day.dayOfWeek === analytics?.cheapestWeekday,
+  }));
+  const windowData = (analytics?.bookingWindows || []).map(window => ({
+    name: formatWindow(window.bookingWindow),
+    avgPrice: window.avgPrice,
+    cheapest:
+      window.bookingWindow.minDays ===
+      analytics?.cheapestBookingWindow?.minDays,
+  }));
+
+  return (
+    <div className='min-h-screen bg-gray-50'>
+      <div className='bg-white shadow-sm border-b'>
+        <div className='max-w-7xl mx-auto px-4 py-8'>
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+          >
+            <h1 className='text-3xl font-bold text-gray-900 mb-8 text-center flex items-center justify-center gap-3'>
+              <BarChart3 className='w-8 h-8 text-blue-600' />
+              Análise de Rotas
+            </h1>
+
+            <form
+              onSubmit={onSubmit}
+              className='grid grid-cols-1 md:grid-cols-5 gap-4 items-end'
+            >
+              <div>
+                <label className='block text-sm font-medium text-gray-700 mb-2'>
+                  Origem
+                </label>
+                <input
+                  value={origin}
+                  onChange={event =>
+                    setOrigin(event.target.value.toUpperCase())
+                  }
+                  maxLength={3}
+                  placeholder='GRU'
+                  className='w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                />
+              </div>
+              <div>
+                <label className='block text-sm font-medium text-gray-700 mb-2'>
+                  Destino
+                </label>
+                <input
+                  value={destination}
+                  onChange={event =>
+                    setDestination(event.target.value.toUpperCase())
+                  }
+                  maxLength={3}
+                  placeholder='JFK'
+                  className='w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                />
+              </div>
+              <div>
+                <label className='block text-sm font-medium text-gray-700 mb-2'>
+                  Cabine
+                </label>
+                <select
+                  value={classType}
+                  onChange={event =>
+                    setClassType(event.target.value as ClassType)
+                  }
+                  className='w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                >
+                  <option value='both'>Todas</option>
+                  <option value='economy'>Econômica</option>
+                  <option value='business'>Executiva</option>
+                  <option value='first'>Primeira</option>
+                </select>
+              </div>
+              <div>
+                <label className='block text-sm font-medium text-gray-700 mb-2'>
+                  Período
+                </label>
+                <select
+                  value={days}
+                  onChange={event => setDays(Number(event.target.value))}
+                  className='w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                >
+                  <option value={30}>30 dias</option>
+                  <option value={90}>90 dias</option>
+                  <option value={180}>180 dias</option>
+                  <option value={365}>1 ano</option>
+                </select>
+              </div>
+              <button
+                type='submit'
+                className='bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center gap-2'
+              >
+                <Search className='w-5 h-5' />
+                Analisar
+              </button>
+            </form>
+          </motion.div>
+        </div>
+      </div>
+
+      <div className='max-w-7xl mx-auto px-4 py-8'>
+        {isLoading && <SectionLoader />}
+
+        {!isLoading && !analytics && (
+          <p className='text-center text-gray-600'>
+            Escolha uma rota para ver a tendência de preços, o melhor dia para
+            voar e a participação das companhias.
+          </p>
+        )}
+
+        {!isLoading && analytics && analytics.observations === 0 && (
+          <p className='text-center text-gray-600'>
+            Ainda não há tarifas observadas para {analytics.origin} →{' '}
+            {analytics.destination} neste período.
+          </p>
+        )}
+
+        {!isLoading && analytics && analytics.observations > 0 && (
+          <div className='space-y-6'>
+            {/* Resumo */}
+            <div className='grid grid-cols-1 md:grid-cols-4 gap-4'>
+              <div className='bg-white rounded-lg shadow p-6'>
+                <p className='text-sm text-gray-600'>Tarifas observadas</p>
+                <p className='text-2xl font-bold text-gray-900'>
+                  {analytics.observations.toLocaleString('pt-BR')}
+                </p>
+                <p className='text-xs text-gray-500'>
+                  últimos {analytics.periodDays} dias
+                </p>
+              </div>
+              <div className='bg-white rounded-lg shadow p-6'>
+                <p className='text-sm text-gray-600 flex items-center gap-1'>
+                  <TrendingDown className='w-4 h-4' />
+                  Melhor momento
+                </p>
+                <p className='text-2xl font-bold text-gray-900'>
+                  {analytics.cheapestWeekday === null
+                    ? '—'
+                    : WEEKDAYS[analytics.cheapestWeekday]}
+                </p>
+                <p className='text-xs text-gray-500'>
+                  {analytics.cheapestBookingWindow
+                    ? `comprando com ${formatWindow(analytics.cheapestBookingWindow)} de antecedência`
+                    : 'histórico insuficiente'}
+                </p>
+              </div>
+              <div className='bg-white rounded-lg shadow p-6'>
+                <p className='text-sm text-gray-600 flex items-center gap-1'>
+                  <Activity className='w-4 h-4' />
+                  Volatilidade
+                </p>
+                {analytics.volatility ? (
+                  <>
+                    <span
+                      className={`inline-block mt-1 px-2 py-1 rounded text-sm font-semibold ${VOLATILITY_LABELS[analytics.volatility.level].style}`}
+                    >
+                      {VOLATILITY_LABELS[analytics.volatility.level].text}
+                    </span>
+                    <p className='text-xs text-gray-500 mt-1'>
+                      variação diária média de{' '}
+                      {analytics.volatility.avgDailyChange}%
+                    </p>
+                  </>
+                ) : (
+                  <p className='text-2xl font-bold text-gray-900'>—</p>
+                )}
+              </div>
+              <div className='bg-white rounded-lg shadow p-6'>
+                <p className='text-sm text-gray-600 flex items-center gap-1'>
+                  <Users className='w-4 h-4' />
+                  Buscas
+                </p>
+                <p className='text-2xl font-bold text-gray-900'>
+                  {analytics.searchVolume
+                    ? analytics.searchVolume.searchCount.toLocaleString('pt-BR')
+                    : 0}
+                </p>
+                <p className='text-xs text-gray-500'>
+                  {analytics.searchVolume
+                    ? `${analytics.searchVolume.rank}ª rota mais buscada`
+                    : 'rota ainda não buscada'}
+                </p>
+              </div>
+            </div>
+
+            {/* Tendência por cabine */}
+            <div className='bg-white rounded-lg shadow p-6'>
+              <h2 className='text-xl font-bold text-gray-900 mb-4'>
+                Tendência de preços por cabine
+              </h2>
+              <ResponsiveContainer width='100%' height={320}>
+                <LineChart data={trendData}>
+                  <CartesianGrid strokeDasharray='3 3' />
+                  <XAxis dataKey='date' tickFormatter={formatDay} />
+                  <YAxis
+                    tickFormatter={value =>
+                      formatPrice(Number(value), analytics.currency)
+                    }
+                    width={90}
+                  />
+                  <Tooltip
+                    formatter={value =>
+                      formatPrice(Number(value), analytics.currency)
+                    }
+                    labelFormatter={label => formatDay(String(label))}
+                  />
+                  <Legend />
+                  {Object.keys(analytics.fareTrend).map(cabin => (
+                    <Line
+                      key={cabin}
+                      type='monotone'
+                      dataKey={cabin}
+                      name={CABIN_LABELS[cabin] || cabin}
+                      stroke={CABIN_COLORS[cabin] || '#6B7280'}
+                      dot={false}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className='grid grid-cols-1 lg:grid-cols-2 gap-6'>
+              {/* Dia da semana */}
+              <div className='bg-white rounded-lg shadow p-6'>
+                <h2 className='text-xl font-bold text-gray-900 mb-4'>
+                  Preço médio por dia de partida
+                </h2>
+                <ResponsiveContainer width='100%' height={260}>
+                  <BarChart data={weekdayData}>
+                    <CartesianGrid strokeDasharray='3 3' />
+                    <XAxis dataKey='name' />
+                    <YAxis
+                      tickFormatter={value =>
+                        formatPrice(Number(value), analytics.currency)
+                      }
+                      width={90}
+                    />
+                    <Tooltip
+                      formatter={value =>
+                        formatPrice(Number(value), analytics.currency)
+                      }
+                    />
+                    <Bar dataKey='avgPrice' name='Preço médio'>
+                      {weekdayData.map(day => (
+                        <Cell
+                          key={day.name}
+                          fill={day.cheapest ? '#10B981' : '#93C5FD'}
+                        />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+
+              {/* Antecedência */}
+              <div className='bg-white rounded-lg shadow p-6'>
+                <h2 className='text-xl font-bold text-gray-900 mb-4'>
+                  Preço médio por antecedência da compra
+                </h2>
+                <ResponsiveContainer width='100%' height={260}>
+                  <BarChart data={windowData}>
+                    <CartesianGrid strokeDasharray='3 3' />
+                    <XAxis dataKey='name' />
+                    <YAxis
+                      tickFormatter={value =>
+                        formatPrice(Number(value), analytics.currency)
+                      }
+                      width={90}
+                    />
+                    <Tooltip
+                      formatter={value =>
+                        formatPrice(Number(value), analytics.currency)
+                      }
+                    />
+                    <Bar dataKey='avgPrice' name='Preço médio'>
+                      {windowData.map(window => (
+                        <Cell
+                          key={window.name}
+                          fill={window.cheapest ? '#10B981' : '#93C5FD'}
+                        />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {/* Companhias */}
+            <div className='bg-white rounded-lg shadow p-6'>
+              <h2 className='text-xl font-bold text-gray-900 mb-4'>
+                Participação das companhias
+              </h2>
+              <div className='grid grid-cols-1 lg:grid-cols-2 gap-6 items-center'>
+                <ResponsiveContainer width='100%' height={260}>
+                  <PieChart>
+                    <Pie
+                      data={analytics.carriers}
+                      dataKey='sharePercent'
+                      nameKey='airlineName'
+                      outerRadius={100}
+                      label={({ value }) => `${value}%`}
+                    >
+                      {analytics.carriers.map((carrier, index) => (
+                        <Cell
+                          key={carrier.airlineCode}
+                          fill={CARRIER_COLORS[index % CARRIER_COLORS.length]}
+                        />
+                      ))}
+                    </Pie>
+                    <Tooltip formatter={value => `${value}%`} />
+                  </PieChart>
+                </ResponsiveContainer>
+                <table className='w-full text-sm'>
+                  <thead>
+                    <tr className='text-left text-gray-600 border-b'>
+                      <th className='py-2'>Companhia</th>
+                      <th className='py-2 text-right'>Ofertas</th>
+                      <th className='py-2 text-right'>Preço médio</th>
+                      <th className='py-2 text-right'>Mais barata</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {analytics.carriers.map(carrier => (
+                      <tr
+                        key={carrier.airlineCode}
+                        className='border-b last:border-0'
+                      >
+                        <td className='py-2 font-medium text-gray-900'>
+                          {carrier.airlineName}
+                        </td>
+                        <td className='py-2 text-right'>
+                          {carrier.sharePercent}%
+                        </td>
+                        <td className='py-2 text-right'>
+                          {formatPrice(carrier.avgPrice, analytics.currency)}
+                        </td>
+                        <td className='py-2 text-right'>
+                          {carrier.cheapestPercent}% dos dias
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RouteAnalyticsPage;
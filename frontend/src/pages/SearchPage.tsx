@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import {
   Search,
   Calendar,
@@ -12,65 +12,144 @@ import { motion } from 'framer-motion';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { flightApi } from '@/services/apiService';
+import {
+  flightApi,
+  DateMatrixCell,
+  DateMatrixResult,
+  Flight,
+  FlightSearchParams,
+  FlightSlice,
+  ResultFilters,
+  RoundTripSearchResult,
+  SearchFacets,
+  SearchSummary,
+} from '@/services/apiService';
+import FilterSidebar from '@/components/FilterSidebar';
+import RoundTripResults from '@/components/RoundTripResults';
+import MultiCitySearch from '@/components/MultiCitySearch';
+import DateMatrix from '@/components/DateMatrix';
 import { useErrorHandler } from '@/hooks/useErrorHandler';
 import { ButtonLoader } from '@/components/LoadingSpinner';
 import { FlightListSkeleton, SearchFormSkeleton } from '@/components/SkeletonLoader';
 
-const searchSchema = z.object({
-  origin: z.string().min(3, 'Origem deve ter pelo menos 3 caracteres'),
-  destination: z.string().min(3, 'Destino deve ter pelo menos 3 caracteres'),
-  departureDate: z.string().min(1, 'Data de ida é obrigatória'),
-  returnDate: z.string().optional(),
-  passengers: z
-    .number()
-    .min(1, 'Pelo menos 1 passageiro')
-    .max(9, 'Máximo 9 passageiros'),
-  classType: z.enum(['business', 'first']),
-  tripType: z.enum(['roundtrip', 'oneway']),
-  flexibleDays: z
-    .number()
-    .min(0, 'Flexibilidade deve ser 0 ou mais dias')
-    .max(7, 'Máximo 7 dias de flexibilidade'),
-  enableFlexibleSearch: z.boolean(),
-});
+const searchSchema = z
+  .object({
+    origin: z.string().min(3, 'Origem deve ter pelo menos 3 caracteres'),
+    destination: z.string().min(3, 'Destino deve ter pelo menos 3 caracteres'),
+    departureDate: z.string().min(1, 'Data de ida é obrigatória'),
+    returnDate: z.string().optional(),
+    adults: z.number().min(1, 'Pelo menos 1 adulto'),
+    children: z.number().min(0),
+    infants: z.number().min(0),
+    classType: z.enum(['business', 'first']),
+    tripType: z.enum(['roundtrip', 'oneway', 'multicity']),
+    flexibleDays: z
+      .number()
+      .min(0, 'Flexibilidade deve ser 0 ou mais dias')
+      .max(7, 'Máximo 7 dias de flexibilidade'),
+    enableFlexibleSearch: z.boolean(),
+  })
+  .refine(data => data.infants <= data.adults, {
+    message: 'Cada bebê de colo precisa de um adulto',
+    path: ['infants'],
+  })
+  .refine(data => data.adults + data.children + data.infants <= 9, {
+    message: 'Máximo 9 passageiros',
+    path: ['adults'],
+  });
 
 type SearchFormData = z.infer<typeof searchSchema>;
 
-interface Flight {
-  id: string;
-  airline: string;
-  flightNumber: string;
-  origin: string;
-  destination: string;
-  departureTime: string;
-  arrivalTime: string;
-  duration: string;
-  price: number;
-  classType: string;
-  aircraft?: string;
-  bookingUrl?: string;
-  isOffer?: boolean;
-}
+// Aeroporto informado no formulário, sem nome e cidade
+const formAirport = (code: string) => ({ code, name: code, city: code });
+
+// Adultos (12+), crianças (2 a 11 anos) e bebês de colo (menores de 2 anos)
+const PASSENGER_FIELDS: {
+  name: 'adults' | 'children' | 'infants';
+  singular: string;
+  plural: string;
+  hint: string;
+  options: number[];
+}[] = [
+  {
+    name: 'adults',
+    singular: 'adulto',
+    plural: 'adultos',
+    hint: '12 anos ou mais',
+    options: [1, 2, 3, 4, 5, 6, 7, 8, 9],
+  },
+  {
+    name: 'children',
+    singular: 'criança',
+    plural: 'crianças',
+    hint: '2 a 11 anos',
+    options: [0, 1, 2, 3, 4, 5, 6, 7, 8],
+  },
+  {
+    name: 'infants',
+    singular: 'bebê',
+    plural: 'bebês',
+    hint: 'Menores de 2 anos, no colo',
+    options: [0, 1, 2, 3, 4],
+  },
+];
 
 const SearchPage = () => {
   const [isSearching, setIsSearching] = useState(false);
   const [flights, setFlights] = useState<Flight[]>([]);
   const [hasSearched, setHasSearched] = useState(false);
   const [priceCalendar, setPriceCalendar] = useState<any[]>([]);
+  const [dateMatrix, setDateMatrix] = useState<DateMatrixResult | null>(null);
   const [recommendations, setRecommendations] = useState<any[]>([]);
   const [showFlexibleOptions, setShowFlexibleOptions] = useState(false);
+  const [pendingProviders, setPendingProviders] = useState(false);
+  const [searchId, setSearchId] = useState<string | null>(null);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [filters, setFilters] = useState<ResultFilters>({});
+  const [roundTrip, setRoundTrip] = useState<RoundTripSearchResult | null>(
+    null
+  );
+  const closeStreamRef = useRef<(() => void) | null>(null);
   const { handleError, showSuccess } = useErrorHandler();
 
+  // Encerrar o stream de busca ao sair da página
+  useEffect(() => () => closeStreamRef.current?.(), []);
+
+  // Filtros e ordenação aplicados no servidor sobre a busca salva
+  useEffect(() => {
+    if (!searchId) {
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const result = await flightApi.getSearch(searchId, {
+          ...filters,
+          limit: 100,
+        });
+        if (result.success && result.data) {
+          setFlights(result.data.flights);
+        }
+      } catch (error) {
+        handleError(error);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [searchId, filters, handleError]);
+
   const {
     register,
     handleSubmit,
+    setValue,
     watch,
     formState: { errors },
   } = useForm<SearchFormData>({
     resolver: zodResolver(searchSchema),
     defaultValues: {
-      passengers: 1,
+      adults: 1,
+      children: 0,
+      infants: 0,
       classType: 'business',
       tripType: 'roundtrip',
       flexibleDays: 3,
@@ -80,42 +159,116 @@ const SearchPage = () => {
 
   const tripType = watch('tripType');
   const enableFlexibleSearch = watch('enableFlexibleSearch');
+  const showFilters = Boolean(facets) && !enableFlexibleSearch;
+
+  // Resultados aparecem à medida que cada provedor responde
+  const streamSearch = (params: FlightSearchParams) =>
+    new Promise<SearchSummary>((resolve, reject) => {
+      closeStreamRef.current?.();
+      setPendingProviders(true);
+      closeStreamRef.current = flightApi.streamSearch(params, {
+        onBatch: batch => {
+          setFlights(current =>
+            [...current, ...batch.flights].sort(
+              (a, b) => a.price - b.price
+            )
+          );
+        },
+        onSummary: summary => {
+          setPendingProviders(false);
+          resolve(summary);
+        },
+        onError: error => {
+          setPendingProviders(false);
+          reject(error);
+        },
+      });
+    });
 
   const onSubmit = async (data: SearchFormData) => {
     setIsSearching(true);
     setHasSearched(true);
+    setFlights([]);
+    setSearchId(null);
+    setFacets(null);
+    setFilters({});
+    setRoundTrip(null);
+    setDateMatrix(null);
 
     try {
+      // Total do grupo e composição por tipo de passageiro
+      const passengerPayload = {
+        passengers: data.adults + data.children + data.infants,
+        adults: data.adults,
+        children: data.children,
+        infants: data.infants,
+      };
       const searchPayload = {
         origin: data.origin,
         destination: data.destination,
         departureDate: data.departureDate,
         returnDate: data.returnDate,
-        passengers: data.passengers,
+        ...passengerPayload,
         classType: data.classType,
         ...(data.enableFlexibleSearch && {
           flexibleDays: data.flexibleDays,
         }),
       };
 
-      const result = data.enableFlexibleSearch
-        ? await flightApi.searchFlexible(searchPayload)
-        : await flightApi.search(searchPayload);
+      // Ida e volta: escolha da ida e depois das voltas combinadas
+      if (
+        !data.enableFlexibleSearch &&
+        data.tripType === 'roundtrip' &&
+        data.returnDate
+      ) {
+        const result = await flightApi.searchRoundTrip(searchPayload);
+        if (!result.success || !result.data) {
+          throw new Error(result.message || 'Erro na busca de ida e volta');
+        }
+        setRoundTrip(result.data);
+        showSuccess(
+          `${result.data.totalOptions} combinações de ida e volta encontradas!`
+        );
+        return;
+      }
+
+      if (!data.enableFlexibleSearch) {
+        const summary = await streamSearch(searchPayload);
+        setFlights(summary.flights);
+        setFacets(summary.facets);
+        setSearchId(summary.searchId);
+        showSuccess(`${summary.totalResults} voos encontrados!`);
+        return;
+      }
+
+      // Ida e volta flexível: matriz de preços por data de ida e de volta
+      if (data.tripType === 'roundtrip' && data.returnDate) {
+        const flexDays = Math.min(data.flexibleDays, 3);
+        flightApi
+          .getDateMatrix({
+            origin: data.origin,
+            destination: data.destination,
+            departureDate: data.departureDate,
+            returnDate: data.returnDate,
+            departureFlexDays: flexDays,
+            returnFlexDays: flexDays,
+            ...passengerPayload,
+            classType: data.classType,
+          })
+          .then(response => response.data && setDateMatrix(response.data))
+          .catch(handleError);
+      }
+
+      const result = await flightApi.searchFlexible(searchPayload);
 
       if (result.success && result.data) {
-        if (data.enableFlexibleSearch) {
-          const flexibleData = result.data as any;
-          setFlights(flexibleData.flights || []);
-          setPriceCalendar(flexibleData.priceCalendar || []);
-          setRecommendations(flexibleData.recommendations || []);
-          showSuccess(
-            `Busca flexível concluída! ${flexibleData.flights?.length || 0} voos encontrados`
-          );
-        } else {
-          const flights = Array.isArray(result.data) ? result.data : [];
-          setFlights(flights);
-          showSuccess(`${flights.length} voos encontrados!`);
-        }
+        const flexibleData = result.data;
+        setFlights(flexibleData.bestOffers || []);
+        setPriceCalendar(flexibleData.priceCalendar || []);
+        setRecommendations(flexibleData.recommendations || []);
+        showSuccess(
+          `Busca flexível concluída! ${flexibleData.bestOffers?.length || 0} voos encontrados`
+        );
       } else {
         throw new Error(result.error?.message || 'Erro na busca de voos');
       }
@@ -126,30 +279,38 @@ const SearchPage = () => {
       const mockFlights: Flight[] = [
         {
           id: '1',
-          airline: 'LATAM',
+          airline: { code: 'LA', name: 'LATAM' },
           flightNumber: 'LA3001',
-          origin: data.origin,
-          destination: data.destination,
+          origin: formAirport(data.origin),
+          destination: formAirport(data.destination),
           departureTime: '08:30',
           arrivalTime: '11:45',
-          duration: '3h 15m',
+          duration: 195,
           price: 2850,
+          currency: 'BRL',
           classType: data.classType,
+          availableSeats: 0,
+          stops: 0,
+          slices: [],
           aircraft: 'Boeing 787',
           bookingUrl: 'https://www.latam.com/pt_br/ofertas-voos',
           isOffer: true,
         },
         {
           id: '2',
-          airline: 'GOL',
+          airline: { code: 'G3', name: 'GOL' },
           flightNumber: 'G31234',
-          origin: data.origin,
-          destination: data.destination,
+          origin: formAirport(data.origin),
+          destination: formAirport(data.destination),
           departureTime: '14:20',
           arrivalTime: '17:35',
-          duration: '3h 15m',
+          duration: 195,
           price: 2650,
+          currency: 'BRL',
           classType: data.classType,
+          availableSeats: 0,
+          stops: 0,
+          slices: [],
           aircraft: 'Boeing 737 MAX',
           bookingUrl: 'https://www.voegol.com.br/pt/ofertas',
           isOffer: false,
@@ -180,6 +341,13 @@ const SearchPage = () => {
     }
   };
 
+  // Escolher uma célula da matriz preenche as datas para a busca exata
+  const selectMatrixDates = (cell: DateMatrixCell) => {
+    setValue('departureDate', cell.departureDate);
+    setValue('returnDate', cell.returnDate);
+    setValue('enableFlexibleSearch', false);
+  };
+
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('pt-BR', {
       style: 'currency',
@@ -187,6 +355,30 @@ const SearchPage = () => {
     }).format(price);
   };
 
+  const formatMinutes = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    return `${hours}h ${minutes % 60}m`;
+  };
+
+  const describeSlice = (slice: FlightSlice) => {
+    const route = [
+      ...slice.segments.map(segment => segment.origin.code),
+      slice.destination.code,
+    ].join(' → ');
+    const connections = slice.segments
+      .filter(segment => segment.layoverDuration !== undefined)
+      .map(
+        segment =>
+          `conexão em ${segment.destination.code} (${formatMinutes(segment.layoverDuration || 0)})`
+      );
+
+    return [
+      route,
+      slice.stops === 0 ? 'Direto' : `${slice.stops} parada(s)`,
+      ...connections,
+    ].join(' • ');
+  };
+
   return (
     <div className='min-h-screen bg-gray-50'>
       {/* Search Form */}
@@ -239,196 +431,230 @@ const SearchPage = () => {
                       Somente Ida
                     </span>
                   </label>
-                </div>
-              </div>
-
-              <div className='grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4'>
-                {/* Origin */}
-                <div>
-                  <label className='block text-sm font-medium text-gray-700 mb-2'>
-                    <MapPin className='w-4 h-4 inline mr-1' />
-                    Origem
+                  <label className='flex items-center'>
+                    <input
+                      type='radio'
+                      value='multicity'
+                      {...register('tripType')}
+                      className='sr-only'
+                    />
+                    <span
+                      className={`px-4 py-2 rounded-md cursor-pointer transition-colors ${
+                        tripType === 'multicity'
+                          ? 'bg-white text-blue-600 shadow-sm'
+                          : 'text-gray-600 hover:text-gray-900'
+                      }`}
+                    >
+                      Multi-destino
+                    </span>
                   </label>
-                  <input
-                    type='text'
-                    {...register('origin')}
-                    placeholder='São Paulo (GRU)'
-                    className='w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
-                  />
-                  {errors.origin && (
-                    <p className='text-red-500 text-sm mt-1'>
-                      {errors.origin.message}
-                    </p>
-                  )}
                 </div>
+              </div>
 
-                {/* Destination */}
-                <div>
-                  <label className='block text-sm font-medium text-gray-700 mb-2'>
-                    <MapPin className='w-4 h-4 inline mr-1' />
-                    Destino
-                  </label>
-                  <input
-                    type='text'
-                    {...register('destination')}
-                    placeholder='Rio de Janeiro (GIG)'
-                    className='w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
-                  />
-                  {errors.destination && (
-                    <p className='text-red-500 text-sm mt-1'>
-                      {errors.destination.message}
-                    </p>
-                  )}
-                </div>
+              {tripType !== 'multicity' && (
+                <>
+                <div className='grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4'>
+                  {/* Origin */}
+                  <div>
+                    <label className='block text-sm font-medium text-gray-700 mb-2'>
+                      <MapPin className='w-4 h-4 inline mr-1' />
+                      Origem
+                    </label>
+                    <input
+                      type='text'
+                      {...register('origin')}
+                      placeholder='São Paulo (GRU)'
+                      className='w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                    />
+                    {errors.origin && (
+                      <p className='text-red-500 text-sm mt-1'>
+                        {errors.origin.message}
+                      </p>
+                    )}
+                  </div>
 
-                {/* Departure Date */}
-                <div>
-                  <label className='block text-sm font-medium text-gray-700 mb-2'>
-                    <Calendar className='w-4 h-4 inline mr-1' />
-                    Data de Ida
-                  </label>
-                  <input
-                    type='date'
-                    {...register('departureDate')}
-                    className='w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
-                  />
-                  {errors.departureDate && (
-                    <p className='text-red-500 text-sm mt-1'>
-                      {errors.departureDate.message}
-                    </p>
-                  )}
-                </div>
+                  {/* Destination */}
+                  <div>
+                    <label className='block text-sm font-medium text-gray-700 mb-2'>
+                      <MapPin className='w-4 h-4 inline mr-1' />
+                      Destino
+                    </label>
+                    <input
+                      type='text'
+                      {...register('destination')}
+                      placeholder='Rio de Janeiro (GIG)'
+                      className='w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                    />
+                    {errors.destination && (
+                      <p className='text-red-500 text-sm mt-1'>
+                        {errors.destination.message}
+                      </p>
+                    )}
+                  </div>
 
-                {/* Return Date */}
-                {tripType === 'roundtrip' && (
+                  {/* Departure Date */}
                   <div>
                     <label className='block text-sm font-medium text-gray-700 mb-2'>
                       <Calendar className='w-4 h-4 inline mr-1' />
-                      Data de Volta
+                      Data de Ida
                     </label>
                     <input
                       type='date'
-                      {...register('returnDate')}
+                      {...register('departureDate')}
                       className='w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
                     />
+                    {errors.departureDate && (
+                      <p className='text-red-500 text-sm mt-1'>
+                        {errors.departureDate.message}
+                      </p>
+                    )}
                   </div>
-                )}
-              </div>
 
-              {/* Flexible Search Toggle */}
-              <div className='bg-blue-50 rounded-lg p-4 mb-4'>
-                <div className='flex items-center justify-between'>
-                  <div className='flex items-center gap-3'>
-                    <Clock className='w-5 h-5 text-blue-600' />
+                  {/* Return Date */}
+                  {tripType === 'roundtrip' && (
                     <div>
-                      <h3 className='font-semibold text-gray-900'>
-                        Busca Flexível
-                      </h3>
-                      <p className='text-sm text-gray-600'>
-                        Encontre as melhores ofertas com flexibilidade de datas
-                      </p>
+                      <label className='block text-sm font-medium text-gray-700 mb-2'>
+                        <Calendar className='w-4 h-4 inline mr-1' />
+                        Data de Volta
+                      </label>
+                      <input
+                        type='date'
+                        {...register('returnDate')}
+                        className='w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                      />
                     </div>
-                  </div>
-                  <label className='relative inline-flex items-center cursor-pointer'>
-                    <input
-                      type='checkbox'
-                      {...register('enableFlexibleSearch')}
-                      className='sr-only peer'
-                      onChange={e => setShowFlexibleOptions(e.target.checked)}
-                    />
-                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
-                  </label>
+                  )}
                 </div>
 
-                {enableFlexibleSearch && (
-                  <div className='mt-4 pt-4 border-t border-blue-200'>
-                    <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+                {/* Flexible Search Toggle */}
+                <div className='bg-blue-50 rounded-lg p-4 mb-4'>
+                  <div className='flex items-center justify-between'>
+                    <div className='flex items-center gap-3'>
+                      <Clock className='w-5 h-5 text-blue-600' />
                       <div>
-                        <label className='block text-sm font-medium text-gray-700 mb-2'>
-                          <Calendar className='w-4 h-4 inline mr-1' />
-                          Flexibilidade (± dias)
-                        </label>
-                        <select
-                          {...register('flexibleDays', { valueAsNumber: true })}
-                          className='w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
-                        >
-                          <option value={0}>Data exata</option>
-                          <option value={1}>± 1 dia</option>
-                          <option value={2}>± 2 dias</option>
-                          <option value={3}>± 3 dias</option>
-                          <option value={5}>± 5 dias</option>
-                          <option value={7}>± 7 dias</option>
-                        </select>
-                      </div>
-                      <div className='flex items-end'>
-                        <div className='bg-green-100 text-green-800 px-3 py-2 rounded-lg text-sm'>
-                          <TrendingDown className='w-4 h-4 inline mr-1' />
-                          Economize até 40% com busca flexível
-                        </div>
+                        <h3 className='font-semibold text-gray-900'>
+                          Busca Flexível
+                        </h3>
+                        <p className='text-sm text-gray-600'>
+                          Encontre as melhores ofertas com flexibilidade de datas
+                        </p>
                       </div>
                     </div>
+                    <label className='relative inline-flex items-center cursor-pointer'>
+                      <input
+                        type='checkbox'
+                        {...register('enableFlexibleSearch')}
+                        className='sr-only peer'
+                        onChange={e => setShowFlexibleOptions(e.target.checked)}
+                      />
+                      <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                    </label>
                   </div>
-                )}
-              </div>
-
-              <div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
-                {/* Passengers */}
-                <div>
-                  <label className='block text-sm font-medium text-gray-700 mb-2'>
-                    <Users className='w-4 h-4 inline mr-1' />
-                    Passageiros
-                  </label>
-                  <select
-                    {...register('passengers', { valueAsNumber: true })}
-                    className='w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
-                  >
-                    {[1, 2, 3, 4, 5, 6, 7, 8, 9].map(num => (
-                      <option key={num} value={num}>
-                        {num} passageiro{num > 1 ? 's' : ''}
-                      </option>
-                    ))}
-                  </select>
-                </div>
 
-                {/* Class Type */}
-                <div>
-                  <label className='block text-sm font-medium text-gray-700 mb-2'>
-                    <Plane className='w-4 h-4 inline mr-1' />
-                    Classe
-                  </label>
-                  <select
-                    {...register('classType')}
-                    className='w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
-                  >
-                    <option value='business'>Executiva</option>
-                    <option value='first'>Primeira Classe</option>
-                  </select>
+                  {enableFlexibleSearch && (
+                    <div className='mt-4 pt-4 border-t border-blue-200'>
+                      <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+                        <div>
+                          <label className='block text-sm font-medium text-gray-700 mb-2'>
+                            <Calendar className='w-4 h-4 inline mr-1' />
+                            Flexibilidade (± dias)
+                          </label>
+                          <select
+                            {...register('flexibleDays', { valueAsNumber: true })}
+                            className='w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                          >
+                            <option value={0}>Data exata</option>
+                            <option value={1}>± 1 dia</option>
+                            <option value={2}>± 2 dias</option>
+                            <option value={3}>± 3 dias</option>
+                            <option value={5}>± 5 dias</option>
+                            <option value={7}>± 7 dias</option>
+                          </select>
+                        </div>
+                        <div className='flex items-end'>
+                          <div className='bg-green-100 text-green-800 px-3 py-2 rounded-lg text-sm'>
+                            <TrendingDown className='w-4 h-4 inline mr-1' />
+                            Economize até 40% com busca flexível
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                  )}
                 </div>
 
-                {/* Search Button */}
-                <div className='flex items-end'>
-                  <button
-                    type='submit'
-                    disabled={isSearching}
-                    className='w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-6 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2'
-                  >
-                    {isSearching ? (
-                      <>
-                        <ButtonLoader size="sm" />
-                        {enableFlexibleSearch
-                          ? 'Buscando ofertas...'
-                          : 'Buscando...'}
-                      </>
-                    ) : (
-                      <>
-                        <Search className='w-4 h-4' />
-                        {enableFlexibleSearch ? 'Buscar Ofertas' : 'Buscar'}
-                      </>
+                <div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
+                  {/* Passengers */}
+                  <div>
+                    <label className='block text-sm font-medium text-gray-700 mb-2'>
+                      <Users className='w-4 h-4 inline mr-1' />
+                      Passageiros
+                    </label>
+                    <div className='grid grid-cols-3 gap-2'>
+                      {PASSENGER_FIELDS.map(field => (
+                        <select
+                          key={field.name}
+                          {...register(field.name, { valueAsNumber: true })}
+                          title={field.hint}
+                          className='w-full px-2 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm'
+                        >
+                          {field.options.map(num => (
+                            <option key={num} value={num}>
+                              {num} {num === 1 ? field.singular : field.plural}
+                            </option>
+                          ))}
+                        </select>
+                      ))}
+                    </div>
+                    {(errors.adults || errors.infants) && (
+                      <p className='text-red-500 text-sm mt-1'>
+                        {errors.adults?.message || errors.infants?.message}
+                      </p>
                     )}
-                  </button>
+                  </div>
+
+                  {/* Class Type */}
+                  <div>
+                    <label className='block text-sm font-medium text-gray-700 mb-2'>
+                      <Plane className='w-4 h-4 inline mr-1' />
+                      Classe
+                    </label>
+                    <select
+                      {...register('classType')}
+                      className='w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                    >
+                      <option value='business'>Executiva</option>
+                      <option value='first'>Primeira Classe</option>
+                    </select>
+                  </div>
+
+                  {/* Search Button */}
+                  <div className='flex items-end'>
+                    <button
+                      type='submit'
+                      disabled={isSearching}
+                      className='w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-6 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2'
+                    >
+                      {isSearching ? (
+                        <>
+                          <ButtonLoader size="sm" />
+                          {enableFlexibleSearch
+                            ? 'Buscando ofertas...'
+                            : 'Buscando...'}
+                        </>
+                      ) : (
+                        <>
+                          <Search className='w-4 h-4' />
+                          {enableFlexibleSearch ? 'Buscar Ofertas' : 'Buscar'}
+                        </>
+                      )}
+                    </button>
+                  </div>
                 </div>
-              </div>
+                </>
+              )}
             </form>
+
+            {tripType === 'multicity' && <MultiCitySearch />}
           </motion.div>
         </div>
       </div>
@@ -441,6 +667,11 @@ const SearchPage = () => {
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.6 }}
           >
+            {/* Date Matrix */}
+            {enableFlexibleSearch && dateMatrix && (
+              <DateMatrix matrix={dateMatrix} onSelect={selectMatrixDates} />
+            )}
+
             {/* Flexible Search Results */}
             {enableFlexibleSearch && priceCalendar.length > 0 && (
               <div className='bg-white rounded-lg shadow-lg p-6 mb-6'>
@@ -542,131 +773,206 @@ const SearchPage = () => {
               </div>
             )}
 
-            {isSearching ? (
-              <>
-                <h2 className='text-2xl font-bold text-gray-900 mb-6'>
-                  Buscando voos...
-                </h2>
-                <FlightListSkeleton count={5} />
-              </>
-            ) : flights.length > 0 ? (
-              <>
-                <h2 className='text-2xl font-bold text-gray-900 mb-6'>
-                  {enableFlexibleSearch
-                    ? 'Todas as Opções'
-                    : `${flights.length} voos encontrados`}
-                </h2>
-                <div className='space-y-4'>
-                  {flights.map(flight => (
-                    <div
-                      key={flight.id}
-                      className='bg-white rounded-lg shadow-md p-6 hover:shadow-lg transition-shadow'
-                    >
-                      <div className='flex flex-col lg:flex-row lg:items-center lg:justify-between'>
-                        <div className='flex-1'>
-                          <div className='flex items-center gap-4 mb-4'>
-                            <div className='text-lg font-semibold text-gray-900'>
-                              {flight.airline}
-                            </div>
-                            <div className='text-sm text-gray-500'>
-                              {flight.flightNumber} • {flight.aircraft}
-                            </div>
-                          </div>
-
-                          <div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
-                            <div>
-                              <div className='text-sm text-gray-500'>Saída</div>
-                              <div className='font-semibold'>
-                                {flight.departureTime}
-                              </div>
-                              <div className='text-sm text-gray-600'>
-                                {flight.origin}
+            <div
+              className={
+                showFilters ? 'grid grid-cols-1 lg:grid-cols-4 gap-6 items-start' : ''
+              }
+            >
+              {showFilters && facets && (
+                <FilterSidebar
+                  facets={facets}
+                  filters={filters}
+                  onChange={setFilters}
+                />
+              )}
+              <div className={showFilters ? 'lg:col-span-3' : ''}>
+                {roundTrip ? (
+                  <RoundTripResults result={roundTrip} />
+                ) : isSearching && flights.length === 0 ? (
+                  <>
+                    <h2 className='text-2xl font-bold text-gray-900 mb-6'>
+                      Buscando voos...
+                    </h2>
+                    <FlightListSkeleton count={5} />
+                  </>
+                ) : flights.length > 0 ? (
+                  <>
+                    <h2 className='text-2xl font-bold text-gray-900 mb-6'>
+                      {enableFlexibleSearch
+                        ? 'Todas as Opções'
+                        : `${flights.length} voos encontrados`}
+                      {pendingProviders && (
+                        <span className='ml-3 text-sm font-normal text-gray-500'>
+                          buscando em mais companhias...
+                        </span>
+                      )}
+                    </h2>
+                    <div className='space-y-4'>
+                      {flights.map(flight => (
+                        <div
+                          key={flight.id}
+                          className='bg-white rounded-lg shadow-md p-6 hover:shadow-lg transition-shadow'
+                        >
+                          <div className='flex flex-col lg:flex-row lg:items-center lg:justify-between'>
+                            <div className='flex-1'>
+                              <div className='flex items-center gap-4 mb-4'>
+                                <div className='text-lg font-semibold text-gray-900'>
+                                  {flight.airline.name}
+                                </div>
+                                <div className='text-sm text-gray-500'>
+                                  {flight.flightNumber} • {flight.aircraft}
+                                </div>
                               </div>
-                            </div>
 
-                            <div className='text-center'>
-                              <div className='text-sm text-gray-500'>
-                                Duração
-                              </div>
-                              <div className='font-semibold'>
-                                {flight.duration}
-                              </div>
-                              <div className='text-sm text-blue-600'>
-                                {flight.classType === 'business'
-                                  ? 'Executiva'
-                                  : 'Primeira Classe'}
+                              <div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
+                                <div>
+                                  <div className='text-sm text-gray-500'>Saída</div>
+                                  <div className='font-semibold'>
+                                    {flight.departureTime}
+                                  </div>
+                                  <div className='text-sm text-gray-600'>
+                                    {flight.origin.code}
+                                  </div>
+                                </div>
+
+                                <div className='text-center'>
+                                  <div className='text-sm text-gray-500'>
+                                    Duração
+                                  </div>
+                                  <div className='font-semibold'>
+                                    {formatMinutes(flight.duration)}
+                                  </div>
+                                  <div className='text-sm text-blue-600'>
+                                    {flight.classType === 'business'
+                                      ? 'Executiva'
+                                      : 'Primeira Classe'}
+                                  </div>
+                                </div>
+
+                                <div>
+                                  <div className='text-sm text-gray-500'>
+                                    Chegada
+                                  </div>
+                                  <div className='font-semibold'>
+                                    {flight.arrivalTime}
+                                  </div>
+                                  <div className='text-sm text-gray-600'>
+                                    {flight.destination.code}
+                                  </div>
+                                </div>
                               </div>
+
+                              {flight.slices && flight.slices.length > 0 && (
+                                <div className='mt-4 pt-4 border-t border-gray-100 space-y-1'>
+                                  {flight.slices.map((slice, index) => (
+                                    <div
+                                      key={index}
+                                      className='text-sm text-gray-600'
+                                    >
+                                      <span className='font-medium text-gray-900'>
+                                        {index === 0 ? 'Ida' : 'Volta'}:
+                                      </span>{' '}
+                                      {describeSlice(slice)}
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
                             </div>
 
-                            <div>
-                              <div className='text-sm text-gray-500'>
-                                Chegada
+                            <div className='mt-4 lg:mt-0 lg:ml-8 text-right'>
+                              <div className='text-2xl font-bold text-blue-600 mb-2'>
+                                {formatPrice(flight.price)}
                               </div>
-                              <div className='font-semibold'>
-                                {flight.arrivalTime}
-                              </div>
-                              <div className='text-sm text-gray-600'>
-                                {flight.destination}
+                              {flight.dealQuality && (
+                                <div
+                                  className={`mb-2 text-sm ${
+                                    flight.dealQuality.label === 'excellent' ||
+                                    flight.dealQuality.label === 'good'
+                                      ? 'font-semibold text-green-700'
+                                      : 'text-gray-600'
+                                  }`}
+                                  title={`Comparada a ${flight.dealQuality.sampleSize} tarifas com a mesma antecedência`}
+                                >
+                                  {flight.dealQuality.description}
+                                </div>
+                              )}
+                              {flight.fares && flight.fares.length > 1 && (
+                                <ul className='mb-3 space-y-1 text-sm'>
+                                  {flight.fares.map(fare => (
+                                    <li
+                                      key={fare.source}
+                                      className={
+                                        fare.isCheapest
+                                          ? 'font-semibold text-green-700'
+                                          : 'text-gray-600'
+                                      }
+                                    >
+                                      <a
+                                        href={fare.bookingUrl || undefined}
+                                        target='_blank'
+                                        rel='noopener noreferrer'
+                                        className='hover:underline'
+                                      >
+                                        {fare.sourceName}: {formatPrice(fare.price)}
+                                        {fare.isCheapest && ' • menor preço'}
+                                      </a>
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                              <div className='flex flex-col gap-2'>
+                                {flight.bookingUrl && (
+                                  <a
+                                    href={flight.bookingUrl}
+                                    target='_blank'
+                                    rel='noopener noreferrer'
+                                    className='bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg font-semibold transition-colors flex items-center gap-2 justify-center'
+                                    onClick={() => {
+                                      // Track click for analytics
+                                      console.log(
+                                        `Redirecionando para: ${flight.airline.name} - ${flight.flightNumber}`
+                                      );
+                                    }}
+                                  >
+                                    <svg
+                                      className='w-4 h-4'
+                                      fill='none'
+                                      stroke='currentColor'
+                                      viewBox='0 0 24 24'
+                                    >
+                                      <path
+                                        strokeLinecap='round'
+                                        strokeLinejoin='round'
+                                        strokeWidth={2}
+                                        d='M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14'
+                                      />
+                                    </svg>
+                                    Comprar na {flight.airline.name}
+                                  </a>
+                                )}
+                                <button className='bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-semibold transition-colors'>
+                                  Detalhes
+                                </button>
                               </div>
                             </div>
                           </div>
                         </div>
-
-                        <div className='mt-4 lg:mt-0 lg:ml-8 text-right'>
-                          <div className='text-2xl font-bold text-blue-600 mb-2'>
-                            {formatPrice(flight.price)}
-                          </div>
-                          <div className='flex flex-col gap-2'>
-                            {flight.bookingUrl && (
-                              <a
-                                href={flight.bookingUrl}
-                                target='_blank'
-                                rel='noopener noreferrer'
-                                className='bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg font-semibold transition-colors flex items-center gap-2 justify-center'
-                                onClick={() => {
-                                  // Track click for analytics
-                                  console.log(
-                                    `Redirecionando para: ${flight.airline} - ${flight.flightNumber}`
-                                  );
-                                }}
-                              >
-                                <svg
-                                  className='w-4 h-4'
-                                  fill='none'
-                                  stroke='currentColor'
-                                  viewBox='0 0 24 24'
-                                >
-                                  <path
-                                    strokeLinecap='round'
-                                    strokeLinejoin='round'
-                                    strokeWidth={2}
-                                    d='M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14'
-                                  />
-                                </svg>
-                                Comprar na {flight.airline}
-                              </a>
-                            )}
-                            <button className='bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-semibold transition-colors'>
-                              Detalhes
-                            </button>
-                          </div>
-                        </div>
-                      </div>
+                      ))}
                     </div>
-                  ))}
-                </div>
-              </>
-            ) : (
-              <div className='text-center py-12'>
-                <Plane className='w-16 h-16 text-gray-400 mx-auto mb-4' />
-                <h3 className='text-xl font-semibold text-gray-900 mb-2'>
-                  Nenhum voo encontrado
-                </h3>
-                <p className='text-gray-600'>
-                  Tente ajustar seus critérios de busca.
-                </p>
+                  </>
+                ) : (
+                  <div className='text-center py-12'>
+                    <Plane className='w-16 h-16 text-gray-400 mx-auto mb-4' />
+                    <h3 className='text-xl font-semibold text-gray-900 mb-2'>
+                      Nenhum voo encontrado
+                    </h3>
+                    <p className='text-gray-600'>
+                      Tente ajustar seus critérios de busca.
+                    </p>
+                  </div>
+                )}
               </div>
-            )}
+            </div>
           </motion.div>
         )}
       </div>
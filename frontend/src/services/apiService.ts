@@ -205,31 +205,460 @@ export interface User {
   updatedAt?: string;
 }
 
-export interface Flight {
-  id: string;
-  airline: string;
+// Modelo de busca e de oferta de voo espelhado do backend
+// (backend/src/services/flightModel.ts)
+
+export type CabinClass = 'economy' | 'business' | 'first';
+
+// 'both' aceita qualquer cabine
+export type ClassType = CabinClass | 'both';
+
+export interface CarrierInfo {
+  code: string; // IATA
+  name: string;
+}
+
+export interface AirportInfo {
+  code: string;
+  name: string;
+  city: string;
+}
+
+export interface FlightSegment {
+  airline: CarrierInfo;
+  operatingAirline?: CarrierInfo;
   flightNumber: string;
-  origin: string;
-  destination: string;
+  origin: AirportInfo;
+  destination: AirportInfo;
   departureTime: string;
   arrivalTime: string;
-  duration: string;
+  duration: number;
+  aircraft?: string;
+  layoverDuration?: number;
+}
+
+// Trecho do itinerário (ida ou volta) com suas conexões
+export interface FlightSlice {
+  origin: AirportInfo;
+  destination: AirportInfo;
+  departureTime: string;
+  arrivalTime: string;
+  duration: number;
+  stops: number;
+  segments: FlightSegment[];
+}
+
+// Preço da mesma oferta em cada fonte consultada
+export interface FareOption {
+  source: string;
+  sourceName: string;
   price: number;
   currency: string;
+  bookingUrl: string;
+  deepLinkUrl?: string;
+  isCheapest: boolean;
+}
+
+// Preço por tipo de passageiro: adulto, criança (2 a 11 anos) e bebê de colo
+export interface PassengerPrice {
+  type: 'ADT' | 'CHD' | 'INF';
+  count: number;
+  unitPrice: number;
+  subtotal: number;
+}
+
+// Composição do grupo; sem ela, passengers conta só adultos
+export interface PassengerCounts {
+  adults?: number;
+  children?: number;
+  infants?: number;
+}
+
+// Oferta de voo. Os campos de topo resumem o trecho de ida; o itinerário
+// completo (conexões e volta) fica em slices
+export interface Flight {
+  id: string;
+  airline: CarrierInfo;
+  flightNumber: string;
+  origin: AirportInfo;
+  destination: AirportInfo;
+  departureTime: string; // horário local do aeroporto, com offset
+  arrivalTime: string;
+  duration: number; // em minutos
+  price: number; // total do grupo de passageiros
+  priceBreakdown?: PassengerPrice[];
+  currency: string;
   classType: string;
   availableSeats: number;
+  stops: number;
   aircraft?: string;
-  stops?: number;
+  bookingUrl: string;
+  deepLinkUrl?: string;
+  isOffer: boolean;
+  discountPercent?: number;
+  originalPrice?: number;
+  baggageIncluded?: boolean;
+  slices: FlightSlice[];
+  fares?: FareOption[];
+  source?: string; // provedor com o menor preço
+  dealQuality?: DealQuality;
+}
+
+// Posição do preço entre as tarifas vistas na rota (mesma cabine e antecedência)
+export interface DealQuality {
+  percentile: number; // % das tarifas observadas mais caras que esta
+  label: 'excellent' | 'good' | 'fair' | 'high';
+  description: string;
+  medianPrice: number; // tarifa de adulto
+  savingsPercent: number;
+  sampleSize: number;
+  bookingWindow: { minDays: number; maxDays: number | null };
 }
 
-export interface FlightSearchParams {
+export interface FlightSearchParams extends PassengerCounts {
+  origin: string; // código IATA
+  destination: string;
+  departureDate: string; // yyyy-MM-dd
+  returnDate?: string;
+  passengers: number;
+  classType: ClassType;
+  flexibleDays?: number;
+}
+
+export interface ProviderSearchStatus {
+  provider: string;
+  providerName: string;
+  success: boolean;
+  results: number;
+  durationMs: number;
+  error?: string;
+}
+
+// Resultados parciais de um provedor durante a busca em stream
+export interface SearchBatch {
+  searchId: string;
+  provider: string;
+  providerName: string;
+  flights: Flight[];
+}
+
+export interface FacetValue {
+  value: string;
+  label: string;
+  count: number;
+  minPrice: number;
+}
+
+// Contagens por filtro calculadas pelo backend sobre todos os resultados
+export interface SearchFacets {
+  airlines: FacetValue[];
+  stops: FacetValue[];
+  connectionAirports: FacetValue[];
+  aircraft: FacetValue[];
+  departurePeriods: FacetValue[];
+  arrivalPeriods: FacetValue[];
+  price: { min: number; max: number };
+  duration: { min: number; max: number };
+}
+
+export interface ResultFilters {
+  sortBy?: 'price' | 'duration' | 'departureTime' | 'arrivalTime' | 'stops';
+  order?: 'asc' | 'desc';
+  departureTimeFrom?: string;
+  departureTimeTo?: string;
+  arrivalTimeFrom?: string;
+  arrivalTimeTo?: string;
+  maxDuration?: number;
+  maxStops?: number;
+  airlines?: string[];
+  excludeAirlines?: string[];
+  connectionAirports?: string[];
+  aircraft?: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  page?: number;
+  limit?: number;
+}
+
+export interface SearchSummary {
+  searchId: string;
+  flights: Flight[];
+  facets: SearchFacets;
+  totalResults: number;
+  providers: ProviderSearchStatus[];
+}
+
+export interface SearchSessionResult {
+  searchId: string;
+  flights: Flight[];
+  facets: SearchFacets;
+  totalResults: number;
+  pagination: { page: number; limit: number; total: number; pages: number };
+}
+
+export interface SearchStreamHandlers {
+  onBatch: (batch: SearchBatch) => void;
+  onSummary: (summary: SearchSummary) => void;
+  onError: (error: Error) => void;
+}
+
+// Combinação de ida e volta (tarifa ida e volta ou dois trechos só ida)
+export interface RoundTripOption {
+  id: string;
+  outboundKey: string;
+  returnKey: string;
+  outbound: FlightSlice;
+  inbound: FlightSlice;
+  price: number;
+  priceBreakdown?: PassengerPrice[];
+  currency: string;
+  fareType: 'round-trip' | 'one-way-combination';
+  airline: string;
+  classType: string;
+  offerIds: string[];
+  bookingUrls: string[];
+  oneWayPrice?: number;
+  savings?: number;
+}
+
+export interface OutboundChoice {
+  key: string;
+  slice: FlightSlice;
+  airline: string;
+  fromPrice: number;
+  currency: string;
+  returnOptions: number;
+  hasRoundTripFare: boolean;
+}
+
+export interface RoundTripSearchResult {
+  searchId: string;
+  outbounds: OutboundChoice[];
+  cheapest: RoundTripOption | null;
+  totalOptions: number;
+}
+
+// Trecho de uma viagem multi-destino
+export interface MultiCityLeg {
   origin: string;
   destination: string;
   departureDate: string;
-  returnDate?: string;
+}
+
+export interface MultiCitySearchParams extends PassengerCounts {
+  legs: MultiCityLeg[];
   passengers: number;
+  classType: ClassType;
+}
+
+// Itinerário multi-destino (tarifa única ou bilhetes só ida por trecho)
+export interface MultiCityItinerary {
+  id: string;
+  slices: FlightSlice[];
+  price: number;
+  priceBreakdown?: PassengerPrice[];
+  currency: string;
+  fareType: 'multi-city' | 'separate-tickets';
+  airline: string;
   classType: string;
-  flexibleDays?: number;
+  offerIds: string[];
+  bookingUrls: string[];
+  separatePrice?: number;
+  savings?: number;
+}
+
+export interface MultiCitySearchResult {
+  legs: (MultiCityLeg & {
+    searchId: string;
+    results: number;
+    cheapestPrice: number | null;
+  })[];
+  itineraries: MultiCityItinerary[];
+  cheapest: MultiCityItinerary | null;
+  totalOptions: number;
+  multiCityFares: number;
+}
+
+// Matriz de preços ida × volta com datas flexíveis
+export interface DateMatrixParams extends PassengerCounts {
+  origin: string;
+  destination: string;
+  departureDate: string;
+  returnDate: string;
+  departureFlexDays?: number;
+  returnFlexDays?: number;
+  minStay?: number;
+  maxStay?: number;
+  passengers?: number;
+  classType?: ClassType;
+}
+
+export interface DateMatrixCell {
+  departureDate: string;
+  returnDate: string;
+  stay: number;
+  withinStay: boolean;
+  price: number | null;
+  currency?: string;
+  flightCount: number;
+  isCheapest: boolean;
+  priceLevel?: 'low' | 'medium' | 'high';
+}
+
+export interface DateMatrixResult {
+  departureDates: string[];
+  returnDates: string[];
+  cells: DateMatrixCell[][];
+  cheapest: DateMatrixCell | null;
+  priceRange: { min: number; max: number };
+}
+
+// Busca gravada no histórico do usuário
+export interface SearchHistoryEntry {
+  id: string;
+  searchType: 'search' | 'round-trip' | 'flexible';
+  params: FlightSearchParams;
+  filters: Record<string, unknown>; // filtros, preferências e ordenação da busca
+  resultsCount: number;
+  createdAt: string;
+}
+
+export interface SearchHistoryPage {
+  searches: SearchHistoryEntry[];
+  pagination: { page: number; limit: number; total: number; pages: number };
+}
+
+// Voo gravado em uma execução da busca salva
+export interface SnapshotFlight {
+  key: string;
+  airline: CarrierInfo;
+  flightNumber: string;
+  departureTime: string;
+  arrivalTime: string;
+  duration: number;
+  stops: number;
+  price: number;
+  currency: string;
+  source?: string;
+}
+
+export interface SnapshotSummary {
+  id: string;
+  resultsCount: number;
+  minPrice: number | null;
+  currency: string;
+  createdAt: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  params: FlightSearchParams;
+  filters: Record<string, unknown>;
+  intervalHours: number;
+  isActive: boolean;
+  lastRunAt: string | null;
+  createdAt: string;
+  latest: SnapshotSummary | null;
+  hasChanges: boolean;
+}
+
+// Busca salva com o que mudou desde a última visualização
+export interface SavedSearchDetails {
+  savedSearch: SavedSearch;
+  snapshot: (SnapshotSummary & { flights: SnapshotFlight[] }) | null;
+  changes: {
+    since: string | null;
+    newFlights: SnapshotFlight[];
+    removedFlights: SnapshotFlight[];
+    priceChanges: {
+      flight: SnapshotFlight;
+      previousPrice: number;
+      change: number;
+      changePercent: number;
+    }[];
+    unchanged: number;
+    minPriceChange: number | null;
+  };
+}
+
+// Tarifa muito abaixo do histórico da rota, confirmada na reverificação
+export interface FareAnomaly {
+  id: string;
+  origin: string;
+  destination: string;
+  departureDate: string;
+  returnDate: string | null;
+  isRoundTrip: boolean;
+  classType: string;
+  airlineCode: string;
+  airlineName: string;
+  flightNumber: string;
+  source: string;
+  fareBasis: string | null;
+  reason: 'price_outlier' | 'fare_basis_drop';
+  price: number; // tarifa de um adulto
+  verifiedPrice: number | null;
+  currency: string;
+  baselineMedian: number;
+  baselineSpread: number;
+  deviations: number;
+  dropPercent: number;
+  status: 'pending' | 'confirmed' | 'rejected';
+  observedAt: string;
+  verifiedAt: string | null;
+  notifiedUsers: number;
+  createdAt: string;
+}
+
+export interface DailyPriceStats {
+  date: string; // dia da observação (yyyy-MM-dd)
+  minPrice: number;
+  maxPrice: number;
+  avgPrice: number;
+  recordCount: number;
+}
+
+export interface PriceSummary {
+  avgPrice: number | null;
+  minPrice: number | null;
+  sampleSize: number;
+}
+
+// Preços e demanda de uma rota (tarifa de um adulto)
+export interface RouteAnalytics {
+  origin: string;
+  destination: string;
+  classType: ClassType;
+  periodDays: number;
+  currency: string;
+  observations: number;
+  fareTrend: Record<string, DailyPriceStats[]>; // por cabine
+  weekdays: (PriceSummary & { dayOfWeek: number })[]; // 0 = domingo
+  cheapestWeekday: number | null;
+  bookingWindows: (PriceSummary & { bookingWindow: DealQuality['bookingWindow'] })[];
+  cheapestBookingWindow: DealQuality['bookingWindow'] | null;
+  carriers: {
+    airlineCode: string;
+    airlineName: string;
+    offers: number;
+    sharePercent: number;
+    avgPrice: number;
+    cheapestPercent: number; // % dos dias em que teve a menor tarifa
+  }[];
+  volatility: {
+    coefficientOfVariation: number;
+    avgDailyChange: number;
+    level: 'low' | 'medium' | 'high';
+    days: number;
+  } | null;
+  searchVolume: {
+    searchCount: number;
+    lastSearched: string;
+    avgPrice: number | null;
+    rank: number;
+  } | null;
+  generatedAt: string;
 }
 
 export interface Alert {
@@ -238,6 +667,7 @@ export interface Alert {
   origin: string;
   destination: string;
   maxPrice: number;
+  minDealPercentile?: number | null; // dispara só para ofertas mais baratas que esse % do histórico
   currency: string;
   isActive: boolean;
   createdAt: string;
@@ -269,16 +699,76 @@ export const authApi = {
 };
 
 export const flightApi = {
-  search: (params: FlightSearchParams) => 
-    apiService.post<Flight[]>('/flights/search', params),
+  search: (params: FlightSearchParams) =>
+    apiService.get<{
+      flights: Flight[];
+      facets: SearchFacets;
+      searchId: string;
+      totalResults: number;
+    }>('/flights/search', { params }),
   
+  // Busca via Server-Sent Events; retorna a função que encerra o stream
+  streamSearch: (params: FlightSearchParams, handlers: SearchStreamHandlers) => {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        query.append(key, String(value));
+      }
+    });
+
+    const source = new EventSource(`${API_BASE_URL}/flights/search/stream?${query}`);
+
+    source.addEventListener('batch', (event) => {
+      handlers.onBatch(JSON.parse((event as MessageEvent).data));
+    });
+    source.addEventListener('summary', (event) => {
+      source.close();
+      handlers.onSummary(JSON.parse((event as MessageEvent).data));
+    });
+    source.addEventListener('error', (event) => {
+      source.close();
+      const data = (event as MessageEvent).data;
+      handlers.onError(
+        new Error(data ? JSON.parse(data).message : 'Conexão com a busca interrompida')
+      );
+    });
+
+    return () => source.close();
+  },
+
+  // Resultados de uma busca já realizada, filtrados e ordenados no servidor
+  getSearch: (searchId: string, filters: ResultFilters = {}) => {
+    const params = Object.fromEntries(
+      Object.entries(filters)
+        .filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0))
+        .map(([key, value]) => [key, Array.isArray(value) ? value.join(',') : value])
+    );
+
+    return apiService.get<SearchSessionResult>(`/flights/searches/${searchId}`, { params });
+  },
+
+  searchRoundTrip: (params: FlightSearchParams) =>
+    apiService.get<RoundTripSearchResult>('/flights/round-trip', { params }),
+
+  getRoundTripReturns: (searchId: string, outboundKey: string) =>
+    apiService.get<{ searchId: string; outboundKey: string; returns: RoundTripOption[] }>(
+      `/flights/round-trip/${searchId}/returns`,
+      { params: { outbound: outboundKey } }
+    ),
+
+  searchMultiCity: (params: MultiCitySearchParams) =>
+    apiService.post<MultiCitySearchResult>('/flights/multi-city', params),
+
   searchFlexible: (params: FlightSearchParams) => 
     apiService.post<{
-      flights: Flight[];
+      bestOffers: Flight[];
       priceCalendar: any[];
       recommendations: any[];
-    }>('/flights/search-flexible', params),
+    }>('/flights/flexible-search', params),
   
+  getDateMatrix: (params: DateMatrixParams) =>
+    apiService.get<DateMatrixResult>('/flights/date-matrix', { params }),
+
   getById: (id: string) => 
     apiService.get<Flight>(`/flights/${id}`),
   
@@ -303,6 +793,37 @@ export const alertApi = {
     apiService.patch<Alert>(`/alerts/${id}/toggle`),
 };
 
+export const savedSearchApi = {
+  getAll: () =>
+    apiService.get<{ savedSearches: SavedSearch[] }>('/saved-searches'),
+
+  // Os filtros seguem o formato da busca regular (ex: maxStops, airlines)
+  create: (
+    data: FlightSearchParams & Omit<ResultFilters, 'sortBy' | 'order' | 'page' | 'limit'> & {
+      name: string;
+      intervalHours?: number;
+    }
+  ) => apiService.post<SavedSearchDetails>('/saved-searches', data),
+
+  get: (id: string, since?: string) =>
+    apiService.get<SavedSearchDetails>(`/saved-searches/${id}`, { params: { since } }),
+
+  getSnapshots: (id: string, page = 1, limit = 20) =>
+    apiService.get<{ snapshots: SnapshotSummary[]; pagination: SearchHistoryPage['pagination'] }>(
+      `/saved-searches/${id}/snapshots`,
+      { params: { page, limit } }
+    ),
+
+  run: (id: string) =>
+    apiService.post<SavedSearchDetails>(`/saved-searches/${id}/run`),
+
+  update: (id: string, data: Partial<Pick<SavedSearch, 'name' | 'isActive' | 'intervalHours'>>) =>
+    apiService.put<SavedSearch>(`/saved-searches/${id}`, data),
+
+  delete: (id: string) =>
+    apiService.delete(`/saved-searches/${id}`),
+};
+
 export const userApi = {
   getProfile: () => 
     apiService.get<User>('/users/profile'),
@@ -318,4 +839,35 @@ export const userApi = {
   
   deleteAccount: () => 
     apiService.delete('/users/account'),
-};
\ No newline at end of file
+
+  getSearchHistory: (page = 1, limit = 20) =>
+    apiService.get<SearchHistoryPage>('/users/me/searches', { params: { page, limit } }),
+
+  // Refaz a busca; result tem o formato da resposta do endpoint original
+  rerunSearch: (searchId: string) =>
+    apiService.post<{ search: SearchHistoryEntry; result: unknown }>(
+      `/users/me/searches/${searchId}/rerun`
+    ),
+
+  deleteSearch: (searchId: string) =>
+    apiService.delete(`/users/me/searches/${searchId}`),
+
+  clearSearchHistory: () =>
+    apiService.delete<{ deleted: number }>('/users/me/searches'),
+};
+
+export const fareAnomalyApi = {
+  getFeed: (params: { origin?: string; destination?: string; classType?: ClassType; page?: number; limit?: number } = {}) =>
+    apiService.get<{ anomalies: FareAnomaly[]; pagination: SearchHistoryPage['pagination'] }>(
+      '/fare-anomalies',
+      { params }
+    ),
+};
+
+export const analyticsApi = {
+  getRoute: (origin: string, destination: string, params: { classType?: ClassType; days?: number } = {}) =>
+    apiService.get<RouteAnalytics>(
+      `/analytics/routes/${origin.toUpperCase()}-${destination.toUpperCase()}`,
+      { params }
+    ),
+};